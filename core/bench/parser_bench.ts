@@ -0,0 +1,94 @@
+// core/bench/parser_bench.ts - Parse time on a 10k-line file
+//
+//   deno task bench-parser
+//
+// "before" is the parser as of the last commit before its scanner, read out
+// of git, so the benchmark runs the code that shipped: a lexer that matched
+// anchored patterns against the rest of the input and cut it off with
+// `substring` after every token.
+
+import { parse, tokenize } from "../src/transpiler/pipeline/parser.ts";
+
+const BEFORE_REVISION = "ef8e1f1";
+
+const FORMS = `;; Accounts
+(import [format] from "./format.hql")
+
+(var accounts [])
+
+(fn open-account (owner: String balance: Number = 0) (-> Object)
+  "Open an account for owner"
+  (let (account {"owner": owner, "balance": balance, "history": []})
+    (.push accounts account)
+    account))
+
+(fx deposit (account amount)
+  (if (<= amount 0)
+    (throw (new Error "Deposit must be positive"))
+    (do
+      (set! account.balance (+ account.balance amount))
+      (.push account.history \`(deposit ~amount))
+      account)))
+
+(class Ledger
+  (var entries #[])
+  (constructor (name) (set! this.name name))
+  (fn add (entry) (.add this.entries entry) this))
+
+(enum Kind (case checking) (case savings))
+
+/* Sum the balances */
+(var total (.reduce accounts (fn (sum a) (+ sum a.balance)) 0))
+(print (format "total: {}" total) 'done 1.5e3 -42)
+`;
+
+const LINES = 10_000;
+const source = buildSource(FORMS, LINES);
+const before = await loadParserBefore();
+
+function buildSource(forms: string, lines: number): string {
+  const chunk = forms.split("\n").length - 1;
+  return forms.repeat(Math.ceil(lines / chunk));
+}
+
+/**
+ * Import parser.ts as of BEFORE_REVISION. Its relative imports are pointed
+ * at the current tree, which still exports what it used.
+ */
+async function loadParserBefore(): Promise<typeof import("../src/transpiler/pipeline/parser.ts")> {
+  const parserDir = new URL("../src/transpiler/pipeline/", import.meta.url);
+  const { stdout, success } = await new Deno.Command("git", {
+    args: ["show", `${BEFORE_REVISION}:./parser.ts`],
+    cwd: parserDir,
+    stdout: "piped",
+  }).output();
+  if (!success) throw new Error(`Cannot read parser.ts at ${BEFORE_REVISION}`);
+
+  const code = new TextDecoder().decode(stdout).replace(
+    /from "(\.\.?\/[^"]+)"/g,
+    (_, specifier) => `from "${new URL(specifier, parserDir).href}"`,
+  );
+  return await import(`data:application/typescript;base64,${encodeBase64(code)}`);
+}
+
+function encodeBase64(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+Deno.bench({ name: "tokenize before", group: "tokenize", baseline: true }, () => {
+  before.tokenize(source, "bench.hql");
+});
+
+Deno.bench({ name: "tokenize", group: "tokenize" }, () => {
+  tokenize(source, "bench.hql");
+});
+
+Deno.bench({ name: "parse before", group: "parse", baseline: true }, () => {
+  before.parse(source, "bench.hql");
+});
+
+Deno.bench({ name: "parse", group: "parse" }, () => {
+  parse(source, "bench.hql");
+});
@@ -0,0 +1,127 @@
+#!/usr/bin/env deno run -A
+
+import { dirname, join, relative, resolve } from "jsr:@std/path@1";
+import { transpileToJavascript } from "../src/transpiler/hql-transpiler.ts";
+import { initializeRuntime } from "../src/common/runtime-initializer.ts";
+import { HQLError, reportError } from "../src/common/error.ts";
+import { parseDiagnosticFormat, parseNonOptionArgs } from "./utils/cli-options.ts";
+import { initializeErrorSystem, recordDiagnostic, writeDiagnostics } from "../src/common/error-system.ts";
+import { globalLogger as logger } from "../src/logger.ts";
+
+/**
+ * Display CLI usage
+ */
+function printHelp(): void {
+  console.error("Usage: deno run -A cli/check.ts <file.hql|dir>...");
+  console.error("\nReports undefined names, and type-checks fx and typed fn definitions and the calls made to them.");
+  console.error("\nOptions:");
+  console.error("  --verbose, -v     Enable verbose logging");
+  console.error("  --debug           Show detailed error information and stack traces");
+  console.error("  --format <fmt>    Report errors as text (default), json or sarif on stdout");
+  console.error("  --help, -h        Show this help message");
+  console.error("\nExamples:");
+  console.error("  deno run -A cli/check.ts src/main.hql");
+  console.error("  deno run -A cli/check.ts src/");
+  console.error("  deno run -A cli/check.ts src/ --format json");
+}
+
+/**
+ * Expand directories into the .hql files they contain
+ */
+async function collectFiles(targets: string[]): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (path: string) => {
+    const info = await Deno.stat(path);
+    if (info.isFile) {
+      files.push(path);
+      return;
+    }
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const child = join(path, entry.name);
+      if (entry.isDirectory) await visit(child);
+      else if (entry.isFile && entry.name.endsWith(".hql")) files.push(child);
+    }
+  };
+  for (const target of targets) await visit(resolve(target));
+  return files.sort();
+}
+
+/**
+ * Print an error as `file:line:column - message`, followed by the offending
+ * source line
+ */
+function printError(error: HQLError, file: string, lines: string[]): void {
+  const { filePath = file, line, column } = error.sourceLocation;
+  const code = error.code ? `${error.code} ` : "";
+  console.error(`${relative(Deno.cwd(), filePath)}:${line ?? 0}:${column ?? 0} - ${code}${error.message}`);
+  if (line && resolve(filePath) === file && lines[line - 1] !== undefined) {
+    const gutter = String(line);
+    console.error(`  ${gutter} | ${lines[line - 1]}`);
+    console.error(`  ${" ".repeat(gutter.length)} | ${" ".repeat(Math.max((column ?? 1) - 1, 0))}^`);
+  }
+}
+
+/**
+ * Entry point
+ */
+export async function main(): Promise<void> {
+  const args = Deno.args[0] === "check" ? Deno.args.slice(1) : Deno.args;
+  const targets = parseNonOptionArgs(args);
+  if (targets.length === 0 || args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(targets.length ? 0 : 1);
+  }
+
+  const verbose = args.includes("--verbose") || args.includes("-v");
+  if (verbose) logger.setEnabled(true);
+  const debug = args.includes("--debug");
+  const format = parseDiagnosticFormat(args);
+  initializeErrorSystem({ debug, format });
+
+  await initializeRuntime();
+
+  const files = await collectFiles(targets);
+  let errorCount = 0;
+  let failedFiles = 0;
+
+  for (const file of files) {
+    try {
+      const source = await Deno.readTextFile(file);
+      const result = await transpileToJavascript(source, {
+        baseDir: dirname(file),
+        currentFile: file,
+        verbose,
+        typecheck: true,
+        collectNameErrors: true,
+      });
+      const errors = [...result.nameErrors ?? [], ...result.typeErrors ?? []].sort((a, b) =>
+        (a.sourceLocation.line ?? 0) - (b.sourceLocation.line ?? 0) ||
+        (a.sourceLocation.column ?? 0) - (b.sourceLocation.column ?? 0)
+      );
+      const lines = source.split("\n");
+      for (const error of errors) {
+        if (format === "text") printError(error, file, lines);
+        else recordDiagnostic(error);
+      }
+      errorCount += errors.length;
+      if (errors.length > 0) failedFiles++;
+    } catch (error) {
+      // A file that does not compile cannot be checked
+      failedFiles++;
+      await reportError(error instanceof Error ? error : new Error(String(error)), debug);
+    }
+  }
+
+  if (errorCount > 0) {
+    console.error(`\nFound ${errorCount} error(s) in ${failedFiles} file(s)`);
+  } else if (failedFiles === 0) {
+    console.error(`Checked ${files.length} file(s): no errors`);
+  }
+  writeDiagnostics();
+  if (failedFiles > 0) Deno.exit(1);
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -15,7 +15,13 @@ USAGE:
   hql run <file>            Execute an HQL source file
   hql run '<expr>'          Evaluate an HQL expression
   hql transpile <file>      Transpile HQL to JavaScript
+  hql check <files>         Type-check fx/fn annotations and their call sites
+  hql watch <file> [--run]  Rebuild (and rerun) whenever sources change
+  hql fmt [--check] <files> Format HQL source files in place
+  hql test [paths]          Run deftest tests in *_test.hql files
+  hql explain [code]        Explain an error code, or list every code
   hql repl                  Start the interactive REPL
+  hql lsp                   Start the language server on stdio
 
 OPTIONS:
   --help, -h                Show this help message
@@ -24,10 +30,21 @@ OPTIONS:
   --verbose                 Enable detailed logging
   --debug                   Show detailed error information and call stacks
   --log <namespaces>        Filter log output to specific namespaces
+  --format <fmt>            Report errors as text, json or sarif (run, transpile, check)
 
 EXAMPLES:
   hql run hello.hql
   hql transpile hello.hql
+  hql transpile hello.hql --typecheck  # fail the build on type errors
+  hql transpile lib.hql --emit ts       # TypeScript with the fx/fn type annotations
+  hql transpile lib.hql --declarations  # also write lib.d.ts for the exports
+  hql check src/            # list every type error under src/
+  hql check src/ --format sarif  # SARIF log for CI code scanning
+  hql watch main.hql --run  # rerun on every save
+  hql fmt --check src/      # list files that need formatting
+  hql test --filter parse   # run matching tests under the current directory
+  hql test --reporter junit # JUnit XML for CI (also: tap)
+  hql explain HQL1010       # what the error means, with a wrong/right example
   hql repl                  # Start the REPL
   hql run '(+ 1 1)'         # prints: 2
   hql run '(+ 1 2)' --time  # prints: 3 with performance metrics
@@ -49,14 +66,14 @@ function validateCommand(args: string[]): { command: string; target?: string } {
   const commandArgs = args.slice(1);
   
   // Accept valid commands
-  if (command !== "run" && command !== "transpile" && command !== "repl") {
+  if (!["run", "transpile", "check", "repl", "lsp", "fmt", "test", "watch", "explain"].includes(command)) {
     console.error(`Error: Unknown command '${command}'`);
     printHelp();
     Deno.exit(1);
   }
   
-  // Ensure a target is provided for run/transpile
-  if ((command === "run" || command === "transpile") && commandArgs.length === 0) {
+  // Ensure a target is provided for run/transpile/check/fmt/watch
+  if (["run", "transpile", "check", "fmt", "watch"].includes(command) && commandArgs.length === 0) {
     console.error(`Error: Missing target for '${command}' command`);
     printHelp();
     Deno.exit(1);
@@ -73,6 +90,46 @@ async function executeTranspileCommand() {
   await main();
 }
 
+/**
+ * Execute the check command
+ */
+async function executeCheckCommand() {
+  const { main } = await import("./check.ts");
+  await main();
+}
+
+/**
+ * Execute the watch command
+ */
+async function executeWatchCommand() {
+  const { main } = await import("./watch.ts");
+  await main();
+}
+
+/**
+ * Execute the fmt command
+ */
+async function executeFmtCommand() {
+  const { main } = await import("./fmt.ts");
+  await main();
+}
+
+/**
+ * Execute the test command
+ */
+async function executeTestCommand() {
+  const { main } = await import("./test.ts");
+  await main();
+}
+
+/**
+ * Execute the explain command
+ */
+async function executeExplainCommand() {
+  const { main } = await import("./explain.ts");
+  main();
+}
+
 /**
  * Execute the repl command
  */
@@ -81,6 +138,14 @@ async function executeReplCommand() {
   await startRepl();
 }
 
+/**
+ * Execute the lsp command
+ */
+async function executeLspCommand() {
+  const { startLanguageServer } = await import("../src/lsp/server.ts");
+  await startLanguageServer();
+}
+
 /**
  * Main CLI function
  */
@@ -114,8 +179,20 @@ async function main() {
     await run(args);
   } else if (command === "transpile") {
     await executeTranspileCommand();
+  } else if (command === "check") {
+    await executeCheckCommand();
+  } else if (command === "watch") {
+    await executeWatchCommand();
+  } else if (command === "fmt") {
+    await executeFmtCommand();
+  } else if (command === "test") {
+    await executeTestCommand();
+  } else if (command === "explain") {
+    await executeExplainCommand();
   } else if (command === "repl") {
     await executeReplCommand(cliOptions);
+  } else if (command === "lsp") {
+    await executeLspCommand();
   }
 }
 
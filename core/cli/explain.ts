@@ -0,0 +1,64 @@
+#!/usr/bin/env deno run -A
+
+import { colorConfig as colors } from "../src/common/error.ts";
+import { ErrorCodeEntry, explainErrorCode, listErrorCodes } from "../src/common/error-catalog.ts";
+import { parseNonOptionArgs } from "./utils/cli-options.ts";
+
+/**
+ * Display CLI usage
+ */
+function printHelp(): void {
+  console.error("Usage: deno run -A cli/explain.ts [code]");
+  console.error("\nExplains an error code printed by the compiler, or lists every code.");
+  console.error("\nOptions:");
+  console.error("  --help, -h        Show this help message");
+  console.error("\nExamples:");
+  console.error("  deno run -A cli/explain.ts HQL1010");
+  console.error("  deno run -A cli/explain.ts 3023");
+  console.error("  deno run -A cli/explain.ts");
+}
+
+/**
+ * Indent a code example under its heading
+ */
+function indent(source: string): string {
+  return source.split("\n").map((line) => `    ${line}`).join("\n");
+}
+
+/**
+ * Render one catalog entry
+ */
+function formatEntry(entry: ErrorCodeEntry): string {
+  const output = [colors.bold(`${entry.code}: ${entry.title}`), "", entry.explanation];
+  if (entry.wrong) output.push("", colors.red("Wrong:"), indent(entry.wrong));
+  if (entry.right) output.push("", colors.cyan("Right:"), indent(entry.right));
+  return output.join("\n");
+}
+
+/**
+ * Entry point
+ */
+export function main(): void {
+  const args = Deno.args[0] === "explain" ? Deno.args.slice(1) : Deno.args;
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(0);
+  }
+
+  const [code] = parseNonOptionArgs(args);
+  if (!code) {
+    for (const entry of listErrorCodes()) console.log(`${entry.code}  ${entry.title}`);
+    return;
+  }
+
+  const entry = explainErrorCode(code);
+  if (!entry) {
+    console.error(`Unknown error code '${code}'. Run 'hql explain' to list every code.`);
+    Deno.exit(1);
+  }
+  console.log(formatEntry(entry));
+}
+
+if (import.meta.main) {
+  main();
+}
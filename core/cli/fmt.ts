@@ -0,0 +1,86 @@
+#!/usr/bin/env deno run -A
+
+import { join, relative, resolve } from "jsr:@std/path@1";
+import { formatSource } from "../src/formatter.ts";
+import { reportError } from "../src/common/error.ts";
+import { parseNonOptionArgs } from "./utils/cli-options.ts";
+
+/**
+ * Display CLI usage
+ */
+function printHelp(): void {
+  console.error("Usage: deno run -A cli/fmt.ts [--check] <file.hql|dir>...");
+  console.error("\nOptions:");
+  console.error("  --check           Report unformatted files without writing them");
+  console.error("  --debug           Show detailed error information and stack traces");
+  console.error("  --help, -h        Show this help message");
+  console.error("\nExamples:");
+  console.error("  deno run -A cli/fmt.ts src/file.hql");
+  console.error("  deno run -A cli/fmt.ts --check src/");
+}
+
+/**
+ * Expand directories into the .hql files they contain
+ */
+async function collectFiles(targets: string[]): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (path: string) => {
+    const info = await Deno.stat(path);
+    if (info.isFile) {
+      files.push(path);
+      return;
+    }
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const child = join(path, entry.name);
+      if (entry.isDirectory) await visit(child);
+      else if (entry.isFile && entry.name.endsWith(".hql")) files.push(child);
+    }
+  };
+  for (const target of targets) await visit(resolve(target));
+  return files.sort();
+}
+
+/**
+ * Entry point
+ */
+export async function main(): Promise<void> {
+  const args = Deno.args[0] === "fmt" ? Deno.args.slice(1) : Deno.args;
+  const targets = parseNonOptionArgs(args);
+  if (targets.length === 0 || args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(targets.length ? 0 : 1);
+  }
+
+  const check = args.includes("--check");
+  const debug = args.includes("--debug");
+  const unformatted: string[] = [];
+  let failed = 0;
+
+  for (const file of await collectFiles(targets)) {
+    const name = relative(Deno.cwd(), file);
+    try {
+      const source = await Deno.readTextFile(file);
+      const formatted = formatSource(source, { filePath: file });
+      if (formatted === source) continue;
+      unformatted.push(name);
+      if (!check) await Deno.writeTextFile(file, formatted);
+    } catch (error) {
+      failed++;
+      await reportError(error instanceof Error ? error : new Error(String(error)), debug);
+    }
+  }
+
+  if (check) {
+    for (const name of unformatted) console.error(`Not formatted: ${name}`);
+    if (unformatted.length > 0) console.error(`\n${unformatted.length} file(s) need formatting`);
+  } else {
+    for (const name of unformatted) console.log(`Formatted ${name}`);
+  }
+
+  if (failed > 0 || (check && unformatted.length > 0)) Deno.exit(1);
+}
+
+if (import.meta.main) {
+  main();
+}
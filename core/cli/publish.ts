@@ -4,6 +4,7 @@
 import { publish } from "./publish/index.ts";
 import { parseArgs } from "jsr:@std/cli@1.0.13/parse-args";
 import { exit } from "@platform/platform.ts";
+import { parseDiagnosticFormat } from "../src/common/cli-utils.ts";
 
 function showHelp() {
   console.log(`
@@ -22,6 +23,7 @@ OPTIONS:
   -version, -v   Package version (defaults to auto-increment)
   -where         Target platform: 'npm' or 'jsr' (defaults to 'jsr')
   -verbose       Enable verbose logging
+  -format        Report failures as text (default), json or sarif on stdout
   -help, -h      Show this help message
 
 EXAMPLES:
@@ -36,14 +38,17 @@ async function main() {
   const args = Deno.args;
   const parsedArgs = parseArgs(args, {
     boolean: ["help", "verbose"],
-    string: ["what", "name", "version", "where"],
+    string: ["what", "name", "version", "where", "format"],
     alias: { h: "help", w: "what", n: "name", v: "version" }
   });
   if (parsedArgs.help) {
     showHelp();
     exit(0);
   }
-  console.log("\n✨ HQL Publish Tool ✨\n");
+  // Machine-readable formats keep stdout for the diagnostics document
+  if (parseDiagnosticFormat(args) === "text") {
+    console.log("\n✨ HQL Publish Tool ✨\n");
+  }
   if (Deno.env.get("HQL_DEV") === "1") {
     Deno.env.set("SKIP_LOGIN_CHECK", "1");
   }
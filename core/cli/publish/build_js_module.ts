@@ -66,7 +66,8 @@ async function processSourceFile(
   verbose?: boolean
 ): Promise<void> {
   if (isHqlFile(inputPath)) {
-    await transpileCLI(inputPath, outputPath, { verbose });
+    // The .d.ts lands next to the bundle, where prepareDistributionFiles looks for it
+    await transpileCLI(inputPath, outputPath, { verbose, declarations: true });
   } else if (isJsFile(inputPath)) {
     const source = await readTextFile(inputPath);
     let processedSource = source;
@@ -181,10 +182,9 @@ export async function buildJsModule(
       : "index";
 
     const packageName = fileName !== "index" ? fileName : basename(baseDir);
+    buildDir = join(baseDir, ".build");
     const jsOutputPath = join(buildDir, `${fileName}.js`);
     const dtsOutputPath = join(buildDir, `${fileName}.d.ts`);
-
-    buildDir = join(baseDir, ".build");
     const distDir = join(baseDir, "dist");
 
     await createBuildDirectories(buildDir, distDir, options.verbose);
@@ -8,6 +8,10 @@ import { publishNpm } from "./publish_npm.ts";
 import { publishJSR } from "./publish_jsr.ts";
 import { printPublishSummary, PublishSummary } from "./publish_summary.ts";
 import { globalLogger as logger } from "../../src/logger.ts";
+import { HQLError } from "../../src/common/error.ts";
+import { DiagnosticFormat } from "../../src/common/diagnostics.ts";
+import { parseDiagnosticFormat } from "../../src/common/cli-utils.ts";
+import { initializeErrorSystem, recordDiagnostic, writeDiagnostics } from "../../src/common/error-system.ts";
 import { 
   detectMetadataFiles, 
   getPlatformsFromArgs, 
@@ -20,6 +24,7 @@ export interface PublishOptions {
   version?: string;
   verbose?: boolean;
   dryRun?: boolean;
+  format?: DiagnosticFormat;
 }
 
 function showHelp() {
@@ -54,6 +59,7 @@ EXAMPLES:
 OPTIONS:
   --dry-run                   Test the publishing process without actually publishing
   --verbose                   Enable verbose logging
+  --format <fmt>              Report failures as text (default), json or sarif on stdout
   -h, --help                  Show this help message
 
 ENVIRONMENT VARIABLES:
@@ -70,6 +76,7 @@ function parsePublishArgs(args: string[]): PublishOptions {
 
   const parsed = parseArgs(args, {
     boolean: ["verbose", "help", "dry-run"],
+    string: ["format"],
     alias: {
       h: "help",
     },
@@ -106,6 +113,7 @@ function parsePublishArgs(args: string[]): PublishOptions {
     version,
     verbose: !!parsed.verbose,
     dryRun: !!parsed["dry-run"] || Deno.env.get("DRY_RUN_PUBLISH") === "1",
+    format: parseDiagnosticFormat(args),
   };
 }
 
@@ -153,6 +161,7 @@ async function publishToRegistry(
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : String(err);
     console.error(`\n❌ ${registry.toUpperCase()} publish failed: ${errorMessage}`);
+    recordPublishFailure(`${registry.toUpperCase()} publish failed: ${errorMessage}`, options.entryFile, err);
     
     return {
       registry,
@@ -163,7 +172,20 @@ async function publishToRegistry(
   }
 }
 
+/**
+ * Keep a failed step as a diagnostic for --format json|sarif
+ */
+function recordPublishFailure(message: string, entryFile: string, err: unknown): void {
+  recordDiagnostic(new HQLError(message, {
+    errorType: "Publish Error",
+    sourceLocation: { filePath: entryFile },
+    originalError: err instanceof Error ? err : undefined,
+  }));
+}
+
 export async function publish(args: string[]): Promise<void> {
+  const format = parseDiagnosticFormat(args);
+  initializeErrorSystem({ format });
   try {
     const options = parsePublishArgs(args);
     
@@ -174,6 +196,8 @@ export async function publish(args: string[]): Promise<void> {
 
     if (!await exists(options.entryFile)) {
       console.error(`\n❌ Entry file not found: ${options.entryFile}`);
+      recordPublishFailure(`Entry file not found: ${options.entryFile}`, options.entryFile, undefined);
+      writeDiagnostics();
       exit(1);
     }
 
@@ -198,6 +222,7 @@ export async function publish(args: string[]): Promise<void> {
         summaries.push(summary);
       } catch (err) {
         console.error(`\n❌ ${platform.toUpperCase()} publish process encountered an error: ${err}`);
+        recordPublishFailure(`${platform.toUpperCase()} publish process encountered an error: ${err}`, options.entryFile, err);
         summaries.push({
           registry: platform,
           name: '(unknown)',
@@ -208,6 +233,7 @@ export async function publish(args: string[]): Promise<void> {
     }
 
     printPublishSummary(summaries);
+    writeDiagnostics();
 
     const allFailed = summaries.every(summary => summary.link.startsWith('❌'));
     if (allFailed) {
@@ -217,6 +243,8 @@ export async function publish(args: string[]): Promise<void> {
     }
   } catch (error) {
     console.error(`\n❌ Publish failed: ${error instanceof Error ? error.message : String(error)}`);
+    recordDiagnostic(error);
+    writeDiagnostics();
     exit(1);
   }
 }
@@ -73,6 +73,7 @@ export function createDefaultConfig(packageName: string, packageVersion: string,
     config.module = "./esm/index.js";
     config.main = "./esm/index.js";
     config.types = "./types/index.d.ts";
+    config.exports = { ".": { types: "./types/index.d.ts", import: "./esm/index.js" } };
     config.files = ["esm", "types", "README.md"];
     config.type = "module";
     config.author = getEnv("USER") || getEnv("USERNAME") || "HQL User";
@@ -117,6 +117,8 @@ const npmPublisher: RegistryPublisher = {
     config.module = config.module || "./esm/index.js";
     config.main = config.main || "./esm/index.js";
     config.types = config.types || "./types/index.d.ts";
+    // Resolvers that honor exports ignore the top-level types field
+    config.exports = config.exports || { ".": { types: config.types, import: config.module } };
     config.files = config.files || ["esm", "types", "README.md"];
     config.type = "module";
     config.author = config.author || getEnv("USER") || getEnv("USERNAME") || "HQL User";
@@ -42,6 +42,7 @@ function printHelp(): void {
   console.error("  --log <namespaces>    Filter logging to specified namespaces");
   console.error("  --print               Print final JS output without executing");
   console.error("  --debug               Show detailed debug information and stack traces");
+  console.error("  --format <fmt>        Report errors as text (default), json or sarif on stdout");
   console.error("  --help, -h            Display this help message");
 }
 
@@ -100,7 +101,8 @@ export async function run(args: string[] = Deno.args): Promise<number> {
   // Initialize error system with debug flag if present
   initializeErrorSystem({
     debug: cliOptions.debug,
-    verboseErrors: cliOptions.verbose
+    verboseErrors: cliOptions.verbose,
+    format: cliOptions.format
   });
   
   // Run the main function with enhanced error handling
@@ -0,0 +1,96 @@
+#!/usr/bin/env deno run -A
+
+import { reportError } from "../src/common/error.ts";
+import { discoverTestFiles, runTestFiles } from "../src/testing/runner.ts";
+import { formatJUnit, formatPretty, formatTap, ReporterName, REPORTERS, summarize } from "../src/testing/reporters.ts";
+
+/* Options that take a value, as `--name value` or `--name=value` */
+const VALUE_OPTIONS = ["--filter", "--reporter"];
+
+/**
+ * Display CLI usage
+ */
+function printHelp(): void {
+  console.error("Usage: deno run -A cli/test.ts [paths...] [options]");
+  console.error("\nRuns every *_test.hql file under the given paths (default: current directory).");
+  console.error("\nOptions:");
+  console.error("  --filter <text>      Only run tests whose name contains text, or matches /regex/");
+  console.error("  --reporter <name>    Output format: pretty (default), tap or junit");
+  console.error("  --verbose            Enable verbose logging while compiling");
+  console.error("  --debug              Show detailed error information and stack traces");
+  console.error("  --help, -h           Show this help message");
+  console.error("\nExamples:");
+  console.error("  deno run -A cli/test.ts");
+  console.error("  deno run -A cli/test.ts tests/ --filter parse");
+  console.error("  deno run -A cli/test.ts --reporter junit > report.xml");
+}
+
+/**
+ * Read the value of an option, if present
+ */
+function readOption(args: string[], name: string): string | undefined {
+  const index = args.findIndex((arg) => arg === name || arg.startsWith(`${name}=`));
+  if (index === -1) return undefined;
+  const arg = args[index];
+  return arg.includes("=") ? arg.slice(arg.indexOf("=") + 1) : args[index + 1];
+}
+
+/**
+ * Positional arguments, skipping the values of options that take one
+ */
+function readPaths(args: string[]): string[] {
+  const paths: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (VALUE_OPTIONS.includes(args[i])) i++;
+    else if (!args[i].startsWith("-")) paths.push(args[i]);
+  }
+  return paths;
+}
+
+/**
+ * Entry point
+ */
+export async function main(): Promise<void> {
+  const args = Deno.args[0] === "test" ? Deno.args.slice(1) : Deno.args;
+  if (args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(0);
+  }
+
+  const reporter = (readOption(args, "--reporter") ?? "pretty") as ReporterName;
+  if (!REPORTERS.includes(reporter)) {
+    console.error(`Unknown reporter '${reporter}'. Expected one of: ${REPORTERS.join(", ")}`);
+    Deno.exit(1);
+  }
+  const debug = args.includes("--debug");
+  const paths = readPaths(args);
+
+  const files = await discoverTestFiles(paths.length ? paths : ["."]);
+  if (files.length === 0) {
+    console.error("No *_test.hql files found");
+    Deno.exit(1);
+  }
+
+  const results = await runTestFiles(files, {
+    filter: readOption(args, "--filter"),
+    verbose: args.includes("--verbose"),
+  });
+
+  if (reporter === "tap") {
+    console.log(formatTap(results));
+  } else if (reporter === "junit") {
+    console.log(formatJUnit(results));
+  } else {
+    for (const file of results) {
+      if (file.error) await reportError(file.error, debug);
+    }
+    console.log(formatPretty(results, { color: Deno.stdout.isTerminal() }));
+  }
+
+  const summary = summarize(results);
+  if (summary.failed > 0 || summary.errors > 0) Deno.exit(1);
+}
+
+if (import.meta.main) {
+  main();
+}
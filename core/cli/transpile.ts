@@ -1,7 +1,7 @@
 #!/usr/bin/env deno run -A
 
 import { resolve } from "jsr:@std/path@1";
-import { transpileCLI } from "../src/bundler.ts";
+import { emitTypeScript, transpileCLI } from "../src/bundler.ts";
 import { globalLogger as logger } from "../src/logger.ts";
 import { parseCliOptions, applyCliOptions, CliOptions, parseNonOptionArgs } from "./utils/cli-options.ts";
 import { initializeRuntime } from "../src/common/runtime-initializer.ts";
@@ -43,21 +43,44 @@ function printHelp(): void {
   console.error("  --verbose, -v     Enable verbose logging");
   console.error("  --time            Show timing for each phase");
   console.error("  --print           Print JS to stdout instead of writing to file");
+  console.error("  --typecheck       Fail on fx/fn type errors (see also: hql check)");
+  console.error("  --emit <js|ts>    Bundle to JavaScript (default), or write TypeScript that keeps type annotations");
+  console.error("  --declarations    Also write a .d.ts for the entry module's exports");
   console.error("  --cache-info      Show information about the cache");
   console.error("  --debug           Show detailed error information and stack traces");
+  console.error("  --format <fmt>    Report errors as text (default), json or sarif on stdout");
   console.error("  --help, -h        Show this help message");
   console.error("\nExamples:");
   console.error("  deno run -A cli/transpile.ts src/file.hql");
   console.error("  deno run -A cli/transpile.ts src/file.hql dist/file.js --time");
   console.error("  deno run -A cli/transpile.ts src/file.hql --print --run");
   console.error("  deno run -A cli/transpile.ts src/file.hql --debug");
+  console.error("  deno run -A cli/transpile.ts src/file.hql --typecheck");
+  console.error("  deno run -A cli/transpile.ts src/file.hql --emit ts --declarations");
+  console.error("  deno run -A cli/transpile.ts src/file.hql --format sarif > hql.sarif");
+}
+
+/**
+ * Read `--emit <target>` or `--emit=<target>`; the default is js
+ */
+function parseEmitTarget(args: string[]): "js" | "ts" {
+  const index = args.findIndex(arg => arg === "--emit" || arg.startsWith("--emit="));
+  if (index === -1) return "js";
+  const target = args[index].includes("=") ? args[index].split("=")[1] : args[index + 1];
+  if (target !== "js" && target !== "ts") {
+    console.error(`Unknown --emit target '${target ?? ""}' (expected js or ts)`);
+    Deno.exit(1);
+  }
+  return target;
 }
 
 /**
  * Parse positional args: input and optional output
  */
 function parsePaths(args: string[]): { inputPath: string; outputPath?: string } {
-  const positional = args.filter(arg => !arg.startsWith("--") && !arg.startsWith("-"));
+  const positional = args.filter((arg, i) =>
+    !arg.startsWith("--") && !arg.startsWith("-") && args[i - 1] !== "--emit" && args[i - 1] !== "--format"
+  );
   const inputPath = positional[0];
   
   if (!inputPath) {
@@ -79,7 +102,8 @@ function parsePaths(args: string[]): { inputPath: string; outputPath?: string }
 async function transpile(
   inputPath: string,
   outputPath: string | undefined,
-  opts: CliOptions
+  opts: CliOptions,
+  output: { typecheck: boolean; emit: "js" | "ts"; declarations: boolean }
 ): Promise<string> {
   // Only use forceCache for controlling recompilation
   const force = opts.forceCache;
@@ -91,11 +115,20 @@ async function transpile(
     setErrorContext(resolvedInputPath, outputPath);
 
     try {
+      if (output.emit === "ts") {
+        return await emitTypeScript(resolvedInputPath, outputPath, {
+          verbose: opts.verbose,
+          typecheck: output.typecheck,
+          declarations: output.declarations
+        });
+      }
       // Use direct execution with error handling
       return await transpileCLI(resolvedInputPath, outputPath, {
         verbose: opts.verbose,
         showTiming: opts.showTiming,
-        force: force
+        force: force,
+        typecheck: output.typecheck,
+        declarations: output.declarations
       });
     } catch (transpileError) {
       // Enrich transpile errors with source context
@@ -144,7 +177,8 @@ export async function main(): Promise<void> {
   // Initialize error system with debug flag if present
   initializeErrorSystem({
     debug: opts.debug,
-    verboseErrors: opts.verbose
+    verboseErrors: opts.verbose,
+    format: opts.format
   });
 
   await runWithErrorHandling(async () => {
@@ -175,7 +209,11 @@ export async function main(): Promise<void> {
       }
     }
   
-    const bundledPath = await transpile(inputPath, outputPath, opts);
+    const bundledPath = await transpile(inputPath, outputPath, opts, {
+      typecheck: args.includes("--typecheck"),
+      emit: parseEmitTarget(args),
+      declarations: args.includes("--declarations"),
+    });
   
     if (args.includes("--print")) {
       await printJS(bundledPath);
@@ -2,19 +2,21 @@
  * CLI option parsing and application utilities
  */
 import { globalLogger } from "../../src/logger.ts";
+import { DiagnosticFormat } from "../../src/common/diagnostics.ts";
 
 export interface CliOptions {
   verbose?: boolean;
   showTiming?: boolean;
   forceCache?: boolean;
   debug?: boolean;
+  format?: DiagnosticFormat;
 }
 
 /**
- * Extract positional args (non-options)
+ * Extract positional args (non-options), skipping the value of `--format`
  */
 export function parseNonOptionArgs(args: string[]): string[] {
-  return args.filter(arg => !arg.startsWith("-"));
+  return args.filter((arg, i) => !arg.startsWith("-") && args[i - 1] !== "--format");
 }
 
 /**
@@ -30,7 +32,7 @@ export function setupConsoleLogging(args: string[]): void {
 }
 
 // Re-export from shared CLI utils
-export { parseCliOptions } from "../../src/common/cli-utils.ts";
+export { parseCliOptions, parseDiagnosticFormat } from "../../src/common/cli-utils.ts";
 
 // Re-export from shared CLI utils
 export { applyCliOptions } from "../../src/common/cli-utils.ts";
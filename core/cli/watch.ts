@@ -0,0 +1,53 @@
+#!/usr/bin/env deno run -A
+
+import { watch } from "../src/watcher.ts";
+import { parseNonOptionArgs } from "./utils/cli-options.ts";
+import { globalLogger as logger } from "../src/logger.ts";
+
+/**
+ * Display CLI usage
+ */
+function printHelp(): void {
+  console.error("Usage: deno run -A cli/watch.ts <entry.hql> [output.js] [options]");
+  console.error("\nRebuilds the bundle whenever the entry or a module it imports changes.");
+  console.error("\nOptions:");
+  console.error("  --run             Run the bundle after each build, restarting it on changes");
+  console.error("  --verbose, -v     Enable verbose logging");
+  console.error("  --debug           Show detailed error information and stack traces");
+  console.error("  --help, -h        Show this help message");
+  console.error("\nExamples:");
+  console.error("  deno run -A cli/watch.ts src/main.hql");
+  console.error("  deno run -A cli/watch.ts src/main.hql --run");
+  console.error("  deno run -A cli/watch.ts src/main.hql dist/main.js");
+}
+
+/**
+ * Entry point
+ */
+export async function main(): Promise<void> {
+  const args = Deno.args[0] === "watch" ? Deno.args.slice(1) : Deno.args;
+  const [entry, outputPath] = parseNonOptionArgs(args);
+  if (!entry || args.includes("--help") || args.includes("-h")) {
+    printHelp();
+    Deno.exit(entry ? 0 : 1);
+  }
+
+  const verbose = args.includes("--verbose") || args.includes("-v");
+  if (verbose) logger.setEnabled(true);
+
+  const controller = new AbortController();
+  Deno.addSignalListener("SIGINT", () => controller.abort());
+
+  await watch(entry, {
+    outputPath,
+    run: args.includes("--run"),
+    verbose,
+    debug: args.includes("--debug"),
+    signal: controller.signal,
+  });
+  Deno.exit(0);
+}
+
+if (import.meta.main) {
+  main();
+}
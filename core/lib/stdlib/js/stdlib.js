@@ -9,6 +9,7 @@ export class LazySeq {
     this._realized = []; // Cache of realized values
     this._exhausted = false; // Track if we've reached the end
     this._iterating = false; // Track if we're currently realizing values
+    this._iterator = null; // Iterator of the producer, created on first use
   }
 
   // Get a specific index, realizing values up to that point
@@ -33,11 +34,13 @@ export class LazySeq {
     }
     this._iterating = true;
     try {
-      const iterator = this._producer();
+      // Resume where the last realization stopped rather than starting over
+      this._iterator = this._iterator || this._producer();
       while (this._realized.length < count && !this._exhausted) {
-        const { value, done } = iterator.next();
+        const { value, done } = this._iterator.next();
         if (done) {
           this._exhausted = true;
+          this._iterator = null;
           break;
         }
         this._realized.push(value);
@@ -94,7 +97,18 @@ export function _take(n, coll) {
   }
 
   // Handle regular arrays
-  return coll.slice(0, n);
+  if (Array.isArray(coll)) {
+    return coll.slice(0, n);
+  }
+
+  // Any other iterable is read only as far as needed
+  const result = [];
+  if (n <= 0) return result;
+  for (const item of coll) {
+    result.push(item);
+    if (result.length >= n) break;
+  }
+  return result;
 }
 
 /**
@@ -142,22 +156,270 @@ export function _rangeGenerator(start, end, step = 1) {
   });
 }
 
+/**
+ * Apply a sequence operation to a collection. `generate` is a generator
+ * function over the collection's values: arrays are run through it eagerly
+ * and give an array, while a LazySeq or any other iterable gives a LazySeq
+ * that realizes only the values that are asked for, so infinite sequences
+ * such as (range) stay usable.
+ */
+function seqOp(coll, generate) {
+  if (!coll) return [];
+  if (Array.isArray(coll)) return [...generate(coll)];
+  return lazySeq(() => generate(coll));
+}
+
+/**
+ * Like seqOp for operations over several collections: eager when every
+ * collection is an array, lazy otherwise
+ */
+function seqOpAll(colls, generate) {
+  colls = colls.map((coll) => coll || []);
+  if (colls.every((coll) => Array.isArray(coll))) return [...generate(colls)];
+  return lazySeq(() => generate(colls));
+}
+
 // Map a function over a collection
 export function _map(f, coll) {
-  if (!coll) return [];
-  return coll.map(f);
+  return seqOp(coll, function* (items) {
+    for (const item of items) yield f(item);
+  });
 }
 
 // Filter a collection with a predicate function
 export function _filter(pred, coll) {
-  if (!coll) return [];
-  return coll.filter(pred);
+  return seqOp(coll, function* (items) {
+    for (const item of items) {
+      if (pred(item)) yield item;
+    }
+  });
+}
+
+// Remove the items of a collection that match a predicate
+export function _remove(pred, coll) {
+  return _filter((item) => !pred(item), coll);
 }
 
 // Reduce a collection with a function and initial value
 export function _reduce(f, init, coll) {
   if (!coll) return init;
-  return coll.reduce(f, init);
+  if (Array.isArray(coll)) return coll.reduce(f, init);
+  let acc = init;
+  for (const item of coll) {
+    acc = f(acc, item);
+  }
+  return acc;
+}
+
+// Take items from the front of a collection while a predicate holds
+export function _takeWhile(pred, coll) {
+  return seqOp(coll, function* (items) {
+    for (const item of items) {
+      if (!pred(item)) return;
+      yield item;
+    }
+  });
+}
+
+// Skip the first n items of a collection
+export function _drop(n, coll) {
+  return seqOp(coll, function* (items) {
+    let skipped = 0;
+    for (const item of items) {
+      if (skipped < n) {
+        skipped++;
+        continue;
+      }
+      yield item;
+    }
+  });
+}
+
+// Skip items from the front of a collection while a predicate holds
+export function _dropWhile(pred, coll) {
+  return seqOp(coll, function* (items) {
+    let dropping = true;
+    for (const item of items) {
+      if (dropping && pred(item)) continue;
+      dropping = false;
+      yield item;
+    }
+  });
+}
+
+// Join collections end to end
+export function _concat(...colls) {
+  return seqOpAll(colls, function* (all) {
+    for (const coll of all) yield* coll;
+  });
+}
+
+// Map a function returning collections over a collection and join the results
+export function _mapcat(f, coll) {
+  return seqOp(coll, function* (items) {
+    for (const item of items) yield* (f(item) || []);
+  });
+}
+
+/**
+ * Split a collection into arrays of n items, starting a new one every step
+ * items. A trailing group with fewer than n items is dropped.
+ */
+export function _partition(n, coll, step = n) {
+  if (n <= 0 || step <= 0) {
+    throw new RangeError("partition requires a positive size and step");
+  }
+  return seqOp(coll, function* (items) {
+    let window = [];
+    let skip = 0;
+    for (const item of items) {
+      if (skip > 0) {
+        skip--;
+        continue;
+      }
+      window.push(item);
+      if (window.length === n) {
+        yield window;
+        window = step < n ? window.slice(step) : [];
+        skip = Math.max(step - n, 0);
+      }
+    }
+  });
+}
+
+// Split a collection into arrays of consecutive items for which f gives the same value
+export function _partitionBy(f, coll) {
+  return seqOp(coll, function* (items) {
+    let group = [];
+    let groupKey;
+    for (const item of items) {
+      const key = f(item);
+      if (group.length > 0 && key !== groupKey) {
+        yield group;
+        group = [];
+      }
+      groupKey = key;
+      group.push(item);
+    }
+    if (group.length > 0) yield group;
+  });
+}
+
+// Take one item from each collection in turn, stopping at the shortest
+export function _interleave(...colls) {
+  return seqOpAll(colls, function* (all) {
+    if (all.length === 0) return;
+    const iterators = all.map((coll) => coll[Symbol.iterator]());
+    while (true) {
+      const steps = iterators.map((iterator) => iterator.next());
+      if (steps.some((step) => step.done)) return;
+      for (const step of steps) yield step.value;
+    }
+  });
+}
+
+// Combine the items at the same position of each collection into arrays, stopping at the shortest
+export function _zip(...colls) {
+  return seqOpAll(colls, function* (all) {
+    if (all.length === 0) return;
+    const iterators = all.map((coll) => coll[Symbol.iterator]());
+    while (true) {
+      const steps = iterators.map((iterator) => iterator.next());
+      if (steps.some((step) => step.done)) return;
+      yield steps.map((step) => step.value);
+    }
+  });
+}
+
+// Remove repeated items from a collection, keeping the first of each
+export function _distinct(coll) {
+  return seqOp(coll, function* (items) {
+    const seen = new Set();
+    for (const item of items) {
+      if (seen.has(item)) continue;
+      seen.add(item);
+      yield item;
+    }
+  });
+}
+
+// Remove consecutive repeats of an item from a collection
+export function _dedupe(coll) {
+  return seqOp(coll, function* (items) {
+    let first = true;
+    let previous;
+    for (const item of items) {
+      if (first || item !== previous) yield item;
+      first = false;
+      previous = item;
+    }
+  });
+}
+
+/**
+ * The infinite sequence x, f(x), f(f(x)), ...
+ */
+export function _iterate(f, x) {
+  return lazySeq(function* () {
+    let value = x;
+    while (true) {
+      yield value;
+      value = f(value);
+    }
+  });
+}
+
+/**
+ * A sequence that repeats x, n times or without end when n is undefined
+ */
+export function _repeat(x, n = Infinity) {
+  return lazySeq(function* () {
+    for (let i = 0; i < n; i++) {
+      yield x;
+    }
+  });
+}
+
+/**
+ * The infinite sequence of a collection's items, repeated in order.
+ * The collection is read once; an empty collection gives an empty sequence.
+ */
+export function _cycle(coll) {
+  return lazySeq(function* () {
+    const items = [];
+    for (const item of coll || []) {
+      items.push(item);
+      yield item;
+    }
+    if (items.length === 0) return;
+    while (true) {
+      yield* items;
+    }
+  });
+}
+
+// Count how often each item occurs in a collection
+export function _frequencies(coll) {
+  if (!coll) return {};
+  const result = {};
+  for (const item of coll) {
+    const key = String(item);
+    result[key] = (result[key] || 0) + 1;
+  }
+  return result;
+}
+
+/**
+ * Add the items of a collection to a copy of another: an array, a Set, a Map
+ * or an object, where the added items are [key value] pairs for the last two.
+ * The source collection is realized completely.
+ */
+export function _into(to, from) {
+  const items = from || [];
+  if (!to || Array.isArray(to)) return [...(to || []), ...items];
+  if (to instanceof Set) return new Set([...to, ...items]);
+  if (to instanceof Map) return new Map([...to, ...items]);
+  return Object.assign({}, to, Object.fromEntries(items));
 }
 
 // Group collection elements by function results
@@ -22,9 +22,11 @@ import {
   readTextFile
 } from "./platform/platform.ts";
 import {
+  throwFirstError,
   TranspilerError,
   ValidationError,
 } from "./common/error.ts";
+import { ErrorCode } from "./common/error-codes.ts";
 import { 
   createTempDir, 
   getCachedPath,
@@ -50,10 +52,16 @@ export interface BundleOptions {
   sourceDir?: string;
   cleanup?: boolean;
   debug?: boolean;
-  force?: boolean
+  force?: boolean;
+  /** HQL files to re-transpile even when their own cache entry is fresh */
+  invalidate?: Set<string>;
+  /** Fail on fx/fn type errors; every HQL module is re-transpiled so that it is checked */
+  typecheck?: boolean;
+  /** Write a .d.ts for the entry module's exports next to the output */
+  declarations?: boolean;
 }
 
-interface ImportInfo {
+export interface ImportInfo {
   full: string;
   path: string;
 }
@@ -65,7 +73,10 @@ export async function transpileCLI(
   options: {
     verbose?: boolean;
     showTiming?: boolean;
-    force?: boolean
+    force?: boolean;
+    invalidate?: Set<string>;
+    typecheck?: boolean;
+    declarations?: boolean;
   } = {}
 ): Promise<string> {
   configureLogger(options);
@@ -78,9 +89,13 @@ export async function transpileCLI(
   
   // Process entry file
   if (options.showTiming) logger.startTiming("transpile-cli", "Process Entry");
-  const { tsOutputPath } = await processEntryFile(resolvedInputPath, outPath, bundleOptions);
+  const { tsOutputPath, declarations } = await processEntryFile(resolvedInputPath, outPath, bundleOptions);
   if (options.showTiming) logger.endTiming("transpile-cli", "Process Entry");
 
+  if (declarations !== undefined) {
+    await writeDeclarations(outPath, declarations);
+  }
+
   // Bundle the processed file
   if (options.showTiming) logger.startTiming("transpile-cli", "esbuild Bundling");
 
@@ -95,6 +110,80 @@ export async function transpileCLI(
   return outPath;
 }
 
+/**
+ * Write an HQL module as TypeScript that keeps its fx/fn type annotations,
+ * instead of bundling it. The HQL modules it imports are emitted too, each
+ * next to its source, and imports of .hql files point at the emitted .ts
+ * files. Returns the path the entry module was written to.
+ */
+export async function emitTypeScript(
+  inputPath: string,
+  outputPath?: string,
+  options: { verbose?: boolean; typecheck?: boolean; declarations?: boolean } = {},
+): Promise<string> {
+  configureLogger(options);
+  await initializeRuntime();
+
+  const entryPath = resolve(inputPath);
+  if (!isHqlFile(entryPath)) {
+    throw new ValidationError(
+      `Cannot emit TypeScript for ${inputPath} (expected an .hql file)`,
+      "file type validation",
+    ).withCode(ErrorCode.UNSUPPORTED_FILE_TYPE);
+  }
+  const entryOutPath = outputPath ? resolve(outputPath) : entryPath.replace(/\.hql$/, ".ts");
+  const sourceDir = dirname(entryPath);
+  const emitted = new Set<string>();
+  const pending = [entryPath];
+
+  while (pending.length > 0) {
+    const filePath = pending.pop()!;
+    if (emitted.has(filePath)) continue;
+    emitted.add(filePath);
+    const outPath = filePath === entryPath ? entryOutPath : filePath.replace(/\.hql$/, ".ts");
+
+    const { code, typeErrors, declarations } = await transpileToJavascript(await readFile(filePath), {
+      baseDir: dirname(filePath),
+      verbose: options.verbose,
+      sourceDir,
+      currentFile: filePath,
+      typecheck: options.typecheck,
+      typeAnnotations: true,
+      declarations: options.declarations && filePath === entryPath,
+    });
+    throwFirstError(typeErrors);
+
+    let tsCode = code;
+    for (const importInfo of extractHqlImports(code)) {
+      const resolvedHqlPath = await resolveImportPath(importInfo.path, dirname(filePath), { sourceDir });
+      if (!resolvedHqlPath) {
+        throw new Error(`Could not resolve import: ${importInfo.path} from ${filePath}`);
+      }
+      pending.push(resolvedHqlPath);
+      let specifier = path.relative(dirname(outPath), resolvedHqlPath.replace(/\.hql$/, ".ts"));
+      if (!specifier.startsWith(".")) specifier = `./${specifier}`;
+      tsCode = tsCode.replace(importInfo.full, importInfo.full.replace(importInfo.path, specifier));
+    }
+
+    await ensureDir(dirname(outPath));
+    await Deno.writeTextFile(outPath, tsCode);
+    logger.log({ text: `[Bundler] Emitted TypeScript to ${outPath}`, namespace: "bundler" });
+    if (declarations !== undefined) await writeDeclarations(outPath, declarations);
+  }
+
+  return entryOutPath;
+}
+
+/**
+ * Write a module's .d.ts next to its output file
+ */
+async function writeDeclarations(outputPath: string, declarations: string): Promise<void> {
+  const dtsPath = outputPath.replace(/\.(js|ts)$/, "") + ".d.ts";
+  await ensureDir(dirname(dtsPath));
+  await Deno.writeTextFile(dtsPath, declarations);
+  logger.log({ text: `[Bundler] Wrote declarations to ${dtsPath}`, namespace: "bundler" });
+}
+
 export async function processHqlImportsInJs(
   jsSource: string,
   jsFilePath: string,
@@ -148,16 +237,18 @@ async function processHqlImports(
     ctx.stack.add(resolvedHqlPath);
     
     // Transpile HQL to TypeScript if needed
-    if (await needsRegeneration(resolvedHqlPath, ".ts") || options.force) {
+    if (await isStale(resolvedHqlPath, ".ts", options)) {
       logger.debug(`Transpiling HQL import: ${resolvedHqlPath}`);
       const hqlSource = await readFile(resolvedHqlPath);
-      let { code: tsCode } = await transpileToJavascript(hqlSource, {
+      let { code: tsCode, sourceMap, typeErrors } = await transpileToJavascript(hqlSource, {
         baseDir: dirname(resolvedHqlPath),
         verbose: options.verbose,
         tempDir: options.tempDir,
         sourceDir: options.sourceDir || dirname(resolvedHqlPath),
         currentFile: resolvedHqlPath,
+        typecheck: options.typecheck,
       });
+      throwFirstError(typeErrors);
       
       // IMPORTANT: Recursively process any HQL imports in the transpiled TypeScript
       if (checkForHqlImports(tsCode)) {
@@ -166,7 +257,8 @@ async function processHqlImports(
       }
 
       // Cache the transpiled file
-      await cacheTranspiledFile(resolvedHqlPath, tsCode, ".ts", { preserveRelative: true });
+      const cachedPath = await cacheTranspiledFile(resolvedHqlPath, tsCode, ".ts", { preserveRelative: true });
+      if (sourceMap) await attachSourceMap(cachedPath, sourceMap);
     }
     
     // Get path to cached TypeScript file
@@ -174,7 +266,7 @@ async function processHqlImports(
     
     if (isJs) {
       // For JS files, we need JavaScript output
-      if (await needsRegeneration(resolvedHqlPath, ".js") || options.force) {
+      if (await isStale(resolvedHqlPath, ".js", options)) {
         logger.debug(`Generating JavaScript from TypeScript: ${cachedTsPath}`);
         
         // Get path for cached JS file
@@ -215,6 +307,14 @@ async function processHqlImports(
   return modifiedSource;
 }
 
+/**
+ * Whether a cached transpilation of an HQL import must be regenerated
+ */
+async function isStale(hqlPath: string, extension: string, options: BundleOptions): Promise<boolean> {
+  return options.force || options.typecheck || options.invalidate?.has(hqlPath) ||
+    await needsRegeneration(hqlPath, extension);
+}
+
 // Simplified process functions with shared logic
 async function processHqlImportsInTs(
   tsSource: string,
@@ -240,7 +340,7 @@ async function processEntryFile(
   inputPath: string,
   outputPath: string,
   options: BundleOptions = {},
-): Promise<{ tsOutputPath: string; sourceMap?: string }> {
+): Promise<{ tsOutputPath: string; sourceMap?: string; declarations?: string }> {
   try {
     const resolvedInputPath = resolve(inputPath);
     logger.debug(`Processing entry file: ${resolvedInputPath}`);
@@ -255,7 +355,7 @@ async function processEntryFile(
       throw new ValidationError(
         `Unsupported file type: ${inputPath} (expected .hql, .js, or .ts)`,
         "file type validation",
-      );
+      ).withCode(ErrorCode.UNSUPPORTED_FILE_TYPE);
     }
   } catch (error) {
     // Do not log here; let the centralized error handler report it.
@@ -266,7 +366,7 @@ async function processEntryFile(
 async function processHqlEntryFile(
   resolvedInputPath: string,
   options: BundleOptions,
-): Promise<{ tsOutputPath: string; sourceMap?: string }> {
+): Promise<{ tsOutputPath: string; sourceMap?: string; declarations?: string }> {
   logger.log({ text: `Transpiling HQL entry file: ${resolvedInputPath}`, namespace: "bundler" });
 
   const tempDir = await createTempDir("entry");
@@ -274,13 +374,16 @@ async function processHqlEntryFile(
   const source = await readFile(resolvedInputPath);
   logger.log({ text: `Read ${source.length} bytes from ${resolvedInputPath}`, namespace: "bundler" });
   
-  let { code: tsCode, sourceMap } = await transpileToJavascript(source, {
+  let { code: tsCode, sourceMap, typeErrors, declarations } = await transpileToJavascript(source, {
     baseDir: dirname(resolvedInputPath),
     verbose: options.verbose,
     tempDir,
     sourceDir: options.sourceDir || dirname(resolvedInputPath),
-    currentFile: resolvedInputPath
+    currentFile: resolvedInputPath,
+    typecheck: options.typecheck,
+    declarations: options.declarations,
   });
+  throwFirstError(typeErrors);
 
   if (checkForHqlImports(tsCode)) {
     logger.log({ text: "Detected nested HQL imports in transpiled output. Processing them.", namespace: "bundler" });
@@ -288,8 +391,9 @@ async function processHqlEntryFile(
   }
   
   const tsOutputPath = await writeToCachedPath(resolvedInputPath, tsCode, ".ts");
+  if (sourceMap) await attachSourceMap(tsOutputPath, sourceMap);
 
-  return { tsOutputPath, sourceMap };
+  return { tsOutputPath, sourceMap, declarations };
 }
 
 async function processJsOrTsEntryFile(
@@ -560,7 +664,7 @@ async function bundleWithEsbuild(
       minify: false, // options.minify !== false,
       treeShaking: true,
       platform: 'neutral',
-      target: ['es2020'],
+      target: ['es2022'],
       plugins: [bundlePlugin],
       allowOverwrite: true,
       metafile: true,
@@ -577,7 +681,7 @@ async function bundleWithEsbuild(
       // Enable TypeScript processing
       tsconfig: JSON.stringify({
         compilerOptions: {
-          target: "es2020",
+          target: "es2022",
           module: "esnext",
           moduleResolution: "node",
           esModuleInterop: true,
@@ -674,9 +778,10 @@ function configureLogger(options: BundleOptions): void {
 }
 
 /**
- * Extract HQL imports from source code
+ * Extract HQL imports from source code. The pattern matches both JS import
+ * statements and HQL `(import [...] from "./x.hql")` forms.
  */
-function extractHqlImports(source: string): ImportInfo[] {
+export function extractHqlImports(source: string): ImportInfo[] {
   const hqlImportRegex = /import\s+.*\s+from\s+['"]([^'"]+\.hql)['"]/g;
   const imports: ImportInfo[] = [];
   
@@ -691,7 +796,7 @@ function extractHqlImports(source: string): ImportInfo[] {
 /**
  * Resolve an import path across multiple search locations
  */
-async function resolveImportPath(
+export async function resolveImportPath(
   importPath: string,
   baseDir: string,
   options: { sourceDir?: string },
@@ -943,6 +1048,27 @@ async function cacheTranspiledFile(
   return cachedPath;
 }
 
+/**
+ * Append an HQL source map to a cached transpiled file as an inline comment.
+ * esbuild reads it when bundling and chains it into the bundle's own map,
+ * so the final output maps straight back to the .hql source.
+ */
+async function attachSourceMap(cachedPath: string, sourceMap: string): Promise<void> {
+  const map = JSON.parse(sourceMap);
+  // esbuild resolves sources relative to the file that carries the map
+  map.sources = map.sources.map((source: string) => path.relative(dirname(cachedPath), source));
+
+  let binary = "";
+  for (const byte of new TextEncoder().encode(JSON.stringify(map))) {
+    binary += String.fromCharCode(byte);
+  }
+  await Deno.writeTextFile(
+    cachedPath,
+    `\n//# sourceMappingURL=data:application/json;base64,${btoa(binary)}\n`,
+    { append: true },
+  );
+}
+
 /**
  * Transpile HQL content to TypeScript from a path
  * Used by the processHqlImportsInJs function
@@ -1,11 +1,13 @@
 // Shared CLI utilities for option parsing and logger configuration
 import { globalLogger } from "../logger.ts";
+import { DIAGNOSTIC_FORMATS, DiagnosticFormat } from "./diagnostics.ts";
 
 export interface CliOptions {
   verbose?: boolean;
   showTiming?: boolean;
   forceCache?: boolean;
   debug?: boolean;
+  format?: DiagnosticFormat;
 }
 
 /**
@@ -17,9 +19,24 @@ export function parseCliOptions(args: string[]): CliOptions {
     showTiming: args.includes("--time"),
     forceCache: args.includes("--force-cache"),
     debug: args.includes("--debug"),
+    format: parseDiagnosticFormat(args),
   };
 }
 
+/**
+ * Read `--format <text|json|sarif>` or `--format=<...>`; the default is text
+ */
+export function parseDiagnosticFormat(args: string[]): DiagnosticFormat {
+  const index = args.findIndex(arg => arg === "--format" || arg.startsWith("--format="));
+  if (index === -1) return "text";
+  const format = args[index].includes("=") ? args[index].split("=")[1] : args[index + 1];
+  if (!DIAGNOSTIC_FORMATS.includes(format as DiagnosticFormat)) {
+    console.error(`Unknown --format '${format ?? ""}' (expected ${DIAGNOSTIC_FORMATS.join(", ")})`);
+    Deno.exit(1);
+  }
+  return format as DiagnosticFormat;
+}
+
 /**
  * Apply CLI options to the global logger and environment
  */
@@ -0,0 +1,210 @@
+// core/src/common/diagnostics.ts - Structured diagnostics for machine-readable CLI output
+
+import * as path from "jsr:@std/path@1";
+import { HQLError, ParseError } from "./error.ts";
+import { explainErrorCode } from "./error-catalog.ts";
+
+/**
+ * How a CLI command reports its errors: colored text for humans, or a single
+ * JSON / SARIF document on stdout for CI annotations and editors
+ */
+export type DiagnosticFormat = "text" | "json" | "sarif";
+
+export const DIAGNOSTIC_FORMATS: DiagnosticFormat[] = ["text", "json", "sarif"];
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/**
+ * A position in an HQL source file. Lines and columns are 1-based, as in
+ * `SourceLocationInfo`; the end column of a range is exclusive.
+ */
+export interface DiagnosticPosition {
+  line: number;
+  column: number;
+}
+
+export interface DiagnosticRange {
+  start: DiagnosticPosition;
+  end: DiagnosticPosition;
+}
+
+export interface RelatedLocation {
+  message: string;
+  file?: string;
+  range?: DiagnosticRange;
+}
+
+export interface Diagnostic {
+  code: string;
+  severity: DiagnosticSeverity;
+  message: string;
+  file?: string;
+  range?: DiagnosticRange;
+  related: RelatedLocation[];
+  suggestions: string[];
+}
+
+/**
+ * Derive a diagnostic from any thrown value. HQL errors carry their type,
+ * location and suggestion; anything else becomes a located-nowhere "error".
+ */
+export function toDiagnostic(error: unknown, severity: DiagnosticSeverity = "error"): Diagnostic {
+  if (!(error instanceof HQLError)) {
+    return {
+      code: "error",
+      severity,
+      message: error instanceof Error ? error.message : String(error),
+      related: [],
+      suggestions: [],
+    };
+  }
+
+  const { filePath } = error.sourceLocation;
+  const diagnostic: Diagnostic = {
+    code: diagnosticCode(error),
+    severity,
+    message: cleanMessage(error.message),
+    file: filePath ? path.resolve(filePath) : undefined,
+    range: errorRange(error),
+    related: [],
+    suggestions: [],
+  };
+
+  // A wrapped HQL error located elsewhere, e.g. inside an imported module
+  const cause = error.originalError;
+  if (cause instanceof HQLError && cause.sourceLocation.filePath) {
+    const related: RelatedLocation = {
+      message: cleanMessage(cause.message),
+      file: path.resolve(cause.sourceLocation.filePath),
+      range: errorRange(cause),
+    };
+    if (related.file !== diagnostic.file || related.range?.start.line !== diagnostic.range?.start.line) {
+      diagnostic.related.push(related);
+    }
+  }
+
+  const suggestion = typeof error.getSuggestion === "function" ? error.getSuggestion() : "";
+  if (suggestion) diagnostic.suggestions.push(suggestion);
+
+  return diagnostic;
+}
+
+/**
+ * Render diagnostics as one document for stdout
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[], format: "json" | "sarif"): string {
+  const document = format === "sarif" ? toSarif(diagnostics) : { version: 1, diagnostics };
+  return JSON.stringify(document, null, 2);
+}
+
+/**
+ * The catalog code of the error, e.g. "HQL1010". Errors raised without one
+ * fall back to their kebab-cased type: "Publish Error" -> "publish-error"
+ */
+function diagnosticCode(error: HQLError): string {
+  if (error.code) return error.code;
+  return (error.errorType || "Error").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+}
+
+/* Drop the trailing file:line:column that messages sometimes repeat */
+function cleanMessage(message: string): string {
+  return message.replace(/\s+at\s+\S+:\d+:\d+$/, "").replace(/\s+\(\S+:\d+:\d+\)$/, "");
+}
+
+/**
+ * The range of an error covers the symbol or string literal at its column
+ * when the source line is known, and is empty otherwise. Syntax errors that
+ * know their extent, such as an unclosed '#[', use it instead.
+ */
+function errorRange(error: HQLError): DiagnosticRange | undefined {
+  const { line, column } = error.sourceLocation;
+  if (!line) return undefined;
+  const start = { line, column: column || 1 };
+  if (error instanceof ParseError && error.end) return { start, end: error.end };
+  const lineText = error.contextLines.find((context) => context.line === line)?.content ??
+    sourceLine(error.sourceLocation.filePath, line);
+  const token = lineText?.slice(start.column - 1).match(/^"(?:[^"\\]|\\.)*"?|^[^\s()[\]{}"'`,;]+/);
+  return { start, end: { line, column: start.column + (token ? token[0].length : 0) } };
+}
+
+const sourceCache = new Map<string, string[] | undefined>();
+
+/* Errors raised without their source text fall back to reading the file */
+function sourceLine(filePath: string | undefined, line: number): string | undefined {
+  if (!filePath) return undefined;
+  if (!sourceCache.has(filePath)) {
+    try {
+      sourceCache.set(filePath, Deno.readTextFileSync(filePath).split("\n"));
+    } catch {
+      sourceCache.set(filePath, undefined);
+    }
+  }
+  return sourceCache.get(filePath)?.[line - 1];
+}
+
+// -----------------------------------------------------------------------------
+// SARIF 2.1.0
+// -----------------------------------------------------------------------------
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = { error: "error", warning: "warning", info: "note" };
+
+function toSarif(diagnostics: Diagnostic[]): Record<string, unknown> {
+  const root = Deno.cwd();
+  const rules = [...new Set(diagnostics.map((d) => d.code))].sort().map((id) => {
+    const entry = explainErrorCode(id);
+    return entry
+      ? { id, shortDescription: { text: entry.title }, fullDescription: { text: entry.explanation } }
+      : { id };
+  });
+
+  const results = diagnostics.map((d) => {
+    const result: Record<string, unknown> = {
+      ruleId: d.code,
+      level: SARIF_LEVELS[d.severity],
+      message: { text: d.message },
+    };
+    if (d.file) result.locations = [sarifLocation(root, d.file, d.range)];
+    const related = d.related.filter((r) => r.file);
+    if (related.length) {
+      result.relatedLocations = related.map((r, id) => ({
+        id,
+        ...sarifLocation(root, r.file!, r.range),
+        message: { text: r.message },
+      }));
+    }
+    if (d.suggestions.length) result.properties = { suggestions: d.suggestions };
+    return result;
+  });
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [{
+      tool: { driver: { name: "hql", rules } },
+      originalUriBaseIds: { SRCROOT: { uri: path.toFileUrl(root).href + "/" } },
+      results,
+    }],
+  };
+}
+
+/**
+ * Files under the working directory are made relative to SRCROOT, so CI can
+ * map them onto the repository
+ */
+function sarifLocation(root: string, file: string, range?: DiagnosticRange): Record<string, unknown> {
+  const relative = path.relative(root, file);
+  const artifactLocation = relative.startsWith("..") || path.isAbsolute(relative)
+    ? { uri: path.toFileUrl(file).href }
+    : { uri: relative.split(path.SEPARATOR).join("/"), uriBaseId: "SRCROOT" };
+  const physicalLocation: Record<string, unknown> = { artifactLocation };
+  if (range) {
+    physicalLocation.region = {
+      startLine: range.start.line,
+      startColumn: range.start.column,
+      endLine: range.end.line,
+      endColumn: range.end.column,
+    };
+  }
+  return { physicalLocation };
+}
@@ -0,0 +1,598 @@
+// core/src/common/error-catalog.ts - Long explanations behind each error code, for `hql explain`
+
+import { ErrorCode, isErrorCode } from "./error-codes.ts";
+
+export interface ErrorCodeEntry {
+  code: ErrorCode;
+  title: string;
+  explanation: string;
+  /** HQL that raises the error */
+  wrong?: string;
+  /** The same code, fixed */
+  right?: string;
+}
+
+type CatalogEntry = Omit<ErrorCodeEntry, "code">;
+
+const INTERNAL =
+  "This is a bug in the HQL compiler rather than in your code. Please report it with the smallest " +
+  "program that reproduces it; `--debug` prints the stack trace to include.";
+
+/**
+ * Every code has an entry; the Record type makes a missing one a compile error
+ */
+const CATALOG: Record<ErrorCode, CatalogEntry> = {
+  // ---------------------------------------------------------------------------
+  // Syntax
+  // ---------------------------------------------------------------------------
+  [ErrorCode.SYNTAX_ERROR]: {
+    title: "Syntax error",
+    explanation: "The source could not be read as HQL. The message names the part of the input " +
+      "the reader could not make sense of.",
+  },
+  [ErrorCode.UNCLOSED_LIST]: {
+    title: "Unclosed list",
+    explanation: "A '(' has no matching ')' before the end of the file, or before the ']' or '}' " +
+      "of an enclosing collection. The error points at the opening parenthesis; the missing one is usually at the end of the last form in that definition.",
+    wrong: '(fn greet (name)\n  (print "Hello" name)',
+    right: '(fn greet (name)\n  (print "Hello" name))',
+  },
+  [ErrorCode.UNCLOSED_VECTOR]: {
+    title: "Unclosed vector",
+    explanation: "A '[' has no matching ']' before the end of the file, or before the ')' or '}' " +
+      "of an enclosing collection. The error points at the opening bracket.",
+    wrong: "(var numbers [1 2 3",
+    right: "(var numbers [1 2 3])",
+  },
+  [ErrorCode.UNCLOSED_MAP]: {
+    title: "Unclosed map",
+    explanation: "A '{' has no matching '}' before the end of the file, or before the ')' or ']' " +
+      "of an enclosing collection. The error points at the opening brace.",
+    wrong: '(var user {"name": "Ada"',
+    right: '(var user {"name": "Ada"})',
+  },
+  [ErrorCode.UNCLOSED_SET]: {
+    title: "Unclosed set",
+    explanation: "A '#[' has no matching ']' before the end of the file, or before the ')' or '}' " +
+      "of an enclosing collection. The error points at the opening '#['.",
+    wrong: "(var seen #[1, 2, 3",
+    right: "(var seen #[1, 2, 3])",
+  },
+  [ErrorCode.UNEXPECTED_CLOSING_DELIMITER]: {
+    title: "Unexpected closing delimiter",
+    explanation: "A ')', ']' or '}' closes something that was never opened. Usually an earlier " +
+      "form was closed one delimiter too soon, or there is one delimiter too many.",
+    wrong: "(fn double (x)\n  (* x 2)))",
+    right: "(fn double (x)\n  (* x 2))",
+  },
+  [ErrorCode.UNEXPECTED_END_OF_INPUT]: {
+    title: "Unexpected end of input",
+    explanation: "The file ended in the middle of a form, e.g. right after a quote.",
+    wrong: "(print 1)\n'",
+    right: "(print 1)\n'(1 2 3)",
+  },
+  [ErrorCode.UNEXPECTED_CHARACTER]: {
+    title: "Unexpected character",
+    explanation: "The source contains a character that cannot start any HQL token.",
+  },
+  [ErrorCode.INVALID_IMPORT_SYNTAX]: {
+    title: "Invalid import syntax",
+    explanation: "An import is written either as `(import name from \"path\")` for the whole " +
+      "module or as `(import [a b as c] from \"path\")` for some of its exports.",
+    wrong: '(import [join] form "jsr:@std/path@1")',
+    right: '(import [join] from "jsr:@std/path@1")',
+  },
+  [ErrorCode.MISSING_PROPERTY_NAME]: {
+    title: "Missing property name",
+    explanation: "A '.' must be followed by the name of the property or method to access; the " +
+      "file ended right after one.",
+    wrong: "(print user.name) .",
+    right: "(print user.name)",
+  },
+  [ErrorCode.INVALID_MAP_LITERAL]: {
+    title: "Invalid map literal",
+    explanation: "Map literals use JSON syntax: each key is followed by ':' and its value. " +
+      "Clojure-style keywords such as `:name` are not HQL, and keys without a colon are not " +
+      "paired with their values.",
+    wrong: '(var person {:name "John"})\n(var person {"name" "John"})',
+    right: '(var person {"name": "John"})',
+  },
+  [ErrorCode.MISSING_ENUM_TYPE]: {
+    title: "Missing enum raw type",
+    explanation: "An enum with raw values names their type after a colon.",
+    wrong: "(enum HttpStatus :\n  (case ok 200))",
+    right: "(enum HttpStatus : Int\n  (case ok 200))",
+  },
+  [ErrorCode.UNEXPECTED_TOKEN]: {
+    title: "Unexpected token",
+    explanation: "A token appeared where an expression was expected, e.g. a stray ',' or ':'. " +
+      "Commas only separate elements inside collection literals.",
+  },
+  [ErrorCode.FORMAT_CHANGES_MEANING]: {
+    title: "Formatting would change meaning",
+    explanation: "`hql fmt` refuses to write a file when the formatted code would read back " +
+      "differently from the original. The file is left untouched; please report the input.",
+  },
+
+  // ---------------------------------------------------------------------------
+  // Modules
+  // ---------------------------------------------------------------------------
+  [ErrorCode.IMPORT_FAILED]: {
+    title: "Import failed",
+    explanation: "A module could not be loaded. The message includes the underlying problem, " +
+      "which may be an error inside the imported file itself.",
+  },
+  [ErrorCode.MODULE_NOT_FOUND]: {
+    title: "Module not found",
+    explanation: "The import path does not point at an existing file or package. Relative paths " +
+      "are resolved from the importing file, not from the working directory.",
+    wrong: '(import [add] from "utils.hql")',
+    right: '(import [add] from "./utils.hql")',
+  },
+  [ErrorCode.SYMBOL_NOT_EXPORTED]: {
+    title: "Symbol not exported",
+    explanation: "The imported module exists but does not export the requested name. Check the " +
+      "spelling and the module's `export` form. For a local .hql module the compiler names the " +
+      "closest exported name and where it is defined, or says that the name is defined but not exported.",
+    wrong: ';; utils.hql exports [add]\n(import [sum] from "./utils.hql")',
+    right: '(import [add] from "./utils.hql")',
+  },
+  [ErrorCode.INVALID_IMPORT_PATH]: {
+    title: "Invalid import path",
+    explanation: "The module path of an import must be a string literal.",
+    wrong: "(import utils from utils)",
+    right: '(import utils from "./utils.hql")',
+  },
+  [ErrorCode.INVALID_IMPORT_NAME]: {
+    title: "Invalid import name",
+    explanation: "The name a module is imported under must be a symbol.",
+  },
+  [ErrorCode.INVALID_EXPORT]: {
+    title: "Invalid export",
+    explanation: "Exports list the exported names in a vector, optionally renaming them with `as`.",
+    wrong: "(export add)",
+    right: "(export [add])\n(export [add as plus])",
+  },
+  [ErrorCode.UNSUPPORTED_FILE_TYPE]: {
+    title: "Unsupported file type",
+    explanation: "The CLI compiles .hql files and bundles .js and .ts files. `--emit ts` only " +
+      "accepts .hql input.",
+  },
+
+  // ---------------------------------------------------------------------------
+  // Special forms
+  // ---------------------------------------------------------------------------
+  [ErrorCode.INVALID_FORM]: {
+    title: "Invalid form",
+    explanation: "A special form was used with the wrong shape. The message names the form and " +
+      "what it expected.",
+  },
+  [ErrorCode.INVALID_FUNCTION_DEFINITION]: {
+    title: "Invalid function definition",
+    explanation: "`fn` takes a name, a parameter list and a body. `fx` also requires a return " +
+      "type `(-> Type)` after the parameters. Methods follow the same rules.",
+    wrong: "(fn greet)",
+    right: "(fn greet (name)\n  (print name))",
+  },
+  [ErrorCode.INVALID_FUNCTION_NAME]: {
+    title: "Invalid function name",
+    explanation: "A function or method name must be a symbol, not a string or a list.",
+    wrong: '(fn "greet" (name)\n  (print name))',
+    right: "(fn greet (name)\n  (print name))",
+  },
+  [ErrorCode.INVALID_PARAMETER_LIST]: {
+    title: "Invalid parameter list",
+    explanation: "Parameters are a list (or vector) of symbols, with at most one `&` rest " +
+      "parameter at the end.",
+    wrong: "(fn greet name\n  (print name))",
+    right: "(fn greet (name)\n  (print name))",
+  },
+  [ErrorCode.INVALID_RETURN_TYPE]: {
+    title: "Invalid return type",
+    explanation: "The return type of an `fx` is written as a list starting with `->`.",
+    wrong: "(fx square (x: Int) Int\n  (* x x))",
+    right: "(fx square (x: Int) (-> Int)\n  (* x x))",
+  },
+  [ErrorCode.MISSING_DEFAULT_VALUE]: {
+    title: "Missing default value",
+    explanation: "An '=' in a parameter list or pattern must be followed by the default value.",
+    wrong: "(fn add (x y =)\n  (+ x y))",
+    right: "(fn add (x y = 0)\n  (+ x y))",
+  },
+  [ErrorCode.INVALID_RETURN]: {
+    title: "Invalid return",
+    explanation: "`return` needs the value to return.",
+    wrong: "(fn check (x)\n  (if (< x 0) (return))\n  x)",
+    right: "(fn check (x)\n  (if (< x 0) (return nil))\n  x)",
+  },
+  [ErrorCode.MISSING_ARGUMENT]: {
+    title: "Missing argument",
+    explanation: "A parameter without a default value was not given an argument.",
+    wrong: "(fx add (x: Int y: Int) (-> Int)\n  (+ x y))\n(add x: 1)",
+    right: "(add x: 1 y: 2)",
+  },
+  [ErrorCode.TOO_MANY_ARGUMENTS]: {
+    title: "Too many arguments",
+    explanation: "A function was called with more positional arguments than it has parameters.",
+    wrong: "(fn add (x y)\n  (+ x y))\n(add 1 2 3)",
+    right: "(add 1 2)",
+  },
+  [ErrorCode.UNKNOWN_NAMED_ARGUMENT]: {
+    title: "Unknown named argument",
+    explanation: "A named argument does not match any parameter of the called function.",
+    wrong: "(fx add (x: Int y: Int) (-> Int)\n  (+ x y))\n(add x: 1 z: 2)",
+    right: "(add x: 1 y: 2)",
+  },
+  [ErrorCode.MISSING_NAMED_ARGUMENT_VALUE]: {
+    title: "Missing named argument value",
+    explanation: "Each `name:` in a call must be followed by its value.",
+    wrong: "(add x: 1 y:",
+    right: "(add x: 1 y: 2)",
+  },
+  [ErrorCode.MIXED_ARGUMENTS]: {
+    title: "Mixed positional and named arguments",
+    explanation: "Positional arguments may lead a call to an `fn` or `fx`, filling its first " +
+      "parameters in order, but cannot follow a named argument or pass a parameter that is " +
+      "also named.",
+    wrong: "(fx add (x: Int y: Int) (-> Int)\n  (+ x y))\n(add x: 1 2)",
+    right: "(fx add (x: Int y: Int) (-> Int)\n  (+ x y))\n(add 1 y: 2)",
+  },
+  [ErrorCode.PLACEHOLDER_WITHOUT_DEFAULT]: {
+    title: "Placeholder without default",
+    explanation: "The `_` placeholder asks for a parameter's default value, so it can only be " +
+      "used for parameters that have one.",
+    wrong: "(fx add (x: Int y: Int = 2) (-> Int)\n  (+ x y))\n(add _ 5)",
+    right: "(fx add (x: Int y: Int = 2) (-> Int)\n  (+ x y))\n(add 1 _)",
+  },
+  [ErrorCode.IMPURE_REFERENCE]: {
+    title: "Pure function references external variable",
+    explanation: "An `fx` may only use its parameters and its own local bindings. Pass any other " +
+      "value in as a parameter, or use `fn` instead.",
+    wrong: "(var rate 0.2)\n(fx tax (amount: Double) (-> Double)\n  (* amount rate))",
+    right: "(fx tax (amount: Double rate: Double) (-> Double)\n  (* amount rate))",
+  },
+  [ErrorCode.IMPURE_OPERATION]: {
+    title: "Pure function uses impure operation",
+    explanation: "An `fx` cannot perform side effects such as printing, mutating with `set!` or " +
+      "calling impure functions. Move the effect to an `fn`.",
+    wrong: "(fx square (x: Int) (-> Int)\n  (print x)\n  (* x x))",
+    right: "(fx square (x: Int) (-> Int)\n  (* x x))\n(fn show-square (x)\n  (print (square x)))",
+  },
+  [ErrorCode.INVALID_BINDING_FORM]: {
+    title: "Invalid binding form",
+    explanation: "`let` and `var` either bind one name, `(let name value)`, or introduce a scope, " +
+      "`(let (name value ...) body...)`.",
+    wrong: "(let x)",
+    right: "(let x 10)\n(let (x 10 y 20)\n  (+ x y))",
+  },
+  [ErrorCode.ODD_BINDING_LIST]: {
+    title: "Odd binding list",
+    explanation: "A binding list holds name/value pairs, so it needs an even number of forms.",
+    wrong: "(let (x 1 y)\n  (+ x y))",
+    right: "(let (x 1 y 2)\n  (+ x y))",
+  },
+  [ErrorCode.INVALID_BINDING_NAME]: {
+    title: "Invalid binding name",
+    explanation: "A binding name must be a symbol, or a vector or map pattern to destructure.",
+    wrong: '(let ("x" 1)\n  x)',
+    right: "(let (x 1)\n  x)",
+  },
+  [ErrorCode.INVALID_ASSIGNMENT]: {
+    title: "Invalid assignment",
+    explanation: "`set!` takes exactly two arguments: a target (a name or a property path) and the " +
+      "new value. It cannot update an array element by index; use a method such as `.splice`.",
+    wrong: "(set! arr 0 value)",
+    right: "(.splice arr 0 1 value)\n(set! obj.property value)",
+  },
+  [ErrorCode.INVALID_PATTERN]: {
+    title: "Invalid pattern",
+    explanation: "Patterns are symbols, `_`, literals, vectors (with an optional `& rest` at the " +
+      "end), maps with symbol or string keys, or enum cases in `match`.",
+    wrong: "(let ([a & rest more] [1 2 3])\n  rest)",
+    right: "(let ([a & rest] [1 2 3])\n  rest)",
+  },
+  [ErrorCode.INVALID_IF]: {
+    title: "Invalid if",
+    explanation: "`if` takes a condition, a then-branch and an optional else-branch. Wrap several " +
+      "expressions in a branch with `do`.",
+    wrong: "(if (> n 0))",
+    right: '(if (> n 0) "positive" "not positive")',
+  },
+  [ErrorCode.INVALID_COND]: {
+    title: "Invalid cond",
+    explanation: "Each `cond` clause is a list of a test and its result.",
+    wrong: '(cond\n  (> n 10) "large"\n  (else "small"))',
+    right: '(cond\n  ((> n 10) "large")\n  (else "small"))',
+  },
+  [ErrorCode.INVALID_LOOP]: {
+    title: "Invalid loop",
+    explanation: "`loop` takes a list of name/value bindings and a body. `for-of` and " +
+      "`for-await` take a single (name iterable) binding and a body.",
+    wrong: "(loop i 0\n  (if (< i 3) (recur (+ i 1)) i))",
+    right: "(loop (i 0)\n  (if (< i 3) (recur (+ i 1)) i))",
+  },
+  [ErrorCode.RECUR_OUTSIDE_LOOP]: {
+    title: "recur outside loop",
+    explanation: "`recur` jumps back to the enclosing `loop`, so it can only appear inside one.",
+    wrong: "(fn count-down (n)\n  (if (> n 0) (recur (- n 1)) n))",
+    right: "(fn count-down (n)\n  (loop (i n)\n    (if (> i 0) (recur (- i 1)) i)))",
+  },
+  [ErrorCode.RECUR_NOT_IN_TAIL_POSITION]: {
+    title: "recur not in tail position",
+    explanation: "`recur` must be the last thing its loop iteration does; its result cannot be " +
+      "used by another expression.",
+    wrong: "(loop (i 0 acc 0)\n  (if (< i 3) (+ 1 (recur (+ i 1) acc)) acc))",
+    right: "(loop (i 0 acc 0)\n  (if (< i 3) (recur (+ i 1) (+ acc 1)) acc))",
+  },
+  [ErrorCode.RECUR_ARITY]: {
+    title: "recur arity mismatch",
+    explanation: "`recur` passes one new value for each binding of its loop.",
+    wrong: "(loop (i 0 acc 0)\n  (if (< i 3) (recur (+ i 1)) acc))",
+    right: "(loop (i 0 acc 0)\n  (if (< i 3) (recur (+ i 1) (+ acc i)) acc))",
+  },
+  [ErrorCode.INVALID_TRY]: {
+    title: "Invalid try",
+    explanation: "`try` takes body expressions followed by at most one `(catch name ...)` and an " +
+      "optional `(finally ...)`, in that order. It needs at least one of the two clauses.",
+    wrong: "(try\n  (catch e (print e))\n  (risky))",
+    right: "(try\n  (risky)\n  (catch e (print e)))",
+  },
+  [ErrorCode.INVALID_THROW]: {
+    title: "Invalid throw",
+    explanation: "`throw` takes exactly one value, usually an Error.",
+    wrong: '(throw "failed" 42)',
+    right: '(throw (new Error "failed: 42"))',
+  },
+  [ErrorCode.INVALID_ASYNC]: {
+    title: "Invalid async",
+    explanation: "`async` is followed by a function definition, and `await` takes exactly one " +
+      "expression.",
+    wrong: "(async (fetch-data))",
+    right: "(async fn load ()\n  (await (fetch-data)))",
+  },
+  [ErrorCode.INVALID_YIELD]: {
+    title: "Invalid yield",
+    explanation: "`yield` takes at most one expression and `yield*` takes exactly one iterable. " +
+      "Both belong in the body of a generator, `fn*` or `lambda*`.",
+    wrong: "(fn* pairs (a b)\n  (yield a b))",
+    right: "(fn* pairs (a b)\n  (yield a)\n  (yield b))",
+  },
+  [ErrorCode.INVALID_MATCH]: {
+    title: "Invalid match",
+    explanation: "`match` takes a value and clauses of the form `(case pattern body...)`, with an " +
+      "optional `(default body...)` as the last clause.",
+    wrong: '(match n\n  (default "other")\n  (case 1 "one"))',
+    right: '(match n\n  (case 1 "one")\n  (default "other"))',
+  },
+  [ErrorCode.UNKNOWN_ENUM_CASE]: {
+    title: "Unknown enum case",
+    explanation: "The enum has no case with that name, or the case has no associated value with " +
+      "that label.",
+    wrong: '(enum Direction (case north) (case south))\n(match heading\n  (case Direction.up "up")\n  (default "other"))',
+    right: '(match heading\n  (case Direction.north "up")\n  (default "other"))',
+  },
+  [ErrorCode.NON_EXHAUSTIVE_MATCH]: {
+    title: "Non-exhaustive match",
+    explanation: "A `match` on an enum must handle every case, or end with a `default` clause.",
+    wrong: '(enum Direction (case north) (case south))\n(match heading\n  (case Direction.north "up"))',
+    right: '(match heading\n  (case Direction.north "up")\n  (case Direction.south "down"))',
+  },
+  [ErrorCode.INVALID_CLASS]: {
+    title: "Invalid class",
+    explanation: "A class has a symbol name followed by fields, a constructor and methods, each " +
+      "written as a list.",
+    wrong: '(class "Counter"\n  (var count 0))',
+    right: "(class Counter\n  (var count 0))",
+  },
+  [ErrorCode.INVALID_STRUCT]: {
+    title: "Invalid struct",
+    explanation: "A struct has a symbol name and fields. Structs cannot inherit, and cannot " +
+      "define the methods generated for every struct such as `equals` and `copy`.",
+    wrong: "(struct Point extends Shape\n  (var x)\n  (var y))",
+    right: "(struct Point\n  (var x)\n  (var y))",
+  },
+  [ErrorCode.INVALID_ENUM]: {
+    title: "Invalid enum",
+    explanation: "An enum has a symbol name and at least one `(case name ...)`.",
+    wrong: "(enum Direction north south)",
+    right: "(enum Direction\n  (case north)\n  (case south))",
+  },
+  [ErrorCode.INVALID_NEW]: {
+    title: "Invalid new",
+    explanation: "`new` (and `js-new`) takes the constructor followed by its arguments.",
+    wrong: "(new)",
+    right: '(new Error "failed")',
+  },
+  [ErrorCode.INVALID_QUOTE]: {
+    title: "Invalid quote",
+    explanation: "`quote`, `quasiquote` and `unquote` take exactly one form. `~` and `~@` only " +
+      "make sense inside a quasiquote, and `~@` only inside a list.",
+    wrong: "(quote a b)",
+    right: "(quote (a b))",
+  },
+  [ErrorCode.OPERATOR_ARITY]: {
+    title: "Operator arity",
+    explanation: "An operator was given the wrong number of operands. Ordering comparisons such as `<` " +
+      "take two or more, `=`, `**`, the bit shifts, `instanceof?` and `in?` exactly two, and `bit-not` " +
+      "and `typeof` one.",
+    wrong: "(< a)",
+    right: "(< a b)",
+  },
+
+  // ---------------------------------------------------------------------------
+  // Macros
+  // ---------------------------------------------------------------------------
+  [ErrorCode.MACRO_ERROR]: {
+    title: "Macro error",
+    explanation: "A macro failed while it was being defined or expanded. The message includes " +
+      "the underlying problem.",
+  },
+  [ErrorCode.INVALID_MACRO_DEFINITION]: {
+    title: "Invalid macro definition",
+    explanation: "`macro` takes a symbol name, a parameter list and a body.",
+    wrong: "(macro unless test body\n  `(if ~test nil ~body))",
+    right: "(macro unless (test body)\n  `(if ~test nil ~body))",
+  },
+  [ErrorCode.MACRO_NOT_FOUND]: {
+    title: "Macro not found",
+    explanation: "An imported macro is not defined in the module it is imported from, or a call " +
+      "names nothing that is defined but is close to the name of a macro, e.g. `(unles ...)` for `unless`.",
+    wrong: '(import [unles] from "./macros.hql")',
+    right: '(import [unless] from "./macros.hql")',
+  },
+  [ErrorCode.MACRO_NOT_EXPORTED]: {
+    title: "Macro not exported",
+    explanation: "A macro defined in another module must be exported before it can be imported.",
+    wrong: ";; macros.hql\n(macro unless (test body)\n  `(if ~test nil ~body))",
+    right: ";; macros.hql\n(macro unless (test body)\n  `(if ~test nil ~body))\n(export [unless])",
+  },
+  [ErrorCode.MACRO_NAME_COLLISION]: {
+    title: "Macro name collision",
+    explanation: "Two macros with the same name are visible in one module, either imported from " +
+      "two modules or imported and defined locally. Import one of them under another name.",
+    wrong: '(import [unless] from "./a.hql")\n(import [unless] from "./b.hql")',
+    right: '(import [unless] from "./a.hql")\n(import [unless as unless-b] from "./b.hql")',
+  },
+  [ErrorCode.MACRO_EXPORT_ALIAS]: {
+    title: "Macro exported under an alias",
+    explanation: "Macros are exported under their own name; rename them when importing instead.",
+    wrong: "(export [unless as my-unless])",
+    right: '(export [unless])\n;; elsewhere\n(import [unless as my-unless] from "./macros.hql")',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Names, properties and interop
+  // ---------------------------------------------------------------------------
+  [ErrorCode.INTEROP_ARITY]: {
+    title: "Interop arity",
+    explanation: "A `js-*` interop form was given the wrong number of arguments: `js-get` takes " +
+      "an object and a key, `js-set` an object, key and value, and `js-call` an object, a method " +
+      "name and its arguments.",
+    wrong: '(js-get user)',
+    right: '(js-get user "name")',
+  },
+  [ErrorCode.INVALID_PROPERTY_NAME]: {
+    title: "Invalid property name",
+    explanation: "The property or method name of an interop form must be a string literal or a " +
+      "symbol. Note that Clojure's `(.-name obj)` is not an error in HQL: it calls a method named " +
+      "`-name`. Read a property with `obj.name` instead.",
+  },
+  [ErrorCode.INVALID_COLLECTION_ACCESS]: {
+    title: "Invalid collection access",
+    explanation: "`get` takes a collection and an index or key.",
+    wrong: "(get items)",
+    right: "(get items 0)",
+  },
+  [ErrorCode.UNDEFINED_SYMBOL]: {
+    title: "Undefined symbol",
+    explanation: "A name is used that is not defined in scope, imported, a macro or a JavaScript " +
+      "global. Every name is checked before code is generated, and the closest defined name is " +
+      "suggested along with where it is defined.",
+    wrong: "(var total 10)\n(print totl)",
+    right: "(var total 10)\n(print total)",
+  },
+  [ErrorCode.PROPERTY_NOT_FOUND]: {
+    title: "Property not found",
+    explanation: "A property path named a property that the object does not have, or went through " +
+      "a value that is null or undefined.",
+    wrong: '(var user {"name": "Ada"})\n(print user.address.city)',
+    right: '(var user {"name": "Ada", "address": {"city": "London"}})\n(print user.address.city)',
+  },
+
+  // ---------------------------------------------------------------------------
+  // Code generation
+  // ---------------------------------------------------------------------------
+  [ErrorCode.CODEGEN_ERROR]: {
+    title: "Code generation error",
+    explanation: "JavaScript could not be generated for the program. " + INTERNAL,
+  },
+  [ErrorCode.UNSUPPORTED_NODE]: {
+    title: "Unsupported node",
+    explanation: "The code generator met an intermediate node it cannot translate. " + INTERNAL,
+  },
+  [ErrorCode.UNKNOWN_OPERATOR]: {
+    title: "Unknown operator",
+    explanation: "The code generator met an operator it does not know. " + INTERNAL,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Runtime
+  // ---------------------------------------------------------------------------
+  [ErrorCode.RUNTIME_ERROR]: {
+    title: "Runtime error",
+    explanation: "The compiled program threw an error while running. The location is mapped " +
+      "back to the HQL source that raised it.",
+  },
+  [ErrorCode.REFERENCE_ERROR]: {
+    title: "Reference error",
+    explanation: "The program used a name that does not exist at runtime, e.g. a global that is " +
+      "not available in Deno or a `js/` name, which the compiler does not check. Other misspelled " +
+      "names are reported at compile time as HQL5003 instead.",
+    wrong: "(print (js/lenght items))",
+    right: "(print items.length)",
+  },
+  [ErrorCode.RUNTIME_TYPE_ERROR]: {
+    title: "Type error at runtime",
+    explanation: "A value was used in a way its type does not allow, most often calling something " +
+      "that is not a function or reading a property of null or undefined.",
+    wrong: '(var user {"name": "Ada"})\n(user.greet)',
+    right: '(var user {"name": "Ada", "greet": (lambda () "hi")})\n(user.greet)',
+  },
+  [ErrorCode.NULL_ACCESS]: {
+    title: "Access on null or undefined",
+    explanation: "A property or method was used on null or undefined. Check the value first, or " +
+      "make sure it is initialized.",
+    wrong: "(var user nil)\n(print (js-get user \"name\"))",
+    right: '(var user nil)\n(print (if user (js-get user "name") "anonymous"))',
+  },
+  [ErrorCode.DIVISION_BY_ZERO]: {
+    title: "Division by zero",
+    explanation: "The compile-time evaluator divided by zero. At runtime, dividing by zero " +
+      "follows JavaScript and yields Infinity or NaN instead of an error.",
+  },
+
+  // ---------------------------------------------------------------------------
+  // Type checking
+  // ---------------------------------------------------------------------------
+  [ErrorCode.TYPE_MISMATCH]: {
+    title: "Type mismatch",
+    explanation: "`hql check` (or `--typecheck`) found a value whose type does not match the " +
+      "annotation it flows into: an argument, a default value or a returned value.",
+    wrong: '(fx area (size: Double) (-> Double)\n  (* size size))\n(area "10")',
+    right: "(area 10.0)",
+  },
+
+  // ---------------------------------------------------------------------------
+  // Internal
+  // ---------------------------------------------------------------------------
+  [ErrorCode.INTERNAL_ERROR]: {
+    title: "Internal error",
+    explanation: INTERNAL,
+  },
+  [ErrorCode.NULL_TRANSFORM]: {
+    title: "Transformation produced nothing",
+    explanation: "A form was transformed into nothing where a value was required. " + INTERNAL,
+  },
+  [ErrorCode.TRANSFORM_FAILED]: {
+    title: "Transformation failed",
+    explanation: "A form could not be transformed. If the message does not point at a mistake in " +
+      "the code, " + INTERNAL.charAt(0).toLowerCase() + INTERNAL.slice(1),
+  },
+};
+
+/**
+ * Look up a code, accepting "HQL1010", "hql1010" or just "1010"
+ */
+export function explainErrorCode(code: string): ErrorCodeEntry | undefined {
+  const normalized = code.trim().toUpperCase().replace(/^(?!HQL)/, "HQL");
+  return isErrorCode(normalized) ? { code: normalized, ...CATALOG[normalized] } : undefined;
+}
+
+/**
+ * All entries, ordered by code
+ */
+export function listErrorCodes(): ErrorCodeEntry[] {
+  return (Object.keys(CATALOG) as ErrorCode[])
+    .sort()
+    .map((code) => ({ code, ...CATALOG[code] }));
+}
@@ -0,0 +1,135 @@
+// core/src/common/error-codes.ts - Stable error codes for every HQL error site
+
+/**
+ * Each error the compiler raises carries one of these codes. Codes are stable:
+ * a message may be reworded, but its code never changes meaning, so tools and
+ * `hql explain` can rely on them. They are grouped by topic:
+ *
+ *   HQL1xxx  reading source (syntax)
+ *   HQL2xxx  imports, exports and modules
+ *   HQL3xxx  special forms: functions, bindings, control flow, types
+ *   HQL4xxx  macros
+ *   HQL5xxx  names, properties and JavaScript interop
+ *   HQL6xxx  code generation
+ *   HQL7xxx  runtime
+ *   HQL8xxx  type checking
+ *   HQL9xxx  internal compiler errors
+ */
+export enum ErrorCode {
+  // Syntax
+  SYNTAX_ERROR = "HQL1000",
+  UNCLOSED_LIST = "HQL1001",
+  UNCLOSED_VECTOR = "HQL1002",
+  UNCLOSED_MAP = "HQL1003",
+  UNCLOSED_SET = "HQL1004",
+  UNEXPECTED_CLOSING_DELIMITER = "HQL1005",
+  UNEXPECTED_END_OF_INPUT = "HQL1006",
+  UNEXPECTED_CHARACTER = "HQL1007",
+  INVALID_IMPORT_SYNTAX = "HQL1008",
+  MISSING_PROPERTY_NAME = "HQL1009",
+  INVALID_MAP_LITERAL = "HQL1010",
+  MISSING_ENUM_TYPE = "HQL1011",
+  UNEXPECTED_TOKEN = "HQL1012",
+  FORMAT_CHANGES_MEANING = "HQL1013",
+
+  // Modules
+  IMPORT_FAILED = "HQL2000",
+  MODULE_NOT_FOUND = "HQL2001",
+  SYMBOL_NOT_EXPORTED = "HQL2002",
+  INVALID_IMPORT_PATH = "HQL2003",
+  INVALID_IMPORT_NAME = "HQL2004",
+  INVALID_EXPORT = "HQL2005",
+  UNSUPPORTED_FILE_TYPE = "HQL2006",
+
+  // Special forms
+  INVALID_FORM = "HQL3000",
+  INVALID_FUNCTION_DEFINITION = "HQL3001",
+  INVALID_FUNCTION_NAME = "HQL3002",
+  INVALID_PARAMETER_LIST = "HQL3003",
+  INVALID_RETURN_TYPE = "HQL3004",
+  MISSING_DEFAULT_VALUE = "HQL3005",
+  INVALID_RETURN = "HQL3006",
+  MISSING_ARGUMENT = "HQL3010",
+  TOO_MANY_ARGUMENTS = "HQL3011",
+  UNKNOWN_NAMED_ARGUMENT = "HQL3012",
+  MISSING_NAMED_ARGUMENT_VALUE = "HQL3013",
+  MIXED_ARGUMENTS = "HQL3014",
+  PLACEHOLDER_WITHOUT_DEFAULT = "HQL3015",
+  IMPURE_REFERENCE = "HQL3016",
+  IMPURE_OPERATION = "HQL3017",
+  INVALID_BINDING_FORM = "HQL3020",
+  ODD_BINDING_LIST = "HQL3021",
+  INVALID_BINDING_NAME = "HQL3022",
+  INVALID_ASSIGNMENT = "HQL3023",
+  INVALID_PATTERN = "HQL3024",
+  INVALID_IF = "HQL3030",
+  INVALID_COND = "HQL3031",
+  INVALID_LOOP = "HQL3032",
+  RECUR_OUTSIDE_LOOP = "HQL3033",
+  RECUR_NOT_IN_TAIL_POSITION = "HQL3034",
+  RECUR_ARITY = "HQL3035",
+  INVALID_TRY = "HQL3036",
+  INVALID_THROW = "HQL3037",
+  INVALID_ASYNC = "HQL3038",
+  INVALID_YIELD = "HQL3039",
+  INVALID_MATCH = "HQL3040",
+  UNKNOWN_ENUM_CASE = "HQL3041",
+  NON_EXHAUSTIVE_MATCH = "HQL3042",
+  INVALID_CLASS = "HQL3050",
+  INVALID_STRUCT = "HQL3051",
+  INVALID_ENUM = "HQL3052",
+  INVALID_NEW = "HQL3053",
+  INVALID_QUOTE = "HQL3060",
+  OPERATOR_ARITY = "HQL3070",
+
+  // Macros
+  MACRO_ERROR = "HQL4000",
+  INVALID_MACRO_DEFINITION = "HQL4001",
+  MACRO_NOT_FOUND = "HQL4002",
+  MACRO_NOT_EXPORTED = "HQL4003",
+  MACRO_NAME_COLLISION = "HQL4004",
+  MACRO_EXPORT_ALIAS = "HQL4005",
+
+  // Names, properties and interop
+  INTEROP_ARITY = "HQL5000",
+  INVALID_PROPERTY_NAME = "HQL5001",
+  INVALID_COLLECTION_ACCESS = "HQL5002",
+  UNDEFINED_SYMBOL = "HQL5003",
+  PROPERTY_NOT_FOUND = "HQL5004",
+
+  // Code generation
+  CODEGEN_ERROR = "HQL6000",
+  UNSUPPORTED_NODE = "HQL6001",
+  UNKNOWN_OPERATOR = "HQL6002",
+
+  // Runtime
+  RUNTIME_ERROR = "HQL7000",
+  REFERENCE_ERROR = "HQL7001",
+  RUNTIME_TYPE_ERROR = "HQL7002",
+  NULL_ACCESS = "HQL7003",
+  DIVISION_BY_ZERO = "HQL7004",
+
+  // Type checking
+  TYPE_MISMATCH = "HQL8001",
+
+  // Internal
+  INTERNAL_ERROR = "HQL9000",
+  NULL_TRANSFORM = "HQL9001",
+  TRANSFORM_FAILED = "HQL9002",
+}
+
+/**
+ * The code of an error being wrapped, so that rethrowing it with more context
+ * keeps the code of the original problem
+ */
+export function errorCodeOf(error: unknown, fallback: ErrorCode): ErrorCode {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === "string" && isErrorCode(code) ? code : fallback;
+}
+
+/**
+ * Whether a string is a known code, e.g. "HQL1001"
+ */
+export function isErrorCode(code: string): code is ErrorCode {
+  return (Object.values(ErrorCode) as string[]).includes(code);
+}
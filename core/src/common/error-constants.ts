@@ -75,7 +75,10 @@ export const ERROR_REGEX = {
     EXPECTED_ARGS: /expected (\d+|at least \d+|at most \d+)/i,
     ACTUAL_ARGS: /(?:got|but got|received) (\d+)/i,
     MISSING_ARG: /missing (?:required )?argument for parameter ['"]?([^'"]+?)['"]?/i,
-    EXTRA_ARG: /extra arguments?: (.*)/i
+    EXTRA_ARG: /extra arguments?: (.*)/i,
+
+    // Source-mapped stack frame in an HQL file: "at f (file:///a/b.hql:3:5)"
+    HQL_STACK_FRAME: /((?:file:\/\/)?[^\s()]+\.hql):(\d+):(\d+)/
 };
 
 export const ERROR_SUGGESTIONS = {
@@ -2,11 +2,12 @@
 
 import { HQLError, ParseError, ValidationError, RuntimeError } from "./error.ts";
 import { globalLogger as logger } from "../logger.ts";
-import { globalErrorReporter, reportError } from "./error.ts";
+import { additionalParseErrors, formatHQLError, globalErrorReporter, reportError } from "./error.ts";
 import { initializeErrorHandling, handleRuntimeError, setRuntimeContext } from "./runtime-error-handler.ts";
 import { dirname, readTextFile } from "../platform/platform.ts";
 import * as path from "jsr:@std/path@1";
 import { ERROR_PATTERNS, ERROR_SUGGESTIONS, ERROR_REGEX } from "./error-constants.ts";
+import { Diagnostic, DiagnosticFormat, formatDiagnostics, toDiagnostic } from "./diagnostics.ts";
 
 /**
  * Error system configuration options
@@ -15,6 +16,7 @@ export interface ErrorSystemOptions {
   debug?: boolean;
   verboseErrors?: boolean;
   showInternalErrors?: boolean;
+  format?: DiagnosticFormat;
 }
 
 /**
@@ -23,9 +25,17 @@ export interface ErrorSystemOptions {
 const errorConfig: ErrorSystemOptions = {
   debug: false,
   verboseErrors: false,
-  showInternalErrors: false
+  showInternalErrors: false,
+  format: "text"
 };
 
+/**
+ * Diagnostics collected for --format json|sarif, written once on exit
+ */
+const collectedDiagnostics: Diagnostic[] = [];
+const collectedErrors = new Set<unknown>();
+const writeStdout = console.log;
+
 /**
  * Initialize the HQL error system
  */
@@ -34,6 +44,14 @@ export function initializeErrorSystem(options: ErrorSystemOptions = {}): void {
   errorConfig.debug = options.debug ?? false;
   errorConfig.verboseErrors = options.verboseErrors ?? false;
   errorConfig.showInternalErrors = options.showInternalErrors ?? false;
+  errorConfig.format = options.format ?? "text";
+
+  // Machine-readable output owns stdout: errors are collected rather than
+  // printed, and everything else that would be logged goes to stderr
+  if (errorConfig.format !== "text") {
+    globalErrorReporter.setSink(recordDiagnostic);
+    console.log = console.error;
+  }
   
   // Initialize runtime error handling
   initializeErrorHandling();
@@ -45,7 +63,7 @@ export function initializeErrorSystem(options: ErrorSystemOptions = {}): void {
     return originalExit(code);
   };
   
-  logger.debug("HQL error system initialized with options:", options);
+  logger.debug(`HQL error system initialized with options: ${JSON.stringify(options)}`);
 }
 
 /**
@@ -53,7 +71,7 @@ export function initializeErrorSystem(options: ErrorSystemOptions = {}): void {
  */
 export function updateErrorConfig(options: Partial<ErrorSystemOptions>): void {
   Object.assign(errorConfig, options);
-  logger.debug("Error system configuration updated:", errorConfig);
+  logger.debug(`Error system configuration updated: ${JSON.stringify(errorConfig)}`);
 }
 
 /**
@@ -63,6 +81,30 @@ export function getErrorConfig(): ErrorSystemOptions {
   return { ...errorConfig };
 }
 
+/**
+ * Collect an error as a diagnostic. The same underlying error is often
+ * reported twice, once enriched with its HQL location, so only the first
+ * report of each cause is kept.
+ */
+export function recordDiagnostic(error: unknown): void {
+  const cause = error instanceof HQLError && error.originalError ? error.originalError : error;
+  if (collectedErrors.has(cause)) return;
+  collectedErrors.add(cause);
+  collectedDiagnostics.push(toDiagnostic(error));
+  additionalParseErrors(error).forEach(recordDiagnostic);
+}
+
+/**
+ * Print the collected diagnostics as one JSON or SARIF document on stdout.
+ * Does nothing in text mode, where errors were already printed.
+ */
+export function writeDiagnostics(): void {
+  const format = errorConfig.format;
+  if (!format || format === "text") return;
+  writeStdout(formatDiagnostics(collectedDiagnostics, format));
+  collectedDiagnostics.length = 0;
+}
+
 /**
  * Wrap a function with error handling
  */
@@ -74,7 +116,7 @@ export async function withErrorHandling<T>(
     return await fn();
   } catch (error) {
     // Log the error
-    logger.error(`Error caught in withErrorHandling: ${error.message}`);
+    logger.error(`Error caught in withErrorHandling: ${error instanceof Error ? error.message : String(error)}`);
     
     // Handle the error with our improved system
     if (error instanceof Error) {
@@ -96,7 +138,7 @@ export async function withErrorHandling<T>(
  */
 export async function formatErrorForCLI(error: Error | HQLError): Promise<string> {
   if (error instanceof HQLError) {
-    return await globalErrorReporter.formatter.formatError(error, errorConfig.debug);
+    return await formatHQLError(error, errorConfig.debug);
   }
   
   // Convert regular Error to HQLError
@@ -105,7 +147,7 @@ export async function formatErrorForCLI(error: Error | HQLError): Promise<string
     originalError: error
   });
   
-  return await globalErrorReporter.formatter.formatError(hqlError, errorConfig.debug);
+  return await formatHQLError(hqlError, errorConfig.debug);
 }
 
 /**
@@ -306,6 +348,7 @@ export async function runWithErrorHandling(
 ): Promise<number> {
   try {
     const result = await command();
+    writeDiagnostics();
     return typeof result === 'number' ? result : 0;
   } catch (error) {
     // Configure error reporting based on options
@@ -314,15 +357,18 @@ export async function runWithErrorHandling(
     // Try to enrich the error with context
     let enrichedError = error;
     
-    if (options.currentFile) {
+    if (options.currentFile && error instanceof Error) {
       enrichedError = await enrichErrorWithContext(error, options.currentFile);
     }
     
     if (enrichedError instanceof Error) {
       await reportError(enrichedError, debug);
+    } else if (errorConfig.format !== "text") {
+      recordDiagnostic(error);
     } else {
       console.error(`Unknown error: ${error}`);
     }
+    writeDiagnostics();
     
     // Exit if requested
     if (options.exitOnError !== false) {
@@ -13,6 +13,7 @@
 
 import * as path from "jsr:@std/path@1";
 import { Logger, globalLogger as logger } from "../logger.ts";
+import { ErrorCode } from "./error-codes.ts";
 
 // -----------------------------------------------------------------------------
 // Color utilities
@@ -81,7 +82,8 @@ export async function formatHQLError(error: HQLError, isDebug = false): Promise<
     // Already enhanced in the improved error handling
   }
   
-  output.push(`${colors.red(colors.bold(`${errorType}:`))} ${message}`);
+  const code = error.code ? ` [${error.code}]` : "";
+  output.push(`${colors.red(colors.bold(`${errorType}${code}:`))} ${message}`);
 
   // Display code context with line numbers and column pointer if available
   if (error.contextLines?.length > 0) {
@@ -224,6 +226,10 @@ export async function formatHQLError(error: HQLError, isDebug = false): Promise<
       output.push(`${colors.cyan(`Suggestion: ${suggestion}`)}`);
     }
   }
+
+  if (error.code) {
+    output.push(colors.gray(`For more information, run: hql explain ${error.code}`));
+  }
   
   // Add stack trace only in debug mode
   if (isDebug && error.originalError?.stack) {
@@ -253,6 +259,26 @@ export function perform<T>(fn: () => T): T {
   return fn();
 }
 
+/**
+ * Whether an error is a ValidationError that already points into the source.
+ * Wrapping it in the error of an enclosing form would only bury its location.
+ */
+export function isLocatedValidationError(error: unknown): error is ValidationError {
+  return error instanceof ValidationError && !!error.sourceLocation.line;
+}
+
+/**
+ * Fail on the first of a file's errors, saying how many more there are
+ */
+export function throwFirstError(errors: HQLError[] | undefined): void {
+  if (!errors?.length) return;
+  const [first] = errors;
+  if (errors.length > 1) {
+    first.message += ` (and ${errors.length - 1} more; run 'hql check' to list them all)`;
+  }
+  throw first;
+}
+
 // -----------------------------------------------------------------------------
 // Error base + enums
 // -----------------------------------------------------------------------------
@@ -262,6 +288,7 @@ enum ErrorType {
   PARSE = "Parse Error",
   IMPORT = "Import Error",
   VALIDATION = "Validation Error",
+  TYPE = "Type Error",
   MACRO = "Macro Error",
   TRANSFORM = "Transform Error",
   RUNTIME = "Runtime Error",
@@ -276,6 +303,8 @@ export class HQLError extends Error {
   contextLines: { line: number; content: string; isError: boolean; column?: number }[] = [];
   filename?: string;
   metadata: Record<string, unknown> = {};
+  // Stable catalog code; subclasses set a default and sites refine it
+  code?: ErrorCode;
 
   constructor(
     msg: string,
@@ -301,6 +330,14 @@ export class HQLError extends Error {
     if (!opts.originalError && Error.captureStackTrace) Error.captureStackTrace(this, this.constructor);
   }
 
+  /**
+   * Tag the error with the catalog code of the problem it reports
+   */
+  withCode(code: ErrorCode): this {
+    this.code = code;
+    return this;
+  }
+
   getSummary(): string {
     const { filePath, line, column } = this.sourceLocation;
     const loc = filePath ? `${path.basename(filePath)}${line ? `:${line}${column ? `:${column}` : ""}` : ""}` : "";
@@ -330,12 +367,22 @@ export class HQLError extends Error {
 // -----------------------------------------------------------------------------
 
 export class ParseError extends HQLError {
-  constructor(msg: string, opts: { line: number; column: number; filePath?: string; source?: string; originalError?: Error }) {
-    super(msg, { errorType: ErrorType.PARSE, sourceLocation: opts, originalError: opts.originalError });
+  // End of the offending source, exclusive, when known (e.g. an unclosed '#[')
+  readonly end?: { line: number; column: number };
+  // Further syntax errors of the same file, found by recovering after this one
+  additionalErrors: ParseError[] = [];
+
+  constructor(msg: string, opts: { line: number; column: number; end?: { line: number; column: number }; filePath?: string; source?: string; originalError?: Error }) {
+    const { end, ...sourceLocation } = opts;
+    super(msg, { errorType: ErrorType.PARSE, sourceLocation, originalError: opts.originalError });
+    this.code = ErrorCode.SYNTAX_ERROR;
+    this.end = end;
   }
 
   override getSuggestion(): string {
     const m = this.message.toLowerCase();
+    const closing = this.message.match(/missing closing (\w+ '.')/);
+    if (closing) return `Add a closing ${closing[1]} to complete the expression.`;
     if (m.includes("unclosed") || (m.includes("missing") && m.includes("closing"))) return "Add a closing parenthesis ')' to complete the expression.";
     if (m.includes("unexpected ')'")) return "Check for missing opening parenthesis '(' earlier in the code.";
     if (m.includes("unexpected end of input")) return "Your code ends unexpectedly. Check for unclosed blocks or incomplete expressions.";
@@ -343,10 +390,23 @@ export class ParseError extends HQLError {
   }
 }
 
+/**
+ * The syntax errors found after the first one in a file, looking through
+ * errors that wrap the ParseError
+ */
+export function additionalParseErrors(error: unknown): ParseError[] {
+  for (let current = error; current instanceof Error; current = (current as HQLError).originalError) {
+    if (current instanceof ParseError) return current.additionalErrors;
+    if (!(current instanceof HQLError)) break;
+  }
+  return [];
+}
+
 export class ImportError extends HQLError {
   readonly importPath: string;
   constructor(msg: string, importPath: string, opts: { filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.IMPORT, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.IMPORT_FAILED;
     this.importPath = importPath;
   }
 
@@ -363,6 +423,7 @@ export class ValidationError extends HQLError {
   readonly actualType?: string;
   constructor(msg: string, context: string, opts: { expectedType?: string; actualType?: string; filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.VALIDATION, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.INVALID_FORM;
     this.context = context;
     this.expectedType = opts.expectedType;
     this.actualType = opts.actualType;
@@ -374,10 +435,27 @@ export class ValidationError extends HQLError {
   }
 }
 
+export class TypeCheckError extends HQLError {
+  readonly expectedType?: string;
+  readonly actualType?: string;
+  constructor(msg: string, opts: { expectedType?: string; actualType?: string; filePath?: string; line?: number; column?: number; source?: string } = {}) {
+    super(msg, { errorType: ErrorType.TYPE, sourceLocation: opts });
+    this.code = ErrorCode.TYPE_MISMATCH;
+    this.expectedType = opts.expectedType;
+    this.actualType = opts.actualType;
+  }
+
+  override getSuggestion(): string {
+    if (this.expectedType && this.actualType) return `Pass a value of type ${this.expectedType}, or change the annotation to accept ${this.actualType}.`;
+    return "Check the type annotations of the fx/fn definition.";
+  }
+}
+
 export class MacroError extends HQLError {
   readonly macroName: string;
   constructor(msg: string, macroName: string, opts: { filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.MACRO, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.MACRO_ERROR;
     this.macroName = macroName;
   }
 
@@ -390,6 +468,7 @@ export class TransformError extends HQLError {
   readonly phase: string;
   constructor(msg: string, phase: string, opts: { filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.TRANSFORM, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.TRANSFORM_FAILED;
     this.phase = phase;
   }
 
@@ -403,6 +482,7 @@ export class TransformError extends HQLError {
 export class RuntimeError extends HQLError {
   constructor(msg: string, opts: { filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.RUNTIME, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.RUNTIME_ERROR;
   }
 
   override getSuggestion(): string {
@@ -418,6 +498,7 @@ export class CodeGenError extends HQLError {
   readonly nodeType?: string;
   constructor(msg: string, opts: { nodeType?: string; filePath?: string; line?: number; column?: number; source?: string; originalError?: Error } = {}) {
     super(msg, { errorType: ErrorType.CODEGEN, sourceLocation: opts, originalError: opts.originalError });
+    this.code = ErrorCode.CODEGEN_ERROR;
     this.nodeType = opts.nodeType;
   }
 
@@ -429,6 +510,7 @@ export class CodeGenError extends HQLError {
 export class TranspilerError extends HQLError {
   constructor(msg: string, opts: Record<string, unknown> = {}) {
     super(msg, { ...opts, errorType: ErrorType.TRANSPILER });
+    this.code = ErrorCode.INTERNAL_ERROR;
     this.name = "TranspilerError";
   }
 }
@@ -524,6 +606,8 @@ class ErrorFormatter {
 export class ErrorReporter {
   private formatter: ErrorFormatter;
   private logger: Logger;
+  // When set, reported errors are handed over instead of printed
+  private sink?: (error: Error | HQLError) => void;
 
   constructor(logger?: Logger) {
     this.logger = logger || new Logger(false);
@@ -533,6 +617,14 @@ export class ErrorReporter {
   // Symbol to mark errors that have already been reported
   private static readonly reportedSymbol = Symbol.for("__hql_error_reported__");
 
+  /**
+   * Route reported errors to a collector, e.g. for JSON diagnostics output;
+   * pass undefined to print them again
+   */
+  setSink(sink?: (error: Error | HQLError) => void): void {
+    this.sink = sink;
+  }
+
   async reportError(error: Error | HQLError, isDebug = false): Promise<void> {
     // Prevent double reporting: if already reported, do nothing
     if (typeof error === 'object' && error !== null && (error as any)[ErrorReporter.reportedSymbol]) {
@@ -542,16 +634,24 @@ export class ErrorReporter {
     if (typeof error === 'object' && error !== null) {
       (error as any)[ErrorReporter.reportedSymbol] = true;
     }
-    try {
-      const formattedError = await this.formatter.formatError(error, isDebug);
-      console.error(formattedError);
-    } catch (formatError) {
-      // Fallback in case formatting itself fails
-      console.error(`Error: ${error.message}`);
-      if (isDebug) {
-        console.error(error.stack);
+    if (this.sink) {
+      this.sink(error);
+    } else {
+      try {
+        const formattedError = await this.formatter.formatError(error, isDebug);
+        console.error(formattedError);
+      } catch (formatError) {
+        // Fallback in case formatting itself fails
+        console.error(`Error: ${error.message}`);
+        if (isDebug) {
+          console.error(error.stack);
+        }
       }
     }
+    // The other syntax errors of the same file
+    for (const additional of additionalParseErrors(error)) {
+      await this.reportError(additional, isDebug);
+    }
   }
 
   createParseError(
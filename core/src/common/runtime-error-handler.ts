@@ -5,6 +5,7 @@ import * as path from "jsr:@std/path@1";
 import { RuntimeError, ValidationError } from "./error.ts";
 import { globalLogger as logger } from "../logger.ts";
 import { globalErrorReporter } from "./error.ts";
+import { ErrorCode } from "./error-codes.ts";
 import { ERROR_PATTERNS, ERROR_SUGGESTIONS, ERROR_REGEX, PATH_KEYS } from "./error-constants.ts";
 
 /**
@@ -96,40 +97,6 @@ export function setRuntimeContext(hqlFile?: string, jsFile?: string): void {
   }
 }
 
-/**
- * Calculate similarity between two strings (for typo detection)
- */
-function calculateSimilarity(s1: string, s2: string): number {
-  if (s1 === s2) return 1.0;
-  
-  const longer = s1.length > s2.length ? s1 : s2;
-  const shorter = s1.length > s2.length ? s2 : s1;
-  
-  // Early short-circuit for completely different lengths
-  if (longer.length === 0) {
-    return 0.0;
-  }
-  
-  // If the length difference is too great, they're not similar
-  if (longer.length - shorter.length > 3) {
-    return 0.0;
-  }
-  
-  // Count matching characters
-  let matches = 0;
-  for (let i = 0; i < shorter.length; i++) {
-    if (longer.includes(shorter[i])) {
-      matches++;
-    }
-  }
-  
-  // Calculate score - both length similarity and character matches matter
-  const lengthScore = shorter.length / longer.length;
-  const matchScore = matches / longer.length;
-  
-  return (lengthScore * 0.4) + (matchScore * 0.6);
-}
-
 /**
  * Get the HQL file path from a JavaScript file path
  */
@@ -284,27 +251,39 @@ export async function handleRuntimeError(error: Error): Promise<void> {
     logger.debug(`Handling runtime error: ${error.message}`);
     
     // Try to get a meaningful error location
+    let hqlFile = runtimeContext.currentHqlFile;
     let errorLocation = null;
     
-    // First try to use the current file context if available
-    if (runtimeContext.currentHqlFile) {
-      errorLocation = await findErrorLocation(error, runtimeContext.currentHqlFile);
+    // Source maps make the runtime report HQL positions in the stack itself
+    const mappedLocation = findMappedStackLocation(error);
+    if (mappedLocation) {
+      hqlFile = mappedLocation.filePath;
+      errorLocation = mappedLocation;
+    } else if (hqlFile) {
+      // Otherwise search the current file for the failing form
+      errorLocation = await findErrorLocation(error, hqlFile);
     }
     
     // If we found a location, create a RuntimeError with it
-    if (errorLocation) {
+    if (errorLocation && hqlFile) {
       // Read context lines from the HQL file
-      const contextLines = await readContextLines(runtimeContext.currentHqlFile!, errorLocation.line);
+      const contextLines = await readContextLines(hqlFile, errorLocation.line);
       
       // Create a RuntimeError with HQL source location
       const hqlError = new RuntimeError(
         error.message,
         {
-          filePath: runtimeContext.currentHqlFile,
+          filePath: hqlFile,
           line: errorLocation.line,
           column: errorLocation.column,
           originalError: error
         }
+      ).withCode(
+        error instanceof ReferenceError
+          ? ErrorCode.REFERENCE_ERROR
+          : error instanceof TypeError
+          ? ErrorCode.RUNTIME_TYPE_ERROR
+          : ErrorCode.RUNTIME_ERROR,
       );
       
       // Set the context lines
@@ -367,6 +346,21 @@ function getErrorSuggestion(error: Error): string | undefined {
   return undefined;
 }
 
+/**
+ * Find the first stack frame that source maps resolved to an HQL file
+ */
+export function findMappedStackLocation(
+  error: Error,
+): { filePath: string; line: number; column: number } | null {
+  for (const frame of (error.stack ?? "").split("\n")) {
+    const match = frame.match(ERROR_REGEX.HQL_STACK_FRAME);
+    if (!match) continue;
+    const filePath = match[1].startsWith("file://") ? path.fromFileUrl(match[1]) : match[1];
+    return { filePath, line: Number(match[2]), column: Number(match[3]) };
+  }
+  return null;
+}
+
 /**
  * Improved error location finder specifically for function call errors
  */
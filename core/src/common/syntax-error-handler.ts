@@ -7,6 +7,7 @@ import {
   MacroError, TransformError, ParseError, HQLError,
   SourceLocationInfo
 } from "./error.ts";
+import { ErrorCode } from "./error-codes.ts";
 import { globalLogger as logger } from "../logger.ts";
 import { enrichErrorWithContext } from "./error-system.ts";
 import { ERROR_PATTERNS, ERROR_REGEX } from "./error-constants.ts";
@@ -197,9 +198,9 @@ export function createImportError(
     {
       filePath: sourceLocation.filePath,
       line: sourceLocation.line,
-      column: sourceLocation.column
-    },
-    originalError
+      column: sourceLocation.column,
+      originalError,
+    }
   );
   
   return error;
@@ -218,9 +219,9 @@ export function createRuntimeError(
     {
       filePath: sourceLocation.filePath,
       line: sourceLocation.line,
-      column: sourceLocation.column
-    },
-    originalError
+      column: sourceLocation.column,
+      originalError,
+    }
   );
   
   return error;
@@ -241,9 +242,9 @@ export function createMacroError(
     {
       filePath: sourceLocation.filePath,
       line: sourceLocation.line,
-      column: sourceLocation.column
-    },
-    originalError
+      column: sourceLocation.column,
+      originalError,
+    }
   );
   
   return error;
@@ -264,9 +265,9 @@ export function createTransformError(
     {
       filePath: sourceLocation.filePath,
       line: sourceLocation.line,
-      column: sourceLocation.column
-    },
-    originalError
+      column: sourceLocation.column,
+      originalError,
+    }
   );
   
   return error;
@@ -485,14 +486,14 @@ export async function handlePropertyAccessError(
         return new ValidationError(
           `Property '${propName}' not found in object '${objName}'`,
           "property access",
-          "defined property",
-          "undefined property",
           {
+            expectedType: "defined property",
+            actualType: "undefined property",
             filePath,
             line: 1,
             column: 1
           }
-        );
+        ).withCode(ErrorCode.PROPERTY_NOT_FOUND);
       }
       
       const content = await readTextFile(filePath);
@@ -566,14 +567,14 @@ export async function handlePropertyAccessError(
   const validationError = new ValidationError(
     message,
     "property access",
-    "defined property",
-    "undefined property",
     {
+      expectedType: "defined property",
+      actualType: "undefined property",
       filePath: location.filePath,
       line: location.line,
       column: location.column
     }
-  );
+  ).withCode(ErrorCode.PROPERTY_NOT_FOUND);
   
   // Enrich with context and return
   return await enrichErrorWithContext(validationError, filePath);
@@ -601,10 +602,8 @@ export async function handleVariableNotFoundError(
         return new ValidationError(
           `Variable '${varName}' is not defined`,
           "variable reference",
-          "defined variable",
-          "undefined variable",
-          { filePath }
-        );
+          { expectedType: "defined variable", actualType: "undefined variable", filePath }
+        ).withCode(ErrorCode.UNDEFINED_SYMBOL);
       }
       
       const content = await readTextFile(filePath);
@@ -673,14 +672,14 @@ export async function handleVariableNotFoundError(
   const validationError = new ValidationError(
     message,
     "variable reference",
-    "defined variable",
-    "undefined variable",
     {
+      expectedType: "defined variable",
+      actualType: "undefined variable",
       filePath: location.filePath,
       line: location.line,
       column: location.column
     }
-  );
+  ).withCode(ErrorCode.UNDEFINED_SYMBOL);
   
   // Enrich with context and return
   return await enrichErrorWithContext(validationError, filePath);
@@ -1084,7 +1083,7 @@ export async function handleFunctionCallError(
   }
   
   // Create a RuntimeError with detailed source location
-  const runtimeError = new RuntimeError(message, location);
+  const runtimeError = new RuntimeError(message, location).withCode(ErrorCode.RUNTIME_ERROR);
   
   // Try to get context lines for the error location
   if (location.line && location.filePath) {
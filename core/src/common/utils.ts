@@ -95,6 +95,47 @@ function sanitizeBasicIdentifier(name: string): string {
   return sanitized;
 }
 
+/**
+ * Number of single-character edits, or swaps of adjacent characters, that
+ * turn one string into the other
+ */
+export function editDistance(a: string, b: string): number {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+/**
+ * The candidate closest to a misspelled name, for "did you mean" hints.
+ * Allows one edit per three characters, but never a whole different name,
+ * and ignores differences of case and of '-' versus '_'.
+ */
+export function findSimilarName(name: string, candidates: Iterable<string>): string | undefined {
+  const normalize = (value: string) => value.toLowerCase().replace(/-/g, "_");
+  const target = normalize(name);
+  const limit = Math.min(Math.max(1, Math.floor(name.length / 3)), name.length - 1);
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    if (candidate === name || Math.abs(candidate.length - name.length) > limit) continue;
+    const distance = editDistance(target, normalize(candidate));
+    if (distance <= limit && distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
 /**
  * Check if a path is a URL
  */
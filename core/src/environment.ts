@@ -1,6 +1,6 @@
-// core/src/environment.ts - Final cleanup of user macro references
+// core/src/environment.ts - Runtime environment with system and module-scoped macros
 
-import { SExp } from "./s-exp/types.ts";
+import { createList, createLiteral, isList, isSymbol, SExp, SSymbol } from "./s-exp/types.ts";
 import { Logger } from "./logger.ts";
 import { MacroRegistry } from "./s-exp/macro-registry.ts";
 import {
@@ -8,7 +8,9 @@ import {
   TranspilerError,
   ValidationError,
 } from "./common/error.ts";
+import { ErrorCode, errorCodeOf } from "./common/error-codes.ts";
 import { LRUCache } from "./common/lru-cache.ts";
+import { formatSExp } from "./formatter.ts";
 import { globalLogger as logger } from "./logger.ts";
 import { globalSymbolTable } from "./transpiler/symbol_table.ts";
 import { createBasicSymbolInfo, enrichSymbolInfoWithValueType } from "./transpiler/utils/symbol_info_utils.ts";
@@ -89,23 +91,33 @@ export class Environment {
       this.define("*", (...args: number[]) => args.reduce((a, b) => a * b, 1));
       this.define("/", (a: number, b: number) => {
         if (b === 0) {
-          throw new ValidationError("Division by zero", "arithmetic operation", "number", "zero");
+          throw new ValidationError("Division by zero", "arithmetic operation", "number", "zero").withCode(ErrorCode.DIVISION_BY_ZERO);
         }
         return a / b;
       });
       this.define("%", (a: number, b: number) => {
         if (b === 0) {
-          throw new ValidationError("Modulo by zero", "arithmetic operation", "number", "zero");
+          throw new ValidationError("Modulo by zero", "arithmetic operation", "number", "zero").withCode(ErrorCode.DIVISION_BY_ZERO);
         }
         return a % b;
       });
       this.define("=", (a: Value, b: Value) => a === b);
       this.define("eq?", (a: Value, b: Value) => a === b);
       this.define("!=", (a: Value, b: Value) => a !== b);
-      this.define("<", (a: number, b: number) => a < b);
-      this.define(">", (a: number, b: number) => a > b);
-      this.define("<=", (a: number, b: number) => a <= b);
-      this.define(">=", (a: number, b: number) => a >= b);
+      this.define("<", (...args: number[]) => args.every((b, i) => i === 0 || args[i - 1] < b));
+      this.define(">", (...args: number[]) => args.every((b, i) => i === 0 || args[i - 1] > b));
+      this.define("<=", (...args: number[]) => args.every((b, i) => i === 0 || args[i - 1] <= b));
+      this.define(">=", (...args: number[]) => args.every((b, i) => i === 0 || args[i - 1] >= b));
+      this.define("**", (a: number, b: number) => a ** b);
+      this.define("bit-and", (...args: number[]) => args.reduce((a, b) => a & b));
+      this.define("bit-or", (...args: number[]) => args.reduce((a, b) => a | b));
+      this.define("bit-xor", (...args: number[]) => args.reduce((a, b) => a ^ b));
+      this.define("bit-not", (a: number) => ~a);
+      this.define("bit-shift-left", (a: number, b: number) => a << b);
+      this.define("bit-shift-right", (a: number, b: number) => a >> b);
+      this.define("unsigned-bit-shift-right", (a: number, b: number) => a >>> b);
+      this.define("??", (...args: Value[]) => args.reduce((a, b) => a ?? b));
+      this.define("nil-or", (...args: Value[]) => args.reduce((a, b) => a ?? b));
       this.define("get", (coll: unknown, key: string | number, notFound: Value = null) => {
         if (coll == null) return notFound;
         if (Array.isArray(coll)) {
@@ -124,7 +136,7 @@ export class Environment {
             "js-get operation",
             "object",
             obj === null ? "null" : "undefined",
-          );
+          ).withCode(ErrorCode.NULL_ACCESS);
         }
         return (obj as Record<string, unknown>)[prop];
       });
@@ -135,7 +147,7 @@ export class Environment {
             "js-call operation",
             "object",
             obj === null ? "null" : "undefined",
-          );
+          ).withCode(ErrorCode.NULL_ACCESS);
         }
         const o = obj as Record<string, unknown>;
         if (typeof o[method] !== "function") {
@@ -144,13 +156,22 @@ export class Environment {
             "js-call operation",
             "function",
             typeof o[method],
-          );
+          ).withCode(ErrorCode.RUNTIME_TYPE_ERROR);
         }
         return (o[method] as Function)(...args);
       });
       this.define("throw", (message: string) => {
         throw new TranspilerError(message);
       });
+      // Source text of a form on one line, so macros such as `is` can report what they checked
+      this.define("form->string", (form: Value) => formatSExp(toSExp(form), { width: Infinity }));
+      // So macros such as `for` can tell named bindings like `to:` from values
+      const isSymbolForm = (form: Value): form is SSymbol => form != null && isSymbol(form as SExp);
+      this.define("symbol?", isSymbolForm);
+      this.define("name", (form: Value) => isSymbolForm(form) ? form.name : String(form));
+      // So macros such as `->` can tell a call step (f x) from a bare f; arguments
+      // arrive as arrays of their elements
+      this.define("list?", (form: Value) => Array.isArray(form) || (form != null && isList(form as SExp)));
       
       // Register all builtins in the symbol table
       this.registerBuiltinsInSymbolTable();
@@ -159,7 +180,7 @@ export class Environment {
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       this.logger.error(`Failed to initialize built-in functions: ${msg}`);
-      throw new ValidationError(`Failed to initialize built-in functions: ${msg}`, "environment");
+      throw new ValidationError(`Failed to initialize built-in functions: ${msg}`, "environment").withCode(errorCodeOf(error, ErrorCode.INTERNAL_ERROR));
     }
   }
   
@@ -167,7 +188,11 @@ export class Environment {
    * Register all builtin functions in the global symbol table
    */
   private registerBuiltinsInSymbolTable(): void {
-    const builtins = ['+', '-', '*', '/', '%', '=', 'eq?', '!=', '<', '>', '<=', '>=', 'get', 'js-get', 'js-call', 'throw'];
+    const builtins = [
+      '+', '-', '*', '/', '%', '=', 'eq?', '!=', '<', '>', '<=', '>=', '**',
+      'bit-and', 'bit-or', 'bit-xor', 'bit-not', 'bit-shift-left', 'bit-shift-right', 'unsigned-bit-shift-right',
+      '??', 'nil-or', 'get', 'js-get', 'js-call', 'throw', 'form->string', 'symbol?', 'list?', 'name',
+    ];
     
     for (const name of builtins) {
       globalSymbolTable.set({
@@ -201,7 +226,7 @@ export class Environment {
       globalSymbolTable.set(enrichedSymbolInfo);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      throw new ValidationError(`Failed to define symbol ${key}: ${msg}`, "environment");
+      throw new ValidationError(`Failed to define symbol ${key}: ${msg}`, "environment").withCode(errorCodeOf(error, ErrorCode.INTERNAL_ERROR));
     }
   }
 
@@ -241,11 +266,11 @@ export class Environment {
         "variable lookup",
         "defined symbol",
         "undefined symbol",
-      );
+      ).withCode(ErrorCode.UNDEFINED_SYMBOL);
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       if (error instanceof ValidationError) throw error;
-      throw new ValidationError(`Error looking up symbol ${key}: ${msg}`, "variable lookup");
+      throw new ValidationError(`Error looking up symbol ${key}: ${msg}`, "variable lookup").withCode(errorCodeOf(error, ErrorCode.UNDEFINED_SYMBOL));
     }
   }
 
@@ -263,7 +288,7 @@ export class Environment {
           "module property lookup",
           "defined property",
           "undefined property",
-        );
+        ).withCode(ErrorCode.SYMBOL_NOT_EXPORTED);
       }
     }
     try {
@@ -277,12 +302,12 @@ export class Environment {
             "module lookup",
             "defined module",
             "undefined module",
-          );
+          ).withCode(ErrorCode.MODULE_NOT_FOUND);
         }
         throw error;
       }
       const msg = error instanceof Error ? error.message : String(error);
-      throw new ValidationError(`Error accessing ${key}: ${msg}`, "dot notation lookup");
+      throw new ValidationError(`Error accessing ${key}: ${msg}`, "dot notation lookup").withCode(errorCodeOf(error, ErrorCode.PROPERTY_NOT_FOUND));
     }
   }
 
@@ -294,7 +319,7 @@ export class Environment {
         "property access",
         "object",
         obj === null ? "null" : "undefined",
-      );
+      ).withCode(ErrorCode.PROPERTY_NOT_FOUND);
     }
     const parts = path.split(".");
     let current: unknown = obj;
@@ -305,7 +330,7 @@ export class Environment {
           "property path access",
           "object",
           typeof current,
-        );
+        ).withCode(ErrorCode.PROPERTY_NOT_FOUND);
       }
       const c = current as Record<string, unknown>;
       if (part in c) {
@@ -322,7 +347,7 @@ export class Environment {
         "property path access",
         "defined property",
         "undefined property",
-      );
+      ).withCode(ErrorCode.PROPERTY_NOT_FOUND);
     }
     return current as Value;
   }
@@ -418,7 +443,7 @@ export class Environment {
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
       if (error instanceof ValidationError || error instanceof MacroError) throw error;
-      throw new ValidationError(`Failed to import module ${moduleName}: ${msg}`, "module import");
+      throw new ValidationError(`Failed to import module ${moduleName}: ${msg}`, "module import").withCode(errorCodeOf(error, ErrorCode.IMPORT_FAILED));
     }
   }
 
@@ -458,10 +483,40 @@ export class Environment {
       });
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      throw new MacroError(`Failed to define macro ${key}: ${msg}`, key, this.currentFilePath || undefined);
+      throw new MacroError(`Failed to define macro ${key}: ${msg}`, key, this.currentFilePath || undefined).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
+    }
+  }
+
+  defineModuleMacro(filePath: string, key: string, macro: MacroFn): void {
+    try {
+      this.logger.debug(`Defining macro ${key} in ${filePath}`);
+      this.tagMacroFunction(macro, key, filePath);
+      this.macroRegistry.defineModuleMacro(filePath, key, macro);
+    } catch (error) {
+      if (error instanceof MacroError) throw error;
+      const msg = error instanceof Error ? error.message : String(error);
+      throw new MacroError(`Failed to define macro ${key}: ${msg}`, key, { filePath }).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
     }
   }
 
+  clearModuleMacros(filePath: string): void {
+    this.macroRegistry.clearModuleMacros(filePath);
+    this.importedMacros.delete(filePath);
+    this.macroAliases.delete(filePath);
+  }
+
+  exportMacro(filePath: string, macroName: string): boolean {
+    return this.macroRegistry.exportMacro(filePath, macroName);
+  }
+
+  shadowSystemMacro(filePath: string, name: string): void {
+    this.macroRegistry.shadowSystemMacro(filePath, name);
+  }
+
+  hasModuleMacro(filePath: string, macroName: string): boolean {
+    return this.macroRegistry.hasModuleMacro(filePath, macroName);
+  }
+
   importMacro(sourceFile: string, macroName: string, targetFile: string, aliasName?: string): boolean {
     try {
       const success = this.macroRegistry.importMacro(sourceFile, macroName, targetFile, aliasName);
@@ -492,16 +547,24 @@ export class Environment {
       return success;
     } catch (error) {
       const msg = error instanceof Error ? error.message : String(error);
-      throw new MacroError(`Failed to import macro ${macroName}: ${msg}`, macroName, sourceFile);
+      throw new MacroError(`Failed to import macro ${macroName}: ${msg}`, macroName, sourceFile).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
     }
   }
 
   hasMacro(key: string): boolean {
-    return this.macroRegistry.hasMacro(key);
+    return this.macroRegistry.hasMacro(key, this.currentFilePath);
   }
 
   getMacro(key: string): MacroFn | undefined {
-    return this.macroRegistry.getMacro(key);
+    return this.macroRegistry.getMacro(key, this.currentFilePath);
+  }
+
+  getMacroFrom(filePath: string, key: string): MacroFn | undefined {
+    return this.macroRegistry.getMacro(key, filePath);
+  }
+
+  getMacroNames(filePath: string | null = this.currentFilePath): string[] {
+    return this.macroRegistry.getMacroNames(filePath);
   }
 
   isSystemMacro(symbolName: string): boolean {
@@ -513,6 +576,16 @@ export class Environment {
     this.processedFiles.add(filePath);
   }
 
+  /**
+   * Forget everything loaded from a file that changed on disk, so the next
+   * import of it reads and expands it again
+   */
+  invalidateFile(filePath: string): void {
+    this.macroRegistry.unmarkFileProcessed(filePath);
+    this.processedFiles.delete(filePath);
+    this.clearModuleMacros(filePath);
+  }
+
   hasProcessedFile(filePath: string): boolean {
     if (this.macroRegistry.hasProcessedFile(filePath)) {
       return true;
@@ -547,7 +620,9 @@ export class Environment {
   }
 
   extend(): Environment {
-    return new Environment(this, this.logger);
+    const child = new Environment(this, this.logger);
+    child.currentFilePath = this.currentFilePath;
+    return child;
   }
 
   clearCache(): void {
@@ -598,3 +673,13 @@ export class Environment {
     return exports ? Object.keys(exports) : [];
   }
 }
+
+/**
+ * Rebuild an S-expression from a builtin argument. Macro-time calls receive
+ * literals as plain values and lists as arrays of their elements.
+ */
+function toSExp(value: Value): SExp {
+  if (Array.isArray(value)) return createList(...value.map((item) => toSExp(item as Value)));
+  if (value !== null && typeof value === "object" && "type" in value) return value as SExp;
+  return createLiteral(value as string | number | boolean | null);
+}
@@ -0,0 +1,475 @@
+// core/src/formatter.ts - Canonical HQL formatter and S-expression pretty printer
+
+import { parse, tokenize, Token, TokenType } from "./transpiler/pipeline/parser.ts";
+import { isList, isLiteral, isSymbol, SExp, sexpToString } from "./s-exp/types.ts";
+import { ParseError } from "./common/error.ts";
+import { ErrorCode } from "./common/error-codes.ts";
+
+/**
+ * Options controlling formatter output
+ */
+export interface FormatOptions {
+  /** Target line width; forms that fit are kept on one line */
+  width?: number;
+  /** File path used in error locations */
+  filePath?: string;
+}
+
+type Opener = "(" | "[" | "{" | "#[";
+
+/**
+ * Concrete syntax tree the printer works on. Unlike `SExp` it keeps the
+ * original spelling of atoms, bracket kinds, reader prefixes and comments.
+ */
+type FormatNode = FormatAtom | FormatList | FormatComment;
+
+interface FormatAtom {
+  kind: "atom";
+  text: string;
+  /** Reader prefix such as `'` or `~@` */
+  prefix: string;
+  /** Punctuation printed after the node, such as a separating comma */
+  suffix?: string;
+  /** Number of blank lines before this node in the source */
+  blankBefore: number;
+}
+
+interface FormatList {
+  kind: "list";
+  open: Opener;
+  children: FormatNode[];
+  prefix: string;
+  suffix?: string;
+  blankBefore: number;
+}
+
+interface FormatComment {
+  kind: "comment";
+  text: string;
+  /** Comment shares a line with the node before it */
+  trailing: boolean;
+  blankBefore: number;
+}
+
+const DEFAULT_WIDTH = 80;
+const INDENT = 2;
+/* Spaces between code and a comment on the same line */
+const COMMENT_GAP = 2;
+
+const CLOSERS: Record<Opener, string> = { "(": ")", "[": "]", "{": "}", "#[": "]" };
+const PREFIXES: Partial<Record<TokenType, string>> = {
+  [TokenType.Quote]: "'",
+  [TokenType.Backtick]: "`",
+  [TokenType.Unquote]: "~",
+  [TokenType.UnquoteSplicing]: "~@",
+};
+
+/* Forms whose body is indented under a header of distinguished arguments */
+const BODY_FORMS: Record<string, number> = {
+  "when": 1, "unless": 1, "while": 1, "when-let": 1, "if-let": 1,
+  "loop": 1, "for": 1, "for-of": 1, "for-await": 1, "dotimes": 1, "repeat": 1, "match": 1,
+  "catch": 1, "constructor": 1, "do": 0, "try": 0, "finally": 0,
+};
+const DEFINITION_FORMS = new Set(["fn", "fx", "macro", "defmacro", "lambda", "method", "fn*", "lambda*"]);
+const BINDING_FORMS = new Set(["let", "var", "const"]);
+const TYPE_FORMS = new Set(["class", "struct", "interface", "enum"]);
+/* Heads whose binding vector is laid out as name/value pairs */
+const PAIRED_BINDINGS = new Set(["let", "loop", "for", "for-of", "for-await", "when-let", "if-let", "dotimes"]);
+
+/**
+ * Format HQL source code canonically. Comments are kept, blank lines
+ * between forms are collapsed to one, and the result ends with a newline.
+ * Throws a ParseError when the source does not parse.
+ */
+export function formatSource(source: string, options: FormatOptions = {}): string {
+  const filePath = options.filePath ?? "";
+  // Validate first so malformed code is reported rather than reshaped
+  const original = parse(source, filePath);
+
+  const nodes = readNodes(source, tokenize(source, filePath, { keepComments: true }), filePath);
+  const printer = new Printer(options.width ?? DEFAULT_WIDTH);
+  const formatted = printer.printSequence(nodes, 0).trimEnd();
+  const output = formatted ? formatted + "\n" : "";
+
+  const reparsed = parse(output, filePath);
+  if (reparsed.map(sexpToString).join("\n") !== original.map(sexpToString).join("\n")) {
+    throw new ParseError("Formatting would change the meaning of this file", { line: 1, column: 1, filePath }).withCode(ErrorCode.FORMAT_CHANGES_MEANING);
+  }
+  return output;
+}
+
+/**
+ * Pretty print an S-expression as HQL source, restoring the bracket
+ * syntax that the parser desugars: `[]` vectors, `{}` maps and `#[]` sets.
+ */
+export function formatSExp(exp: SExp, options: FormatOptions = {}): string {
+  return new Printer(options.width ?? DEFAULT_WIDTH).print(fromSExp(exp), 0);
+}
+
+/* Build the format tree from tokens, measuring blank lines from the source */
+function readNodes(source: string, tokens: Token[], filePath: string): FormatNode[] {
+  const root: FormatNode[] = [];
+  const stack: { open: Opener; children: FormatNode[] }[] = [{ open: "(", children: root }];
+  let prefix = "";
+  let previousEnd = 0;
+
+  for (const token of tokens) {
+    const gap = source.slice(previousEnd, token.position.offset);
+    const newlines = (gap.match(/\n/g) ?? []).length;
+    const blankBefore = Math.max(newlines - 1, 0);
+    const adjacent = gap.length === 0;
+    previousEnd = token.position.offset + token.value.length;
+    const frame = stack[stack.length - 1];
+    const siblings = frame.children;
+
+    switch (token.type) {
+      case TokenType.Comment:
+        siblings.push({ kind: "comment", text: token.value.trimEnd(), trailing: newlines === 0 && siblings.length > 0, blankBefore });
+        continue;
+      case TokenType.Quote:
+      case TokenType.Backtick:
+      case TokenType.Unquote:
+      case TokenType.UnquoteSplicing:
+        prefix += PREFIXES[token.type];
+        continue;
+      case TokenType.LeftParen:
+      case TokenType.LeftBracket:
+      case TokenType.LeftBrace:
+      case TokenType.HashLeftBracket: {
+        const list: FormatList = { kind: "list", open: token.value as Opener, children: [], prefix, blankBefore };
+        prefix = "";
+        siblings.push(list);
+        stack.push({ open: list.open, children: list.children });
+        continue;
+      }
+      case TokenType.RightParen:
+      case TokenType.RightBracket:
+      case TokenType.RightBrace:
+        if (stack.length === 1 || CLOSERS[frame.open] !== token.value) {
+          throw new ParseError(`Unexpected '${token.value}'`, token.position).withCode(ErrorCode.UNEXPECTED_CLOSING_DELIMITER);
+        }
+        stack.pop();
+        continue;
+    }
+
+    const last = siblings[siblings.length - 1];
+    if (token.type === TokenType.Comma && frame.open !== "(") {
+      // Maps and sets get their commas back from the printer; vectors keep the author's
+      if (frame.open === "[" && last && last.kind !== "comment") last.suffix = ",";
+      continue;
+    }
+    // `.name` and `"key":` are read as one atom when written without spaces
+    const glues = token.type === TokenType.Colon || (last?.kind === "atom" && last.text === "." && !last.prefix);
+    if (last?.kind === "atom" && adjacent && glues) {
+      last.text += token.value;
+      continue;
+    }
+
+    siblings.push({ kind: "atom", text: token.value, prefix, blankBefore });
+    prefix = "";
+  }
+
+  if (stack.length > 1) {
+    throw new ParseError("Unclosed list", { line: 1, column: 1, filePath }).withCode(ErrorCode.UNCLOSED_LIST);
+  }
+  return root;
+}
+
+/* Convert a parsed S-expression back into surface syntax */
+function fromSExp(exp: SExp): FormatAtom | FormatList {
+  if (isSymbol(exp)) return atom(exp.name);
+  if (isLiteral(exp)) {
+    if (exp.value === null) return atom("nil");
+    if (typeof exp.value === "string") {
+      return atom(`"${exp.value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`);
+    }
+    return atom(String(exp.value));
+  }
+  if (!isList(exp)) return atom(String(exp));
+
+  const [head, ...rest] = exp.elements;
+  const headName = head && isSymbol(head) ? head.name : "";
+  const readerPrefixes: Record<string, string> = {
+    "quote": "'", "quasiquote": "`", "unquote": "~", "unquote-splicing": "~@",
+  };
+  if (readerPrefixes[headName] && rest.length === 1) {
+    const inner = fromSExp(rest[0]);
+    return { ...inner, prefix: readerPrefixes[headName] + inner.prefix };
+  }
+
+  switch (headName) {
+    case "empty-array": return list("[", []);
+    case "empty-map": return list("{", []);
+    case "empty-set": return list("#[", []);
+    case "vector": return list("[", rest.map(fromSExp));
+    case "hash-set": return list("#[", rest.map(fromSExp));
+    case "hash-map":
+      return list("{", rest.map((el, i) => {
+        const node = fromSExp(el);
+        return i % 2 === 0 && node.kind === "atom" ? { ...node, text: node.text + ":" } : node;
+      }));
+  }
+  return list("(", exp.elements.map(fromSExp));
+}
+
+function atom(text: string): FormatAtom {
+  return { kind: "atom", text, prefix: "", blankBefore: 0 };
+}
+
+function list(open: Opener, children: FormatNode[]): FormatList {
+  return { kind: "list", open, children, prefix: "", blankBefore: 0 };
+}
+
+/**
+ * Lays out format trees. Every form is kept on one line when it fits;
+ * otherwise the head form's layout rule decides where lines break.
+ */
+class Printer {
+  constructor(private readonly width: number) {}
+
+  /**
+   * Print nodes one per line at `column`, keeping trailing comments on the
+   * line they follow and at most one blank line between nodes
+   */
+  printSequence(nodes: FormatNode[], column: number): string {
+    const lines: { text: string; end: number; comment?: string; blankBefore: boolean }[] = [];
+    nodes.forEach((node, i) => {
+      const previous = lines[lines.length - 1];
+      if (node.kind === "comment" && node.trailing && previous && !previous.comment) {
+        previous.comment = node.text;
+        return;
+      }
+      const text = this.print(node, column);
+      lines.push({ text, end: lastLineEnd(text, column), blankBefore: i > 0 && node.blankBefore > 0 });
+    });
+
+    // Trailing comments on consecutive lines share a column
+    for (let i = 0; i < lines.length;) {
+      let j = i;
+      while (j < lines.length && lines[j].comment && (j === i || !lines[j].blankBefore)) j++;
+      const run = lines.slice(i, Math.max(j, i + 1));
+      const commentColumn = Math.max(...run.map((line) => line.end)) + COMMENT_GAP;
+      for (const line of run) {
+        if (line.comment) line.text += " ".repeat(commentColumn - line.end) + line.comment;
+      }
+      i += run.length;
+    }
+
+    const pad = " ".repeat(column);
+    return lines.map((line, i) => (i === 0 ? "" : line.blankBefore ? "\n\n" + pad : "\n" + pad) + line.text).join("");
+  }
+
+  print(node: FormatNode, column: number): string {
+    const suffix = node.kind === "comment" ? "" : node.suffix ?? "";
+    if (node.kind !== "list") return node.kind === "atom" ? node.prefix + node.text + suffix : node.text;
+
+    const flat = this.flat(node);
+    if (flat !== null && column + flat.length + suffix.length <= this.width) {
+      return flat + suffix;
+    }
+
+    const start = column + node.prefix.length + node.open.length;
+    const entries = separatedEntries(node);
+    const body = entries
+      ? this.printSeparated(entries, start)
+      : node.open === "(" ? this.printForm(node.children, start) : this.printSequence(node.children, start);
+    return node.prefix + node.open + body + this.closing(entries ?? node.children, start) + CLOSERS[node.open] + suffix;
+  }
+
+  /* Map entries and set items, comma separated and one per line */
+  private printSeparated(entries: FormatNode[], column: number): string {
+    const lastItem = entries.findLastIndex((e) => e.kind !== "comment");
+    return this.printSequence(
+      entries.map((entry, i) =>
+        i < lastItem && entry.kind !== "comment" ? { ...entry, suffix: "," } as FormatNode : entry
+      ),
+      column,
+    );
+  }
+
+  /* Put the closing bracket on its own line when a comment ends the list */
+  private closing(children: FormatNode[], column: number): string {
+    const last = children[children.length - 1];
+    return last?.kind === "comment" ? "\n" + " ".repeat(column) : "";
+  }
+
+  /**
+   * The whole node on one line, or null when it contains a comment or
+   * a multi-line string
+   */
+  private flat(node: FormatNode): string | null {
+    if (node.kind === "comment") return null;
+    if (node.kind === "atom") return node.text.includes("\n") ? null : node.prefix + node.text;
+    if (this.mustBreak(node)) return null;
+    const entries = separatedEntries(node);
+    const parts: string[] = [];
+    for (const child of entries ?? node.children) {
+      const text = this.flat(child);
+      if (text === null) return null;
+      parts.push(text + (child.kind === "comment" ? "" : child.suffix ?? ""));
+    }
+    return node.prefix + node.open + parts.join(entries ? ", " : " ") + CLOSERS[node.open];
+  }
+
+  /* Definitions with several body forms and type declarations always break */
+  private mustBreak(node: FormatList): boolean {
+    if (node.open !== "(") return false;
+    const head = headName(node);
+    if (TYPE_FORMS.has(head)) return node.children.slice(2).some((c) => c.kind === "list");
+    if (head === "cond") return node.children.length > 2;
+    if (DEFINITION_FORMS.has(head)) return node.children.length - headerLength(node.children) > 1;
+    return false;
+  }
+
+  /**
+   * Lay out a parenthesised form starting after its `(` at `column`
+   */
+  private printForm(children: FormatNode[], column: number): string {
+    const head = children[0];
+    const name = head?.kind === "atom" && !head.prefix ? head.text : "";
+    const bodyColumn = column - 1 + INDENT;
+
+    if (name === "cond") return this.printHeader(children, 1, column, bodyColumn);
+    if (name === "if") return this.printHeader(children, 2, column, column + name.length + 1);
+    if (DEFINITION_FORMS.has(name) || TYPE_FORMS.has(name)) {
+      return this.printHeader(children, headerLength(children), column, bodyColumn);
+    }
+    if (BINDING_FORMS.has(name)) return this.printHeader(children, 2, column, bodyColumn);
+    if (name in BODY_FORMS) return this.printHeader(children, BODY_FORMS[name] + 1, column, bodyColumn);
+
+    // Calls: arguments aligned under the first one, or under the head when it is a list
+    if (head?.kind === "atom" && children.length > 1 && children[1].kind !== "comment") {
+      const argColumn = column + this.print(head, column).length + 1;
+      if (argColumn < this.width / 2) return this.printHeader(children, 2, column, argColumn);
+    }
+    return this.printSequence(children, column);
+  }
+
+  /**
+   * Print the first `count` children on the opening line, then the rest
+   * one per line at `bodyColumn`. A comment in the header ends it early.
+   */
+  private printHeader(children: FormatNode[], count: number, column: number, bodyColumn: number): string {
+    let headerCount = Math.min(count, children.length);
+    const commentAt = children.slice(0, headerCount).findIndex((c) => c.kind === "comment");
+    if (commentAt >= 0) headerCount = commentAt;
+    if (headerCount === 0) return this.printSequence(children, bodyColumn).trimStart();
+
+    let out = "";
+    let position = column;
+    const headName = children[0]?.kind === "atom" ? children[0].text : "";
+    for (let i = 0; i < headerCount; i++) {
+      const child = children[i];
+      if (i > 0) {
+        out += " ";
+        position++;
+      }
+      const text = i === 1 && child.kind === "list" && PAIRED_BINDINGS.has(headName)
+        ? this.printBindings(child, position)
+        : this.print(child, position);
+      out += text;
+      position = lastLineEnd(text, position);
+    }
+
+    const rest = children.slice(headerCount);
+    if (rest.length === 0) return out;
+    const [first, ...others] = rest;
+    if (first.kind === "comment" && first.trailing) {
+      out += " ".repeat(COMMENT_GAP) + first.text;
+      return others.length ? out + "\n" + " ".repeat(bodyColumn) + this.printSequence(others, bodyColumn) : out;
+    }
+    return out + "\n" + " ".repeat(bodyColumn) + this.printSequence(rest, bodyColumn);
+  }
+
+  /* Binding vectors keep each name and value together on one line */
+  private printBindings(node: FormatList, column: number): string {
+    const flat = this.flat(node);
+    if (flat !== null && column + flat.length <= this.width) return flat;
+    const start = column + node.prefix.length + node.open.length;
+    const lines: FormatNode[][] = [];
+    let pair: FormatNode[] = [];
+    for (const child of node.children) {
+      if (child.kind === "comment") {
+        if (pair.length) lines.push(pair);
+        lines.push([child]);
+        pair = [];
+        continue;
+      }
+      pair.push(child);
+      if (pair.length === 2) {
+        lines.push(pair);
+        pair = [];
+      }
+    }
+    if (pair.length) lines.push(pair);
+
+    let out = "";
+    lines.forEach((line, i) => {
+      const [first] = line;
+      if (first.kind === "comment" && first.trailing && i > 0) {
+        out += " ".repeat(COMMENT_GAP) + first.text;
+        return;
+      }
+      if (i > 0) out += "\n" + " ".repeat(start);
+      const name = this.print(first, start);
+      out += name;
+      if (line[1]) out += " " + this.print(line[1], lastLineEnd(name, start) + 1);
+    });
+    return node.prefix + node.open + out + this.closing(node.children, start) + CLOSERS[node.open];
+  }
+}
+
+/**
+ * Items of a `{}` map or `#[]` set, with the commas written in the source
+ * removed so the printer can place its own. Map keys and values are paired
+ * into `key: value` entries. Returns null for other lists, and for maps
+ * the pairing cannot describe, which are printed as written.
+ */
+function separatedEntries(node: FormatList): FormatNode[] | null {
+  if (node.open !== "{" && node.open !== "#[") return null;
+  const items = node.children;
+  if (node.open === "#[") return items;
+  if (items.some((item) => item.kind === "comment")) return null;
+
+  const entries: FormatNode[] = [];
+  for (let i = 0; i < items.length; i += 2) {
+    const key = items[i];
+    const value = items[i + 1];
+    if (key.kind !== "atom" || !key.text.endsWith(":") || !value || value.kind === "comment") return null;
+    // The key travels as the value's prefix, so nested values keep their layout
+    entries.push({ ...value, prefix: `${key.prefix}${key.text} ${value.prefix}`, blankBefore: key.blankBefore });
+  }
+  return entries;
+}
+
+/* Number of children that stay on a definition's opening line */
+function headerLength(children: FormatNode[]): number {
+  const head = children[0]?.kind === "atom" ? children[0].text : "";
+  let count = 1;
+  const isNamed = head !== "lambda" && head !== "lambda*" && children[1]?.kind === "atom";
+  if (isNamed) count++;
+  if (TYPE_FORMS.has(head)) {
+    // (enum Name : Type ...)
+    if (children[count]?.kind === "atom" && (children[count] as FormatAtom).text === ":") count += 2;
+    return Math.min(count, children.length);
+  }
+  if (children[count]?.kind === "list") count++;
+  const next = children[count];
+  if (next?.kind === "atom" && next.text === "->") count += 2;
+  else if (
+    next?.kind === "list" && next.children.length === 2 &&
+    next.children[0]?.kind === "atom" && next.children[0].text === "->"
+  ) count++;
+  return Math.min(count, children.length);
+}
+
+function headName(node: FormatList): string {
+  const head = node.children[0];
+  return head?.kind === "atom" && !head.prefix ? head.text : "";
+}
+
+/* Column after the last character of possibly multi-line text */
+function lastLineEnd(text: string, column: number): number {
+  const newline = text.lastIndexOf("\n");
+  return newline === -1 ? column + text.length : text.length - newline - 1;
+}
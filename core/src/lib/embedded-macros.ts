@@ -2,13 +2,7 @@
 // Embedded macro sources for core system macros.
 
 export const EMBEDDED_MACROS = {
-  "core/lib/macro/core.hql": `(macro or (a b)
-  \`(if ~a ~a ~b))
-
-(macro and (x y)
-  \`(if ~x ~y ~x))
-
-(macro not (x)
+  "core/lib/macro/core.hql": `(macro not (x)
   \`(if ~x false true))
 
 (macro unless (test & body)
@@ -30,10 +24,10 @@ export const EMBEDDED_MACROS = {
 (macro when-let (binding & body)
   (let (var-name (first binding)
         var-value (second binding))
-    \`((lambda (~var-name)
-         (when ~var-name
-             ~@body))
-       ~var-value)))
+    \`(let (value# ~var-value)
+       (when value#
+         (let (~var-name value#)
+           ~@body)))))
 
 (macro print (& args)
   \`(console.log ~@args))
@@ -63,11 +57,11 @@ export const EMBEDDED_MACROS = {
 (macro if-let (binding then-expr else-expr)
   (let (var-name (first binding)
         var-value (second binding))
-    \`((lambda (~var-name)
-         (if ~var-name
-             ~then-expr
-             ~else-expr))
-       ~var-value)))
+    \`(let (value# ~var-value)
+       (if value#
+           (let (~var-name value#)
+             ~then-expr)
+           ~else-expr))))
 
 ;; no distinction between list and vector now.
 (macro list (& items)
@@ -134,12 +128,13 @@ export const EMBEDDED_MACROS = {
 ;; Example usage:
 ;; (repeat 3 (print "hello"))
 (macro repeat (count & body)
-  \`(loop (i 0)
-     (if (< i ~count)
-       (do
-         ~@body
-         (recur (+ i 1)))
-       nil)))
+  \`(let (n# ~count)
+     (loop (i# 0)
+       (if (< i# n#)
+         (do
+           ~@body
+           (recur (+ i# 1)))
+         nil))))
 
 ;; ====================
 ;; 3. Enhanced For Loop
@@ -164,12 +159,13 @@ export const EMBEDDED_MACROS = {
       ((and (= (length binding) 3)
             (symbol? (nth binding 1))
             (= (name (nth binding 1)) "to:"))
-       \`(loop (~var 0)
-          (if (< ~var ~(nth binding 2))
-            (do
-              ~@body
-              (recur (+ ~var 1)))
-            nil)))
+       \`(let (end# ~(nth binding 2))
+          (loop (~var 0)
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var 1)))
+              nil))))
       
       ;; Case: (for (i to: 10 by: 2) ...)
       ((and (= (length binding) 5)
@@ -177,12 +173,14 @@ export const EMBEDDED_MACROS = {
             (= (name (nth binding 1)) "to:")
             (symbol? (nth binding 3))
             (= (name (nth binding 3)) "by:"))
-       \`(loop (~var 0)
-          (if (< ~var ~(nth binding 2))
-            (do
-              ~@body
-              (recur (+ ~var ~(nth binding 4))))
-            nil)))
+       \`(let (end# ~(nth binding 2)
+              step# ~(nth binding 4))
+          (loop (~var 0)
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var step#)))
+              nil))))
       
       ;; Case: (for (i from: 0 to: 10) ...)
       ((and (= (length binding) 5)
@@ -190,12 +188,13 @@ export const EMBEDDED_MACROS = {
             (= (name (nth binding 1)) "from:")
             (symbol? (nth binding 3))
             (= (name (nth binding 3)) "to:"))
-       \`(loop (~var ~(nth binding 2))
-          (if (< ~var ~(nth binding 4))
-            (do
-              ~@body
-              (recur (+ ~var 1)))
-            nil)))
+       \`(let (end# ~(nth binding 4))
+          (loop (~var ~(nth binding 2))
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var 1)))
+              nil))))
       
       ;; Case: (for (i from: 0 to: 10 by: 2) ...)
       ((and (= (length binding) 7)
@@ -205,43 +204,181 @@ export const EMBEDDED_MACROS = {
             (= (name (nth binding 3)) "to:")
             (symbol? (nth binding 5))
             (= (name (nth binding 5)) "by:"))
-       \`(loop (~var ~(nth binding 2))
-          (if (< ~var ~(nth binding 4))
-            (do
-              ~@body
-              (recur (+ ~var ~(nth binding 6))))
-            nil)))
+       \`(let (end# ~(nth binding 4)
+              step# ~(nth binding 6))
+          (loop (~var ~(nth binding 2))
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var step#)))
+              nil))))
       
       ;; Original cases unchanged
       ;; Case: (for (i 10) ...) - iterates i from 0 to 9
       ((= (length binding) 2)
-       \`(loop (~var 0)
-          (if (< ~var ~(second binding))
-            (do
-              ~@body
-              (recur (+ ~var 1)))
-            nil)))
+       \`(let (end# ~(second binding))
+          (loop (~var 0)
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var 1)))
+              nil))))
       
       ;; Case: (for (i 5 10) ...) - iterates i from 5 to 9
       ((= (length binding) 3)
-       \`(loop (~var ~(second binding))
-          (if (< ~var ~(nth binding 2))
-            (do
-              ~@body
-              (recur (+ ~var 1)))
-            nil)))
+       \`(let (end# ~(nth binding 2))
+          (loop (~var ~(second binding))
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var 1)))
+              nil))))
       
       ;; Case: (for (i 0 10 2) ...) - iterates i from 0 to 9 by steps of 2
       ((= (length binding) 4)
-       \`(loop (~var ~(second binding))
-          (if (< ~var ~(nth binding 2))
-            (do
-              ~@body
-              (recur (+ ~var ~(nth binding 3))))
-            nil)))
+       \`(let (end# ~(nth binding 2)
+              step# ~(nth binding 3))
+          (loop (~var ~(second binding))
+            (if (< ~var end#)
+              (do
+                ~@body
+                (recur (+ ~var step#)))
+              nil))))
       
       ;; Default case - better error handling
       (true \`(throw (str "Invalid 'for' loop binding: " '~binding))))))
+`,
+  "core/lib/macro/test.hql": `;; ====================================================
+;; HQL Test Macros
+;; deftest, testing and is register tests and assertions
+;; with the runtime that \`hql test\` installs before running
+;; a test file (core/src/testing/runtime.ts)
+;; ====================================================
+
+;; Define a named test; the body runs when \`hql test\` runs the file
+;; Example usage:
+;; (deftest adds-numbers
+;;   (is (= 3 (+ 1 2))))
+(macro deftest (name & body)
+  \`(__hql_deftest (quote ~name) (lambda () ~@body)))
+
+;; Group assertions under a description shown in failure reports
+;; Example usage:
+;; (testing "with negative numbers"
+;;   (is (< (- 1 2) 0)))
+(macro testing (description & body)
+  \`(__hql_testing ~description (lambda () ~@body)))
+
+;; Assert that an expression is truthy. (is (= expected actual)) compares
+;; by value and reports both sides on failure. An optional message follows.
+;; Example usage:
+;; (is (= "Hello, bob" (greet "bob")))
+;; (is (valid? user) "user should be valid")
+(macro is (form & message)
+  (if (and (= (get (get form 0) "name") "=")
+           (= (js-get form "length") 3))
+      \`(__hql_is_equal ~(form->string form) ~(get form 1) ~(get form 2) ~@message)
+      \`(__hql_is ~(form->string form) ~form ~@message)))
+`,
+  "core/lib/macro/threading.hql": `;; ====================================================
+;; HQL Threading Macros
+;; Thread a value through a series of steps, so that
+;; (-> x (f a) g) reads in the order it runs: (g (f x a))
+;; ====================================================
+
+;; A step may be:
+;;   f            a function, called with the value         (f x)
+;;   (f a b)      a call, with the value added as the first
+;;                argument for -> and the last for ->>      (f x a b) / (f a b x)
+;;   (f y: 2)     a call with named arguments; the value
+;;                leads them for -> and ->> alike           (f x y: 2)
+;;   .method      a method or property of the value         x.method
+;;   (.method a)  a method call on the value                x.method(a)
+;;   (get k)      a lookup in the value                     (get x k)
+;;   "key" or 0   a lookup in the value                     (get x "key")
+;; Each step runs once, in order, on the result of the one before it.
+
+;; ====================
+;; 1. Thread First
+;; ====================
+
+;; Example usage:
+;; (-> "  hql  " .trim (.toUpperCase) (str "!"))   ;; "HQL!"
+(macro -> (x & forms)
+  (if (empty? forms)
+    x
+    (let (step (first forms))
+      \`(-> ~(cond
+              ((symbol? step)
+               (if (js-call (name step) "startsWith" ".")
+                 \`(js-method ~x ~(js-call (name step) "slice" 1))
+                 \`(~step ~x)))
+              ((list? step)
+               (if (and (symbol? (first step)) (js-call (name (first step)) "startsWith" "."))
+                 \`(method-call ~x ~(js-call (name (first step)) "slice" 1) ~@(rest step))
+                 \`(~(first step) ~x ~@(rest step))))
+              (true \`(get ~x ~step)))
+           ~@(rest forms)))))
+
+;; ====================
+;; 2. Thread Last
+;; ====================
+
+;; Example usage:
+;; (->> [1 2 3] (map inc) (filter is-odd))
+;; Method, get and named-argument steps take the value as -> does
+(macro ->> (x & forms)
+  (if (empty? forms)
+    x
+    (let (step (first forms))
+      \`(->> ~(if (and (list? step)
+                      (not (and (symbol? (first step)) (js-call (name (first step)) "startsWith" ".")))
+                      (not (and (symbol? (first step)) (= (name (first step)) "get")))
+                      (not (and (symbol? (second step)) (js-call (name (second step)) "endsWith" ":"))))
+               \`(~@step ~x)
+               \`(-> ~x ~step))
+            ~@(rest forms)))))
+
+;; ====================
+;; 3. Thread As
+;; ====================
+
+;; Binds the value to a name in each step, so it can go anywhere:
+;; (as-> 5 n (+ n 1) (* n n))   ;; 36
+(macro as-> (x binding & forms)
+  (if (empty? forms)
+    x
+    \`(as-> ((lambda (~binding) ~(first forms)) ~x) ~binding ~@(rest forms))))
+
+;; ====================
+;; 4. Nil-Safe Threading
+;; ====================
+
+;; Threads like -> but stops with nil as soon as a step gives nil or undefined:
+;; (some-> user (get "address") (get "city") .toUpperCase)
+(macro some-> (x & forms)
+  (if (empty? forms)
+    x
+    \`(let (value# ~x)
+       (if (= (?? value# nil) nil)
+         nil
+         (some-> (-> value# ~(first forms)) ~@(rest forms))))))
+
+;; ====================
+;; 5. Conditional Threading
+;; ====================
+
+;; Threads the value like -> through each step whose test is true, skipping
+;; the others. The tests do not see the value.
+;; (cond-> 10 (> bonus 0) (+ bonus) round? Math.round)
+(macro cond-> (x & clauses)
+  (cond
+    ((empty? clauses) x)
+    ((= (length clauses) 1) (throw "cond-> requires a step after each test"))
+    (true
+     \`(let (value# ~x)
+        (cond-> (if ~(first clauses) (-> value# ~(second clauses)) value#)
+                ~@(js-call clauses "slice" 2))))))
 `,
 } as const;
 
@@ -0,0 +1,460 @@
+// core/src/lsp/analysis.ts - Runs the front half of the pipeline over an open document
+
+import * as path from "jsr:@std/path@1";
+import { parse, parseWithRecovery } from "../transpiler/pipeline/parser.ts";
+import { transformSyntax } from "../transpiler/pipeline/syntax-transformer.ts";
+import { transformToIR } from "../transpiler/pipeline/hql-ast-to-hql-ir.ts";
+import { expandMacros, loadMacroModules } from "../s-exp/macro.ts";
+import { convertToHqlAst } from "../s-exp/macro-reader.ts";
+import { resolveNames } from "../transpiler/name-resolver.ts";
+import {
+  getSExpLocation,
+  isList,
+  isLiteral,
+  isSymbol,
+  SExp,
+  SList,
+  SSymbol,
+} from "../s-exp/types.ts";
+import { globalSymbolTable, SymbolInfo, SymbolKind } from "../transpiler/symbol_table.ts";
+import { Environment } from "../environment.ts";
+import { EMBEDDED_MACROS } from "../lib/embedded-macros.ts";
+import { HQLError, ParseError } from "../common/error.ts";
+import { Diagnostic, DiagnosticSeverity, Range } from "./protocol.ts";
+
+/**
+ * A top-level definition, or a member of one, found in a document
+ */
+export interface HqlSymbol {
+  /** Qualified name, e.g. `add`, `Color` or `Color.red` */
+  name: string;
+  kind: SymbolKind;
+  /** Enclosing enum, class or struct */
+  parent?: string;
+  /** Static type of a variable, when it can be read off its value */
+  type?: string;
+  /** Signature line shown in hovers and completion details */
+  signature: string;
+  documentation?: string;
+  /** Range of the name */
+  range: Range;
+  /** Range of the whole defining form */
+  fullRange: Range;
+  info?: SymbolInfo;
+}
+
+/**
+ * A name brought into scope by an import form
+ */
+export interface ImportBinding {
+  /** Name as used in this document */
+  local: string;
+  /** Name exported by the module, absent for namespace imports */
+  imported?: string;
+  /** Module specifier as written */
+  specifier: string;
+  /** Absolute path for local .hql modules */
+  resolvedPath?: string;
+  range: Range;
+  specifierRange: Range;
+}
+
+export interface DocumentIndex {
+  filePath: string;
+  text: string;
+  symbols: HqlSymbol[];
+  imports: ImportBinding[];
+}
+
+export interface DocumentAnalysis extends DocumentIndex {
+  diagnostics: Diagnostic[];
+}
+
+export interface MacroSignature {
+  name: string;
+  params: string[];
+}
+
+const DIAGNOSTIC_SOURCE = "hql";
+const BINDING_HEADS = new Set(["let", "var", "const"]);
+const FUNCTION_HEADS: Record<string, SymbolKind> = {
+  fn: "function",
+  "fn*": "function",
+  fx: "fx",
+  macro: "macro",
+  defmacro: "macro",
+};
+const TYPE_HEADS = new Set(["class", "struct", "interface"]);
+
+let environment: Environment | null = null;
+let systemMacros: MacroSignature[] | null = null;
+
+/**
+ * Get the shared macro environment, loading the system macros on first use.
+ * User code is never run: imports are only read for their macros.
+ */
+async function getEnvironment(): Promise<Environment> {
+  if (environment) return environment;
+  const env = await Environment.initializeGlobalEnv();
+  for (const [filePath, source] of Object.entries(EMBEDDED_MACROS)) {
+    if (env.hasProcessedFile(filePath)) continue;
+    expandMacros(transformSyntax(parse(source, filePath)), env, { currentFile: filePath });
+    env.markFileProcessed(filePath);
+  }
+  environment = env;
+  return env;
+}
+
+/**
+ * Get the signatures of the macros every HQL file can use
+ */
+export function getSystemMacros(): MacroSignature[] {
+  if (systemMacros) return systemMacros;
+  systemMacros = [];
+  for (const [filePath, source] of Object.entries(EMBEDDED_MACROS)) {
+    for (const form of parse(source, filePath)) {
+      const [head, name, params] = isList(form) ? form.elements : [];
+      if (head && isSymbol(head) && head.name === "macro" && name && isSymbol(name)) {
+        systemMacros.push({
+          name: name.name,
+          params: params && isList(params) ? params.elements.map(paramName) : [],
+        });
+      }
+    }
+  }
+  return systemMacros;
+}
+
+/**
+ * Collect the definitions and imports of a document without expanding it.
+ * Used for imported modules, which only need to be looked up. Forms that
+ * parse are indexed even when others have syntax errors.
+ */
+export function indexDocument(filePath: string, text: string): DocumentIndex {
+  const forms = parseWithRecovery(text, filePath).nodes;
+  try {
+    transformSyntax(forms);
+  } catch {
+    // Symbols are still indexed, only without their symbol table details
+  }
+  return buildIndex(filePath, text, forms);
+}
+
+/**
+ * Parse, transform and expand a document, reporting every unresolved name
+ * and the first error the pipeline raises as diagnostics. Stops before code
+ * generation. A document with syntax errors reports all of them and is only
+ * indexed, not expanded.
+ */
+export async function analyzeDocument(filePath: string, text: string): Promise<DocumentAnalysis> {
+  const { nodes: forms, errors } = parseWithRecovery(text, filePath);
+  if (errors.length > 0) {
+    return {
+      ...indexDocument(filePath, text),
+      diagnostics: errors.map((error) => toDiagnostic(error, filePath, text)),
+    };
+  }
+
+  const diagnostics: Diagnostic[] = [];
+  let index: DocumentIndex = { filePath, text, symbols: [], imports: [] };
+  try {
+    const env = await getEnvironment();
+    await loadMacroModules(forms, env, filePath);
+    const transformed = transformSyntax(forms);
+    // Snapshot the symbol table before anything else clears it
+    index = buildIndex(filePath, text, forms);
+    const expanded = expandMacros(transformed, env, { currentFile: filePath, useCache: false });
+    const hqlAst = convertToHqlAst(expanded);
+    for (const error of resolveNames(hqlAst, { filePath, env })) {
+      diagnostics.push(toDiagnostic(error, filePath, text));
+    }
+    transformToIR(hqlAst, path.dirname(filePath));
+  } catch (error) {
+    if (index.symbols.length === 0) index = buildIndex(filePath, text, forms);
+    diagnostics.push(toDiagnostic(error, filePath, text));
+  }
+  return { ...index, diagnostics };
+}
+
+/**
+ * Convert a pipeline error into a diagnostic at its source location
+ */
+function toDiagnostic(error: unknown, filePath: string, text: string): Diagnostic {
+  const message = error instanceof Error ? error.message : String(error);
+  let line: number | undefined;
+  let column: number | undefined;
+
+  const located = [error instanceof HQLError ? error.originalError : undefined, error]
+    .find((e): e is HQLError => e instanceof HQLError && isLocationIn(e, filePath));
+  if (located) {
+    line = located.sourceLocation.line;
+    column = located.sourceLocation.column;
+  }
+
+  const start = {
+    line: Math.max((line ?? 1) - 1, 0),
+    character: Math.max((column ?? 1) - 1, 0),
+  };
+  const lineText = text.split("\n")[start.line] ?? "";
+  const word = lineText.slice(start.character).match(/^[^\s()[\]{}"'`,;]+/);
+  const end = located instanceof ParseError && located.end
+    ? { line: located.end.line - 1, character: located.end.column - 1 }
+    : line
+    ? { line: start.line, character: start.character + (word ? word[0].length : 1) }
+    : { line: start.line, character: lineText.length };
+
+  return {
+    range: { start, end },
+    severity: DiagnosticSeverity.Error,
+    source: DIAGNOSTIC_SOURCE,
+    message,
+  };
+}
+
+/* An error location only counts when it points into the analyzed file */
+function isLocationIn(error: HQLError, filePath: string): boolean {
+  const { filePath: errorFile, line } = error.sourceLocation;
+  if (!line) return false;
+  return !errorFile || path.resolve(errorFile) === path.resolve(filePath);
+}
+
+function buildIndex(filePath: string, text: string, forms: SExp[]): DocumentIndex {
+  const lines = text.split("\n");
+  const symbols: HqlSymbol[] = [];
+  const imports: ImportBinding[] = [];
+
+  for (const form of forms) {
+    if (!isList(form) || form.elements.length < 2) continue;
+    const list = unwrapAsync(form);
+    const [head, name] = list.elements;
+    if (!isSymbol(head)) continue;
+
+    if (head.name === "import") {
+      imports.push(...readImport(list, filePath));
+    } else if (head.name in FUNCTION_HEADS && isSymbol(name)) {
+      symbols.push(makeSymbol(name.name, FUNCTION_HEADS[head.name], list, name, lines));
+    } else if (BINDING_HEADS.has(head.name) && list.elements.length === 3) {
+      for (const binder of patternBinders(name)) {
+        const symbol = makeSymbol(binder.name, "variable", list, binder, lines);
+        symbol.type = valueType(list.elements[2], symbol.info);
+        symbol.signature = `(${head.name} ${binder.name})${symbol.type ? ` : ${symbol.type}` : ""}`;
+        symbols.push(symbol);
+      }
+    } else if (head.name === "enum" && isSymbol(name)) {
+      const enumName = name.name.split(":")[0];
+      symbols.push(makeSymbol(enumName, "enum", list, name, lines));
+      for (const el of list.elements.slice(2)) {
+        const [caseHead, caseName] = isList(el) ? el.elements : [];
+        if (caseHead && isSymbol(caseHead) && caseHead.name === "case" && caseName && isSymbol(caseName)) {
+          symbols.push(makeSymbol(`${enumName}.${caseName.name}`, "enum-case", el as SList, caseName, lines, enumName));
+        }
+      }
+    } else if (TYPE_HEADS.has(head.name) && isSymbol(name)) {
+      symbols.push(makeSymbol(name.name, head.name as SymbolKind, list, name, lines));
+      for (const el of list.elements.slice(2)) {
+        if (!isList(el)) continue;
+        const member = unwrapAsync(el);
+        const [memberHead, memberName] = member.elements;
+        if (!memberHead || !isSymbol(memberHead) || !memberName || !isSymbol(memberName)) continue;
+        const kind: SymbolKind | undefined = ["field", "var", "let"].includes(memberHead.name)
+          ? "field"
+          : ["fn", "fx", "method"].includes(memberHead.name) ? "method" : undefined;
+        if (kind) {
+          symbols.push(makeSymbol(`${name.name}.${memberName.name}`, kind, member, memberName, lines, name.name));
+        }
+      }
+    }
+  }
+
+  return { filePath, text, symbols, imports };
+}
+
+function makeSymbol(
+  name: string,
+  kind: SymbolKind,
+  form: SList,
+  nameNode: SExp,
+  lines: string[],
+  parent?: string,
+): HqlSymbol {
+  const info = globalSymbolTable.get(name);
+  const matched = info && info.kind === kind ? info : undefined;
+  const range = nodeRange(nameNode);
+  const formStart = nodeRange(form).start;
+  return {
+    name,
+    kind,
+    parent,
+    signature: formatSignature(form, name, matched),
+    documentation: leadingComment(lines, formStart.line),
+    range,
+    fullRange: { start: formStart, end: formEnd(lines, formStart) },
+    info: matched,
+  };
+}
+
+/**
+ * Describe a definition the way it is written, e.g. `(fn add (x:Int y) -> Int)`
+ */
+function formatSignature(form: SList, name: string, info?: SymbolInfo): string {
+  const head = isSymbol(form.elements[0]) ? form.elements[0].name : "";
+  const shortName = name.includes(".") ? name.slice(name.lastIndexOf(".") + 1) : name;
+  const params: { name: string; type?: string }[] | undefined = info?.params ??
+    (form.elements[2] && isList(form.elements[2]) && head !== "enum" && head !== "case"
+      ? form.elements[2].elements.map((p) => ({ name: paramName(p) }))
+      : undefined);
+  const paramText = params
+    ? ` (${params.map((p) => (p.type ? `${p.name}:${p.type}` : p.name)).join(" ")})`
+    : "";
+  const returnText = info?.returnType ? ` -> ${info.returnType}` : "";
+  return `(${head} ${shortName}${paramText}${returnText})`;
+}
+
+function paramName(param: SExp): string {
+  if (isSymbol(param)) return param.name;
+  if (isList(param) && param.elements[0] && isSymbol(param.elements[0])) return param.elements[0].name;
+  return "?";
+}
+
+/* Read the static type of a variable's value */
+function valueType(value: SExp, info?: SymbolInfo): string | undefined {
+  if (info?.type && info.type !== "Unknown") return info.type;
+  if (isLiteral(value)) {
+    if (typeof value.value === "string") return "String";
+    if (typeof value.value === "number") return "Number";
+    if (typeof value.value === "boolean") return "Boolean";
+    return undefined;
+  }
+  if (isList(value) && value.elements[0] && isSymbol(value.elements[0])) {
+    const op = value.elements[0].name;
+    if (op === "new" && value.elements[1] && isSymbol(value.elements[1])) return value.elements[1].name;
+    if (op === "vector" || op === "empty-array") return "Array";
+    if (op === "hash-map" || op === "empty-map") return "Object";
+    if (op === "hash-set" || op === "empty-set") return "Set";
+    if (op === "lambda" || op === "fn" || op === "fx" || op === "lambda*" || op === "fn*") return "Function";
+    // Struct and class constructors are called like functions
+    const constructed = globalSymbolTable.get(op);
+    if (constructed && (constructed.kind === "struct" || constructed.kind === "class")) return op;
+  }
+  return undefined;
+}
+
+/* Names bound by a binding target, which may be a destructuring pattern */
+function patternBinders(target: SExp | undefined): SSymbol[] {
+  if (!target) return [];
+  if (isSymbol(target)) return ["&", "_", "="].includes(target.name) ? [] : [target];
+  if (!isList(target)) return [];
+  const [head, ...items] = target.elements;
+  if (!head || !isSymbol(head) || (head.name !== "vector" && head.name !== "hash-map")) return [];
+  const isMap = head.name === "hash-map";
+  const binders: SSymbol[] = [];
+  for (let i = isMap ? 1 : 0; i < items.length; i += isMap ? 2 : 1) {
+    let item = items[i];
+    // (name = default) in map patterns
+    if (isMap && isList(item) && item.elements[0] && isSymbol(item.elements[0]) &&
+      !["vector", "hash-map"].includes(item.elements[0].name)) {
+      item = item.elements[0];
+    }
+    if (!isMap && isSymbol(item) && item.name === "=") {
+      i++;
+      continue;
+    }
+    binders.push(...patternBinders(item));
+  }
+  return binders;
+}
+
+/**
+ * Read `(import [a, b as c] from "./m.hql")` and `(import m from "./m.hql")`
+ */
+function readImport(list: SList, filePath: string): ImportBinding[] {
+  const specifierNode = list.elements[3];
+  if (!specifierNode || !isLiteral(specifierNode) || typeof specifierNode.value !== "string") return [];
+  const specifier = specifierNode.value;
+  const resolvedPath = specifier.endsWith(".hql") && !/^[a-z]+:/.test(specifier)
+    ? path.resolve(path.dirname(filePath), specifier)
+    : undefined;
+  const specifierRange = nodeRange(specifierNode);
+  // The range of a string literal covers its quotes
+  specifierRange.end.character = specifierRange.start.character + specifier.length + 2;
+
+  const target = list.elements[1];
+  if (isSymbol(target)) {
+    return [{ local: target.name, specifier, resolvedPath, range: nodeRange(target), specifierRange }];
+  }
+  if (!isList(target) || !target.elements[0] || !isSymbol(target.elements[0]) || target.elements[0].name !== "vector") {
+    return [];
+  }
+
+  const bindings: ImportBinding[] = [];
+  const names = target.elements.slice(1);
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    if (!isSymbol(name)) continue;
+    const alias = names[i + 1] && isSymbol(names[i + 1]) && (names[i + 1] as SSymbol).name === "as"
+      ? names[i + 2]
+      : undefined;
+    if (alias && isSymbol(alias)) {
+      bindings.push({ local: alias.name, imported: name.name, specifier, resolvedPath, range: nodeRange(alias), specifierRange });
+      i += 2;
+    } else {
+      bindings.push({ local: name.name, imported: name.name, specifier, resolvedPath, range: nodeRange(name), specifierRange });
+    }
+  }
+  return bindings;
+}
+
+function unwrapAsync(list: SList): SList {
+  const [head, inner] = list.elements;
+  if (head && isSymbol(head) && head.name === "async" && inner && isList(inner)) return inner;
+  return list;
+}
+
+/**
+ * Range of a node, from its 1-based parser location. Symbols span their
+ * name; other nodes are given an empty range at their start.
+ */
+function nodeRange(node: SExp): Range {
+  const { line = 1, column = 1 } = getSExpLocation(node);
+  const start = { line: line - 1, character: column - 1 };
+  const length = isSymbol(node) ? node.name.length : 0;
+  return { start, end: { line: start.line, character: start.character + length } };
+}
+
+/* Find where the form opening at `start` closes, skipping strings and comments */
+function formEnd(lines: string[], start: { line: number; character: number }): { line: number; character: number } {
+  let depth = 0;
+  let inString = false;
+  for (let l = start.line; l < lines.length; l++) {
+    const text = lines[l];
+    for (let c = l === start.line ? start.character : 0; c < text.length; c++) {
+      const ch = text[c];
+      if (inString) {
+        if (ch === "\\") c++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === ";") {
+        break;
+      } else if (ch === "(" || ch === "[" || ch === "{") {
+        depth++;
+      } else if (ch === ")" || ch === "]" || ch === "}") {
+        depth--;
+        if (depth === 0) return { line: l, character: c + 1 };
+      }
+    }
+  }
+  const last = lines.length - 1;
+  return { line: last, character: lines[last]?.length ?? 0 };
+}
+
+/* Gather the `;` comment lines directly above a definition */
+function leadingComment(lines: string[], line: number): string | undefined {
+  const comments: string[] = [];
+  for (let l = line - 1; l >= 0; l--) {
+    const match = lines[l].match(/^\s*(?:;+|\/\/)\s?(.*)$/);
+    if (!match) break;
+    comments.unshift(match[1]);
+  }
+  return comments.length > 0 ? comments.join("\n") : undefined;
+}
@@ -0,0 +1,350 @@
+// core/src/lsp/features.ts - Completion, hover, definition and document symbols
+
+import * as path from "jsr:@std/path@1";
+import { builtinDocumentation, specialFormsDocs } from "../../../repl/repl/repl-help.ts";
+import {
+  DocumentIndex,
+  getSystemMacros,
+  HqlSymbol,
+  ImportBinding,
+  indexDocument,
+} from "./analysis.ts";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  DocumentSymbol,
+  Hover,
+  Location,
+  Position,
+  Range,
+  SymbolKind,
+} from "./protocol.ts";
+import type { SymbolKind as HqlSymbolKind } from "../transpiler/symbol_table.ts";
+
+/**
+ * Reads the text of another module, preferring an open editor buffer
+ */
+export type ModuleReader = (filePath: string) => string | undefined;
+
+/* Characters that may appear in an HQL symbol, matching the tokenizer */
+const SYMBOL_CHAR = /[^\s()[\]{}"'`,;~@]/;
+
+/* JavaScript values whose members are offered after `value.` */
+const BUILTIN_PROTOTYPES: Record<string, object> = {
+  String: String.prototype,
+  Number: Number.prototype,
+  Boolean: Boolean.prototype,
+  Array: Array.prototype,
+  Map: Map.prototype,
+  Set: Set.prototype,
+  Object: Object.prototype,
+  Function: Function.prototype,
+  Promise: Promise.prototype,
+};
+
+const TYPE_KINDS: HqlSymbolKind[] = ["enum", "class", "struct", "interface"];
+
+const COMPLETION_KINDS: Partial<Record<HqlSymbolKind, CompletionItemKind>> = {
+  function: CompletionItemKind.Function,
+  fx: CompletionItemKind.Function,
+  macro: CompletionItemKind.Function,
+  variable: CompletionItemKind.Variable,
+  enum: CompletionItemKind.Enum,
+  "enum-case": CompletionItemKind.EnumMember,
+  class: CompletionItemKind.Class,
+  struct: CompletionItemKind.Struct,
+  interface: CompletionItemKind.Interface,
+  field: CompletionItemKind.Field,
+  method: CompletionItemKind.Method,
+};
+
+const SYMBOL_KINDS: Partial<Record<HqlSymbolKind, SymbolKind>> = {
+  function: SymbolKind.Function,
+  fx: SymbolKind.Function,
+  macro: SymbolKind.Function,
+  variable: SymbolKind.Variable,
+  enum: SymbolKind.Enum,
+  "enum-case": SymbolKind.EnumMember,
+  class: SymbolKind.Class,
+  struct: SymbolKind.Struct,
+  interface: SymbolKind.Interface,
+  field: SymbolKind.Field,
+  method: SymbolKind.Method,
+};
+
+/**
+ * Offer completions at a position. After `Name.` the members of an enum,
+ * class, struct, imported module or typed variable are listed; a bare `.`
+ * lists enum cases; anywhere else every name in scope is offered.
+ */
+export function getCompletions(doc: DocumentIndex, position: Position, readModule: ModuleReader): CompletionItem[] {
+  const lineText = doc.text.split("\n")[position.line] ?? "";
+  let start = position.character;
+  while (start > 0 && SYMBOL_CHAR.test(lineText[start - 1])) start--;
+  const prefix = lineText.slice(start, position.character);
+
+  const dot = prefix.lastIndexOf(".");
+  if (dot === 0) {
+    return doc.symbols.filter((s) => s.kind === "enum-case").map((s) => symbolCompletion(s, memberName(s.name)));
+  }
+  if (dot > 0) {
+    return memberCompletions(doc, prefix.slice(0, dot), readModule);
+  }
+
+  const items: CompletionItem[] = [];
+  const seen = new Set<string>();
+  const add = (item: CompletionItem) => {
+    if (seen.has(item.label)) return;
+    seen.add(item.label);
+    items.push(item);
+  };
+
+  for (const symbol of doc.symbols) {
+    if (!symbol.parent) add(symbolCompletion(symbol, symbol.name));
+  }
+  for (const binding of doc.imports) {
+    const target = resolveImport(binding, readModule);
+    if (target) add(symbolCompletion(target, binding.local));
+    else add({ label: binding.local, kind: CompletionItemKind.Module, detail: `from "${binding.specifier}"` });
+  }
+  for (const macro of getSystemMacros()) {
+    add({
+      label: macro.name,
+      kind: CompletionItemKind.Function,
+      detail: `(macro ${macro.name} (${macro.params.join(" ")}))`,
+      documentation: builtinDocumentation[macro.name],
+    });
+  }
+  for (const [name, lines] of Object.entries(specialFormsDocs)) {
+    add({ label: name, kind: CompletionItemKind.Keyword, detail: lines[1], documentation: lines.join("\n") });
+  }
+  for (const [name, docText] of Object.entries(builtinDocumentation)) {
+    add({ label: name, kind: CompletionItemKind.Function, documentation: docText });
+  }
+  return items;
+}
+
+function memberCompletions(doc: DocumentIndex, receiver: string, readModule: ModuleReader): CompletionItem[] {
+  const binding = doc.imports.find((b) => b.local === receiver && !b.imported);
+  if (binding) {
+    const target = readImportedModule(binding, readModule);
+    return target
+      ? target.symbols.filter((s) => !s.parent).map((s) => symbolCompletion(s, s.name))
+      : [];
+  }
+
+  const typeName = receiverType(doc, receiver);
+  if (!typeName) return [];
+
+  const members = typeMembers(doc, typeName, readModule);
+  if (members.length > 0) {
+    return members.map((s) => symbolCompletion(s, memberName(s.name)));
+  }
+
+  const prototype = BUILTIN_PROTOTYPES[typeName];
+  if (!prototype) return [];
+  return Object.getOwnPropertyNames(prototype)
+    .filter((name) => name !== "constructor" && !name.startsWith("__"))
+    .map((name) => ({
+      label: name,
+      kind: typeof Object.getOwnPropertyDescriptor(prototype, name)?.value === "function"
+        ? CompletionItemKind.Method
+        : CompletionItemKind.Property,
+      detail: `${typeName}.prototype.${name}`,
+    }));
+}
+
+/**
+ * Show the signature and documentation of the name under the cursor
+ */
+export function getHover(doc: DocumentIndex, position: Position, readModule: ModuleReader): Hover | null {
+  const word = wordAt(doc.text, position);
+  if (!word) return null;
+
+  const symbol = findSymbol(doc, word.text, word.offset, readModule);
+  if (symbol) {
+    return { contents: { kind: "markdown", value: describeSymbol(symbol) }, range: word.range };
+  }
+
+  const macro = getSystemMacros().find((m) => m.name === word.text);
+  const special = specialFormsDocs[word.text];
+  const builtin = builtinDocumentation[word.text];
+  if (!macro && !special && !builtin) return null;
+
+  const sections: string[] = [];
+  if (macro) sections.push(codeBlock(`(macro ${macro.name} (${macro.params.join(" ")}))`));
+  if (special) sections.push(special.join("\n\n"));
+  else if (builtin) sections.push(builtin.replace("\n", "\n\n"));
+  return { contents: { kind: "markdown", value: sections.join("\n\n") }, range: word.range };
+}
+
+/**
+ * Find where the name under the cursor is defined, following imports
+ * into other .hql files
+ */
+export function getDefinition(doc: DocumentIndex, position: Position, readModule: ModuleReader): Location | null {
+  const binding = doc.imports.find((b) => contains(b.specifierRange, position));
+  if (binding?.resolvedPath && readModule(binding.resolvedPath) !== undefined) {
+    return { uri: path.toFileUrl(binding.resolvedPath).href, range: emptyRange() };
+  }
+
+  const word = wordAt(doc.text, position);
+  if (!word) return null;
+  const symbol = findSymbol(doc, word.text, word.offset, readModule);
+  if (!symbol) return null;
+  return { uri: path.toFileUrl(symbol.filePath).href, range: symbol.range };
+}
+
+/**
+ * Outline of a document, with enum cases and type members nested
+ * under their parents
+ */
+export function getDocumentSymbols(doc: DocumentIndex): DocumentSymbol[] {
+  const roots: DocumentSymbol[] = [];
+  const byName = new Map<string, DocumentSymbol>();
+  for (const symbol of doc.symbols) {
+    const entry: DocumentSymbol = {
+      name: symbol.parent ? memberName(symbol.name) : symbol.name,
+      detail: symbol.signature,
+      kind: SYMBOL_KINDS[symbol.kind] ?? SymbolKind.Variable,
+      range: symbol.fullRange,
+      selectionRange: symbol.range,
+    };
+    const parent = symbol.parent ? byName.get(symbol.parent) : undefined;
+    if (parent) {
+      (parent.children ??= []).push(entry);
+    } else {
+      roots.push(entry);
+      byName.set(symbol.name, entry);
+    }
+  }
+  return roots;
+}
+
+/* A symbol together with the file that defines it */
+type LocatedSymbol = HqlSymbol & { filePath: string };
+
+/**
+ * Resolve a possibly dotted name. For `a.b` the cursor offset decides
+ * whether `a` or `a.b` is meant.
+ */
+function findSymbol(doc: DocumentIndex, name: string, offset: number, readModule: ModuleReader): LocatedSymbol | undefined {
+  const dot = name.indexOf(".", offset);
+  const upToCursor = dot === -1 ? name : name.slice(0, dot);
+  const segments = upToCursor.split(".");
+
+  if (segments.length === 1) return findTopLevel(doc, segments[0], readModule);
+
+  const member = segments.pop()!;
+  const receiver = segments.join(".");
+  const binding = doc.imports.find((b) => b.local === receiver && !b.imported);
+  if (binding) {
+    const target = readImportedModule(binding, readModule);
+    const symbol = target?.symbols.find((s) => s.name === member);
+    return symbol && target ? { ...symbol, filePath: target.filePath } : undefined;
+  }
+
+  const typeName = receiverType(doc, receiver);
+  if (!typeName) return undefined;
+  return typeMembers(doc, typeName, readModule).find((s) => memberName(s.name) === member);
+}
+
+function findTopLevel(doc: DocumentIndex, name: string, readModule: ModuleReader): LocatedSymbol | undefined {
+  const local = doc.symbols.find((s) => s.name === name && !s.parent);
+  if (local) return { ...local, filePath: doc.filePath };
+  const binding = doc.imports.find((b) => b.local === name && b.imported);
+  return binding ? resolveImport(binding, readModule) : undefined;
+}
+
+function resolveImport(binding: ImportBinding, readModule: ModuleReader): LocatedSymbol | undefined {
+  if (!binding.imported) return undefined;
+  const target = readImportedModule(binding, readModule);
+  const symbol = target?.symbols.find((s) => s.name === binding.imported && !s.parent);
+  return symbol && target ? { ...symbol, filePath: target.filePath } : undefined;
+}
+
+function readImportedModule(binding: ImportBinding, readModule: ModuleReader): DocumentIndex | undefined {
+  if (!binding.resolvedPath) return undefined;
+  const text = readModule(binding.resolvedPath);
+  return text === undefined ? undefined : indexDocument(binding.resolvedPath, text);
+}
+
+/* Type whose members follow `receiver.`: the enum, class or struct itself, or a variable's type */
+function receiverType(doc: DocumentIndex, receiver: string): string | undefined {
+  const symbol = doc.symbols.find((s) => s.name === receiver && !s.parent);
+  if (symbol) return TYPE_KINDS.includes(symbol.kind) ? symbol.name : symbol.type;
+  return doc.imports.some((b) => b.local === receiver && b.imported) ? receiver : undefined;
+}
+
+/* Members of a type defined in this document or imported into it */
+function typeMembers(doc: DocumentIndex, typeName: string, readModule: ModuleReader): LocatedSymbol[] {
+  const local = doc.symbols.filter((s) => s.parent === typeName);
+  if (local.length > 0) return local.map((s) => ({ ...s, filePath: doc.filePath }));
+  const binding = doc.imports.find((b) => b.local === typeName && b.imported);
+  const target = binding ? readImportedModule(binding, readModule) : undefined;
+  if (!target) return [];
+  return target.symbols
+    .filter((s) => s.parent === binding!.imported)
+    .map((s) => ({ ...s, filePath: target.filePath }));
+}
+
+function symbolCompletion(symbol: HqlSymbol, label: string): CompletionItem {
+  return {
+    label,
+    kind: COMPLETION_KINDS[symbol.kind] ?? CompletionItemKind.Variable,
+    detail: symbol.signature,
+    documentation: symbol.documentation,
+  };
+}
+
+function describeSymbol(symbol: LocatedSymbol): string {
+  const sections = [codeBlock(symbol.signature)];
+  const info = symbol.info;
+  if (symbol.parent) sections.push(`Member of \`${symbol.parent}\``);
+  if (info?.cases?.length) sections.push(`Cases: ${info.cases.map((c) => `\`${c}\``).join(", ")}`);
+  if (info?.fields?.length) {
+    sections.push(`Fields: ${info.fields.map((f) => `\`${f.type ? `${f.name}:${f.type}` : f.name}\``).join(", ")}`);
+  }
+  if (info?.methods?.length) sections.push(`Methods: ${info.methods.map((m) => `\`${m.name}\``).join(", ")}`);
+  if (info?.associatedValues?.length && symbol.kind === "enum-case") {
+    sections.push(`Values: ${info.associatedValues.map((v) => `\`${v.name}:${v.type}\``).join(", ")}`);
+  }
+  if (symbol.documentation) sections.push(symbol.documentation);
+  return sections.join("\n\n");
+}
+
+function codeBlock(code: string): string {
+  return "```hql\n" + code + "\n```";
+}
+
+function memberName(name: string): string {
+  return name.slice(name.lastIndexOf(".") + 1);
+}
+
+/* The symbol under the cursor, with the cursor's offset into it */
+function wordAt(text: string, position: Position): { text: string; offset: number; range: Range } | null {
+  const lineText = text.split("\n")[position.line] ?? "";
+  let start = position.character;
+  let end = position.character;
+  while (start > 0 && SYMBOL_CHAR.test(lineText[start - 1])) start--;
+  while (end < lineText.length && SYMBOL_CHAR.test(lineText[end])) end++;
+  if (start === end) return null;
+  return {
+    text: lineText.slice(start, end),
+    offset: position.character - start,
+    range: {
+      start: { line: position.line, character: start },
+      end: { line: position.line, character: end },
+    },
+  };
+}
+
+function contains(range: Range, position: Position): boolean {
+  return position.line === range.start.line &&
+    position.character >= range.start.character &&
+    position.character <= range.end.character;
+}
+
+function emptyRange(): Range {
+  return { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } };
+}
@@ -0,0 +1,164 @@
+// core/src/lsp/protocol.ts - Language Server Protocol types and stdio message framing
+
+/**
+ * The subset of the Language Server Protocol the HQL server speaks.
+ * Positions are 0-based lines and UTF-16 character offsets, as in the spec.
+ */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  source: string;
+  message: string;
+}
+
+export enum CompletionItemKind {
+  Method = 2,
+  Function = 3,
+  Field = 5,
+  Variable = 6,
+  Class = 7,
+  Interface = 8,
+  Module = 9,
+  Property = 10,
+  Enum = 13,
+  Keyword = 14,
+  EnumMember = 20,
+  Struct = 22,
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+  documentation?: string;
+}
+
+export interface Hover {
+  contents: { kind: "markdown"; value: string };
+  range?: Range;
+}
+
+export enum SymbolKind {
+  Module = 2,
+  Class = 5,
+  Method = 6,
+  Field = 8,
+  Enum = 10,
+  Interface = 11,
+  Function = 12,
+  Variable = 13,
+  EnumMember = 22,
+  Struct = 23,
+}
+
+export interface DocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: SymbolKind;
+  range: Range;
+  selectionRange: Range;
+  children?: DocumentSymbol[];
+}
+
+/**
+ * A JSON-RPC message. Requests carry an id, notifications do not,
+ * and responses carry the id of the request they answer.
+ */
+export interface Message {
+  jsonrpc: "2.0";
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+export const ErrorCodes = {
+  MethodNotFound: -32601,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+} as const;
+
+const HEADER_END = "\r\n\r\n";
+
+/**
+ * Read Content-Length framed messages from a byte stream
+ */
+export async function* readMessages(
+  stream: ReadableStream<Uint8Array>,
+): AsyncGenerator<Message> {
+  const decoder = new TextDecoder();
+  let buffer = new Uint8Array(0);
+
+  for await (const chunk of stream) {
+    const joined = new Uint8Array(buffer.length + chunk.length);
+    joined.set(buffer);
+    joined.set(chunk, buffer.length);
+    buffer = joined;
+
+    while (true) {
+      const headerEnd = indexOfHeaderEnd(buffer);
+      if (headerEnd < 0) break;
+
+      const header = decoder.decode(buffer.subarray(0, headerEnd));
+      const match = header.match(/Content-Length:\s*(\d+)/i);
+      if (!match) {
+        // Drop a malformed header and resynchronise on the next one
+        buffer = buffer.subarray(headerEnd + HEADER_END.length);
+        continue;
+      }
+
+      const bodyStart = headerEnd + HEADER_END.length;
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (buffer.length < bodyEnd) break;
+
+      const body = decoder.decode(buffer.subarray(bodyStart, bodyEnd));
+      buffer = buffer.subarray(bodyEnd);
+      yield JSON.parse(body) as Message;
+    }
+  }
+}
+
+/**
+ * Write one message to a byte sink with its Content-Length header
+ */
+export async function writeMessage(
+  writer: WritableStreamDefaultWriter<Uint8Array>,
+  message: Message,
+): Promise<void> {
+  const body = new TextEncoder().encode(JSON.stringify(message));
+  const header = new TextEncoder().encode(`Content-Length: ${body.length}${HEADER_END}`);
+  await writer.write(header);
+  await writer.write(body);
+}
+
+function indexOfHeaderEnd(buffer: Uint8Array): number {
+  for (let i = 0; i + 3 < buffer.length; i++) {
+    if (buffer[i] === 13 && buffer[i + 1] === 10 && buffer[i + 2] === 13 && buffer[i + 3] === 10) {
+      return i;
+    }
+  }
+  return -1;
+}
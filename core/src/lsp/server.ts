@@ -0,0 +1,137 @@
+// core/src/lsp/server.ts - Language Server Protocol server for .hql files over stdio
+
+import * as path from "jsr:@std/path@1";
+import { analyzeDocument, DocumentAnalysis } from "./analysis.ts";
+import { getCompletions, getDefinition, getDocumentSymbols, getHover } from "./features.ts";
+import { ErrorCodes, Message, Position, readMessages, writeMessage } from "./protocol.ts";
+
+interface TextDocumentParams {
+  textDocument: { uri: string; text?: string };
+  contentChanges?: { text: string }[];
+  position?: Position;
+}
+
+/* Full document sync: every change carries the whole text */
+const TEXT_DOCUMENT_SYNC_FULL = 1;
+
+/**
+ * Start the HQL language server, speaking JSON-RPC on stdin and stdout.
+ * Resolves when the client sends `exit` or closes the stream.
+ */
+export async function startLanguageServer(): Promise<void> {
+  // stdout carries protocol messages only, so route console output to stderr
+  console.log = console.error;
+  console.info = console.error;
+  console.warn = console.error;
+
+  const writer = Deno.stdout.writable.getWriter();
+  const documents = new Map<string, DocumentAnalysis>();
+  let initialized = false;
+  let shuttingDown = false;
+
+  const send = (message: Omit<Message, "jsonrpc">) => writeMessage(writer, { jsonrpc: "2.0", ...message });
+
+  const readModule = (filePath: string): string | undefined => {
+    const open = documents.get(path.toFileUrl(filePath).href);
+    if (open) return open.text;
+    try {
+      return Deno.readTextFileSync(filePath);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const update = async (uri: string, text: string) => {
+    const analysis = await analyzeDocument(uriToPath(uri), text);
+    documents.set(uri, analysis);
+    await send({
+      method: "textDocument/publishDiagnostics",
+      params: { uri, diagnostics: analysis.diagnostics },
+    });
+  };
+
+  const handle = async (method: string, params: TextDocumentParams): Promise<unknown> => {
+    const uri = params?.textDocument?.uri;
+    const doc = uri ? documents.get(uri) : undefined;
+
+    switch (method) {
+      case "initialize":
+        initialized = true;
+        return {
+          capabilities: {
+            textDocumentSync: TEXT_DOCUMENT_SYNC_FULL,
+            completionProvider: { triggerCharacters: [".", "("] },
+            hoverProvider: true,
+            definitionProvider: true,
+            documentSymbolProvider: true,
+          },
+          serverInfo: { name: "hql-language-server" },
+        };
+      case "shutdown":
+        shuttingDown = true;
+        return null;
+      case "textDocument/didOpen":
+        await update(uri, params.textDocument.text ?? "");
+        return;
+      case "textDocument/didChange": {
+        const changes = params.contentChanges ?? [];
+        if (changes.length > 0) await update(uri, changes[changes.length - 1].text);
+        return;
+      }
+      case "textDocument/didSave":
+        if (doc) await update(uri, doc.text);
+        return;
+      case "textDocument/didClose":
+        documents.delete(uri);
+        await send({ method: "textDocument/publishDiagnostics", params: { uri, diagnostics: [] } });
+        return;
+      case "textDocument/completion":
+        return doc ? getCompletions(doc, params.position!, readModule) : [];
+      case "textDocument/hover":
+        return doc ? getHover(doc, params.position!, readModule) : null;
+      case "textDocument/definition":
+        return doc ? getDefinition(doc, params.position!, readModule) : null;
+      case "textDocument/documentSymbol":
+        return doc ? getDocumentSymbols(doc) : [];
+      default:
+        throw new MethodNotFound(method);
+    }
+  };
+
+  for await (const message of readMessages(Deno.stdin.readable)) {
+    const { id, method } = message;
+    if (!method) continue;
+    if (method === "exit") break;
+    // Other notifications such as `initialized` and `$/cancelRequest` need no reply
+    const isRequest = id !== undefined && id !== null;
+
+    if (!initialized && method !== "initialize") {
+      if (isRequest) {
+        await send({ id, error: { code: ErrorCodes.ServerNotInitialized, message: "Server not initialized" } });
+      }
+      continue;
+    }
+
+    try {
+      const result = await handle(method, message.params as TextDocumentParams);
+      if (isRequest) await send({ id, result: result ?? null });
+    } catch (error) {
+      if (!isRequest) continue;
+      const code = error instanceof MethodNotFound ? ErrorCodes.MethodNotFound : ErrorCodes.InternalError;
+      await send({ id, error: { code, message: error instanceof Error ? error.message : String(error) } });
+    }
+  }
+
+  await writer.close().catch(() => {});
+  if (!shuttingDown) Deno.exitCode = 1;
+}
+
+class MethodNotFound extends Error {
+  constructor(method: string) {
+    super(`Unhandled method ${method}`);
+  }
+}
+
+function uriToPath(uri: string): string {
+  return uri.startsWith("file://") ? path.fromFileUrl(uri) : uri;
+}
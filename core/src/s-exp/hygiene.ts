@@ -0,0 +1,152 @@
+// core/src/s-exp/hygiene.ts - Hygienic renaming for macro expansions
+
+import { isList, isSymbol, SExp, SList, SSymbol } from "./types.ts";
+import { gensym } from "../gensym.ts";
+
+/* Forms whose second element lists local binders */
+const BINDING_LIST_FORMS = new Set(["let", "loop", "for-of", "for-await"]);
+const PARAM_LIST_FORMS = new Set(["lambda", "fn", "fx", "lambda*", "fn*"]);
+/* Heads of data literals that can appear where a binding list is expected */
+const PATTERN_HEADS = new Set(["vector", "hash-map", "empty-array", "empty-map"]);
+
+/* Symbols introduced by the quasiquote templates of the running macro */
+let activeTemplateSymbols: Set<SSymbol> | null = null;
+/* Symbols already renamed by `name#`, which need no further renaming */
+const autoGensymSymbols = new WeakSet<SSymbol>();
+/* File whose macro introduced a template symbol */
+const templateOrigins = new WeakMap<SSymbol, string>();
+
+/**
+ * Run a macro body, collecting the symbols its templates introduce.
+ * Nested macro calls get their own collection.
+ */
+export function collectTemplateSymbols<T>(fn: () => T): [T, Set<SSymbol>] {
+  const outer = activeTemplateSymbols;
+  const collected = new Set<SSymbol>();
+  activeTemplateSymbols = collected;
+  try {
+    return [fn(), collected];
+  } finally {
+    activeTemplateSymbols = outer;
+  }
+}
+
+/**
+ * Copy a symbol that appears literally in a quasiquote template.
+ * `name#` becomes a gensym shared by every `name#` in the same template.
+ */
+export function templateSymbol(symbol: SSymbol, autoGensyms: Map<string, string>): SSymbol {
+  const isAuto = symbol.name.length > 1 && symbol.name.endsWith("#");
+  let name = symbol.name;
+  if (isAuto) {
+    const base = name.slice(0, -1);
+    if (!autoGensyms.has(base)) autoGensyms.set(base, gensym(`${base}_auto`));
+    name = autoGensyms.get(base)!;
+  }
+  const copy: SSymbol = { ...symbol, name };
+  if (isAuto) autoGensymSymbols.add(copy);
+  activeTemplateSymbols?.add(copy);
+  return copy;
+}
+
+/* Get the file whose macro template introduced a symbol, if any */
+export function getTemplateOrigin(symbol: SSymbol): string | undefined {
+  return templateOrigins.get(symbol);
+}
+
+/**
+ * Rename the local binders a macro template introduces, together with the
+ * template references to them, so they cannot capture names in user code.
+ * Symbols passed in by the caller are never renamed. When `sourceFile` is
+ * given, template symbols remember it so nested macro calls resolve there.
+ */
+export function applyHygiene(
+  expr: SExp,
+  templateSymbols: Set<SSymbol>,
+  sourceFile?: string,
+): SExp {
+  const isTemplate = (el: SExp): el is SSymbol => isSymbol(el) && templateSymbols.has(el);
+
+  const bind = (names: SExp[], scope: Map<string, string>): Map<string, string> => {
+    const extended = new Map(scope);
+    for (const name of names) {
+      if (
+        isTemplate(name) && !autoGensymSymbols.has(name) &&
+        name.name !== "&" && !name.name.includes(":")
+      ) {
+        extended.set(name.name, gensym(`${name.name}_auto`));
+      }
+    }
+    return extended;
+  };
+
+  const rename = (el: SExp, scope: Map<string, string>): SExp => {
+    if (isSymbol(el)) {
+      if (!isTemplate(el)) return el;
+      const renamed = scope.get(el.name);
+      const result: SSymbol = renamed ? { ...el, name: renamed } : el;
+      if (renamed) templateSymbols.add(result);
+      if (sourceFile) templateOrigins.set(result, sourceFile);
+      return result;
+    }
+    if (!isList(el) || el.elements.length === 0) return el;
+    const list = el as SList;
+    const [head, second] = list.elements;
+    const headName = isTemplate(head) ? head.name : null;
+
+    if (headName && BINDING_LIST_FORMS.has(headName) && isBindingList(second)) {
+      const pairs = second.elements;
+      const elements: SExp[] = [];
+      let inner = scope;
+      for (let i = 0; i < pairs.length; i += 2) {
+        // let binders are visible to later values, loop and for-of binders only in the body
+        const valueScope = headName === "let" ? inner : scope;
+        inner = bind([pairs[i]], inner);
+        elements.push(rename(pairs[i], inner));
+        if (i + 1 < pairs.length) elements.push(rename(pairs[i + 1], valueScope));
+      }
+      return {
+        ...list,
+        elements: [
+          rename(head, scope),
+          { ...second, elements },
+          ...list.elements.slice(2).map((body) => rename(body, inner)),
+        ],
+      };
+    }
+
+    if (headName && PARAM_LIST_FORMS.has(headName)) {
+      const paramIndex = list.elements.findIndex((e, i) => i > 0 && isList(e));
+      if (paramIndex > 0 && isBindingList(list.elements[paramIndex])) {
+        const params = list.elements[paramIndex] as SList;
+        const inner = bind(params.elements, scope);
+        return {
+          ...list,
+          elements: list.elements.map((e, i) => {
+            if (i < paramIndex) return rename(e, scope);
+            if (i === paramIndex) {
+              return { ...params, elements: params.elements.map((p) => rename(p, inner)) };
+            }
+            return rename(e, inner);
+          }),
+        };
+      }
+    }
+
+    if (headName === "catch" && list.elements.length > 2 && isSymbol(second)) {
+      const inner = bind([second], scope);
+      return { ...list, elements: list.elements.map((e) => rename(e, inner)) };
+    }
+
+    return { ...list, elements: list.elements.map((e) => rename(e, scope)) };
+  };
+
+  return rename(expr, new Map());
+}
+
+/* Check that a list holds binders rather than a destructuring pattern */
+function isBindingList(el: SExp | undefined): el is SList {
+  if (!el || !isList(el)) return false;
+  const first = el.elements[0];
+  return !(first && isSymbol(first) && PATTERN_HEADS.has(first.name));
+}
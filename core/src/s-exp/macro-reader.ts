@@ -60,20 +60,20 @@ function convertExpr(sexp: SExp, logger: Logger): HQLNode {
  * Convert an S-expression literal to an HQL AST literal
  */
 function convertLiteral(literal: SLiteral, __logger: Logger): LiteralNode {
-  return {
+  return withPosition({
     type: "literal",
     value: literal.value,
-  };
+  }, literal);
 }
 
 /**
  * Convert an S-expression symbol to an HQL AST symbol
  */
 function convertSymbol(symbol: SSymbol, _logger: Logger): SymbolNode {
-  return {
+  return withPosition({
     type: "symbol",
     name: symbol.name,
-  };
+  }, symbol);
 }
 
 /**
@@ -93,19 +93,30 @@ function convertList(list: SList, logger: Logger): ListNode {
     const propertyName = (list.elements[1] as SSymbol).name.substring(1); // Remove the dot
 
     // Create a property access pattern using js-get
-    return {
+    return withPosition({
       type: "list",
       elements: [
         { type: "symbol", name: "js-get" },
         object,
         { type: "literal", value: propertyName },
       ],
-    };
+    }, list);
   }
 
   // Default case: convert each element and return a list
-  return {
+  return withPosition({
     type: "list",
     elements: list.elements.map((elem) => convertExpr(elem, logger)),
-  };
+  }, list);
+}
+
+/**
+ * Carry the parser's source location over to an HQL AST node
+ */
+function withPosition<T extends HQLNode>(node: T, sexp: SExp): T {
+  const meta = sexp._meta;
+  if (meta?.line !== undefined) {
+    node._meta = { filePath: meta.filePath, line: meta.line, column: meta.column };
+  }
+  return node;
 }
@@ -1,11 +1,16 @@
-// core/src/s-exp/macro-registry.ts - Further cleanup of user-level macro references
+// core/src/s-exp/macro-registry.ts - System macros plus module-scoped user macros
 import { Logger } from "../logger.ts";
 import { MacroFn } from "../environment.ts";
 import { MacroError } from "../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../common/error-codes.ts";
 import { globalSymbolTable } from "../transpiler/symbol_table.ts";
 
 export class MacroRegistry {
   private systemMacros = new Map<string, MacroFn>();
+  private moduleMacros = new Map<string, Map<string, MacroFn>>();
+  private exportedMacros = new Map<string, Set<string>>();
+  private importedMacros = new Map<string, Map<string, MacroFn>>();
+  private shadowedMacros = new Map<string, Set<string>>();
   private processedFiles = new Set<string>();
   private logger: Logger;
 
@@ -17,14 +22,14 @@ export class MacroRegistry {
   private validateString(value: string, errorMessage: string, macroName: string, filePath?: string): void {
     if (!value) {
       this.logger.error(errorMessage);
-      throw new MacroError(errorMessage, macroName, filePath);
+      throw new MacroError(errorMessage, macroName, filePath).withCode(ErrorCode.MACRO_ERROR);
     }
   }
 
   private validateNotNull(value: unknown, errorMessage: string, macroName: string, filePath?: string): void {
     if (!value) {
       this.logger.error(errorMessage);
-      throw new MacroError(errorMessage, macroName, filePath);
+      throw new MacroError(errorMessage, macroName, filePath).withCode(ErrorCode.MACRO_ERROR);
     }
   }
 
@@ -33,21 +38,7 @@ export class MacroRegistry {
       return fn();
     } catch (error) {
       if (error instanceof MacroError) throw error;
-      throw new MacroError(`${errorPrefix}: ${error instanceof Error ? error.message : String(error)}`, macroName, filePath);
-    }
-  }
-
-  private safeBoolean(fn: () => void, errorPrefix: string, _macroName: string, _filePath?: string): boolean {
-    try {
-      fn();
-      return true;
-    } catch (error) {
-      if (error instanceof MacroError) {
-        this.logger.warn(error.message);
-        return false;
-      }
-      this.logger.warn(`${errorPrefix}: ${error instanceof Error ? error.message : String(error)}`);
-      return false;
+      throw new MacroError(`${errorPrefix}: ${error instanceof Error ? error.message : String(error)}`, macroName, filePath).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
     }
   }
 
@@ -114,22 +105,140 @@ export class MacroRegistry {
   }
 
   /**
-   * Import a macro from another file (only supported for system macros)
+   * Forget that a file was processed, so its macros are loaded again
+   */
+  unmarkFileProcessed(filePath: string): void {
+    this.processedFiles.delete(filePath);
+  }
+
+  /**
+   * Define a user macro scoped to the file that declares it
+   */
+  defineModuleMacro(filePath: string, name: string, macroFn: MacroFn): void {
+    this.validateString(filePath, `Cannot define macro ${name} without a file`, name);
+    this.validateString(name, "Cannot define macro with empty name", "module-macro", filePath);
+    this.validateNotNull(macroFn, `Cannot define macro ${name} with null function`, name, filePath);
+
+    const imported = this.importedMacros.get(filePath)?.get(name);
+    if (imported) {
+      throw new MacroError(
+        `Macro ${name} is already imported from ${imported.sourceFile} and cannot be redefined`,
+        name,
+        { filePath },
+      ).withCode(ErrorCode.MACRO_NAME_COLLISION);
+    }
+
+    this.logger.debug(`Defining macro ${name} in ${filePath}`);
+    if (!this.moduleMacros.has(filePath)) {
+      this.moduleMacros.set(filePath, new Map<string, MacroFn>());
+    }
+    this.moduleMacros.get(filePath)!.set(name, macroFn);
+
+    globalSymbolTable.set({
+      name: name,
+      kind: 'macro',
+      scope: 'module',
+      sourceModule: filePath,
+    });
+  }
+
+  /**
+   * Drop a file's own, exported and imported macros before it is expanded again
+   */
+  clearModuleMacros(filePath: string): void {
+    this.moduleMacros.delete(filePath);
+    this.exportedMacros.delete(filePath);
+    this.importedMacros.delete(filePath);
+    this.shadowedMacros.delete(filePath);
+  }
+
+  /**
+   * Hide a system macro from a file that imports a value of the same name,
+   * so that calls to the name in the file call the import
+   */
+  shadowSystemMacro(filePath: string, name: string): void {
+    if (!this.systemMacros.has(name)) return;
+    if (!this.shadowedMacros.has(filePath)) {
+      this.shadowedMacros.set(filePath, new Set<string>());
+    }
+    this.shadowedMacros.get(filePath)!.add(name);
+    this.logger.debug(`System macro ${name} is shadowed by an import in ${filePath}`);
+  }
+
+  /**
+   * Check if a file defines a macro with the given name
+   */
+  hasModuleMacro(filePath: string, name: string): boolean {
+    return this.moduleMacros.get(filePath)?.has(name) ?? false;
+  }
+
+  /**
+   * Mark a module macro as exported. Returns false when the file has no such macro.
+   */
+  exportMacro(filePath: string, name: string): boolean {
+    if (!this.hasModuleMacro(filePath, name)) return false;
+    if (!this.exportedMacros.has(filePath)) {
+      this.exportedMacros.set(filePath, new Set<string>());
+    }
+    this.exportedMacros.get(filePath)!.add(name);
+    this.logger.debug(`Exported macro ${name} from ${filePath}`);
+    return true;
+  }
+
+  /**
+   * Check if a file exports a macro with the given name
+   */
+  isMacroExported(filePath: string, name: string): boolean {
+    return this.exportedMacros.get(filePath)?.has(name) ?? false;
+  }
+
+  /**
+   * Import a system macro or an exported module macro from another file
    */
   importMacro(fromFile: string, macroName: string, toFile: string, aliasName?: string): boolean {
-    return this.safeBoolean(() => {
+    return this.safeExecute(() => {
       this.validateString(fromFile, "Source file path required for importing macro", macroName, toFile);
       this.validateString(macroName, "Cannot import macro with empty name", "import-macro", toFile);
       this.validateString(toFile, "Target file path required for importing macro", macroName, fromFile);
       
       if (fromFile === toFile) {
         this.logger.debug(`Skipping self-import of ${macroName} (same file)`);
-        return;
+        return true;
+      }
+
+      const importName = aliasName || macroName;
+
+      if (this.hasModuleMacro(fromFile, macroName)) {
+        if (!this.isMacroExported(fromFile, macroName)) {
+          throw new MacroError(`Macro ${macroName} is not exported from ${fromFile}`, macroName, { filePath: toFile }).withCode(ErrorCode.MACRO_NOT_EXPORTED);
+        }
+        const macroFn = this.moduleMacros.get(fromFile)!.get(macroName)!;
+        if (this.hasModuleMacro(toFile, importName)) {
+          throw new MacroError(
+            `Imported macro ${importName} from ${fromFile} collides with a macro defined in ${toFile}`,
+            importName,
+            { filePath: toFile },
+          ).withCode(ErrorCode.MACRO_NAME_COLLISION);
+        }
+        const existing = this.importedMacros.get(toFile)?.get(importName);
+        if (existing && existing !== macroFn) {
+          throw new MacroError(
+            `Imported macro ${importName} from ${fromFile} collides with ${importName} imported from ${existing.sourceFile}`,
+            importName,
+            { filePath: toFile },
+          ).withCode(ErrorCode.MACRO_NAME_COLLISION);
+        }
+
+        this.logger.debug(`Importing macro ${macroName} from ${fromFile}${aliasName ? ` as ${aliasName}` : ""}`);
+        if (!this.importedMacros.has(toFile)) {
+          this.importedMacros.set(toFile, new Map<string, MacroFn>());
+        }
+        this.importedMacros.get(toFile)!.set(importName, macroFn);
+        return true;
       }
       
       // Try to find the macro in the system macros
       if (this.systemMacros.has(macroName)) {
-        const importName = aliasName || macroName;
         this.logger.debug(`Importing system macro ${macroName}${aliasName ? ` as ${aliasName}` : ""}`);
         
         // Add to global symbol table
@@ -142,42 +251,65 @@ export class MacroRegistry {
           meta: { importedInFile: toFile, isSystemMacro: true }
         });
         
-        return;
+        return true;
       }
       
-      // If not a system macro, we can't import it
-      this.logger.warn(`Cannot import macro ${macroName} - not a system macro`);
-      throw new MacroError(`Macro ${macroName} is not a system macro and cannot be imported`, macroName, fromFile);
+      throw new MacroError(`Macro ${macroName} is not defined in ${fromFile}`, macroName, { filePath: toFile }).withCode(ErrorCode.MACRO_NOT_FOUND);
     }, `Failed to import macro ${macroName} from ${fromFile} to ${toFile}`, macroName, toFile);
   }
 
   /**
-   * Check if a macro is defined
+   * Names of the macros visible from a file: its own, those imported into
+   * it and the system macros. Names registered only in their '_' spelling
+   * are left out.
    */
-  hasMacro(name: string): boolean {
-    if (!name) return false;
-    if (this.systemMacros.has(name)) {
-      this.logger.debug(`Found system macro: ${name}`);
-      return true;
+  getMacroNames(filePath?: string | null): string[] {
+    const names = new Set<string>();
+    const add = (macros?: Map<string, MacroFn>) => {
+      for (const name of macros?.keys() ?? []) {
+        if (!(name.includes("_") && macros!.has(name.replace(/_/g, "-")))) names.add(name);
+      }
+    };
+    if (filePath) {
+      add(this.moduleMacros.get(filePath));
+      add(this.importedMacros.get(filePath));
     }
-    return false;
+    const shadowed = filePath ? this.shadowedMacros.get(filePath) : undefined;
+    add(shadowed ? new Map([...this.systemMacros].filter(([name]) => !shadowed.has(name))) : this.systemMacros);
+    return [...names];
   }
 
   /**
-   * Get a macro function by name
+   * Check if a macro is visible, optionally from a specific file
    */
-  getMacro(name: string): MacroFn | undefined {
+  hasMacro(name: string, filePath?: string | null): boolean {
+    return this.getMacro(name, filePath) !== undefined;
+  }
+
+  /**
+   * Get a macro function by name. Macros defined in the file win over
+   * macros imported into it, which win over system macros that the file
+   * has not shadowed with an import.
+   */
+  getMacro(name: string, filePath?: string | null): MacroFn | undefined {
     if (!name) {
       this.logger.warn("Cannot get macro with empty name");
       return undefined;
     }
+
+    if (filePath) {
+      const local = this.moduleMacros.get(filePath)?.get(name);
+      if (local) return local;
+      const imported = this.importedMacros.get(filePath)?.get(name);
+      if (imported) return imported;
+      if (this.shadowedMacros.get(filePath)?.has(name)) return undefined;
+    }
     
     if (this.systemMacros.has(name)) {
       this.logger.debug(`Getting system macro: ${name}`);
       return this.systemMacros.get(name);
     }
     
-    this.logger.debug(`Macro ${name} not found in system macros`);
     return undefined;
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,20 @@
-// core/src/s-exp/macro.ts - Refactored to remove user-level macro support
+// core/src/s-exp/macro.ts - Macro definition and expansion with module-scoped user macros
 
 import {
   createList,
   createLiteral,
   createNilLiteral,
+  createSymbol,
+  inheritSExpLocation,
   isDefMacro,
+  isForm,
+  isImport,
   isList,
   isLiteral,
+  isReturnTypeList,
+  isSExpVectorImport,
   isSymbol,
+  MACRO_DEFINITION_FORMS,
   SExp,
   sexpToString,
   SList,
@@ -18,15 +25,25 @@ import { Logger } from "../logger.ts";
 import { MacroFn } from "../environment.ts";
 import { MacroError, TransformError } from "../common/error.ts";
 import { perform } from "../common/error.ts";
-import { gensym } from "../gensym.ts";
+import { ErrorCode, errorCodeOf } from "../common/error-codes.ts";
+import {
+  applyHygiene,
+  collectTemplateSymbols,
+  getTemplateOrigin,
+  templateSymbol,
+} from "./hygiene.ts";
 import { LRUCache } from "../common/lru-cache.ts";
 import { globalLogger as logger } from "../logger.ts";
+import { EMBEDDED_MACROS } from "../lib/embedded-macros.ts";
+import { isHqlFile, isRemoteModule } from "../common/import-utils.ts";
+import { parse } from "../transpiler/pipeline/parser.ts";
+import { transformSyntax } from "../transpiler/pipeline/syntax-transformer.ts";
+import { dirname, readTextFile, resolve } from "../platform/platform.ts";
 
 // Constants and caches
 const MAX_EXPANSION_ITERATIONS = 100;
 export const macroCache = new Map<string, Map<string, boolean>>();
 const macroExpansionCache = new LRUCache<string, SExp>(5000);
-const symbolRenameMap = new Map<string, Map<string, string>>();
 
 interface MacroExpanderOptions {
   verbose?: boolean;
@@ -35,6 +52,13 @@ interface MacroExpanderOptions {
   useCache?: boolean;
 }
 
+/**
+ * Drop cached expansions, which go stale when a macro definition changes
+ */
+export function clearMacroExpansionCache(): void {
+  macroExpansionCache.clear();
+}
+
 /* Helper: Checks truthiness for S-expression values */
 function isTruthy(expr: SExp): boolean {
   return isLiteral(expr)
@@ -74,16 +98,16 @@ function processMacroDefinition(
     throw new MacroError(
       "Macro definition requires a name, parameter list, and body",
       "unknown",
-    );
+    ).withCode(ErrorCode.INVALID_MACRO_DEFINITION);
   }
   const macroNameExp = macroForm.elements[1];
   if (!isSymbol(macroNameExp)) {
-    throw new MacroError("Macro name must be a symbol", "unknown");
+    throw new MacroError("Macro name must be a symbol", "unknown").withCode(ErrorCode.INVALID_MACRO_DEFINITION);
   }
   const macroName = macroNameExp.name;
   const paramsExp = macroForm.elements[2];
   if (!isList(paramsExp)) {
-    throw new MacroError("Macro parameters must be a list", macroName);
+    throw new MacroError("Macro parameters must be a list", macroName).withCode(ErrorCode.INVALID_MACRO_DEFINITION);
   }
   const { params, restParam } = processParamList(paramsExp);
   const body = macroForm.elements.slice(3);
@@ -124,15 +148,22 @@ function processParamList(
   return { params, restParam };
 }
 
-/* Exported: Register a global macro definition */
+/* Exported: Register a macro definition, scoped to its file unless it is a system macro */
 export function defineMacro(
   macroForm: SList,
   env: Environment,
   logger: Logger,
+  filePath?: string,
 ): void {
   try {
     const { macroName, params, restParam, body } = processMacroDefinition(macroForm);
-    const macroFn = createMacroFunction(macroName, params, restParam, body, logger);
+    if (filePath && !isSystemMacroFile(filePath)) {
+      const macroFn = createMacroFunction(macroName, params, restParam, body, logger, filePath);
+      env.defineModuleMacro(filePath, macroName, macroFn);
+      logger.debug(`Registered macro ${macroName} in ${filePath}`);
+      return;
+    }
+    const macroFn = createMacroFunction(macroName, params, restParam, body, logger, filePath);
     env.defineMacro(macroName, macroFn);
     logger.debug(`Registered global macro ${macroName}`);
   } catch (error) {
@@ -144,9 +175,154 @@ export function defineMacro(
         error instanceof Error ? error.message : String(error)
       }`,
       macroName,
-      undefined,
-      error instanceof Error ? error : undefined,
-    );
+      { filePath, originalError: error instanceof Error ? error : undefined },
+    ).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
+  }
+}
+
+/* Helper: Embedded library files define global system macros */
+function isSystemMacroFile(filePath: string): boolean {
+  return filePath in EMBEDDED_MACROS;
+}
+
+/* Helper: Resolve an HQL import path against the importing file */
+function resolveMacroModulePath(importPath: string, currentFile: string): string | null {
+  if (!isHqlFile(importPath) || isRemoteModule(importPath)) return null;
+  return resolve(dirname(currentFile), importPath);
+}
+
+/* Helper: Split vector elements into [name, alias] pairs */
+function vectorNamePairs(vector: SList): [SSymbol, SSymbol | null][] {
+  const elements = vector.elements.filter((el, i) =>
+    !(i === 0 && isSymbol(el) && el.name === "vector") &&
+    !(isSymbol(el) && el.name === ",")
+  );
+  const pairs: [SSymbol, SSymbol | null][] = [];
+  for (let i = 0; i < elements.length; i++) {
+    const el = elements[i];
+    if (!isSymbol(el)) continue;
+    const next = elements[i + 1];
+    const alias = elements[i + 2];
+    if (next && isSymbol(next) && next.name === "as" && alias && isSymbol(alias)) {
+      pairs.push([el, alias]);
+      i += 2;
+    } else {
+      pairs.push([el, null]);
+    }
+  }
+  return pairs;
+}
+
+/* Helper: Rebuild a vector from the name pairs that are not macros */
+function rebuildVector(pairs: [SSymbol, SSymbol | null][]): SList {
+  const elements: SExp[] = [createSymbol("vector")];
+  for (const [name, alias] of pairs) {
+    elements.push(name);
+    if (alias) elements.push(createSymbol("as"), alias);
+  }
+  return createList(...elements);
+}
+
+/* The name of a top-level (fn name ...), (fx name ...) or (fn* name ...) */
+function definedFunctionName(expr: SExp): string | undefined {
+  if (!isList(expr)) return undefined;
+  let elements = (expr as SList).elements;
+  if (isForm(expr, "async")) elements = elements.slice(1);
+  const [head, name] = elements;
+  return isSymbol(head) && ["fn", "fn*", "fx"].includes((head as SSymbol).name) && name && isSymbol(name)
+    ? (name as SSymbol).name
+    : undefined;
+}
+
+/**
+ * Resolve `(import [...] from "x.hql")` and `(export [...])` forms that name
+ * user macros. Imported macros are bound into the current file's scope and
+ * macro names are removed from the forms, since they have no runtime value.
+ */
+function processMacroImportsAndExports(
+  exprs: SExp[],
+  env: Environment,
+  currentFile: string,
+): SExp[] {
+  const result: SExp[] = [];
+  for (const expr of exprs) {
+    const list = expr as SList;
+    if (isImport(expr) && isSExpVectorImport(list.elements) && isLiteral(list.elements[3])) {
+      const sourceFile = resolveMacroModulePath(String(list.elements[3].value), currentFile);
+      const pairs = vectorNamePairs(list.elements[1] as SList);
+      const remaining = sourceFile
+        ? pairs.filter(([name, alias]) => {
+          if (!env.hasModuleMacro(sourceFile, name.name)) return true;
+          env.importMacro(sourceFile, name.name, currentFile, alias?.name);
+          return false;
+        })
+        : pairs;
+      // An imported value, such as the stdlib's repeat, takes the place of a
+      // system macro of the same name in this file
+      for (const [name, alias] of remaining) {
+        env.shadowSystemMacro(currentFile, (alias ?? name).name);
+      }
+      if (remaining.length === pairs.length) {
+        result.push(expr);
+      } else if (remaining.length > 0) {
+        result.push({ ...list, elements: [list.elements[0], rebuildVector(remaining), ...list.elements.slice(2)] });
+      }
+      continue;
+    }
+    // As does a function the file defines, such as (fx inc ...)
+    const functionName = definedFunctionName(expr);
+    if (functionName) env.shadowSystemMacro(currentFile, functionName);
+    if (isForm(expr, "export") && list.elements.length === 2 && isList(list.elements[1])) {
+      const pairs = vectorNamePairs(list.elements[1] as SList);
+      const remaining = pairs.filter(([name, alias]) => {
+        if (!env.exportMacro(currentFile, name.name)) return true;
+        if (alias) {
+          throw new MacroError(
+            `Macro ${name.name} cannot be exported under an alias`,
+            name.name,
+            { filePath: currentFile },
+          ).withCode(ErrorCode.MACRO_EXPORT_ALIAS);
+        }
+        return false;
+      });
+      if (remaining.length === pairs.length) {
+        result.push(expr);
+      } else if (remaining.length > 0) {
+        result.push({ ...list, elements: [list.elements[0], rebuildVector(remaining)] });
+      }
+      continue;
+    }
+    result.push(expr);
+  }
+  return result;
+}
+
+/**
+ * Load the macros of every HQL module imported by `exprs`, so that
+ * expandMacros can bind them. Runs before the importing file's syntax
+ * transform because each loaded module goes through its own.
+ */
+export async function loadMacroModules(
+  exprs: SExp[],
+  env: Environment,
+  currentFile: string,
+  options: MacroExpanderOptions = {},
+): Promise<void> {
+  for (const expr of exprs) {
+    const list = expr as SList;
+    if (!isImport(expr) || !isSExpVectorImport(list.elements) || !isLiteral(list.elements[3])) {
+      continue;
+    }
+    const sourceFile = resolveMacroModulePath(String(list.elements[3].value), currentFile);
+    if (!sourceFile || env.hasProcessedFile(sourceFile)) continue;
+    // Mark first so that import cycles terminate
+    env.markFileProcessed(sourceFile);
+
+    const source = await readTextFile(sourceFile);
+    const parsed = parse(source, sourceFile);
+    await loadMacroModules(parsed, env, sourceFile, options);
+    expandMacros(transformSyntax(parsed), env, { ...options, currentFile: sourceFile });
+    logger.debug(`Loaded macro module ${sourceFile}`);
   }
 }
 
@@ -165,16 +341,19 @@ export function expandMacros(
   if (currentFile) {
     env.setCurrentFile(currentFile);
     logger.debug(`Setting current file to: ${currentFile}`);
+    if (!isSystemMacroFile(currentFile)) env.clearModuleMacros(currentFile);
   }
 
   // Process macro definitions
   for (const expr of exprs) {
     if (isDefMacro(expr) && isList(expr)) {
-      defineMacro(expr as SList, env, logger);
+      defineMacro(expr as SList, env, logger, currentFile);
     }
   }
 
-  let currentExprs = [...exprs];
+  let currentExprs = currentFile && !isSystemMacroFile(currentFile)
+    ? processMacroImportsAndExports(exprs, env, currentFile)
+    : [...exprs];
   let iteration = 0;
   let changed = true;
   while (changed && iteration < MAX_EXPANSION_ITERATIONS) {
@@ -183,7 +362,9 @@ export function expandMacros(
     logger.debug(`Macro expansion iteration ${iteration}`);
 
     const newExprs = currentExprs.map((expr) => {
-      const exprStr = useCache ? sexpToString(expr) : "";
+      // Macros are scoped per file and expansions carry source locations,
+      // so the same form can expand differently elsewhere
+      const exprStr = useCache ? `${expansionSite(expr, currentFile)}:${sexpToString(expr)}` : "";
       if (useCache && macroExpansionCache.has(exprStr)) {
         logger.debug(`Cache hit for expression: ${exprStr.substring(0, 30)}...`);
         return macroExpansionCache.get(exprStr)!;
@@ -221,6 +402,12 @@ export function expandMacros(
   return currentExprs;
 }
 
+/* Identify where a top-level form sits, for the expansion cache */
+function expansionSite(expr: SExp, currentFile?: string): string {
+  const { line, column } = expr._meta ?? {};
+  return `${currentFile ?? ""}:${line ?? ""}:${column ?? ""}`;
+}
+
 /* Check if a symbol represents a macro with caching. */
 export function isMacro(
   symbolName: string,
@@ -328,17 +515,20 @@ function evaluateList(expr: SList, env: Environment, logger: Logger): SExp {
         return evaluateQuasiquote(expr, env, logger);
       case "unquote":
       case "unquote-splicing":
-        throw new MacroError(`${op} not in quasiquote context`, op);
+        throw new MacroError(`${op} not in quasiquote context`, op).withCode(ErrorCode.INVALID_QUOTE);
       case "if":
         return evaluateIf(expr, env, logger);
       case "cond":
         return evaluateCond(expr, env, logger);
+      case "and":
+      case "or":
+        return evaluateLogical(expr, env, logger);
       case "let":
         return evaluateLet(expr, env, logger);
       case "lambda":
         return createNilLiteral();
     }
-    if (env.hasMacro(op)) return evaluateMacroCall(expr, env, logger);
+    if (lookupMacro(first as SSymbol, env)) return evaluateMacroCall(expr, env, logger);
     try {
       return evaluateFunctionCall(expr, env, logger);
     } catch (error) {
@@ -347,7 +537,7 @@ function evaluateList(expr: SList, env: Environment, logger: Logger): SExp {
           error instanceof Error ? error.message : String(error)
         }`,
         op,
-      );
+      ).withCode(errorCodeOf(error, ErrorCode.MACRO_ERROR));
     }
   }
   return createList(
@@ -358,7 +548,7 @@ function evaluateList(expr: SList, env: Environment, logger: Logger): SExp {
 /* Evaluate a quoted expression */
 function evaluateQuote(list: SList): SExp {
   if (list.elements.length !== 2) {
-    throw new MacroError("quote requires exactly one argument", "quote");
+    throw new MacroError("quote requires exactly one argument", "quote").withCode(ErrorCode.INVALID_QUOTE);
   }
   return list.elements[1];
 }
@@ -366,7 +556,7 @@ function evaluateQuote(list: SList): SExp {
 /* Evaluate an "if" expression */
 function evaluateIf(list: SList, env: Environment, logger: Logger): SExp {
   if (list.elements.length < 3 || list.elements.length > 4) {
-    throw new MacroError(`'if' requires 2 or 3 arguments, got ${list.elements.length - 1}`, "if");
+    throw new MacroError(`'if' requires 2 or 3 arguments, got ${list.elements.length - 1}`, "if").withCode(ErrorCode.INVALID_IF);
   }
   const test = evaluateForMacro(list.elements[1], env, logger);
   if (isTruthy(test)) {
@@ -377,16 +567,27 @@ function evaluateIf(list: SList, env: Environment, logger: Logger): SExp {
     : createNilLiteral();
 }
 
+/* Evaluate "and" / "or", stopping at the first operand that decides it */
+function evaluateLogical(list: SList, env: Environment, logger: Logger): SExp {
+  const isAnd = (list.elements[0] as SSymbol).name === "and";
+  let result: SExp = isAnd ? createLiteral(true) : createNilLiteral();
+  for (const operand of list.elements.slice(1)) {
+    result = evaluateForMacro(operand, env, logger);
+    if (isTruthy(result) !== isAnd) return result;
+  }
+  return result;
+}
+
 /* Evaluate a "cond" expression */
 function evaluateCond(list: SList, env: Environment, logger: Logger): SExp {
   for (let i = 1; i < list.elements.length; i++) {
     const clause = list.elements[i];
     if (!isList(clause)) {
-      throw new MacroError("cond clauses must be lists", "cond");
+      throw new MacroError("cond clauses must be lists", "cond").withCode(ErrorCode.INVALID_COND);
     }
     const clauseList = clause as SList;
     if (clauseList.elements.length < 2) {
-      throw new MacroError("cond clauses must have a test and a result", "cond");
+      throw new MacroError("cond clauses must have a test and a result", "cond").withCode(ErrorCode.INVALID_COND);
     }
     const test = evaluateForMacro(clauseList.elements[0], env, logger);
     if (isTruthy(test)) return evaluateForMacro(clauseList.elements[1], env, logger);
@@ -397,22 +598,22 @@ function evaluateCond(list: SList, env: Environment, logger: Logger): SExp {
 /* Evaluate a "let" expression */
 function evaluateLet(list: SList, env: Environment, logger: Logger): SExp {
   if (list.elements.length < 2) {
-    throw new MacroError("let requires bindings and at least one body form", "let");
+    throw new MacroError("let requires bindings and at least one body form", "let").withCode(ErrorCode.INVALID_BINDING_FORM);
   }
   const bindings = list.elements[1];
   if (!isList(bindings)) {
-    throw new MacroError("let bindings must be a list", "let");
+    throw new MacroError("let bindings must be a list", "let").withCode(ErrorCode.INVALID_BINDING_FORM);
   }
   const bindingsList = bindings as SList;
   if (bindingsList.elements.length % 2 !== 0) {
-    throw new MacroError("let bindings must have an even number of forms", "let");
+    throw new MacroError("let bindings must have an even number of forms", "let").withCode(ErrorCode.ODD_BINDING_LIST);
   }
   const letEnv = env.extend();
   for (let i = 0; i < bindingsList.elements.length; i += 2) {
     const name = bindingsList.elements[i];
     const value = bindingsList.elements[i + 1];
     if (!isSymbol(name)) {
-      throw new MacroError("let binding names must be symbols", "let");
+      throw new MacroError("let binding names must be symbols", "let").withCode(ErrorCode.INVALID_BINDING_NAME);
     }
     letEnv.define((name as SSymbol).name, evaluateForMacro(value, letEnv, logger));
   }
@@ -423,12 +624,19 @@ function evaluateLet(list: SList, env: Environment, logger: Logger): SExp {
   return result;
 }
 
+/* Helper: Find the macro a call head names. Symbols from a macro template
+   resolve in the module that defined the macro, not where it expanded. */
+function lookupMacro(head: SSymbol, env: Environment): MacroFn | undefined {
+  const origin = getTemplateOrigin(head);
+  return origin ? env.getMacroFrom(origin, head.name) : env.getMacro(head.name);
+}
+
 /* Evaluate a macro call */
 function evaluateMacroCall(list: SList, env: Environment, logger: Logger): SExp {
   const op = (list.elements[0] as SSymbol).name;
-  const macroFn = env.getMacro(op);
+  const macroFn = lookupMacro(list.elements[0] as SSymbol, env);
   if (!macroFn) {
-    throw new MacroError(`Macro not found: ${op}`, op);
+    throw new MacroError(`Macro not found: ${op}`, op).withCode(ErrorCode.MACRO_NOT_FOUND);
   }
   const args = list.elements.slice(1);
   const expanded = macroFn(args, env);
@@ -473,22 +681,24 @@ function evaluateFunctionCall(list: SList, env: Environment, logger: Logger): SE
   const first = list.elements[0];
   if (isSymbol(first)) {
     const op = (first as SSymbol).name;
+    let fn: unknown;
     try {
-      const fn = env.lookup(op);
-      if (typeof fn === "function") {
-        const evalArgs = evaluateArguments(list.elements.slice(1), env, logger);
-        if (
-          op === "Math.abs" || op.endsWith(".abs") ||
-          op === "Math.round" || op.endsWith(".round") ||
-          op === "Math.max" || op.endsWith(".max")
-        ) {
-          return tryMathOperation(op, evalArgs, logger);
-        }
-        return convertJsValueToSExp(fn(...evalArgs));
-      }
+      fn = env.lookup(op);
     } catch {
       logger.debug(`Function '${op}' not found during macro expansion`);
     }
+    if (typeof fn === "function") {
+      const evalArgs = evaluateArguments(list.elements.slice(1), env, logger);
+      if (
+        op === "Math.abs" || op.endsWith(".abs") ||
+        op === "Math.round" || op.endsWith(".round") ||
+        op === "Math.max" || op.endsWith(".max")
+      ) {
+        return tryMathOperation(op, evalArgs, logger);
+      }
+      // Errors from the function itself, such as (throw "..."), reach the caller
+      return convertJsValueToSExp(fn(...evalArgs));
+    }
   }
   return createList(
     ...list.elements.map((elem) => evaluateForMacro(elem, env, logger)),
@@ -498,10 +708,10 @@ function evaluateFunctionCall(list: SList, env: Environment, logger: Logger): SE
 /* Evaluate a quasiquoted expression */
 function evaluateQuasiquote(expr: SList, env: Environment, logger: Logger): SExp {
   if (expr.elements.length !== 2) {
-    throw new MacroError("quasiquote requires exactly one argument", "quasiquote");
+    throw new MacroError("quasiquote requires exactly one argument", "quasiquote").withCode(ErrorCode.INVALID_QUOTE);
   }
   logger.debug(`Evaluating quasiquote: ${sexpToString(expr.elements[1])}`);
-  return processQuasiquotedExpr(expr.elements[1], env, logger);
+  return processQuasiquotedExpr(expr.elements[1], env, logger, new Map());
 }
 
 /* Process a quasiquoted expression, handling unquote and unquote-splicing */
@@ -509,7 +719,9 @@ function processQuasiquotedExpr(
   expr: SExp,
   env: Environment,
   logger: Logger,
+  autoGensyms: Map<string, string>,
 ): SExp {
+  if (isSymbol(expr)) return templateSymbol(expr, autoGensyms);
   if (!isList(expr)) return expr;
   const list = expr as SList;
   if (list.elements.length === 0) return expr;
@@ -517,14 +729,14 @@ function processQuasiquotedExpr(
 
   if (isSymbol(first) && (first as SSymbol).name === "unquote") {
     if (list.elements.length !== 2) {
-      throw new MacroError("unquote requires exactly one argument", "unquote");
+      throw new MacroError("unquote requires exactly one argument", "unquote").withCode(ErrorCode.INVALID_QUOTE);
     }
     logger.debug(`Evaluating unquote: ${sexpToString(list.elements[1])}`);
     return evaluateForMacro(list.elements[1], env, logger);
   }
 
   if (isSymbol(first) && (first as SSymbol).name === "unquote-splicing") {
-    throw new MacroError("unquote-splicing not in list context", "unquote-splicing");
+    throw new MacroError("unquote-splicing not in list context", "unquote-splicing").withCode(ErrorCode.INVALID_QUOTE);
   }
 
   const processedElements: SExp[] = [];
@@ -537,7 +749,7 @@ function processQuasiquotedExpr(
     ) {
       const spliceList = element as SList;
       if (spliceList.elements.length !== 2) {
-        throw new MacroError("unquote-splicing requires exactly one argument", "unquote-splicing");
+        throw new MacroError("unquote-splicing requires exactly one argument", "unquote-splicing").withCode(ErrorCode.INVALID_QUOTE);
       }
       const splicedExpr = spliceList.elements[1];
       logger.debug(`Processing unquote-splicing: ${sexpToString(splicedExpr)}`);
@@ -558,12 +770,15 @@ function processQuasiquotedExpr(
         processedElements.push(spliced);
       }
     } else {
-      processedElements.push(processQuasiquotedExpr(element, env, logger));
+      processedElements.push(processQuasiquotedExpr(element, env, logger, autoGensyms));
     }
   }
   return createList(...processedElements);
 }
 
+/* Forms that may carry a (-> Type) return type annotation */
+const TYPED_FUNCTION_FORMS = new Set(["fn", "fn*", "fx", "lambda", "lambda*", "async", "method"]);
+
 /* Modified expandMacroExpression with visualization support */
 function expandMacroExpression(
   expr: SExp,
@@ -586,28 +801,29 @@ function expandMacroExpression(
   const first = list.elements[0];
   if (isSymbol(first)) {
     const op = (first as SSymbol).name;
-    if (op === "macro") return expr;
+    if (MACRO_DEFINITION_FORMS.has(op)) return expr;
     
-    if (env.hasMacro(op)) {
-      const macroFn = env.getMacro(op);
-      if (!macroFn) return expr;
-      
+    const macroFn = lookupMacro(first as SSymbol, env);
+    if (macroFn) {
       const args = list.elements.slice(1);
       const originalExpr = list;
       
       logger.debug(`Expanding macro ${op} at depth ${depth}`, "macro");
       
-      const expanded = macroFn(args, env);
+      // The expansion is reported at the macro call site
+      const expanded = inheritSExpLocation(macroFn(args, env), list);
       visualizeMacroExpansion(originalExpr, expanded, op, logger);
       return expandMacroExpression(expanded, env, options, depth + 1);
     }
   }
   
+  // The (-> Type) return type of a function form is not a call to the -> macro
+  const typed = isSymbol(first) && TYPED_FUNCTION_FORMS.has((first as SSymbol).name);
   const expandedElements = list.elements.map((elem) =>
-    expandMacroExpression(elem, env, options, depth + 1)
+    typed && isReturnTypeList(elem) ? elem : expandMacroExpression(elem, env, options, depth + 1)
   );
   
-  return createList(...expandedElements);
+  return inheritSExpLocation(createList(...expandedElements), list);
 }
 
 /* Filter out macro definitions from the final S-expression list */
@@ -748,16 +964,22 @@ function createMacroFunction(
   restParam: string | null,
   body: SExp[],
   logger: Logger,
+  sourceFile?: string,
 ): MacroFn {
   const macroFn = (args: SExp[], callEnv: Environment): SExp => {
     logger.debug(`Expanding macro ${macroName} with ${args.length} args`);
     callEnv.setCurrentMacroContext(`macro_${macroName}`);
     const macroEnv = createMacroEnv(callEnv, params, restParam, args, logger);
-    let result: SExp = createNilLiteral();
-    for (const expr of body) {
-      result = evaluateForMacro(expr, macroEnv, logger);
-    }
-    result = applyHygiene(result, macroName, logger);
+    // The body sees the macros of the module that defined it
+    if (sourceFile) macroEnv.setCurrentFile(sourceFile);
+    const [expanded, templateSymbols] = collectTemplateSymbols(() => {
+      let value: SExp = createNilLiteral();
+      for (const expr of body) {
+        value = evaluateForMacro(expr, macroEnv, logger);
+      }
+      return value;
+    });
+    const result = applyHygiene(expanded, templateSymbols, sourceFile);
     callEnv.setCurrentMacroContext(null);
     logger.debug(`Macro ${macroName} expanded to: ${sexpToString(result)}`);
     return result;
@@ -765,32 +987,12 @@ function createMacroFunction(
 
   Object.defineProperty(macroFn, "isMacro", { value: true });
   Object.defineProperty(macroFn, "macroName", { value: macroName });
+  Object.defineProperty(macroFn, "sourceFile", { value: sourceFile });
   
   return macroFn;
 }
 
-/* Apply hygiene transformations to an expression */
-function applyHygiene(expr: SExp, macroName: string, logger: Logger): SExp {
-  const hygieneContext = `macro_${macroName}`;
-  function processExpr(expr: SExp): SExp {
-    if (isList(expr)) {
-      return createList(...(expr as SList).elements.map(processExpr));
-    } else if (isSymbol(expr)) {
-      const originalName = (expr as SSymbol).name;
-      const renamedSymbol = symbolRenameMap.get(hygieneContext)?.get(originalName);
-      return renamedSymbol ? { type: "symbol", name: renamedSymbol } : expr;
-    }
-    return expr;
-  }
-  try {
-    return processExpr(expr);
-  } catch (error) {
-    logger.warn(`Error applying hygiene to expression: ${error instanceof Error ? error.message : String(error)}`);
-    return expr;
-  }
-}
-
-/* Create a new environment for macro expansion with parameter bindings and hygiene */
+/* Create a new environment for macro expansion with parameter bindings */
 function createMacroEnv(
   parent: Environment,
   params: string[],
@@ -799,18 +1001,9 @@ function createMacroEnv(
   logger: Logger,
 ): Environment {
   const env = parent.extend();
-  const macroContext = parent.getCurrentMacroContext();
 
   for (let i = 0; i < params.length; i++) {
-    const hygienicParamName = `${params[i]}_${gensym("param")}`;
-    if (macroContext) {
-      if (!symbolRenameMap.has(macroContext)) {
-        symbolRenameMap.set(macroContext, new Map());
-      }
-      symbolRenameMap.get(macroContext)!.set(params[i], hygienicParamName);
-    }
     const paramValue = i < args.length ? args[i] : createNilLiteral();
-    env.define(hygienicParamName, paramValue);
     env.define(params[i], paramValue);
   }
 
@@ -819,14 +1012,6 @@ function createMacroEnv(
     logger.debug(`Creating rest parameter '${restParam}' with ${restArgs.length} elements`);
     const restList = createList(...restArgs);
     Object.defineProperty(restList, "isRestParameter", { value: true });
-    const hygienicRestName = `${restParam}_${gensym("rest")}`;
-    if (macroContext) {
-      if (!symbolRenameMap.has(macroContext)) {
-        symbolRenameMap.set(macroContext, new Map());
-      }
-      symbolRenameMap.get(macroContext)!.set(restParam, hygienicRestName);
-    }
-    env.define(hygienicRestName, restList);
     env.define(restParam, restList);
   }
   return env;
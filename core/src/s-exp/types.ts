@@ -75,8 +75,22 @@ export function isForm(exp: SExp, formName: string): boolean {
     exp.elements[0].name === formName;
 }
 
+/**
+ * Check if an S-expression is a return type annotation (-> Type). A list
+ * headed by -> with more elements is a call to the -> threading macro.
+ */
+export function isReturnTypeList(exp: SExp): boolean {
+  return isForm(exp, "->") && (exp as SList).elements.length === 2;
+}
+
+/* Heads of a macro definition; defmacro is another spelling of macro */
+export const MACRO_DEFINITION_FORMS = new Set(["macro", "defmacro"]);
+
 export function isDefMacro(exp: SExp): boolean {
-  return isForm(exp, "macro");
+  return isList(exp) &&
+    exp.elements.length > 0 &&
+    isSymbol(exp.elements[0]) &&
+    MACRO_DEFINITION_FORMS.has(exp.elements[0].name);
 }
 
 export function isImport(exp: SExp): boolean {
@@ -186,4 +200,14 @@ export function setSExpLocation(
   if (endColumn !== undefined) exp._meta.endColumn = endColumn;
   
   return exp;
-}
\ No newline at end of file
+}
+/**
+ * Give an expression that replaces another the source location of the
+ * original, unless it already has one of its own
+ */
+export function inheritSExpLocation<T extends SExp>(exp: T, original: SExp): T {
+  if (exp !== original && !exp._meta && original._meta) {
+    exp._meta = { ...original._meta };
+  }
+  return exp;
+}
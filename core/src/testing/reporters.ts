@@ -0,0 +1,258 @@
+// core/src/testing/reporters.ts - Pretty, TAP and JUnit XML output for test results
+
+import { relative } from "jsr:@std/path@1";
+import { colorize, fg } from "../common/colors.ts";
+import type { AssertionFailure, TestLocation } from "./runtime.ts";
+import type { TestFileResult } from "./runner.ts";
+
+export type ReporterName = "pretty" | "tap" | "junit";
+
+export const REPORTERS: ReporterName[] = ["pretty", "tap", "junit"];
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  assertions: number;
+}
+
+export function summarize(results: TestFileResult[]): TestSummary {
+  const summary = { total: 0, passed: 0, failed: 0, errors: 0, assertions: 0 };
+  for (const file of results) {
+    if (file.error) summary.errors++;
+    for (const test of file.tests) {
+      summary.total++;
+      summary.assertions += test.assertions;
+      if (test.status === "passed") summary.passed++;
+      else if (test.status === "failed") summary.failed++;
+      else summary.errors++;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Human readable report. Files that failed to compile are left out; the
+ * caller reports them with the usual HQL error formatting.
+ */
+export function formatPretty(results: TestFileResult[], options: { color?: boolean } = {}): string {
+  const paint = (text: string, color: string) => options.color ? colorize(text, color) : text;
+  const out: string[] = [];
+
+  for (const file of results) {
+    if (file.error || file.tests.length === 0) continue;
+    out.push(displayPath(file.filePath));
+    for (const test of file.tests) {
+      const ms = `(${Math.round(test.durationMs)}ms)`;
+      if (test.status === "passed") {
+        out.push(`  ${paint("ok", fg.green)}   ${test.name} ${paint(ms, fg.gray)}`);
+        continue;
+      }
+      if (test.status === "error") {
+        out.push(`  ${paint("ERROR", fg.red)} ${test.name} ${paint(at(test.location), fg.gray)}`);
+        out.push(...indent(errorText(test.error), "      "));
+        continue;
+      }
+      out.push(`  ${paint("FAIL", fg.red)} ${test.name} ${paint(ms, fg.gray)}`);
+      for (const failure of test.failures) {
+        out.push(...indent(failureText(failure, paint), "      "), "");
+      }
+    }
+    out.push("");
+  }
+
+  const s = summarize(results);
+  const parts = [`${s.passed} passed`, `${s.failed} failed`];
+  if (s.errors > 0) parts.push(`${s.errors} errored`);
+  const ok = s.failed === 0 && s.errors === 0;
+  out.push(paint(`${ok ? "ok" : "FAILED"} | ${parts.join(" | ")} (${s.total} tests, ${s.assertions} assertions)`, ok ? fg.green : fg.red));
+  return out.join("\n");
+}
+
+/**
+ * Test Anything Protocol, version 13. A file that fails to compile counts as
+ * one failed test point.
+ */
+export function formatTap(results: TestFileResult[]): string {
+  const points: string[] = [];
+  let count = 0;
+  const push = (ok: boolean, description: string, details?: Record<string, string | undefined>) => {
+    points.push(`${ok ? "ok" : "not ok"} ${++count} - ${description.replace(/#/g, "\\#")}`);
+    if (!details) return;
+    points.push("  ---");
+    for (const [key, value] of Object.entries(details)) {
+      if (value !== undefined) points.push(`  ${key}: ${yamlString(value)}`);
+    }
+    points.push("  ...");
+  };
+
+  for (const file of results) {
+    const name = displayPath(file.filePath);
+    if (file.error) {
+      push(false, name, { message: file.error.message, severity: "error" });
+      continue;
+    }
+    for (const test of file.tests) {
+      const description = `${name} > ${test.name}`;
+      if (test.status === "passed") push(true, description);
+      else if (test.status === "error") {
+        push(false, description, { message: errorText(test.error), severity: "error", at: location(test.location) });
+      } else {
+        const failure = test.failures[0];
+        push(false, description, {
+          message: failure.message ?? `(is ${failure.form})`,
+          severity: "fail",
+          at: location(failure.location),
+          testing: failure.contexts.length ? failure.contexts.join(" > ") : undefined,
+          expected: failure.expected,
+          actual: failure.actual,
+          failures: test.failures.length > 1 ? String(test.failures.length) : undefined,
+        });
+      }
+    }
+  }
+
+  return ["TAP version 13", `1..${count}`, ...points].join("\n");
+}
+
+/**
+ * JUnit XML, one testsuite per file, as read by most CI systems
+ */
+export function formatJUnit(results: TestFileResult[]): string {
+  const s = summarize(results);
+  const seconds = (ms: number) => (ms / 1000).toFixed(3);
+  const totalMs = results.reduce((sum, file) => sum + file.tests.reduce((t, test) => t + test.durationMs, 0), 0);
+  const out = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="hql test" tests="${s.total + (results.filter((f) => f.error).length)}" failures="${s.failed}" errors="${s.errors}" time="${seconds(totalMs)}">`,
+  ];
+
+  for (const file of results) {
+    const name = displayPath(file.filePath);
+    const suiteName = xml(name);
+    if (file.error) {
+      out.push(`  <testsuite name="${suiteName}" tests="1" failures="0" errors="1" time="0.000">`);
+      out.push(`    <testcase name="(load)" classname="${suiteName}" file="${suiteName}" time="0.000">`);
+      out.push(`      <error message="${xml(file.error.message)}" type="${xml(file.error.name)}">${xml(errorText(file.error))}</error>`);
+      out.push(`    </testcase>`, `  </testsuite>`);
+      continue;
+    }
+    const failed = file.tests.filter((t) => t.status === "failed").length;
+    const errored = file.tests.filter((t) => t.status === "error").length;
+    const time = file.tests.reduce((sum, t) => sum + t.durationMs, 0);
+    out.push(`  <testsuite name="${suiteName}" tests="${file.tests.length}" failures="${failed}" errors="${errored}" time="${seconds(time)}">`);
+    for (const test of file.tests) {
+      const line = test.location ? ` line="${test.location.line}"` : "";
+      const open = `    <testcase name="${xml(test.name)}" classname="${suiteName}" file="${suiteName}"${line} time="${seconds(test.durationMs)}"`;
+      if (test.status === "passed") {
+        out.push(`${open}/>`);
+        continue;
+      }
+      out.push(`${open}>`);
+      if (test.status === "error") {
+        const error = test.error!;
+        out.push(`      <error message="${xml(error.message)}" type="${xml(error.name)}">${xml(errorText(error))}</error>`);
+      }
+      for (const failure of test.failures) {
+        const message = failure.message ?? `(is ${failure.form})`;
+        out.push(`      <failure message="${xml(message)}" type="assertion">${xml(failureText(failure).join("\n"))}</failure>`);
+      }
+      out.push(`    </testcase>`);
+    }
+    out.push(`  </testsuite>`);
+  }
+
+  out.push(`</testsuites>`);
+  return out.join("\n");
+}
+
+/**
+ * Lines describing one failed assertion; `(is (= expected actual))` failures
+ * show both values, as a line diff when they span several lines
+ */
+function failureText(
+  failure: AssertionFailure,
+  paint: (text: string, color: string) => string = (text) => text,
+): string[] {
+  const lines = [`FAIL ${at(failure.location)}`.trimEnd()];
+  if (failure.contexts.length) lines.push(failure.contexts.join(" > "));
+  if (failure.message) lines.push(failure.message);
+  lines.push(`(is ${failure.form})`);
+  if (failure.expected === undefined || failure.actual === undefined) return lines;
+
+  if (!failure.expected.includes("\n") && !failure.actual.includes("\n")) {
+    lines.push(`expected: ${paint(failure.expected, fg.green)}`);
+    lines.push(`  actual: ${paint(failure.actual, fg.red)}`);
+    return lines;
+  }
+  lines.push(`${paint("- expected", fg.green)} ${paint("+ actual", fg.red)}`);
+  for (const [op, text] of diffLines(failure.expected.split("\n"), failure.actual.split("\n"))) {
+    if (op === " ") lines.push(`  ${text}`);
+    else lines.push(paint(`${op} ${text}`, op === "-" ? fg.green : fg.red));
+  }
+  return lines;
+}
+
+/* Longest-common-subsequence line diff; values are rendered small enough for the quadratic table */
+function diffLines(expected: string[], actual: string[]): [" " | "-" | "+", string][] {
+  const n = expected.length;
+  const m = actual.length;
+  const lcs = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: [" " | "-" | "+", string][] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && expected[i] === actual[j]) {
+      result.push([" ", expected[i++]]);
+      j++;
+    } else if (i < n && (j === m || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      result.push(["-", expected[i++]]);
+    } else {
+      result.push(["+", actual[j++]]);
+    }
+  }
+  return result;
+}
+
+function errorText(error?: Error): string {
+  if (!error) return "Unknown error";
+  return `${error.name}: ${error.message}`;
+}
+
+function location(loc?: TestLocation): string | undefined {
+  return loc ? `${displayPath(loc.filePath)}:${loc.line}:${loc.column}` : undefined;
+}
+
+function at(loc?: TestLocation): string {
+  return loc ? `at ${location(loc)}` : "";
+}
+
+function displayPath(filePath: string): string {
+  return relative(Deno.cwd(), filePath);
+}
+
+function indent(text: string | string[], prefix: string): string[] {
+  return (Array.isArray(text) ? text : text.split("\n")).map((line) => line ? prefix + line : line);
+}
+
+function yamlString(value: string): string {
+  if (!value.includes("\n")) return JSON.stringify(value);
+  return `|-\n${value.split("\n").map((line) => `    ${line}`).join("\n")}`;
+}
+
+function xml(text: string): string {
+  // XML 1.0 cannot carry control characters other than tab and newlines, even escaped
+  const printable = [...text].filter((ch) => ch >= " " || ch === "\t" || ch === "\n" || ch === "\r").join("");
+  return printable
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
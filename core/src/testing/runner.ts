@@ -0,0 +1,87 @@
+// core/src/testing/runner.ts - Discover, compile and run *_test.hql files
+
+import { basename, join, resolve, toFileUrl } from "jsr:@std/path@1";
+import { transpileCLI } from "../bundler.ts";
+import { createTempDir } from "../common/hql-cache-tracker.ts";
+import { installTestRuntime, runTest, takeRegisteredTests, TestResult } from "./runtime.ts";
+
+/* Files named like this are picked up when a directory is given */
+const TEST_FILE_SUFFIX = "_test.hql";
+
+export interface TestRunOptions {
+  /** Only run tests whose name contains this text, or matches it when written as /regex/ */
+  filter?: string;
+  verbose?: boolean;
+}
+
+export interface TestFileResult {
+  filePath: string;
+  tests: TestResult[];
+  /** Compile or load failure; none of the file's tests ran */
+  error?: Error;
+}
+
+/**
+ * Expand directories into the test files they contain. Files given
+ * explicitly are kept whatever their name.
+ */
+export async function discoverTestFiles(targets: string[]): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (path: string, explicit: boolean) => {
+    const info = await Deno.stat(path);
+    if (info.isFile) {
+      if (explicit || path.endsWith(TEST_FILE_SUFFIX)) files.push(path);
+      return;
+    }
+    for await (const entry of Deno.readDir(path)) {
+      if (entry.name.startsWith(".") || entry.name === "node_modules") continue;
+      const child = join(path, entry.name);
+      if (entry.isDirectory || entry.name.endsWith(TEST_FILE_SUFFIX)) await visit(child, false);
+    }
+  };
+  for (const target of targets) await visit(resolve(target), true);
+  return [...new Set(files)].sort();
+}
+
+/**
+ * Compile each file with transpileCLI, import it and run the tests it defines
+ */
+export async function runTestFiles(
+  files: string[],
+  options: TestRunOptions = {},
+): Promise<TestFileResult[]> {
+  installTestRuntime();
+  const matches = createFilter(options.filter);
+  const outDir = await createTempDir("test");
+  const results: TestFileResult[] = [];
+
+  for (const [index, filePath] of files.entries()) {
+    // Drop tests left behind by a file that failed half way through loading
+    takeRegisteredTests();
+    try {
+      const outPath = join(outDir, `${index}-${basename(filePath)}.js`);
+      await transpileCLI(filePath, outPath, { verbose: options.verbose, force: true });
+      await import(toFileUrl(outPath).href);
+    } catch (error) {
+      results.push({ filePath, tests: [], error: error instanceof Error ? error : new Error(String(error)) });
+      continue;
+    }
+
+    const tests: TestResult[] = [];
+    for (const test of takeRegisteredTests()) {
+      if (matches(test.name)) tests.push(await runTest(test));
+    }
+    results.push({ filePath, tests });
+  }
+
+  return results;
+}
+
+function createFilter(filter?: string): (name: string) => boolean {
+  if (!filter) return () => true;
+  if (filter.length > 2 && filter.startsWith("/") && filter.endsWith("/")) {
+    const pattern = new RegExp(filter.slice(1, -1));
+    return (name) => pattern.test(name);
+  }
+  return (name) => name.includes(filter);
+}
@@ -0,0 +1,240 @@
+// core/src/testing/runtime.ts - Registry and assertions behind the deftest, testing and is macros
+
+import { findMappedStackLocation } from "../common/runtime-error-handler.ts";
+
+/**
+ * Location in an HQL source file, resolved through the bundle's source map
+ */
+export interface TestLocation {
+  filePath: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * A failed `is` assertion
+ */
+export interface AssertionFailure {
+  /** Source of the asserted form, e.g. `(= (+ 1 2) 4)` */
+  form: string;
+  message?: string;
+  /** Enclosing `testing` descriptions, outermost first */
+  contexts: string[];
+  location?: TestLocation;
+  /** Rendered operands of `(is (= expected actual))` */
+  expected?: string;
+  actual?: string;
+}
+
+export type TestStatus = "passed" | "failed" | "error";
+
+export interface TestResult {
+  name: string;
+  status: TestStatus;
+  assertions: number;
+  failures: AssertionFailure[];
+  /** Exception thrown by the test body, reported as an error */
+  error?: Error;
+  location?: TestLocation;
+  durationMs: number;
+}
+
+/**
+ * A test registered by `deftest` while its file was imported
+ */
+export interface RegisteredTest {
+  name: string;
+  body: () => unknown;
+  location?: TestLocation;
+}
+
+interface RunState {
+  assertions: number;
+  failures: AssertionFailure[];
+  contexts: string[];
+}
+
+const registered: RegisteredTest[] = [];
+let current: RunState | null = null;
+
+/**
+ * Install the globals the test macros expand to. Must run before a compiled
+ * test file is imported, since `deftest` registers tests at module load.
+ */
+export function installTestRuntime(): void {
+  const target = globalThis as Record<string, unknown>;
+  target.__hql_deftest = deftest;
+  target.__hql_testing = testing;
+  target.__hql_is = is;
+  target.__hql_is_equal = isEqual;
+}
+
+/**
+ * Take the tests registered since the last call
+ */
+export function takeRegisteredTests(): RegisteredTest[] {
+  return registered.splice(0, registered.length);
+}
+
+/**
+ * Run one test body, collecting its assertions
+ */
+export async function runTest(test: RegisteredTest): Promise<TestResult> {
+  const state: RunState = { assertions: 0, failures: [], contexts: [] };
+  const start = performance.now();
+  current = state;
+  let error: Error | undefined;
+  try {
+    await test.body();
+  } catch (caught) {
+    error = caught instanceof Error ? caught : new Error(String(caught));
+  } finally {
+    current = null;
+  }
+
+  const status: TestStatus = error ? "error" : state.failures.length > 0 ? "failed" : "passed";
+  return {
+    name: test.name,
+    status,
+    assertions: state.assertions,
+    failures: state.failures,
+    error,
+    location: (error && findMappedStackLocation(error)) || test.location,
+    durationMs: performance.now() - start,
+  };
+}
+
+function deftest(name: string, body: () => unknown): void {
+  registered.push({ name: String(name), body, location: callerLocation() });
+}
+
+function testing(description: string, body: () => unknown): unknown {
+  const state = activeState("testing");
+  state.contexts.push(String(description));
+  let result: unknown;
+  try {
+    result = body();
+  } catch (error) {
+    state.contexts.pop();
+    throw error;
+  }
+  if (result instanceof Promise) {
+    return result.finally(() => state.contexts.pop());
+  }
+  state.contexts.pop();
+  return result;
+}
+
+function is(form: string, value: unknown, message?: string): boolean {
+  const state = activeState("is");
+  state.assertions++;
+  const passed = value !== false && value !== null && value !== undefined;
+  if (!passed) state.failures.push(failure(state, form, message));
+  return passed;
+}
+
+function isEqual(form: string, expected: unknown, actual: unknown, message?: string): boolean {
+  const state = activeState("is");
+  state.assertions++;
+  const passed = deepEqual(expected, actual);
+  if (!passed) {
+    state.failures.push({
+      ...failure(state, form, message),
+      expected: renderValue(expected),
+      actual: renderValue(actual),
+    });
+  }
+  return passed;
+}
+
+function failure(state: RunState, form: string, message?: string): AssertionFailure {
+  return {
+    form,
+    message: message === undefined ? undefined : String(message),
+    contexts: [...state.contexts],
+    location: callerLocation(),
+  };
+}
+
+function activeState(form: string): RunState {
+  if (!current) {
+    throw new Error(`'${form}' can only be used inside a deftest body`);
+  }
+  return current;
+}
+
+/* The first source-mapped frame is the HQL form that called into the runtime */
+function callerLocation(): TestLocation | undefined {
+  return findMappedStackLocation(new Error()) ?? undefined;
+}
+
+/**
+ * Structural equality: vectors, maps, sets and plain objects compare by
+ * contents, everything else with Object.is
+ */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a == null || b == null) return a == b;
+  if (typeof a !== "object" || typeof b !== "object") return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((item) => other.has(item) || [...other].some((o) => deepEqual(item, o)));
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return a.size === other.size && [...a].every(([key, value]) => other.has(key) && deepEqual(value, other.get(key)));
+  }
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  return keysA.length === keysB.length &&
+    keysA.every((key) => Object.hasOwn(b, key) && deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/* Values longer than this are rendered one element per line, so diffs line up */
+const FLAT_WIDTH = 60;
+
+/**
+ * Render a runtime value the way it would be written in HQL
+ */
+export function renderValue(value: unknown, indent = ""): string {
+  const flat = renderFlat(value);
+  if (flat.length <= FLAT_WIDTH || typeof value !== "object" || value === null) return flat;
+
+  const inner = indent + "  ";
+  const lines = (open: string, items: string[], close: string) =>
+    `${open}\n${items.map((item) => inner + item).join("\n")}\n${indent}${close}`;
+
+  if (Array.isArray(value)) return lines("[", value.map((item) => renderValue(item, inner)), "]");
+  if (value instanceof Set) return lines("#[", [...value].map((item) => renderValue(item, inner)), "]");
+  if (value instanceof Map) {
+    return lines("{", [...value].map(([k, v]) => `${renderFlat(k)}: ${renderValue(v, inner)}`), "}");
+  }
+  if (value.constructor === Object || Object.getPrototypeOf(value) === null) {
+    return lines("{", Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}: ${renderValue(v, inner)}`), "}");
+  }
+  return flat;
+}
+
+function renderFlat(value: unknown): string {
+  if (value === null || value === undefined) return "nil";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "function") return `<fn ${value.name || "anonymous"}>`;
+  if (typeof value !== "object") return String(value);
+  if (Array.isArray(value)) return `[${value.map(renderFlat).join(" ")}]`;
+  if (value instanceof Set) return `#[${[...value].map(renderFlat).join(", ")}]`;
+  if (value instanceof Map) return `{${[...value].map(([k, v]) => `${renderFlat(k)}: ${renderFlat(v)}`).join(", ")}}`;
+  if (value instanceof Date) return `<Date ${value.toISOString()}>`;
+  if (value.constructor === Object || Object.getPrototypeOf(value) === null) {
+    return `{${Object.entries(value).map(([k, v]) => `${JSON.stringify(k)}: ${renderFlat(v)}`).join(", ")}}`;
+  }
+  const name = value.constructor?.name ?? "Object";
+  return `<${name} ${renderFlat({ ...value })}>`;
+}
@@ -8,8 +8,12 @@ import { generateTypeScript } from "./transpiler/pipeline/ts-ast-to-ts-code.ts";
 import { expandMacros } from "./s-exp/macro.ts";
 import { globalLogger as logger } from "./logger.ts";
 import { Environment } from "./environment.ts";
-import { TransformError } from "./common/error.ts";
+import { HQLError, TransformError, TypeCheckError, isLocatedValidationError } from "./common/error.ts";
+import { ErrorCode, errorCodeOf } from "./common/error-codes.ts";
 import { Timer } from "./common/timer.ts";
+import { checkTypes } from "./transpiler/type-checker.ts";
+import { resolveNames } from "./transpiler/name-resolver.ts";
+import { generateDeclarations } from "./transpiler/pipeline/hql-ir-to-dts.ts";
 import type { HQLNode } from "./transpiler/type/hql_ast.ts";
 import {
   extractImportInfo,
@@ -26,6 +30,14 @@ export interface TransformOptions {
   replMode?: boolean;
   sourceFile?: string;
   currentFile?: string;
+  /** HQL text of currentFile, needed to emit a source map */
+  sourceText?: string;
+  /** Check fx/fn type annotations and return the problems found */
+  typecheck?: boolean;
+  /** Keep fx/fn type annotations in the generated code, making it TypeScript */
+  typeAnnotations?: boolean;
+  /** Also return a .d.ts for the module's exports */
+  declarations?: boolean;
 }
 
 /**
@@ -71,7 +83,13 @@ export async function transformAST(
   astNodes: HQLNode[],
   currentDir: string,
   options: TransformOptions = {}
-): Promise<{ code: string; sourceMap?: string }> {
+): Promise<{
+  code: string;
+  sourceMap?: string;
+  typeErrors?: TypeCheckError[];
+  nameErrors?: HQLError[];
+  declarations?: string;
+}> {
   try {
     const timer = new Timer(logger);
   
@@ -95,21 +113,51 @@ export async function transformAST(
     
     timer.phase("IR transformation");
 
+    // The REPL defines names across inputs, so each one cannot be resolved alone
+    let nameErrors: HQLError[] | undefined;
+    if (!options.replMode) {
+      nameErrors = resolveNames(imports, { filePath: options.currentFile, env });
+      timer.phase("name resolution");
+    }
+
+    let typeErrors: TypeCheckError[] | undefined;
+    if (options.typecheck) {
+      typeErrors = checkTypes(ir, { filePath: options.currentFile });
+      timer.phase("type checking");
+    }
+
     const sourceFilePath = options.sourceFile || currentDir;
-    const typescript = await generateTypeScript(ir, { sourceFilePath: sourceFilePath, currentFilePath: options.currentFile });
+    const typescript = await generateTypeScript(ir, {
+      sourceFilePath: sourceFilePath,
+      currentFilePath: options.currentFile,
+      sourceText: options.sourceText,
+      typeAnnotations: options.typeAnnotations,
+    });
 
     timer.phase("TS code generation");
 
+    let declarations: string | undefined;
+    if (options.declarations) {
+      declarations = generateDeclarations(ir);
+      timer.phase("declaration generation");
+    }
+
     timer.breakdown();
     
-    return { code: typescript.code };
+    return { code: typescript.code, sourceMap: typescript.sourceMap, typeErrors, nameErrors, declarations };
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
+    // Keep the location of an error that points into the source
+    const located = error instanceof HQLError && error.sourceLocation.line ? error : undefined;
     throw new TransformError(
       `Transformation failed: ${error instanceof Error ? error.message : String(error)}`,
       "Transformation failed",
       {
-        filePath: options.sourceFile || currentDir
+        filePath: located?.sourceLocation.filePath || options.sourceFile || currentDir,
+        line: located?.sourceLocation.line,
+        column: located?.sourceLocation.column,
+        originalError: located,
       }
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import { HQLNode, ListNode, SymbolNode } from "../type/hql_ast.ts";
 import { ValidationError } from "../../common/error.ts" 
+import { ErrorCode } from "../../common/error-codes.ts"
 import { globalLogger as logger } from "../../logger.ts";
 
 // Registry to track pure functions
@@ -45,6 +46,23 @@ const builtInPure = new Set<string>([
   "<=",
   ">=",
   "eq?",
+  "**",
+
+  // Logic, bitwise and type operators
+  "and",
+  "or",
+  "??",
+  "nil-or",
+  "bit-and",
+  "bit-or",
+  "bit-xor",
+  "bit-not",
+  "bit-shift-left",
+  "bit-shift-right",
+  "unsigned-bit-shift-right",
+  "instanceof?",
+  "in?",
+  "typeof",
 
   // JS Interop - these are allowed in pure functions as long as they operate only on local data
   "js-call",
@@ -66,6 +84,7 @@ const builtInPure = new Set<string>([
   "let",
   "lambda",
   "return",
+  "await",
   
   // Add loop and recur to the list of built-in pure operations
   "loop",
@@ -81,16 +100,22 @@ export const PRIMITIVE_TYPES = new Set([
   "Any",
 ]);
 
-export function isValidType(typeName: string): boolean {
-  // Check if it's a primitive type
+/**
+ * Check that a type annotation names a primitive, an array of valid types
+ * (`Array<Int>`, or `Array` for any element type), or a type that
+ * `isKnownType` recognizes, such as a declared enum or class
+ */
+export function isValidType(typeName: string, isKnownType: (name: string) => boolean): boolean {
   if (PRIMITIVE_TYPES.has(typeName)) {
     return true;
   }
-  
-  // Check if it's a known enum type
-  // We'll consider any type name not in primitive types as potentially valid
-  // and let the rest of the system validate it if needed
-  return true;
+
+  const array = typeName.match(/^Array(?:<(.+)>)?$/);
+  if (array) {
+    return array[1] === undefined || isValidType(array[1], isKnownType);
+  }
+
+  return isKnownType(typeName);
 }
 
 /**
@@ -168,6 +193,7 @@ function verifySymbolPurity(
 
   // Skip purity check for certain symbols
   if (name.startsWith(".")) return; // Property access
+  if (name.endsWith(":")) return; // Named argument label
 
   // Allow parameter names and function name itself (for recursion)
   if (paramNames.has(name)) return;
@@ -193,7 +219,7 @@ function verifySymbolPurity(
     "pure function violation",
     "parameter or local variable",
     `external variable '${name}'`,
-  );
+  ).withCode(ErrorCode.IMPURE_REFERENCE);
 }
 
 /**
@@ -237,7 +263,7 @@ function verifyListPurity(
         "pure function violation",
         "pure operation",
         `impure operation '${operator}'`,
-      );
+      ).withCode(ErrorCode.IMPURE_OPERATION);
     }
 
     // Check for JavaScript method calls, which may be allowed if they're on safe objects
@@ -357,7 +383,7 @@ function handleLoopForm(
       "loop form",
       "(loop (binding...) body...)",
       "invalid format"
-    );
+    ).withCode(ErrorCode.INVALID_LOOP);
   }
   
   // Extract binding names and values
@@ -1,8 +1,8 @@
-// core/src/transpiler/hql-transpiler.ts - Modified to remove user-level macro support
+// core/src/transpiler/hql-transpiler.ts - HQL to JavaScript pipeline with system and module-scoped macros
 import * as path from "jsr:@std/path@1";
 import { parse } from "./pipeline/parser.ts";
 import { Environment } from "../environment.ts";
-import { expandMacros } from "../s-exp/macro.ts";
+import { clearMacroExpansionCache, expandMacros, loadMacroModules } from "../s-exp/macro.ts";
 import { processImports } from "../imports.ts";
 import { convertToHqlAst as convert } from "../s-exp/macro-reader.ts";
 import { transformAST } from "../transformer.ts";
@@ -11,6 +11,7 @@ import { SExp } from "../s-exp/types.ts";
 import {
   ImportError,
   MacroError,
+  throwFirstError,
   TransformError,
   TranspilerError,
 } from "../common/error.ts";
@@ -33,6 +34,14 @@ interface ProcessOptions {
   sourceDir?: string;
   tempDir?: string;
   currentFile?: string;
+  /** Run the type checker; its findings are returned as typeErrors */
+  typecheck?: boolean;
+  /** Return undefined names as nameErrors instead of failing on the first */
+  collectNameErrors?: boolean;
+  /** Emit TypeScript that keeps fx/fn type annotations */
+  typeAnnotations?: boolean;
+  /** Also return a .d.ts for the module's exports */
+  declarations?: boolean;
 }
 
 /**
@@ -57,13 +66,15 @@ export async function transpileToJavascript(
 
   const env = await setupEnvironment(options);
   const sexps = parseSource(hqlSource, options);
+  await loadImportedMacros(sexps, env, options);
   const canonicalSexps = transform(sexps, options);
   
   await handleImports(canonicalSexps, env, options);
 
   const expanded = expand(canonicalSexps, env, options);
   const hqlAst = convertToHqlAst(expanded, options);
-  const javascript = await transpile(hqlAst, options);
+  const javascript = await transpile(hqlAst, hqlSource, options);
+  if (!options.collectNameErrors) throwFirstError(javascript.nameErrors);
 
   if (options.baseDir) env.setCurrentFile(null);
 
@@ -75,6 +86,15 @@ export async function transpileToJavascript(
   return javascript;
 }
 
+/**
+ * Discard macros and cached expansions that came from changed files, so the
+ * next transpile in this process sees their current contents
+ */
+export function invalidateModules(filePaths: Iterable<string>): void {
+  for (const filePath of filePaths) globalEnv?.invalidateFile(filePath);
+  clearMacroExpansionCache();
+}
+
 /**
  * Set up the environment for HQL processing
  */
@@ -105,6 +125,18 @@ function parseSource(source: string, options: ProcessOptions): SExp[] {
   return sexps;
 }
 
+/**
+ * Load user macros from the HQL modules this file imports
+ */
+async function loadImportedMacros(sexps: SExp[], env: Environment, options: ProcessOptions): Promise<void> {
+  if (!options.currentFile) return;
+  if (options.showTiming) logger.startTiming("hql-process", "Macro imports");
+  
+  await loadMacroModules(sexps, env, options.currentFile, { verbose: options.verbose });
+  
+  if (options.showTiming) logger.endTiming("hql-process", "Macro imports");
+}
+
 /**
  * Transform parsed S-expressions into canonical form
  */
@@ -182,16 +214,27 @@ function convertToHqlAst(sexps: SExp[], options: ProcessOptions): any {
 }
 
 /**
- * Transform HQL AST to JavaScript
+ * Transform HQL AST to JavaScript, with a source map back to the HQL source
  */
-async function transpile(hqlAst: HQLNode[], options: ProcessOptions): Promise<TranspileResult> {
+async function transpile(
+  hqlAst: HQLNode[],
+  hqlSource: string,
+  options: ProcessOptions,
+): Promise<TranspileResult> {
   if (options.showTiming) logger.startTiming("hql-process", "JS transformation");
   
   try { 
     const result = await transformAST(
       hqlAst, 
       options.baseDir || Deno.cwd(), 
-      { verbose: options.verbose, currentFile: options.currentFile }
+      {
+        verbose: options.verbose,
+        currentFile: options.currentFile,
+        sourceText: hqlSource,
+        typecheck: options.typecheck,
+        typeAnnotations: options.typeAnnotations,
+        declarations: options.declarations,
+      }
     );
     
     if (options.showTiming) logger.endTiming("hql-process", "JS transformation");
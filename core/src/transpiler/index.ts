@@ -1,5 +1,6 @@
 // Core transpiler API entry point
 import { transpileToJavascript } from "./hql-transpiler.ts";
+import type { HQLError, TypeCheckError } from "../common/error.ts";
 
 export interface TranspileOptions {
   /** Enable verbose logging */
@@ -17,6 +18,12 @@ export interface TranspileOptions {
 export interface TranspileResult {
   code: string;
   sourceMap?: string;
+  /** Problems found by the type checker, when it was requested */
+  typeErrors?: TypeCheckError[];
+  /** Undefined names, macros and imports, when collectNameErrors was requested */
+  nameErrors?: HQLError[];
+  /** .d.ts for the module's exports, when it was requested */
+  declarations?: string;
 }
 
 /**
@@ -0,0 +1,40 @@
+// core/src/transpiler/js-globals.ts - JavaScript globals that HQL code may use without defining them
+
+/**
+ * Globals of the hosts HQL compiles for. The compiler's own globalThis is
+ * not consulted: a browser global such as `document` is missing from Deno,
+ * and a Deno global would pass in code meant for the browser. Other globals
+ * are written with the js/ prefix, which is not checked.
+ */
+export const JS_GLOBALS: ReadonlySet<string> = new Set([
+  // ECMAScript
+  "globalThis", "Infinity", "NaN", "eval", "isFinite", "isNaN", "parseFloat", "parseInt",
+  "decodeURI", "decodeURIComponent", "encodeURI", "encodeURIComponent", "escape", "unescape",
+  "Object", "Function", "Boolean", "Symbol", "Number", "BigInt", "Math", "Date", "String", "RegExp",
+  "Error", "AggregateError", "EvalError", "RangeError", "ReferenceError", "SyntaxError", "TypeError", "URIError",
+  "Array", "Int8Array", "Uint8Array", "Uint8ClampedArray", "Int16Array", "Uint16Array", "Int32Array",
+  "Uint32Array", "Float32Array", "Float64Array", "BigInt64Array", "BigUint64Array",
+  "Map", "Set", "WeakMap", "WeakSet", "WeakRef", "FinalizationRegistry",
+  "ArrayBuffer", "SharedArrayBuffer", "DataView", "Atomics", "JSON", "Promise", "Proxy", "Reflect",
+  "Intl", "Iterator",
+
+  // Shared by browsers, workers, Deno and Node
+  "console", "fetch", "Request", "Response", "Headers", "FormData", "URL", "URLSearchParams",
+  "Blob", "File", "AbortController", "AbortSignal", "Event", "EventTarget", "CustomEvent",
+  "MessageChannel", "MessagePort", "BroadcastChannel", "Worker", "WebSocket",
+  "TextEncoder", "TextDecoder", "ReadableStream", "WritableStream", "TransformStream",
+  "crypto", "Crypto", "CryptoKey", "SubtleCrypto", "performance", "structuredClone", "queueMicrotask",
+  "setTimeout", "clearTimeout", "setInterval", "clearInterval", "atob", "btoa", "reportError",
+  "addEventListener", "removeEventListener", "dispatchEvent", "caches", "indexedDB", "navigator", "location",
+
+  // Browsers
+  "window", "document", "history", "screen", "localStorage", "sessionStorage", "alert", "confirm", "prompt",
+  "requestAnimationFrame", "cancelAnimationFrame", "requestIdleCallback", "cancelIdleCallback",
+  "getComputedStyle", "matchMedia", "customElements", "devicePixelRatio", "innerWidth", "innerHeight",
+  "Node", "NodeList", "Element", "HTMLElement", "Image", "Audio", "FileReader", "DOMParser", "XMLHttpRequest",
+  "MutationObserver", "IntersectionObserver", "ResizeObserver", "CSS", "Notification",
+
+  // Deno, Node and Bun
+  "Deno", "Bun", "process", "Buffer", "global", "require", "module", "exports", "__dirname", "__filename",
+  "setImmediate", "clearImmediate",
+]);
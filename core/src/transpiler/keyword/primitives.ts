@@ -16,6 +16,21 @@ export const PRIMITIVE_OPS = new Set([
   "<=",
   ">=",
   "eq?",
+  "**",
+  "and",
+  "or",
+  "??",
+  "nil-or",
+  "bit-and",
+  "bit-or",
+  "bit-xor",
+  "bit-not",
+  "bit-shift-left",
+  "bit-shift-right",
+  "unsigned-bit-shift-right",
+  "instanceof?",
+  "in?",
+  "typeof",
 
   "js-get",
   "js-call",
@@ -36,7 +51,19 @@ export const KERNEL_PRIMITIVES = new Set([
   "recur",
   "do",
   "return",
-  "class"
+  "class",
+  "struct",
+  "super",
+  "try",
+  "throw",
+  "match",
+  "async",
+  "await",
+  "lambda*",
+  "yield",
+  "yield*",
+  "for-of",
+  "for-await"
 ]);
 
 /**
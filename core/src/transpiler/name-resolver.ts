@@ -0,0 +1,745 @@
+// core/src/transpiler/name-resolver.ts - Compile-time resolution of names, macros and imports
+
+import * as path from "jsr:@std/path@1";
+import { parseWithRecovery } from "./pipeline/parser.ts";
+import { isSpecialForm } from "./pipeline/hql-ast-to-hql-ir.ts";
+import { SymbolKind, SymbolTable } from "./symbol_table.ts";
+import { JS_GLOBALS } from "./js-globals.ts";
+import { getSExpLocation, isList, isLiteral, isSymbol, SExp } from "../s-exp/types.ts";
+import { Environment } from "../environment.ts";
+import { EMBEDDED_MACROS } from "../lib/embedded-macros.ts";
+import { HQLError, ImportError, MacroError, ValidationError } from "../common/error.ts";
+import { ErrorCode } from "../common/error-codes.ts";
+import { findSimilarName } from "../common/utils.ts";
+import type { HQLNode, ListNode, SourcePosition, SymbolNode } from "./type/hql_ast.ts";
+
+/* Names every module can use without defining them, including JavaScript operators written as calls */
+const IMPLICIT_NAMES = new Set([
+  "this", "self", "super", "arguments", "undefined", "null", "nil", "true", "false",
+  "typeof", "instanceof", "void", "delete", "get", "getNumeric",
+]);
+
+/* Symbols that are syntax rather than references */
+const SYNTAX_SYMBOLS = new Set(["_", "&", "=", "->", "as", "from"]);
+
+const FUNCTION_HEADS = new Set(["fn", "fn*", "fx"]);
+const BINDING_HEADS = new Set(["let", "var", "const"]);
+const TYPE_HEADS = new Set(["class", "struct"]);
+const FIELD_HEADS = new Set(["var", "let", "const", "field"]);
+/* Forms whose third element names a property rather than a value */
+const INTEROP_HEADS = new Set([".", "js-get", "js-call", "js-get-invoke", "js-set", "js-method", "method-call"]);
+const DEFINITION_HEADS: Record<string, SymbolKind> = {
+  fn: "fn",
+  "fn*": "fn",
+  fx: "fx",
+  macro: "macro",
+  defmacro: "macro",
+  let: "variable",
+  var: "variable",
+  const: "constant",
+  class: "class",
+  struct: "struct",
+  enum: "enum",
+};
+
+export interface NameResolutionOptions {
+  /** File being compiled; only names written in it are checked */
+  filePath?: string;
+  /** Macro environment, for macros and compile-time builtins */
+  env?: Environment;
+}
+
+interface Definition {
+  /** Name as written where it is defined */
+  name: string;
+  position?: SourcePosition;
+}
+
+type Scope = Map<string, Definition>;
+
+/**
+ * Check that every name a module references is defined: by the module, by
+ * an import, as a macro or as a JavaScript global. Misspelled names, macros
+ * and imports are reported with the closest defined name and where it is
+ * defined. Expects the HQL AST after macro expansion. Returns one error per
+ * problem; an empty array means every name resolves.
+ */
+export function resolveNames(nodes: HQLNode[], options: NameResolutionOptions = {}): HQLError[] {
+  return new NameResolver(options).resolve(nodes);
+}
+
+class NameResolver {
+  private errors: HQLError[] = [];
+  private scopes: Scope[] = [];
+  /* Namespace imports of local .hql modules, by the definition of their local name */
+  private namespaces = new Map<Definition, { specifier: string; exports: SymbolTable }>();
+  private modules = new Map<string, SymbolTable | null>();
+  private filePath?: string;
+
+  constructor(private options: NameResolutionOptions) {
+    this.filePath = options.filePath ? path.resolve(options.filePath) : undefined;
+  }
+
+  resolve(nodes: HQLNode[]): HQLError[] {
+    this.withScope(() => {
+      this.hoist(nodes);
+      nodes.forEach((node) => this.visit(node));
+    });
+    return this.errors;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scopes
+  // ---------------------------------------------------------------------------
+
+  private withScope(body: () => void): void {
+    this.scopes.push(new Map());
+    try {
+      body();
+    } finally {
+      this.scopes.pop();
+    }
+  }
+
+  private define(node: HQLNode | undefined): Definition | undefined {
+    if (node?.type !== "symbol") return undefined;
+    const name = node.name.split(":")[0];
+    if (!name) return undefined;
+    const definition = { name, position: node._meta };
+    this.scopes[this.scopes.length - 1].set(normalize(name), definition);
+    return definition;
+  }
+
+  /**
+   * Define every name a function body or module declares outside nested
+   * functions, so that definitions may be used before the point they appear
+   */
+  private hoist(nodes: HQLNode[]): void {
+    for (const form of nodes) {
+      if (form.type !== "list" || form.elements.length === 0) continue;
+      const node = unwrapAsync(form);
+      const op = headName(node);
+      const [, target] = node.elements;
+
+      if (op && BINDING_HEADS.has(op) && target?.type === "symbol") {
+        this.define(target);
+      } else if (op && BINDING_HEADS.has(op) && isPattern(target)) {
+        this.bindPattern(target);
+      } else if (op && (FUNCTION_HEADS.has(op) || TYPE_HEADS.has(op) || op === "enum")) {
+        this.define(target);
+        continue;
+      } else if (op === "import") {
+        this.hoistImport(node);
+        continue;
+      } else if (op === "lambda" || op === "lambda*" || op === "quote" || op === "quasiquote") {
+        continue;
+      }
+      this.hoist(node.elements);
+    }
+  }
+
+  private hoistImport(list: ListNode): void {
+    const [, target, , specifier] = list.elements;
+    if (target?.type === "symbol") {
+      const definition = this.define(target);
+      const exports = this.moduleExports(specifier);
+      if (definition && exports) {
+        this.namespaces.set(definition, { specifier: String(literalValue(specifier)), exports });
+      }
+      return;
+    }
+    if (!isPattern(target)) return;
+    const names = target.elements.slice(1);
+    for (let i = 0; i < names.length; i++) {
+      if (isSymbolNamed(names[i + 1], "as")) {
+        this.define(names[i + 2]);
+        i += 2;
+      } else {
+        this.define(names[i]);
+      }
+    }
+  }
+
+  /* Bind the names of a destructuring target: [a b = 1 & rest] or {key: name, key: (name = 1)} */
+  private bindPattern(node: HQLNode | undefined): void {
+    if (node?.type === "symbol") {
+      this.define(node);
+      return;
+    }
+    if (!isPattern(node)) return;
+    const items = node.elements.slice(1);
+
+    if (headName(node) === "vector") {
+      for (let i = 0; i < items.length; i++) {
+        this.bindPattern(items[i]);
+        if (isSymbolNamed(items[i + 1], "=")) i += 2;
+      }
+      return;
+    }
+
+    for (let i = 1; i < items.length; i += 2) {
+      const value = items[i];
+      this.bindPattern(isDefaulted(value) ? value.elements[0] : value);
+    }
+  }
+
+  /* Visit the default values of a destructuring target */
+  private visitDefaults(node: HQLNode | undefined): void {
+    if (!isPattern(node)) return;
+    const items = node.elements.slice(1);
+
+    if (headName(node) === "vector") {
+      for (let i = 0; i < items.length; i++) {
+        this.visitDefaults(items[i]);
+        if (isSymbolNamed(items[i + 1], "=")) this.visit(items[(i += 2)]);
+      }
+      return;
+    }
+
+    for (let i = 1; i < items.length; i += 2) {
+      const value = items[i];
+      if (isDefaulted(value)) {
+        this.visitDefaults(value.elements[0]);
+        this.visit(value.elements[2]);
+      } else {
+        this.visitDefaults(value);
+      }
+    }
+  }
+
+  /* Bind the names of a match pattern. Qualified names such as Color.red are values. */
+  private bindMatchPattern(node: HQLNode | undefined): void {
+    if (node?.type === "symbol") {
+      if (node.name.includes(".")) this.reference(node);
+      else this.define(node);
+      return;
+    }
+    if (!isPattern(node)) return;
+    const items = node.elements.slice(1);
+    if (headName(node) === "vector") {
+      items.forEach((item) => this.bindMatchPattern(item));
+    } else {
+      for (let i = 1; i < items.length; i += 2) this.bindMatchPattern(items[i]);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Forms
+  // ---------------------------------------------------------------------------
+
+  private visit(node: HQLNode | undefined): void {
+    if (!node || node.type === "literal") return;
+    if (node.type === "symbol") {
+      this.reference(node);
+      return;
+    }
+    if (node.elements.length === 0) return;
+
+    node = unwrapAsync(node);
+    const op = headName(node);
+    const elements = node.elements;
+    switch (op) {
+      case "quote":
+      case "enum":
+        return;
+      case "import":
+        this.checkImport(node);
+        return;
+      case "quasiquote":
+        this.visitUnquoted(elements[1]);
+        return;
+      case "fn":
+      case "fn*":
+      case "fx":
+        this.visitFunction(node, elements[1]?.type === "symbol" ? 2 : 1);
+        return;
+      case "lambda":
+      case "lambda*":
+        this.visitFunction(node, 1);
+        return;
+      case "let":
+      case "var":
+      case "const":
+        this.visitBinding(node);
+        return;
+      case "loop":
+      case "for-of":
+      case "for-await":
+        this.visitBindingList(elements[1], elements.slice(2));
+        return;
+      case "try":
+        this.visitTry(node);
+        return;
+      case "match":
+        this.visitMatch(node);
+        return;
+      case "cond":
+        for (const clause of elements.slice(1)) {
+          if (clause.type !== "list") continue;
+          const [test, ...body] = clause.elements;
+          if (!isSymbolNamed(test, "else")) this.visit(test);
+          body.forEach((form) => this.visit(form));
+        }
+        return;
+      case "class":
+      case "struct":
+        this.visitClass(node);
+        return;
+      case "export":
+        this.visitExport(node);
+        return;
+    }
+
+    if (op && INTEROP_HEADS.has(op)) {
+      this.visit(elements[1]);
+      elements.slice(3).forEach((form) => this.visit(form));
+      return;
+    }
+    if (!op || !isSpecialForm(op)) this.visit(elements[0]);
+    elements.slice(1).forEach((form) => this.visit(form));
+  }
+
+  private visitUnquoted(node: HQLNode | undefined): void {
+    if (node?.type !== "list") return;
+    const op = headName(node);
+    if (op === "unquote" || op === "unquote-splicing") {
+      this.visit(node.elements[1]);
+      return;
+    }
+    node.elements.forEach((element) => this.visitUnquoted(element));
+  }
+
+  /* (let name value), (let [a b] value) or (let (name value ...) body...) */
+  private visitBinding(list: ListNode): void {
+    const [, target, ...rest] = list.elements;
+    if (target?.type === "symbol") {
+      // (let name: Type value)
+      rest.slice(target.name.endsWith(":") ? 1 : 0).forEach((form) => this.visit(form));
+    } else if (isPattern(target)) {
+      this.bindPattern(target);
+      this.visitDefaults(target);
+      rest.forEach((form) => this.visit(form));
+    } else {
+      this.visitBindingList(target, rest);
+    }
+  }
+
+  private visitBindingList(bindings: HQLNode | undefined, body: HQLNode[]): void {
+    this.withScope(() => {
+      if (bindings?.type === "list") {
+        const pairs = bindings.elements;
+        for (let i = 0; i < pairs.length; i += 2) this.bindPattern(pairs[i]);
+        for (let i = 0; i < pairs.length; i += 2) {
+          this.visitDefaults(pairs[i]);
+          this.visit(pairs[i + 1]);
+        }
+      }
+      body.forEach((form) => this.visit(form));
+    });
+  }
+
+  /* (fn name (params) (-> Type) body...) with the parameter list at paramsIndex */
+  private visitFunction(list: ListNode, paramsIndex: number): void {
+    let body = list.elements.slice(paramsIndex + 1);
+    if (isSymbolNamed(body[0], "->")) body = body.slice(2);
+    else if (body[0]?.type === "list" && headName(body[0]) === "->" && body[0].elements.length === 2) body = body.slice(1);
+
+    this.withScope(() => {
+      const params = list.elements[paramsIndex];
+      if (params?.type === "list") this.visitParams(params);
+      this.hoist(body);
+      body.forEach((form) => this.visit(form));
+    });
+  }
+
+  /* Parameters: x, x: Type, x = default, & rest and destructuring patterns */
+  private visitParams(params: ListNode): void {
+    const items = headName(params) === "vector" ? params.elements.slice(1) : params.elements;
+    const defaults: HQLNode[] = [];
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (isSymbolNamed(item, "=")) {
+        defaults.push(items[++i]);
+      } else if (isSymbolNamed(item, ":") || (item.type === "symbol" && item.name.endsWith(":"))) {
+        this.define(item);
+        i++;
+      } else if (!isSymbolNamed(item, "&")) {
+        this.bindPattern(item);
+        if (isPattern(item)) defaults.push(item);
+      }
+    }
+    defaults.forEach((node) => isPattern(node) ? this.visitDefaults(node) : this.visit(node));
+  }
+
+  /* (try body... (catch e handler...) (finally cleanup...)) */
+  private visitTry(list: ListNode): void {
+    for (const form of list.elements.slice(1)) {
+      const op = headName(form);
+      if (form.type === "list" && op === "catch") {
+        this.withScope(() => {
+          this.define(form.elements[1]);
+          form.elements.slice(2).forEach((handler) => this.visit(handler));
+        });
+      } else if (form.type === "list" && op === "finally") {
+        form.elements.slice(1).forEach((cleanup) => this.visit(cleanup));
+      } else {
+        this.visit(form);
+      }
+    }
+  }
+
+  /* (match subject (case pattern [label: pattern]... [where: guard] body...) (default body...)) */
+  private visitMatch(list: ListNode): void {
+    this.visit(list.elements[1]);
+    for (const clause of list.elements.slice(2)) {
+      if (clause.type !== "list") continue;
+      if (headName(clause) !== "case") {
+        clause.elements.slice(1).forEach((form) => this.visit(form));
+        continue;
+      }
+      this.withScope(() => {
+        this.bindMatchPattern(clause.elements[1]);
+        let rest = clause.elements.slice(2);
+        while (rest[0]?.type === "symbol" && rest[0].name.endsWith(":") && rest.length > 1) {
+          if (rest[0].name === "where:") this.visit(rest[1]);
+          else this.bindMatchPattern(rest[1]);
+          rest = rest.slice(2);
+        }
+        rest.forEach((form) => this.visit(form));
+      });
+    }
+  }
+
+  /* (class Name [extends Super] members...); fields are visible to the methods */
+  private visitClass(list: ListNode): void {
+    let members = list.elements.slice(2);
+    if (isSymbolNamed(members[0], "extends")) {
+      this.visit(members[1]);
+      members = members.slice(2);
+    }
+
+    this.withScope(() => {
+      const forms: ListNode[] = [];
+      for (const member of members) {
+        let form = member;
+        while (form?.type === "list" && headName(form) === "static") form = form.elements[1];
+        if (form?.type !== "list") continue;
+        form = unwrapAsync(form);
+        const op = headName(form);
+        if (op && FIELD_HEADS.has(op)) this.define(form.elements[1]);
+        forms.push(form);
+      }
+
+      for (const form of forms) {
+        const op = headName(form);
+        const [, name, ...rest] = form.elements;
+        if (op && FIELD_HEADS.has(op)) {
+          // (var name: Type value)
+          rest.slice(name?.type === "symbol" && name.name.endsWith(":") ? 1 : 0).forEach((value) => this.visit(value));
+        } else if (op === "constructor" || op === "init") {
+          this.visitFunction(form, 1);
+        } else if (op === "fn" || op === "fx" || op === "get" || op === "set") {
+          this.visitFunction(form, 2);
+        } else {
+          this.visit(form);
+        }
+      }
+    });
+  }
+
+  /* (export [a b as c]) or (export "name" value) */
+  private visitExport(list: ListNode): void {
+    const target = list.elements[1];
+    if (!isPattern(target)) {
+      list.elements.slice(1).forEach((form) => this.visit(form));
+      return;
+    }
+    const names = target.elements.slice(1);
+    for (let i = 0; i < names.length; i++) {
+      this.visit(names[i]);
+      if (isSymbolNamed(names[i + 1], "as")) i += 2;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // References
+  // ---------------------------------------------------------------------------
+
+  private reference(node: SymbolNode): void {
+    if (!this.isWrittenHere(node)) return;
+    let name = node.name;
+    if (name.startsWith("...")) name = name.slice(3);
+    if (
+      !name || name.startsWith(".") || name.endsWith(":") || name.startsWith("js/") ||
+      SYNTAX_SYMBOLS.has(name) || isSpecialForm(name)
+    ) {
+      return;
+    }
+
+    const [base, member] = name.split(".").map((part) => part.replace(/\?$/, ""));
+    if (!this.isBound(base)) {
+      this.reportUndefined(base, node);
+      return;
+    }
+    const definition = this.lookup(base);
+    const namespace = definition && this.namespaces.get(definition);
+    if (namespace && member) this.checkExported(member, namespace.specifier, namespace.exports, node);
+  }
+
+  private lookup(name: string): Definition | undefined {
+    const key = normalize(name);
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const definition = this.scopes[i].get(key);
+      if (definition) return definition;
+    }
+    return undefined;
+  }
+
+  private isBound(name: string): boolean {
+    if (this.lookup(name) || IMPLICIT_NAMES.has(name)) return true;
+    if (JS_GLOBALS.has(name)) return true;
+    const { env } = this.options;
+    if (!env) return false;
+    if (env.hasMacro(name)) return true;
+    try {
+      env.lookup(name);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /* Symbols introduced by macros from other files are not the user's to fix */
+  private isWrittenHere(node: SymbolNode): boolean {
+    const file = node._meta?.filePath;
+    if (!file || !node._meta?.line) return false;
+    return !this.filePath || path.resolve(file) === this.filePath;
+  }
+
+  private reportUndefined(name: string, node: SymbolNode): void {
+    const location = { filePath: node._meta?.filePath, line: node._meta?.line, column: node._meta?.column };
+    const macros = this.options.env?.getMacroNames(this.options.filePath ?? null) ?? [];
+    const definitions = this.scopes.flatMap((scope) => [...scope.values()]).reverse();
+    const suggestion = findSimilarName(name, [
+      ...definitions.map((definition) => definition.name),
+      ...macros,
+      ...JS_GLOBALS,
+    ]);
+
+    if (suggestion && macros.includes(suggestion) && !definitions.some((d) => d.name === suggestion)) {
+      this.errors.push(
+        new MacroError(
+          `Unknown macro '${name}'. ${didYouMean(suggestion, this.macroPosition(suggestion))}`,
+          name,
+          location,
+        ).withCode(ErrorCode.MACRO_NOT_FOUND),
+      );
+      return;
+    }
+
+    const hint = suggestion
+      ? ` ${didYouMean(suggestion, definitions.find((d) => d.name === suggestion)?.position)}`
+      : "";
+    this.errors.push(
+      new ValidationError(`'${name}' is not defined.${hint}`, "name resolution", location)
+        .withCode(ErrorCode.UNDEFINED_SYMBOL),
+    );
+  }
+
+  /* Where a macro is defined, found by searching its source for (macro name */
+  private macroPosition(name: string): SourcePosition | undefined {
+    const filePath = this.options.env?.getMacro(name)?.sourceFile;
+    if (!filePath) return undefined;
+    const source = (EMBEDDED_MACROS as Record<string, string>)[filePath] ?? readSource(filePath);
+    const lines = source?.split("\n") ?? [];
+    const pattern = new RegExp(`\\((?:macro|defmacro)\\s+${escapeRegExp(name)}(?=[\\s)])`);
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(pattern);
+      if (match) return { filePath, line: i + 1, column: (match.index ?? 0) + 1 };
+    }
+    return { filePath };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Imports
+  // ---------------------------------------------------------------------------
+
+  /**
+   * The definitions of a local .hql module, with its exports marked.
+   * Null for other modules, missing files and modules without exports, whose
+   * names cannot be checked here.
+   */
+  private moduleExports(specifier: HQLNode | undefined): SymbolTable | null {
+    const value = literalValue(specifier);
+    if (typeof value !== "string" || !value.endsWith(".hql") || !/^\.\.?\//.test(value) || !this.filePath) {
+      return null;
+    }
+    const modulePath = path.resolve(path.dirname(this.filePath), value);
+    if (!this.modules.has(modulePath)) {
+      const source = readSource(modulePath);
+      this.modules.set(modulePath, source === undefined ? null : readModule(modulePath, source));
+    }
+    return this.modules.get(modulePath)!;
+  }
+
+  private checkImport(list: ListNode): void {
+    const [, target, , specifier] = list.elements;
+    if (!isPattern(target)) return;
+    const exports = this.moduleExports(specifier);
+    if (!exports) return;
+    const names = target.elements.slice(1);
+    for (let i = 0; i < names.length; i++) {
+      const name = names[i];
+      if (name.type === "symbol" && this.isWrittenHere(name)) {
+        this.checkExported(name.name, String(literalValue(specifier)), exports, name);
+      }
+      if (isSymbolNamed(names[i + 1], "as")) i += 2;
+    }
+  }
+
+  private checkExported(name: string, specifier: string, exports: SymbolTable, node: SymbolNode): void {
+    const exported = exports.getExportedSymbols();
+    if (exported.some((symbol) => normalize(symbol.name) === normalize(name))) return;
+
+    const location = { filePath: node._meta?.filePath, line: node._meta?.line, column: node._meta?.column };
+    const defined = exports.get(name) ?? exports.get(normalize(name));
+    let message = `'${name}' is not exported by '${specifier}'.`;
+    if (defined) {
+      message = `'${name}' is defined in '${specifier}'${formatPosition(defined.location)} but not exported.`;
+    } else {
+      const suggestion = findSimilarName(name, exported.map((symbol) => symbol.name));
+      if (suggestion) message += ` ${didYouMean(suggestion, exports.get(suggestion)?.location)}`;
+    }
+    this.errors.push(new ImportError(message, specifier, location).withCode(ErrorCode.SYMBOL_NOT_EXPORTED));
+  }
+}
+
+/**
+ * Read the top-level definitions and exports of a module without compiling
+ * it. Exported aliases are recorded under the exported name, at the location
+ * of the definition they export.
+ */
+function readModule(modulePath: string, source: string): SymbolTable | null {
+  const table = new SymbolTable(null, modulePath);
+  const exports: { name: string; local: string }[] = [];
+
+  for (const form of parseWithRecovery(source, modulePath).nodes) {
+    if (!isList(form) || form.elements.length < 2) continue;
+    const [head, target] = form.elements;
+    if (!isSymbol(head)) continue;
+
+    if (head.name === "export") {
+      exports.push(...readExports(form.elements.slice(1)));
+    } else if (head.name in DEFINITION_HEADS && isSymbol(target)) {
+      const name = target.name.split(":")[0];
+      const { line = 0, column = 0 } = getSExpLocation(target);
+      table.set({
+        name,
+        kind: DEFINITION_HEADS[head.name],
+        scope: "module",
+        sourceModule: modulePath,
+        location: { filePath: modulePath, line, column },
+      });
+    }
+  }
+
+  if (exports.length === 0) return null;
+  for (const { name, local } of exports) {
+    const definition = table.get(local);
+    table.set({
+      name,
+      kind: definition?.kind ?? "export",
+      scope: "module",
+      sourceModule: modulePath,
+      isExported: true,
+      location: definition?.location,
+    });
+  }
+  return table;
+}
+
+/* Names exported by [a b as c] or "name" value */
+function readExports(args: SExp[]): { name: string; local: string }[] {
+  const [target, value] = args;
+  if (isLiteral(target) && typeof target.value === "string") {
+    return [{ name: target.value, local: value && isSymbol(value) ? value.name : target.value }];
+  }
+  if (!isList(target)) return [];
+  const names = target.elements.slice(1);
+  const exports: { name: string; local: string }[] = [];
+  for (let i = 0; i < names.length; i++) {
+    const name = names[i];
+    if (!isSymbol(name)) continue;
+    const next = names[i + 1];
+    const alias = next && isSymbol(next) && next.name === "as" ? names[i + 2] : undefined;
+    if (alias && isSymbol(alias)) {
+      exports.push({ name: alias.name, local: name.name });
+      i += 2;
+    } else {
+      exports.push({ name: name.name, local: name.name });
+    }
+  }
+  return exports;
+}
+
+function didYouMean(name: string, position?: SourcePosition): string {
+  return `Did you mean '${name}'${formatPosition(position)}?`;
+}
+
+function formatPosition(position?: SourcePosition): string {
+  if (!position?.filePath) return "";
+  return ` (${position.filePath}${position.line ? `:${position.line}:${position.column ?? 1}` : ""})`;
+}
+
+function readSource(filePath: string): string | undefined {
+  try {
+    return Deno.readTextFileSync(filePath);
+  } catch {
+    return undefined;
+  }
+}
+
+/* my-name and my_name compile to the same identifier */
+function normalize(name: string): string {
+  return name.replace(/-/g, "_");
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/* The function of (async fn name ...) or (async (fn name ...)) */
+function unwrapAsync(list: ListNode): ListNode {
+  if (headName(list) !== "async") return list;
+  const [, inner] = list.elements;
+  if (inner?.type === "list") return inner;
+  if (inner?.type === "symbol" && ["fn", "fx", "lambda", "fn*", "lambda*"].includes(inner.name)) {
+    return { ...list, elements: list.elements.slice(1) };
+  }
+  return list;
+}
+
+function headName(node: HQLNode | undefined): string | undefined {
+  if (node?.type !== "list") return undefined;
+  const head = node.elements[0];
+  return head?.type === "symbol" ? head.name : undefined;
+}
+
+function isSymbolNamed(node: HQLNode | undefined, name: string): boolean {
+  return node?.type === "symbol" && node.name === name;
+}
+
+/* A map pattern entry with a default value: (name = default) */
+function isDefaulted(node: HQLNode): node is ListNode {
+  return node.type === "list" && isSymbolNamed(node.elements[1], "=") && !isPattern(node);
+}
+
+/* A [vector] or {map} destructuring pattern */
+function isPattern(node: HQLNode | undefined): node is ListNode {
+  const op = headName(node);
+  return op === "vector" || op === "hash-map";
+}
+
+function literalValue(node: HQLNode | undefined): unknown {
+  return node?.type === "literal" ? node.value : undefined;
+}
@@ -7,6 +7,7 @@ import { HQLNode, ListNode, LiteralNode, SymbolNode } from "../type/hql_ast.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { perform, TransformError, ValidationError } from "../../common/error.ts";  
+import { ErrorCode } from "../../common/error-codes.ts";
 import { transformStandardFunctionCall, processFunctionBody, transformNamedArgumentCall, handleFxFunctionCall } from "../syntax/function.ts";
 import {
   isNamespaceImport,
@@ -17,6 +18,7 @@ import {
 // Import syntax modules
 import * as bindingModule from "../syntax/binding.ts";
 import * as classModule from "../syntax/class.ts";
+import * as structModule from "../syntax/struct.ts";
 import * as conditionalModule from "../syntax/conditional.ts";
 import * as dataStructureModule from "../syntax/data-structure.ts";
 import * as enumModule from "../syntax/enum.ts";
@@ -26,6 +28,10 @@ import * as jsInteropModule from "../syntax/js-interop.ts";
 import * as loopRecurModule from "../syntax/loop-recur.ts";
 import * as primitiveModule from "../syntax/primitive.ts";
 import * as quoteModule from "../syntax/quote.ts";
+import * as tryCatchModule from "../syntax/try-catch.ts";
+import * as asyncModule from "../syntax/async.ts";
+import * as generatorModule from "../syntax/generator.ts";
+import * as matchModule from "../syntax/match.ts";
 import { globalSymbolTable } from "../symbol_table.ts";
 
 /**
@@ -48,11 +54,19 @@ export function transformToIR(
     initializeTransformFactory();
   }
   
+  structModule.resetStructHelpers();
   const body: IR.IRNode[] = [];
   for (let i = 0; i < nodes.length; i++) {
     const ir = transformNode(nodes[i], currentDir);
-    if (ir) body.push(ir);
+    // Top-level await inside do/let/try blocks needs async IIFEs
+    if (ir) body.push(asyncModule.promoteAwaitingIIFEs(ir));
   }
+  body.forEach(asyncModule.checkAwaitPlacement);
+  // Struct helpers go after the imports the module starts with
+  const firstStatement = body.findIndex((node) =>
+    node.type !== IR.IRNodeType.ImportDeclaration && node.type !== IR.IRNodeType.JsImportReference
+  );
+  body.splice(firstStatement === -1 ? body.length : firstStatement, 0, ...structModule.structHelperDeclarations());
   return { type: IR.IRNodeType.Program, body };
 }
 
@@ -78,12 +92,23 @@ function initializeTransformFactory(): void {
     transformFactory.set("let", (list, currentDir) => bindingModule.transformLet(list, currentDir, transformNode));
     transformFactory.set("var", (list, currentDir) => bindingModule.transformVar(list, currentDir, transformNode));
     transformFactory.set("set!", (list, currentDir) => bindingModule.transformSet(list, currentDir, transformNode));
-    transformFactory.set("if", (list, currentDir) => conditionalModule.transformIf(list, currentDir, transformNode, loopRecurModule.hasLoopContext));
+    transformFactory.set("if", (list, currentDir) => conditionalModule.transformIf(list, currentDir, transformNode));
     transformFactory.set("cond", (list, currentDir) => conditionalModule.transformCond(list, currentDir, transformNode));
     transformFactory.set("do", (list, currentDir) => conditionalModule.transformDo(list, currentDir, transformNode));
     transformFactory.set("loop", (list, currentDir) => loopRecurModule.transformLoop(list, currentDir, transformNode));
     transformFactory.set("recur", (list, currentDir) => loopRecurModule.transformRecur(list, currentDir, transformNode));
     transformFactory.set("return", (list, currentDir) => conditionalModule.transformReturn(list, currentDir, transformNode));
+    transformFactory.set("try", (list, currentDir) => tryCatchModule.transformTry(list, currentDir, transformNode));
+    transformFactory.set("match", (list, currentDir) => matchModule.transformMatch(list, currentDir, transformNode));
+    transformFactory.set("throw", (list, currentDir) => tryCatchModule.transformThrow(list, currentDir, transformNode));
+    transformFactory.set("async", (list, currentDir) => asyncModule.transformAsync(list, currentDir, transformNode));
+    transformFactory.set("await", (list, currentDir) => asyncModule.transformAwait(list, currentDir, transformNode));
+    transformFactory.set("fn*", (list, currentDir) => generatorModule.transformGenerator(list, currentDir, transformNode));
+    transformFactory.set("lambda*", (list, currentDir) => generatorModule.transformGenerator(list, currentDir, transformNode));
+    transformFactory.set("yield", (list, currentDir) => generatorModule.transformYield(list, currentDir, transformNode));
+    transformFactory.set("yield*", (list, currentDir) => generatorModule.transformYield(list, currentDir, transformNode));
+    transformFactory.set("for-of", (list, currentDir) => generatorModule.transformForOf(list, currentDir, transformNode));
+    transformFactory.set("for-await", (list, currentDir) => generatorModule.transformForOf(list, currentDir, transformNode));
 
     transformFactory.set("js-new", (list, currentDir) => jsInteropModule.transformJsNew(list, currentDir, transformNode));
     transformFactory.set("js-get", (list, currentDir) => jsInteropModule.transformJsGet(list, currentDir, transformNode));
@@ -91,6 +116,8 @@ function initializeTransformFactory(): void {
     transformFactory.set("js-get-invoke", (list, currentDir) => jsInteropModule.transformJsGetInvoke(list, currentDir, transformNode));
     transformFactory.set("js-set", (list, currentDir) => jsInteropModule.transformJsSet(list, currentDir, transformNode));
     transformFactory.set("class", (list, currentDir) => classModule.transformClass(list, currentDir, transformNode));
+    transformFactory.set("super", (list, currentDir) => classModule.transformSuper(list, currentDir, transformNode));
+    transformFactory.set("struct", (list, currentDir) => structModule.transformStruct(list, currentDir, transformNode));
     transformFactory.set("method-call", (list, currentDir) => classModule.transformMethodCall(list, currentDir, transformNode));
     transformFactory.set("enum", (list, currentDir) => enumModule.transformEnumDeclaration(list, currentDir, transformNode));
     transformFactory.set("empty-array", dataStructureModule.transformEmptyArray);
@@ -110,7 +137,7 @@ function initializeTransformFactory(): void {
         "export",
         "vector-based export (export [name ...])",
         JSON.stringify(list.elements)
-      );
+      ).withCode(ErrorCode.INVALID_EXPORT);
     });
 
     transformFactory.set("import", (list, currentDir) => {
@@ -143,7 +170,7 @@ export function transformJsMethod(
           "js-method",
           "2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const object = transformNodeFunc(list.elements[1], currentDir);
@@ -153,7 +180,7 @@ export function transformJsMethod(
           "js-method",
           "valid object expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       let methodName: string;
@@ -167,7 +194,7 @@ export function transformJsMethod(
           "js-method",
           "string literal or symbol",
           list.elements[2].type,
-        );
+        ).withCode(ErrorCode.INVALID_PROPERTY_NAME);
       }
       
       // Create a JsMethodAccess node
@@ -188,7 +215,7 @@ export function transformJsMethod(
  */
 export function transformNode(node: HQLNode, currentDir: string): IR.IRNode | null {
   logger.debug("transformNode called with node: " + JSON.stringify(node));
-  return perform(
+  const result = perform(
     () => {
       if (!node) {
         throw new ValidationError(
@@ -196,7 +223,7 @@ export function transformNode(node: HQLNode, currentDir: string): IR.IRNode | nu
           "node transformation",
           "valid HQL node",
           "null or undefined",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       logger.debug(`Transforming node of type: ${node.type}`);
@@ -218,6 +245,11 @@ export function transformNode(node: HQLNode, currentDir: string): IR.IRNode | nu
     TransformError,
     [node],
   );
+  // Forms that hand back an inner node unchanged keep the inner position
+  if (result && !result.position && node?._meta?.line !== undefined) {
+    result.position = node._meta;
+  }
+  return result;
 }
 
 /**
@@ -235,8 +267,11 @@ function transformList(list: ListNode, currentDir: string): IR.IRNode | null {
 
   const first = list.elements[0];
 
-  // Handle dot method calls (object.method(...))
-  if (first.type === "symbol" && (first as SymbolNode).name.startsWith('.') && list.elements.length >= 2) {
+  // Handle dot method calls (object.method(...)); (. obj method args...) is a method call below
+  if (
+    first.type === "symbol" && (first as SymbolNode).name.startsWith('.') &&
+    (first as SymbolNode).name !== "." && list.elements.length >= 2
+  ) {
     return transformDotMethodCall(list, currentDir);
   }
 
@@ -244,7 +279,7 @@ function transformList(list: ListNode, currentDir: string): IR.IRNode | null {
     const op = (first as SymbolNode).name;
 
     // Skip macro definitions
-    if (op === "macro" || op === "macro") {
+    if (op === "macro" || op === "defmacro") {
       logger.debug(`Skipping macro definition: ${op}`);
       return { type: IR.IRNodeType.NullLiteral } as IR.IRNullLiteral;
     }
@@ -277,7 +312,7 @@ function transformDotMethodCall(list: ListNode, currentDir: string): IR.IRNode {
       "method call object",
       "valid object expression",
       "null"
-    );
+    ).withCode(ErrorCode.NULL_TRANSFORM);
   }
 
   // Arguments are all elements AFTER the object (starting from the third element)
@@ -289,7 +324,7 @@ function transformDotMethodCall(list: ListNode, currentDir: string): IR.IRNode {
         "method argument",
         "valid expression",
         "null"
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
     return transformed;
   });
@@ -386,6 +421,17 @@ function transformBasedOnOperator(list: ListNode, op: string, currentDir: string
   return transformStandardFunctionCall(list, currentDir);
 }
 
+/**
+ * Whether a list head is compiled by the transformer itself rather than
+ * called as a function
+ */
+export function isSpecialForm(op: string): boolean {
+  if (transformFactory.size === 0) {
+    initializeTransformFactory();
+  }
+  return transformFactory.has(op) || primitiveModule.isPrimitiveOp(op) || isBuiltInOperator(op);
+}
+
 /**
  * Check if an operator is a built-in syntax or primitive
  */
@@ -439,7 +485,7 @@ function determineCallOrAccess(
           "Single element transformed to null", 
           JSON.stringify(list), 
           "Single element transformation"
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       return singleElement;
     }
@@ -452,7 +498,7 @@ function determineCallOrAccess(
       "First element transformed to null", 
       JSON.stringify(list), 
       "Function or collection access"
-    );
+    ).withCode(ErrorCode.NULL_TRANSFORM);
   }
 
   // Handle special patterns for (obj arg) expressions
@@ -481,7 +527,7 @@ function determineCallOrAccess(
           "Key transformed to null", 
           JSON.stringify(list), 
           "Function or collection access"
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       
       // Generate property access via get function
@@ -499,7 +545,7 @@ function determineCallOrAccess(
           "Key transformed to null", 
           JSON.stringify(list), 
           "Function or collection access"
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       
       // Create a numeric fallback that tries both array access and function call
@@ -568,7 +614,7 @@ function createCallExpression(
         `Argument ${i} transformed to null`, 
         JSON.stringify(list), 
         "Function argument"
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
     args.push(arg);
   }
@@ -667,7 +713,7 @@ function transformNestedList(list: ListNode, currentDir: string): IR.IRNode {
           "nested list",
           "valid inner expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       if (list.elements.length > 1) {
@@ -699,7 +745,7 @@ function transformNestedList(list: ListNode, currentDir: string): IR.IRNode {
                 "function argument",
                 "valid argument expression",
                 "null",
-              );
+              ).withCode(ErrorCode.NULL_TRANSFORM);
             }
             return transformed;
           });
@@ -737,7 +783,7 @@ function transformNestedMethodCall(
         "method argument",
         "valid argument expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
     return transformed;
   });
@@ -0,0 +1,503 @@
+// src/transpiler/pipeline/hql-ir-to-dts.ts - TypeScript types from HQL annotations, and .d.ts output
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { sanitizeIdentifier } from "../../common/utils.ts";
+import { globalSymbolTable } from "../symbol_table.ts";
+import { moduleExportName } from "../syntax/import-export.ts";
+
+const KEYWORD_TYPES: Record<string, ts.KeywordTypeSyntaxKind> = {
+  Int: ts.SyntaxKind.NumberKeyword,
+  Double: ts.SyntaxKind.NumberKeyword,
+  String: ts.SyntaxKind.StringKeyword,
+  Bool: ts.SyntaxKind.BooleanKeyword,
+  Any: ts.SyntaxKind.AnyKeyword,
+};
+
+/**
+ * Convert an HQL type annotation to a TypeScript type. Primitives map to
+ * their TS keywords, `Array<T>` to `T[]`, and any other name (an enum,
+ * class or imported type) to a reference to that declaration.
+ */
+export function convertHqlType(type: string): ts.TypeNode {
+  const keyword = KEYWORD_TYPES[type];
+  if (keyword !== undefined) return ts.factory.createKeywordTypeNode(keyword);
+  if (type === "Array") return ts.factory.createArrayTypeNode(anyType());
+  const element = type.match(/^Array<(.+)>$/)?.[1];
+  if (element) return ts.factory.createArrayTypeNode(convertHqlType(element));
+  return ts.factory.createTypeReferenceNode(sanitizeIdentifier(type));
+}
+
+/**
+ * The declared return type of a function; async functions return a Promise of
+ * it. A generator declares the type it yields and returns a Generator of it.
+ */
+export function convertReturnType(type: string, isAsync?: boolean, isGenerator?: boolean): ts.TypeNode {
+  const converted = convertHqlType(type);
+  if (isGenerator) return ts.factory.createTypeReferenceNode(isAsync ? "AsyncGenerator" : "Generator", [converted]);
+  return isAsync ? ts.factory.createTypeReferenceNode("Promise", [converted]) : converted;
+}
+
+/**
+ * Parameters of an fn, typed when the fn declares types. Untyped
+ * parameters get `fallback`, which is undefined when generating JavaScript,
+ * and parameters with a default get it from `initializers`.
+ */
+export function createFnParameters(
+  params: IR.IRIdentifier[],
+  paramTypes: { name: string; type: string }[] | undefined,
+  fallback?: ts.TypeNode,
+  initializers?: Map<string, ts.Expression>,
+): ts.ParameterDeclaration[] {
+  return params.map((param) => {
+    if (param.name.startsWith("...")) {
+      return ts.factory.createParameterDeclaration(
+        undefined,
+        ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
+        ts.factory.createIdentifier(param.name.slice(3)),
+        undefined,
+        fallback && ts.factory.createArrayTypeNode(fallback),
+      );
+    }
+    const type = paramTypes?.find((p) => p.name === param.name)?.type;
+    return ts.factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      ts.factory.createIdentifier(param.name),
+      undefined,
+      type ? convertHqlType(type) : fallback,
+      initializers?.get(param.name),
+    );
+  });
+}
+
+/**
+ * Declare the parameters with defaults optional, from the last one back to
+ * the first that is required: an argument can only be left out when all the
+ * ones after it can be too
+ */
+function withOptionalDefaults(
+  parameters: ts.ParameterDeclaration[],
+  params: IR.IRIdentifier[],
+  defaults: { name: string }[] | undefined,
+): ts.ParameterDeclaration[] {
+  const names = new Set(defaults?.map((d) => d.name));
+  let firstOptional = params.length;
+  while (firstOptional > 0 && names.has(params[firstOptional - 1].name)) firstOptional--;
+  return parameters.map((param, index) =>
+    index >= firstOptional
+      ? ts.factory.updateParameterDeclaration(
+        param,
+        param.modifiers,
+        param.dotDotDotToken,
+        param.name,
+        ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+        param.type,
+        undefined,
+      )
+      : param
+  );
+}
+
+/**
+ * Overload signatures of an fx function. An fx takes its arguments in
+ * order, or as one object of named arguments; parameters with defaults
+ * may be left out of either.
+ */
+export function createFxSignatures(
+  node: IR.IRFxFunctionDeclaration,
+  modifiers?: ts.ModifierLike[],
+): ts.FunctionDeclaration[] {
+  const defaults = new Set(node.defaults.map((d) => d.name));
+  const typeOf = (name: string) => convertHqlType(node.paramTypes.find((p) => p.name === name)?.type ?? "Any");
+  const optional = () => ts.factory.createToken(ts.SyntaxKind.QuestionToken);
+
+  // A positional argument can only be left out when all the ones after it can be too
+  let firstOptional = node.params.length;
+  while (firstOptional > 0 && defaults.has(node.params[firstOptional - 1].name)) firstOptional--;
+
+  const positional = node.params.map((param, index) =>
+    ts.factory.createParameterDeclaration(
+      undefined,
+      undefined,
+      ts.factory.createIdentifier(sanitizeIdentifier(param.name)),
+      index >= firstOptional ? optional() : undefined,
+      typeOf(param.name),
+    )
+  );
+  const named = ts.factory.createParameterDeclaration(
+    undefined,
+    undefined,
+    ts.factory.createIdentifier("args"),
+    undefined,
+    ts.factory.createTypeLiteralNode(node.params.map((param) =>
+      ts.factory.createPropertySignature(
+        undefined,
+        propertyName(param.name),
+        defaults.has(param.name) ? optional() : undefined,
+        typeOf(param.name),
+      )
+    )),
+  );
+
+  const signatures = node.params.length > 0 ? [positional, [named]] : [positional];
+  return signatures.map((parameters) =>
+    ts.factory.createFunctionDeclaration(
+      modifiers,
+      undefined,
+      ts.factory.createIdentifier(sanitizeIdentifier(node.id.name)),
+      undefined,
+      parameters,
+      convertReturnType(node.returnType, node.async),
+      undefined,
+    )
+  );
+}
+
+/**
+ * `type E = (typeof E)[keyof typeof E]`: the type of a simple enum's values,
+ * declared under the same name as the enum object
+ */
+export function createEnumTypeAlias(name: string, modifiers?: ts.ModifierLike[]): ts.TypeAliasDeclaration {
+  const typeOfEnum = () => ts.factory.createTypeQueryNode(ts.factory.createIdentifier(name));
+  return ts.factory.createTypeAliasDeclaration(
+    modifiers,
+    ts.factory.createIdentifier(name),
+    undefined,
+    ts.factory.createIndexedAccessTypeNode(
+      ts.factory.createParenthesizedType(typeOfEnum()),
+      ts.factory.createTypeOperatorNode(ts.SyntaxKind.KeyOfKeyword, typeOfEnum()),
+    ),
+  );
+}
+
+/**
+ * Type of the options object taken by the factory of an enum case with
+ * associated values, such as `Payment.cash({ amount: 10 })`
+ */
+export function createEnumCaseOptionsType(enumCase: IR.IREnumCase): ts.TypeLiteralNode {
+  return ts.factory.createTypeLiteralNode((enumCase.associatedValues ?? []).map((value) =>
+    ts.factory.createPropertySignature(
+      undefined,
+      propertyName(value.name),
+      ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+      convertHqlType(value.type),
+    )
+  ));
+}
+
+/**
+ * Generate a .d.ts describing the symbols a module exports. fx and typed fn
+ * signatures keep their HQL types; anything untyped is `any`.
+ */
+export function generateDeclarations(program: IR.IRProgram): string {
+  const declarations = new Map<string, IR.IRNode>();
+  const variables = new Map<string, { kind: IR.IRVariableDeclaration["kind"]; init: IR.IRNode }>();
+  const exports: { local: string; exported: string }[] = [];
+
+  const addVariables = (node: IR.IRVariableDeclaration) => {
+    for (const declarator of node.declarations) {
+      if (declarator.id.type !== IR.IRNodeType.Identifier) continue;
+      variables.set((declarator.id as IR.IRIdentifier).name, { kind: node.kind, init: declarator.init });
+    }
+  };
+
+  for (const node of program.body) {
+    switch (node.type) {
+      case IR.IRNodeType.FxFunctionDeclaration:
+      case IR.IRNodeType.FnFunctionDeclaration:
+      case IR.IRNodeType.FunctionDeclaration:
+      case IR.IRNodeType.ClassDeclaration:
+      case IR.IRNodeType.EnumDeclaration:
+        declarations.set((node as IR.IRFunctionDeclaration | IR.IRClassDeclaration | IR.IREnumDeclaration).id.name, node);
+        break;
+      case IR.IRNodeType.VariableDeclaration:
+        addVariables(node as IR.IRVariableDeclaration);
+        break;
+      case IR.IRNodeType.ExportVariableDeclaration: {
+        const { declaration, exportName } = node as IR.IRExportVariableDeclaration;
+        addVariables(declaration);
+        exports.push({ local: (declaration.declarations[0].id as IR.IRIdentifier).name, exported: exportName });
+        break;
+      }
+      case IR.IRNodeType.ExportNamedDeclaration:
+        for (const spec of (node as IR.IRExportNamedDeclaration).specifiers) {
+          exports.push({ local: spec.local.name, exported: spec.exported.name });
+        }
+        break;
+    }
+  }
+
+  const statements: ts.Statement[] = [];
+  const declared = new Set<string>();
+  // Exported signatures may name classes and enums that are not exported themselves
+  for (const [name, node] of declarations) {
+    if (node.type !== IR.IRNodeType.ClassDeclaration && node.type !== IR.IRNodeType.EnumDeclaration) continue;
+    declared.add(name);
+    statements.push(...declareNode(node));
+  }
+  for (const { local } of exports) {
+    if (declared.has(local)) continue;
+    declared.add(local);
+    const node = declarations.get(local);
+    const variable = variables.get(local);
+    if (node) statements.push(...declareNode(node));
+    else statements.push(declareVariable(local, variable?.kind ?? "const", variable ? inferType(variable.init) : anyType()));
+  }
+  statements.push(
+    ts.factory.createExportDeclaration(
+      undefined,
+      false,
+      ts.factory.createNamedExports(exports.map(({ local, exported }) =>
+        ts.factory.createExportSpecifier(
+          false,
+          sanitizeIdentifier(local) !== exported ? ts.factory.createIdentifier(sanitizeIdentifier(local)) : undefined,
+          moduleExportName(exported),
+        )
+      )),
+    ),
+  );
+
+  const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed });
+  const file = ts.factory.updateSourceFile(
+    ts.createSourceFile("index.d.ts", "", ts.ScriptTarget.Latest, false, ts.ScriptKind.TS),
+    statements,
+  );
+  return printer.printFile(file);
+}
+
+function declareNode(node: IR.IRNode): ts.Statement[] {
+  switch (node.type) {
+    case IR.IRNodeType.FxFunctionDeclaration:
+      return createFxSignatures(node as IR.IRFxFunctionDeclaration, [declareModifier()]);
+    case IR.IRNodeType.FnFunctionDeclaration: {
+      const fn = node as IR.IRFnFunctionDeclaration;
+      const parameters = withOptionalDefaults(createFnParameters(fn.params, fn.paramTypes, anyType()), fn.params, fn.defaults);
+      return [declareFunction(fn.id.name, parameters, fn.returnType, fn.async, fn.generator)];
+    }
+    case IR.IRNodeType.FunctionDeclaration: {
+      const fn = node as IR.IRFunctionDeclaration;
+      return [declareFunction(fn.id.name, createFnParameters(fn.params, undefined, anyType()), undefined, fn.async, fn.generator)];
+    }
+    case IR.IRNodeType.ClassDeclaration:
+      return [declareClass(node as IR.IRClassDeclaration)];
+    case IR.IRNodeType.EnumDeclaration:
+      return declareEnum(node as IR.IREnumDeclaration);
+    default:
+      return [];
+  }
+}
+
+function declareFunction(
+  name: string,
+  parameters: ts.ParameterDeclaration[],
+  returnType: string | undefined,
+  isAsync: boolean | undefined,
+  isGenerator?: boolean,
+): ts.FunctionDeclaration {
+  return ts.factory.createFunctionDeclaration(
+    [declareModifier()],
+    undefined,
+    ts.factory.createIdentifier(sanitizeIdentifier(name)),
+    undefined,
+    parameters,
+    convertReturnType(returnType ?? "Any", isAsync, isGenerator),
+    undefined,
+  );
+}
+
+function declareVariable(name: string, kind: IR.IRVariableDeclaration["kind"], type: ts.TypeNode): ts.VariableStatement {
+  return ts.factory.createVariableStatement(
+    [declareModifier()],
+    ts.factory.createVariableDeclarationList(
+      [ts.factory.createVariableDeclaration(ts.factory.createIdentifier(sanitizeIdentifier(name)), undefined, type)],
+      kind === "const" ? ts.NodeFlags.Const : ts.NodeFlags.Let,
+    ),
+  );
+}
+
+function declareClass(node: IR.IRClassDeclaration): ts.ClassDeclaration {
+  const members: ts.ClassElement[] = [];
+  for (const field of node.fields) {
+    const declared = globalSymbolTable.get(`${node.id.name}.${field.name}`);
+    members.push(ts.factory.createPropertyDeclaration(
+      staticModifiers(field.static),
+      propertyName(field.name),
+      undefined,
+      declared?.kind === "field" && declared.type
+        ? convertHqlType(declared.type)
+        : field.initialValue ? inferType(field.initialValue) : anyType(),
+      undefined,
+    ));
+  }
+  if (node.constructor?.type === IR.IRNodeType.ClassConstructor) {
+    members.push(ts.factory.createConstructorDeclaration(
+      undefined,
+      createFnParameters(node.constructor.params, node.constructor.paramTypes, anyType()),
+      undefined,
+    ));
+  }
+  for (const method of node.methods) {
+    const parameters = withOptionalDefaults(
+      createFnParameters(method.params, method.paramTypes, anyType()),
+      method.params,
+      method.defaults,
+    );
+    const modifiers = staticModifiers(method.static);
+    if (method.kind === "get") {
+      members.push(ts.factory.createGetAccessorDeclaration(
+        modifiers,
+        propertyName(method.name),
+        [],
+        convertHqlType(method.returnType ?? "Any"),
+        undefined,
+      ));
+    } else if (method.kind === "set") {
+      members.push(ts.factory.createSetAccessorDeclaration(modifiers, propertyName(method.name), parameters, undefined));
+    } else {
+      members.push(ts.factory.createMethodDeclaration(
+        modifiers,
+        undefined,
+        propertyName(method.name),
+        undefined,
+        undefined,
+        parameters,
+        convertReturnType(method.returnType ?? "Any", method.async),
+        undefined,
+      ));
+    }
+  }
+  const heritage = node.superClass?.type === IR.IRNodeType.Identifier
+    ? [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [
+      ts.factory.createExpressionWithTypeArguments(
+        ts.factory.createIdentifier(sanitizeIdentifier((node.superClass as IR.IRIdentifier).name)),
+        undefined,
+      ),
+    ])]
+    : undefined;
+  return ts.factory.createClassDeclaration(
+    [declareModifier()],
+    ts.factory.createIdentifier(sanitizeIdentifier(node.id.name)),
+    undefined,
+    heritage,
+    members,
+  );
+}
+
+function declareEnum(node: IR.IREnumDeclaration): ts.Statement[] {
+  const name = sanitizeIdentifier(node.id.name);
+  const readonly = () => [ts.factory.createModifier(ts.SyntaxKind.ReadonlyKeyword)];
+
+  if (node.hasAssociatedValues || node.cases.some((c) => c.hasAssociatedValues)) {
+    // Mirrors the class built by createEnumClassImplementation
+    const self = () => ts.factory.createTypeReferenceNode(name);
+    const members: ts.ClassElement[] = [
+      ts.factory.createConstructorDeclaration([ts.factory.createModifier(ts.SyntaxKind.PrivateKeyword)], [], undefined),
+      ts.factory.createPropertyDeclaration(undefined, "type", undefined, convertHqlType("String"), undefined),
+      ts.factory.createPropertyDeclaration(
+        undefined,
+        "values",
+        undefined,
+        ts.factory.createTypeReferenceNode("Record", [convertHqlType("String"), anyType()]),
+        undefined,
+      ),
+      ts.factory.createMethodDeclaration(undefined, undefined, "is", undefined, undefined, [
+        ts.factory.createParameterDeclaration(undefined, undefined, "type", undefined, convertHqlType("String")),
+      ], convertHqlType("Bool"), undefined),
+      ts.factory.createMethodDeclaration(undefined, undefined, "getValue", undefined, undefined, [
+        ts.factory.createParameterDeclaration(undefined, undefined, "key", undefined, convertHqlType("String")),
+      ], anyType(), undefined),
+    ];
+    for (const enumCase of node.cases) {
+      const staticModifier = ts.factory.createModifier(ts.SyntaxKind.StaticKeyword);
+      members.push(
+        enumCase.hasAssociatedValues
+          ? ts.factory.createMethodDeclaration([staticModifier], undefined, propertyName(enumCase.id.name), undefined, undefined, [
+            ts.factory.createParameterDeclaration(
+              undefined,
+              undefined,
+              "options",
+              ts.factory.createToken(ts.SyntaxKind.QuestionToken),
+              createEnumCaseOptionsType(enumCase),
+            ),
+          ], self(), undefined)
+          : ts.factory.createPropertyDeclaration([staticModifier, ...readonly()], propertyName(enumCase.id.name), undefined, self(), undefined),
+      );
+    }
+    return [ts.factory.createClassDeclaration([declareModifier()], name, undefined, undefined, members)];
+  }
+
+  const cases = node.cases.map((enumCase) =>
+    ts.factory.createPropertySignature(
+      readonly(),
+      propertyName(enumCase.id.name),
+      undefined,
+      ts.factory.createLiteralTypeNode(literalOf(enumCase.rawValue) ?? ts.factory.createStringLiteral(enumCase.id.name)),
+    )
+  );
+  return [
+    ts.factory.createVariableStatement(
+      [declareModifier()],
+      ts.factory.createVariableDeclarationList(
+        [ts.factory.createVariableDeclaration(name, undefined, ts.factory.createTypeLiteralNode(cases))],
+        ts.NodeFlags.Const,
+      ),
+    ),
+    createEnumTypeAlias(name),
+  ];
+}
+
+/**
+ * Widened type of an initializer: literals and arrays of them; anything else is `any`
+ */
+function inferType(node: IR.IRNode): ts.TypeNode {
+  switch (node.type) {
+    case IR.IRNodeType.StringLiteral:
+      return convertHqlType("String");
+    case IR.IRNodeType.NumericLiteral:
+      return convertHqlType("Double");
+    case IR.IRNodeType.BooleanLiteral:
+      return convertHqlType("Bool");
+    case IR.IRNodeType.ArrayExpression: {
+      const elements = (node as IR.IRArrayExpression).elements.map((element) => inferType(element).kind);
+      const kind = elements[0];
+      return kind !== undefined && kind !== ts.SyntaxKind.AnyKeyword && elements.every((k) => k === kind)
+        ? ts.factory.createArrayTypeNode(inferType((node as IR.IRArrayExpression).elements[0]))
+        : ts.factory.createArrayTypeNode(anyType());
+    }
+    default:
+      return anyType();
+  }
+}
+
+function literalOf(node: IR.IRNode | null | undefined): ts.LiteralTypeNode["literal"] | undefined {
+  if (node?.type === IR.IRNodeType.StringLiteral) return ts.factory.createStringLiteral((node as IR.IRStringLiteral).value);
+  if (node?.type === IR.IRNodeType.NumericLiteral) {
+    const value = (node as IR.IRNumericLiteral).value;
+    return value < 0
+      ? ts.factory.createPrefixUnaryExpression(ts.SyntaxKind.MinusToken, ts.factory.createNumericLiteral(-value))
+      : ts.factory.createNumericLiteral(value);
+  }
+  if (node?.type === IR.IRNodeType.BooleanLiteral) {
+    return (node as IR.IRBooleanLiteral).value ? ts.factory.createTrue() : ts.factory.createFalse();
+  }
+  return undefined;
+}
+
+function propertyName(name: string): ts.PropertyName {
+  return /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(name)
+    ? ts.factory.createIdentifier(name)
+    : ts.factory.createStringLiteral(name);
+}
+
+function staticModifiers(isStatic: boolean | undefined): ts.Modifier[] | undefined {
+  return isStatic ? [ts.factory.createModifier(ts.SyntaxKind.StaticKeyword)] : undefined;
+}
+
+function declareModifier(): ts.Modifier {
+  return ts.factory.createModifier(ts.SyntaxKind.DeclareKeyword);
+}
+
+function anyType(): ts.KeywordTypeNode {
+  return ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword);
+}
@@ -2,9 +2,11 @@ import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { CodeGenError } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { convertEnumDeclarationToJsObject } from "../syntax/enum.ts";
 import { convertClassDeclaration, convertNewExpression } from "../syntax/class.ts";
+import { convertStructDeclaration } from "../syntax/struct.ts";
 import { convertConditionalExpression, convertIfStatement } from "../syntax/conditional.ts";
 import { convertCallExpression, convertMemberExpression, convertCallMemberExpression } from "../syntax/class.ts";
 import { createExpressionStatement, expressionStatement, convertExpressionStatement } from "../syntax/expression.ts";
@@ -14,6 +16,12 @@ import { convertImportDeclaration, convertExportNamedDeclaration, convertExportV
 import { convertInteropIIFE } from "../syntax/js-interop.ts";
 import { isExpressionNode } from "../syntax/expression.ts";
 import { convertGetCallExpression, convertNumericCallExpression } from "../syntax/get.ts";
+import { convertTryStatement, convertThrowStatement, convertThrowExpression } from "../syntax/try-catch.ts";
+import { convertAwaitExpression } from "../syntax/async.ts";
+import { convertYieldExpression, convertForOfStatement } from "../syntax/generator.ts";
+import { convertWhileStatement, convertContinueStatement } from "../syntax/loop-recur.ts";
+import { convertBindingName } from "../syntax/destructuring.ts";
+import { convertHqlType, createEnumTypeAlias } from "./hql-ir-to-dts.ts";
 
 export function convertIRExpr(node: IR.IRNode): ts.Expression {
   return execute(node, "IR expression", () => {
@@ -66,6 +74,12 @@ export function convertIRExpr(node: IR.IRNode): ts.Expression {
         return convertAssignmentExpression(node as IR.IRAssignmentExpression);
       case IR.IRNodeType.GetAndCall:
         return convertGetAndCall(node as IR.IRGetAndCall);
+      case IR.IRNodeType.ThrowStatement:
+        return convertThrowExpression(node as IR.IRThrowStatement);
+      case IR.IRNodeType.AwaitExpression:
+        return convertAwaitExpression(node as IR.IRAwaitExpression);
+      case IR.IRNodeType.YieldExpression:
+        return convertYieldExpression(node as IR.IRYieldExpression);
       case IR.IRNodeType.ReturnStatement: {
         const irReturn = node as IR.IRReturnStatement;
         return ts.factory.createCallExpression(
@@ -88,7 +102,7 @@ export function convertIRExpr(node: IR.IRNode): ts.Expression {
           `Cannot convert node of type ${IR.IRNodeType[node.type] || node.type} to expression`,
           `IR node ${IR.IRNodeType[node.type] || node.type}`,
           node
-        );
+        ).withCode(ErrorCode.UNSUPPORTED_NODE);
     }
   });
 }
@@ -102,7 +116,7 @@ export function convertIRNode(
         "Cannot convert null or undefined node to TS AST",
         "unknown node type",
         node,
-      );
+      ).withCode(ErrorCode.UNSUPPORTED_NODE);
     }
     logger.debug(`Converting IR node of type ${IR.IRNodeType[node.type]}`);
     switch (node.type) {
@@ -169,11 +183,35 @@ export function convertIRNode(
       case IR.IRNodeType.ReturnStatement:
         return convertReturnStatement(node as IR.IRReturnStatement);
       case IR.IRNodeType.ClassDeclaration:
-        return convertClassDeclaration(node as IR.IRClassDeclaration);
+        return (node as IR.IRClassDeclaration).struct
+          ? convertStructDeclaration(node as IR.IRClassDeclaration)
+          : convertClassDeclaration(node as IR.IRClassDeclaration);
       case IR.IRNodeType.GetAndCall:
         return expressionStatement(node as IR.IRGetAndCall, convertGetAndCall);
-      case IR.IRNodeType.EnumDeclaration:
-        return convertEnumDeclarationToJsObject(node as IR.IREnumDeclaration);
+      case IR.IRNodeType.JsMethodAccess:
+        return expressionStatement(node as IR.IRJsMethodAccess, convertJsMethodAccess);
+      case IR.IRNodeType.EnumDeclaration: {
+        const enumDecl = node as IR.IREnumDeclaration;
+        const statement = convertEnumDeclarationToJsObject(enumDecl);
+        // Enums with associated values are classes, which already name a type
+        return typeAnnotations && ts.isVariableStatement(statement)
+          ? [statement, createEnumTypeAlias(enumDecl.id.name)]
+          : statement;
+      }
+      case IR.IRNodeType.TryStatement:
+        return convertTryStatement(node as IR.IRTryStatement);
+      case IR.IRNodeType.ThrowStatement:
+        return convertThrowStatement(node as IR.IRThrowStatement);
+      case IR.IRNodeType.AwaitExpression:
+        return expressionStatement(node as IR.IRAwaitExpression, convertAwaitExpression);
+      case IR.IRNodeType.YieldExpression:
+        return expressionStatement(node as IR.IRYieldExpression, convertYieldExpression);
+      case IR.IRNodeType.WhileStatement:
+        return convertWhileStatement(node as IR.IRWhileStatement);
+      case IR.IRNodeType.ForOfStatement:
+        return convertForOfStatement(node as IR.IRForOfStatement);
+      case IR.IRNodeType.ContinueStatement:
+        return convertContinueStatement(node as IR.IRContinueStatement);
       case IR.IRNodeType.EnumCase:
         logger.warn(`EnumCase node encountered outside EnumDeclaration. This should not happen.`);
         return null;
@@ -185,7 +223,7 @@ export function convertIRNode(
           `Unsupported IR node type: ${IR.IRNodeType[node.type] || node.type}`,
           `IR node ${IR.IRNodeType[node.type] || node.type}`,
           node,
-        );
+        ).withCode(ErrorCode.UNSUPPORTED_NODE);
     }
   });
 }
@@ -294,7 +332,7 @@ export function convertObjectExpression(node: IR.IRObjectExpression): ts.ObjectL
       } else if (prop.type === IR.IRNodeType.SpreadAssignment) {
         return ts.factory.createSpreadAssignment(convertIRExpr(prop.expression));
       }
-      throw new CodeGenError("Unsupported property type in object expression", "object expression", prop);
+      throw new CodeGenError("Unsupported property type in object expression", "object expression", prop).withCode(ErrorCode.UNSUPPORTED_NODE);
     });
     return ts.factory.createObjectLiteralExpression(objectProperties, true);
   });
@@ -362,9 +400,12 @@ export function convertVariableDeclaration(node: IR.IRVariableDeclaration): ts.V
   return execute(node, "variable declaration", () => {
     const declarations = node.declarations.map(decl =>
       ts.factory.createVariableDeclaration(
-        convertIdentifier(decl.id),
-        undefined,
+        decl.id.type === IR.IRNodeType.Identifier
+          ? convertIdentifier(decl.id)
+          : convertBindingName(decl.id),
         undefined,
+        // TypeScript cannot tell what an empty array will hold
+        isEmptyArray(decl.init) ? typeAnnotation("Array") : undefined,
         convertIRExpr(decl.init)
       )
     );
@@ -387,6 +428,10 @@ export function convertVariableDeclaration(node: IR.IRVariableDeclaration): ts.V
   });
 }
 
+function isEmptyArray(node: IR.IRNode): boolean {
+  return node.type === IR.IRNodeType.ArrayExpression && (node as IR.IRArrayExpression).elements.length === 0;
+}
+
 export function convertReturnStatement(node: IR.IRReturnStatement): ts.ReturnStatement {
   return execute(node, "return statement", () =>
     ts.factory.createReturnStatement(node.argument ? convertIRExpr(node.argument) : undefined)
@@ -396,12 +441,15 @@ export function convertReturnStatement(node: IR.IRReturnStatement): ts.ReturnSta
 export function convertBlockStatement(node: IR.IRBlockStatement): ts.Block {
   return execute(node, "block statement", () => {
     const statements: ts.Statement[] = [];
+    // Start of the statements converted from the last body node
+    let lastStart = 0;
     for (let i = 0; i < node.body.length; i++) {
       const stmt = node.body[i];
       if (stmt.type === IR.IRNodeType.ReturnStatement) {
         statements.push(convertReturnStatement(stmt as IR.IRReturnStatement));
         break;
       } else {
+        lastStart = statements.length;
         const converted = convertIRNode(stmt);
         if (Array.isArray(converted)) {
           statements.push(...converted);
@@ -415,6 +463,8 @@ export function convertBlockStatement(node: IR.IRBlockStatement): ts.Block {
       !ts.isReturnStatement(statements[statements.length - 1])
     ) {
       if (node.body.length > 0 && isExpressionNode(node.body[node.body.length - 1])) {
+        // The trailing expression becomes the return value instead of running twice
+        statements.length = lastStart;
         statements.push(ts.factory.createReturnStatement(convertIRExpr(node.body[node.body.length - 1])));
       }
     }
@@ -541,13 +591,75 @@ export function convertGetAndCall(node: IR.IRGetAndCall): ts.Expression {
 
 export function execute<T>(node: IR.IRNode | any, context: string, fn: () => T): T {
   try {
-    return fn();
+    return recordSourceMapRange(fn(), node);
   } catch (error) {
     if (error instanceof CodeGenError) throw error;
     throw new CodeGenError(
       `Failed to convert ${context}: ${error instanceof Error ? error.message : String(error)}`,
       context,
       node,
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.CODEGEN_ERROR));
   }
-}
\ No newline at end of file
+}
+
+/* Whether HQL type annotations are written into the generated code */
+let typeAnnotations = false;
+
+/**
+ * Write the types of fx and typed fn signatures into the generated code,
+ * producing TypeScript rather than plain JavaScript
+ */
+export function setTypeAnnotations(enabled: boolean): void {
+  typeAnnotations = enabled;
+}
+
+export function emitsTypeAnnotations(): boolean {
+  return typeAnnotations;
+}
+
+/**
+ * The TypeScript type for an HQL annotation, or undefined when types are
+ * not being emitted
+ */
+export function typeAnnotation(type: string | undefined): ts.TypeNode | undefined {
+  return typeAnnotations && type ? convertHqlType(type) : undefined;
+}
+
+/* HQL source that IR positions point into, with the offset of each line */
+let sourceMapSource: { source: ts.SourceMapSource; lineStarts: number[] } | null = null;
+
+/**
+ * Set the HQL source whose positions are recorded as source map ranges
+ * while converting IR. Pass null to stop recording.
+ */
+export function setSourceMapSource(source: ts.SourceMapSource | null): void {
+  if (!source) {
+    sourceMapSource = null;
+    return;
+  }
+  const lineStarts = [0];
+  for (let i = 0; i < source.text.length; i++) {
+    if (source.text[i] === "\n") lineStarts.push(i + 1);
+  }
+  sourceMapSource = { source, lineStarts };
+}
+
+/**
+ * Point the TS nodes generated for an IR node back at its HQL position.
+ * Positions from other files, such as macro templates, are left unmapped.
+ */
+function recordSourceMapRange<T>(result: T, node: IR.IRNode | undefined): T {
+  const position = node?.position;
+  if (!sourceMapSource || !result || !position?.line) return result;
+  const { source, lineStarts } = sourceMapSource;
+  if (position.filePath !== source.fileName || position.line > lineStarts.length) return result;
+
+  const pos = lineStarts[position.line - 1] + (position.column ?? 1) - 1;
+  for (const tsNode of (Array.isArray(result) ? result : [result]) as ts.Node[]) {
+    // Nodes handed back from a nested conversion keep their more precise range
+    if (typeof tsNode?.kind === "number" && ts.getSourceMapRange(tsNode).pos < 0) {
+      ts.setSourceMapRange(tsNode, { pos, end: -1, source });
+    }
+  }
+  return result;
+}
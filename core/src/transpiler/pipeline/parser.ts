@@ -11,9 +11,10 @@ import {
   isSymbol
 } from "../../s-exp/types.ts";
 import { ParseError } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { attachSourceLocation } from "../../common/syntax-error-handler.ts";
 
-enum TokenType {
+export enum TokenType {
   LeftParen,
   RightParen,
   LeftBracket,
@@ -35,66 +36,259 @@ enum TokenType {
   Whitespace,
 }
 
-interface Token {
+export interface Token {
   type: TokenType;
   value: string;
   position: SourcePosition;
 }
 
-interface SourcePosition {
+export interface SourcePosition {
   line: number;
   column: number;
   offset: number;
   filePath: string;
 }
 
+// Sticky patterns match at `lastIndex` only, so the scanner tries them at its
+// offset without slicing off the rest of the input
 const TOKEN_PATTERNS = {
-  SPECIAL_TOKENS: /^(#\[|\(|\)|\[|\]|\{|\}|\.|\:|,|'|`|~@|~)/,
-  STRING: /^"(?:\\.|[^\\"])*"/,
-  COMMENT: /^(;.*|\/\/.*|\/\*[\s\S]*?\*\/)/,
-  WHITESPACE: /^\s+/,
-  SYMBOL: /^[^\s\(\)\[\]\{\}"'`,;]+/,
+  STRING: /"(?:\\.|[^\\"])*"/y,
+  COMMENT: /;.*|\/\/.*|\/\*[\s\S]*?\*\//y,
+  WHITESPACE: /\s+/y,
+  SYMBOL: /[^\s()[\]{}"'`,;]+/y,
 };
 
+const SPECIAL_CHARS = new Set(["(", ")", "[", "]", "{", "}", ".", ":", ",", "'", "`", "~"]);
+
+/**
+ * The forms of a file together with every syntax error found in it. Forms
+ * that could not be read are left out; unclosed collections are kept with
+ * the elements read before the error.
+ */
+export interface ParseResult {
+  nodes: SExp[];
+  errors: ParseError[];
+}
+
+/**
+ * Parse a file, throwing its first syntax error. The other syntax errors of
+ * the file are attached to it as `additionalErrors`.
+ */
 export function parse(input: string, filePath: string = ""): SExp[] {
-  const tokens = tokenize(input, filePath);
-  
-  // We don't call validateTokenBalance here to avoid regressions
-  
-  return parseTokens(tokens, input, filePath);
+  const { nodes, errors } = parseWithRecovery(input, filePath);
+  if (errors.length > 0) {
+    const [first, ...rest] = errors;
+    first.additionalErrors = rest;
+    throw first;
+  }
+  return nodes;
 }
 
-function tokenize(input: string, filePath: string): Token[] {
-  const tokens: Token[] = [];
-  let remaining = input, line = 1, column = 1, offset = 0;
-  
-  while (remaining.length > 0) {
-    const token = matchNextToken(remaining, line, column, offset, filePath);
-    
-    if (token.type === TokenType.Comment || token.type === TokenType.Whitespace) {
-      // Update position info but don't add these token types
-      for (const char of token.value) {
-        if (char === "\n") {
-          line++;
-          column = 1;
-        } else {
-          column++;
-        }
-      }
-    } else {
-      tokens.push(token);
+/**
+ * Parse a file without stopping at the first syntax error. Each top-level
+ * form is read on its own, so one mistake does not swallow the rest of the
+ * file; inside a form left unclosed, reading resumes at the next form
+ * starting in column 1.
+ */
+export function parseWithRecovery(input: string, filePath: string = ""): ParseResult {
+  const nodes: SExp[] = [];
+  const errors: ParseError[] = [];
+  for (const form of parseIncremental(input, filePath)) {
+    nodes.push(...form.nodes);
+    errors.push(...form.errors);
+  }
+  return { nodes, errors: sortErrors(errors) };
+}
+
+/**
+ * Parse a file one top-level form at a time, lexing only as far as the form
+ * being read.
+ *
+ * Each result holds one form with its syntax errors. A form left unclosed
+ * runs to the end of the input, where the forms after it are recovered as
+ * in `parseWithRecovery`; a stray closing delimiter is a result of its own
+ * with no nodes.
+ */
+function* parseIncremental(input: string, filePath: string = ""): Generator<ParseResult> {
+  const scanner = createScanner(input, filePath);
+  while (true) {
+    const errors: ParseError[] = [];
+    const tokens = readTopLevelForm(scanner, errors);
+    if (tokens.length === 0) {
+      // Only characters that start no token were left
+      if (errors.length > 0) yield { nodes: [], errors };
+      return;
     }
-    
-    offset += token.value.length;
-    remaining = remaining.substring(token.value.length);
-    if (token.type !== TokenType.Comment && token.type !== TokenType.Whitespace) {
-      column += token.value.length;
+    const nodes = parseTokens(tokens, input, filePath, errors);
+    yield { nodes, errors: sortErrors(errors) };
+  }
+}
+
+function sortErrors(errors: ParseError[]): ParseError[] {
+  return errors.sort((a, b) =>
+    (a.sourceLocation.line ?? 0) - (b.sourceLocation.line ?? 0) ||
+    (a.sourceLocation.column ?? 0) - (b.sourceLocation.column ?? 0)
+  );
+}
+
+interface TokenizeOptions {
+  keepComments?: boolean;
+  errors?: ParseError[];
+}
+
+/**
+ * Split source into tokens. Comments are dropped unless `keepComments` is
+ * set, which the formatter uses to carry them through; whitespace is
+ * always dropped. With `errors`, characters that start no token are
+ * recorded there and skipped instead of thrown.
+ */
+export function tokenize(input: string, filePath: string = "", options: TokenizeOptions = {}): Token[] {
+  const scanner = createScanner(input, filePath);
+  const tokens: Token[] = [];
+  for (let token = nextToken(scanner, options); token; token = nextToken(scanner, options)) {
+    tokens.push(token);
+  }
+  return tokens;
+}
+
+/**
+ * Read position of the lexer in its input
+ */
+interface Scanner {
+  input: string;
+  filePath: string;
+  offset: number;
+  line: number;
+  column: number;
+}
+
+function createScanner(input: string, filePath: string): Scanner {
+  return { input, filePath, offset: 0, line: 1, column: 1 };
+}
+
+/**
+ * The tokens of the next top-level form: an atom, or a collection up to the
+ * delimiter that closes it, with any quote or unquote prefixes. Opening
+ * delimiters are tracked as the parser does, so a delimiter closing an
+ * enclosing collection also closes the ones inside it. Returns no tokens at
+ * the end of the input.
+ */
+function readTopLevelForm(scanner: Scanner, errors: ParseError[]): Token[] {
+  const tokens: Token[] = [];
+  const openers: Token[] = [];
+  for (let token = nextToken(scanner, { errors }); token; token = nextToken(scanner, { errors })) {
+    tokens.push(token);
+    if (OPENING_TYPES.has(token.type)) {
+      openers.push(token);
+    } else if (CLOSING_TYPES.has(token.type)) {
+      const closed = openers.findLastIndex((open) => COLLECTIONS[open.value].closer === token.type);
+      if (closed !== -1) openers.length = closed;
+    } else if (PREFIX_TYPES.has(token.type)) {
+      continue;
+    } else if (token.type === TokenType.Dot && !/\s/.test(scanner.input[scanner.offset] ?? "")) {
+      // The token right after a dot is read as a property name, whatever it is
+      const property = nextToken(scanner, { errors });
+      if (property) tokens.push(property);
     }
+    if (openers.length === 0) break;
   }
-  
   return tokens;
 }
 
+// Tokens that apply to the expression after them
+const PREFIX_TYPES = new Set([TokenType.Quote, TokenType.Backtick, TokenType.Unquote, TokenType.UnquoteSplicing]);
+
+/**
+ * The next token that is not whitespace, or a comment unless comments are
+ * kept. Returns undefined at the end of the input.
+ */
+function nextToken(scanner: Scanner, options: TokenizeOptions): Token | undefined {
+  while (scanner.offset < scanner.input.length) {
+    let token: Token;
+    try {
+      token = scanToken(scanner);
+    } catch (error) {
+      if (!options.errors || !(error instanceof ParseError)) throw error;
+      options.errors.push(error);
+      advance(scanner, scanner.input[scanner.offset]);
+      continue;
+    }
+    if (token.type === TokenType.Whitespace) continue;
+    if (token.type === TokenType.Comment && !options.keepComments) continue;
+    return token;
+  }
+  return undefined;
+}
+
+/**
+ * Read the token at the scanner's offset and move past it. The first
+ * character decides which pattern can match, so each token is matched once.
+ */
+function scanToken(scanner: Scanner): Token {
+  const { input, line, column, offset, filePath } = scanner;
+  const position: SourcePosition = { line, column, offset, filePath };
+  const char = input[offset];
+  let type: TokenType;
+  let value: string | undefined;
+
+  if (char === "~" && input[offset + 1] === "@") {
+    value = "~@";
+  } else if (char === "#" && input[offset + 1] === "[") {
+    value = "#[";
+  } else if (SPECIAL_CHARS.has(char)) {
+    value = char;
+  }
+
+  if (value !== undefined) {
+    type = getTokenTypeForSpecial(value);
+  } else if (char === '"') {
+    value = matchAt(TOKEN_PATTERNS.STRING, scanner);
+    if (value === undefined) {
+      // The error shows the source line, so the message does not repeat it
+      throw new ParseError(
+        `Unexpected character: '${char}' at line ${line}, column ${column}`,
+        { line, column, filePath, source: input },
+      ).withCode(ErrorCode.UNEXPECTED_CHARACTER);
+    }
+    type = TokenType.String;
+  } else if ((char === ";" || char === "/") && (value = matchAt(TOKEN_PATTERNS.COMMENT, scanner)) !== undefined) {
+    type = TokenType.Comment;
+  } else if ((value = matchAt(TOKEN_PATTERNS.WHITESPACE, scanner)) !== undefined) {
+    type = TokenType.Whitespace;
+  } else {
+    // Every character left starts a symbol
+    value = matchAt(TOKEN_PATTERNS.SYMBOL, scanner)!;
+    type = isNaN(Number(value)) ? TokenType.Symbol : TokenType.Number;
+  }
+
+  advance(scanner, value);
+  return { type, value, position };
+}
+
+function matchAt(pattern: RegExp, scanner: Scanner): string | undefined {
+  pattern.lastIndex = scanner.offset;
+  return pattern.exec(scanner.input)?.[0];
+}
+
+/**
+ * Move the scanner past text read at its offset, counting the lines it spans
+ */
+function advance(scanner: Scanner, text: string): void {
+  scanner.offset += text.length;
+  let newline = text.indexOf("\n");
+  if (newline === -1) {
+    scanner.column += text.length;
+    return;
+  }
+  let last = newline;
+  while (newline !== -1) {
+    scanner.line++;
+    last = newline;
+    newline = text.indexOf("\n", newline + 1);
+  }
+  scanner.column = text.length - last;
+}
+
 function getTokenTypeForSpecial(value: string): TokenType {
   switch (value) {
     case "(": return TokenType.LeftParen;
@@ -115,22 +309,179 @@ function getTokenTypeForSpecial(value: string): TokenType {
   }
 }
 
-function parseTokens(tokens: Token[], input: string, filePath: string): SExp[] {
-  const state: ParserState = { tokens, currentPos: 0, input, filePath };
+function parseTokens(tokens: Token[], input: string, filePath: string, errors?: ParseError[]): SExp[] {
+  const state: ParserState = { tokens, currentPos: 0, input, filePath, openers: [] };
   const nodes: SExp[] = [];
   
   while (state.currentPos < state.tokens.length) {
-    nodes.push(parseExpression(state));
+    const start = state.currentPos;
+    try {
+      nodes.push(parseExpression(state));
+      continue;
+    } catch (error) {
+      if (!errors || !(error instanceof ParseError)) throw error;
+      // Read the failed form again on its own, collecting its errors
+      const end = nextTopLevelForm(tokens, start);
+      const found = errors.length;
+      nodes.push(...parseSegment(tokens.slice(start, end), input, filePath, errors));
+      if (errors.length === found) errors.push(error);
+      state.currentPos = end;
+      state.openers = [];
+    }
   }
   
   return nodes;
 }
 
+/**
+ * Parse the tokens of a broken form, recording errors instead of throwing
+ * them. Delimiter errors keep the partial form; any other error drops the
+ * rest of the segment.
+ */
+function parseSegment(tokens: Token[], input: string, filePath: string, errors: ParseError[]): SExp[] {
+  const state: ParserState = { tokens, currentPos: 0, input, filePath, openers: [], errors };
+  const nodes: SExp[] = [];
+  
+  while (state.currentPos < state.tokens.length) {
+    const token = state.tokens[state.currentPos];
+    if (CLOSING_TYPES.has(token.type)) {
+      errors.push(unexpectedClosingError(state, token));
+      state.currentPos++;
+      continue;
+    }
+    try {
+      nodes.push(parseExpression(state));
+    } catch (error) {
+      if (!(error instanceof ParseError)) throw error;
+      errors.push(error);
+      break;
+    }
+  }
+  
+  return nodes;
+}
+
+/**
+ * Index of the next form that starts a line in column 1 after the form at
+ * `start`, where parsing resumes after an error
+ */
+function nextTopLevelForm(tokens: Token[], start: number): number {
+  const line = tokens[start].position.line;
+  for (let i = start + 1; i < tokens.length; i++) {
+    const { position, type } = tokens[i];
+    if (position.line > line && position.column === 1 && OPENING_TYPES.has(type)) return i;
+  }
+  return tokens.length;
+}
+
 interface ParserState {
   tokens: Token[];
   currentPos: number;
   input: string;
   filePath: string;
+  // Opening delimiters of the collections being read, innermost last
+  openers: Token[];
+  // Set while recovering: delimiter errors are recorded here, not thrown
+  errors?: ParseError[];
+  // Whether an unclosed collection was reported at the end of the input
+  reportedEnd?: boolean;
+}
+
+const OPENING_TYPES = new Set([
+  TokenType.LeftParen,
+  TokenType.LeftBracket,
+  TokenType.LeftBrace,
+  TokenType.HashLeftBracket,
+]);
+
+const CLOSING_TYPES = new Set([TokenType.RightParen, TokenType.RightBracket, TokenType.RightBrace]);
+
+const COLLECTIONS: Record<string, { name: string; closer: TokenType; delimiter: string; code: ErrorCode }> = {
+  "(": { name: "list", closer: TokenType.RightParen, delimiter: "parenthesis ')'", code: ErrorCode.UNCLOSED_LIST },
+  "[": { name: "vector", closer: TokenType.RightBracket, delimiter: "bracket ']'", code: ErrorCode.UNCLOSED_VECTOR },
+  "{": { name: "map", closer: TokenType.RightBrace, delimiter: "brace '}'", code: ErrorCode.UNCLOSED_MAP },
+  "#[": { name: "set", closer: TokenType.RightBracket, delimiter: "bracket ']'", code: ErrorCode.UNCLOSED_SET },
+};
+
+/**
+ * Decide whether the collection opened by the innermost opener goes on.
+ * Returns "closed" at its closing delimiter, which the caller consumes, and
+ * "unclosed" when the input ends or a delimiter closes an enclosing
+ * collection instead. Stray closing delimiters are skipped while recovering.
+ * When the input ends, only the innermost unclosed collection is reported.
+ */
+function collectionEnd(state: ParserState): "open" | "closed" | "unclosed" {
+  const opener = state.openers[state.openers.length - 1];
+  const { closer } = COLLECTIONS[opener.value];
+  while (state.currentPos < state.tokens.length) {
+    const token = state.tokens[state.currentPos];
+    if (token.type === closer) return "closed";
+    if (!CLOSING_TYPES.has(token.type)) return "open";
+    if (state.openers.some((open) => COLLECTIONS[open.value].closer === token.type)) {
+      report(state, unclosedError(opener, token));
+      return "unclosed";
+    }
+    report(state, unexpectedClosingError(state, token));
+    state.currentPos++;
+  }
+  if (!state.reportedEnd) report(state, unclosedError(opener));
+  state.reportedEnd = true;
+  return "unclosed";
+}
+
+/**
+ * Enter a collection whose opening delimiter was just read
+ */
+function openCollection(state: ParserState): Token {
+  const opener = state.tokens[state.currentPos - 1];
+  state.openers.push(opener);
+  return opener;
+}
+
+/**
+ * Leave the innermost collection, consuming its closing delimiter if found
+ */
+function closeCollection(state: ParserState, end: "closed" | "unclosed"): void {
+  if (end === "closed") state.currentPos++;
+  state.openers.pop();
+}
+
+/**
+ * Record a delimiter error while recovering, throw it otherwise
+ */
+function report(state: ParserState, error: ParseError): void {
+  if (!state.errors) throw error;
+  state.errors.push(error);
+}
+
+/**
+ * Error for a collection that is never closed, located on its opening
+ * delimiter. `found` is the delimiter that closed an enclosing collection
+ * first; without it, the input ended.
+ */
+function unclosedError(opener: Token, found?: Token): ParseError {
+  const { name, delimiter, code } = COLLECTIONS[opener.value];
+  const { line, column } = opener.position;
+  const before = found ? ` before '${found.value}' on line ${found.position.line}` : "";
+  return new ParseError(
+    `Unclosed ${name} starting at line ${line}, column ${column}. Check for a missing closing ${delimiter}${before}`,
+    { ...opener.position, end: { line, column: column + opener.value.length } },
+  ).withCode(code);
+}
+
+/**
+ * Error for a closing delimiter that closes nothing
+ */
+function unexpectedClosingError(state: ParserState, token: Token): ParseError {
+  const opening = token.value === ")" ? "(" : token.value === "]" ? "[" : "{";
+  const context = token.type === TokenType.RightParen
+    ? `\nContext: ${getLineContext(state.input, token.position.line)}`
+    : "";
+  const { line, column } = token.position;
+  return new ParseError(
+    `Unexpected '${token.value}' - Check for a missing opening '${opening}' in previous lines.${context}`,
+    { ...token.position, end: { line, column: column + 1 } },
+  ).withCode(ErrorCode.UNEXPECTED_CLOSING_DELIMITER);
 }
 
 function parseExpression(state: ParserState): SExp {
@@ -138,7 +489,7 @@ function parseExpression(state: ParserState): SExp {
     const lastPos = state.tokens.length > 0
       ? state.tokens[state.tokens.length - 1].position
       : { line: 1, column: 1, offset: 0, filePath: state.filePath };
-    throw new ParseError("Unexpected end of input", lastPos);
+    throw new ParseError("Unexpected end of input", lastPos).withCode(ErrorCode.UNEXPECTED_END_OF_INPUT);
   }
   
   const token = state.tokens[state.currentPos++];
@@ -152,29 +503,16 @@ function parseExpressionByTokenType(token: Token, state: ParserState): SExp {
     case TokenType.LeftParen: 
       result = parseList(state, token.position);
       break;
-    case TokenType.RightParen: {
-      const lineContext = getLineContext(state.input, token.position.line);
-      throw new ParseError(
-        `Unexpected ')' - Check for a missing opening '(' in previous lines.\nContext: ${lineContext}`, 
-        token.position
-      ); 
-    }
+    case TokenType.RightParen:
+    case TokenType.RightBracket:
+    case TokenType.RightBrace:
+      throw unexpectedClosingError(state, token);
     case TokenType.LeftBracket: 
       result = parseVector(state, token.position);
       break;
-    case TokenType.RightBracket: 
-      throw new ParseError(
-        `Unexpected ']' - Check for a missing opening '[' in previous lines.`, 
-        token.position
-      );
     case TokenType.LeftBrace: 
       result = parseMap(state, token.position);
       break;
-    case TokenType.RightBrace: 
-      throw new ParseError(
-        `Unexpected '}' - Check for a missing opening '{' in previous lines.`, 
-        token.position
-      );
     case TokenType.HashLeftBracket: 
       result = parseSet(state, token.position);
       break;
@@ -213,8 +551,14 @@ function parseExpressionByTokenType(token: Token, state: ParserState): SExp {
     case TokenType.Symbol: 
       result = parseSymbol(token.value);
       break;
+    case TokenType.Colon:
+      // Clojure-style keywords, e.g. {:name "John"}
+      throw new ParseError(
+        "Unexpected ':'. Map keys are strings or symbols followed by ':', e.g. {\"name\": \"John\"}",
+        token.position,
+      ).withCode(ErrorCode.INVALID_MAP_LITERAL);
     default: 
-      throw new ParseError(`Unexpected token type: ${token.type}`, token.position);
+      throw new ParseError(`Unexpected token type: ${token.type}`, token.position).withCode(ErrorCode.UNEXPECTED_TOKEN);
   }
   
   // Attach source location to result
@@ -262,7 +606,7 @@ function parseImportStatement(elements: SExp[]): SList {
                 column: (thirdElement._meta?.column || 1),
                 filePath: (thirdElement._meta?.filePath || "")
               }
-            );
+            ).withCode(ErrorCode.INVALID_IMPORT_SYNTAX);
           }
         }
         // This is a named import - it's already structured correctly
@@ -285,7 +629,7 @@ function parseImportStatement(elements: SExp[]): SList {
                 column: (thirdElement._meta?.column || 1),
                 filePath: (thirdElement._meta?.filePath || "")
               }
-            );
+            ).withCode(ErrorCode.INVALID_IMPORT_SYNTAX);
           }
           
           // Valid namespace import pattern
@@ -302,7 +646,7 @@ function parseImportStatement(elements: SExp[]): SList {
         column: (elements[0]._meta?.column || 1),
         filePath: (elements[0]._meta?.filePath || "")
       }
-    );
+    ).withCode(ErrorCode.INVALID_IMPORT_SYNTAX);
   }
   
   // If we get here, it's not a special case or not an import, so just return a normal list
@@ -310,6 +654,13 @@ function parseImportStatement(elements: SExp[]): SList {
 }
 
 function parseDotAccess(state: ParserState, dotToken: Token): SExp {
+  // A dot followed by whitespace is the head of (. obj method args...)
+  const next = state.tokens[state.currentPos];
+  if (next && next.position.offset !== dotToken.position.offset + 1) {
+    const dot = createSymbol(".");
+    attachSourceLocation(dot, state.filePath, dotToken.position.line, dotToken.position.column);
+    return dot;
+  }
   if (state.currentPos < state.tokens.length) {
     const nextToken = state.tokens[state.currentPos++];
     const result = createSymbol("." + nextToken.value);
@@ -319,7 +670,7 @@ function parseDotAccess(state: ParserState, dotToken: Token): SExp {
     
     return result;
   }
-  throw new ParseError("Expected property name after '.'", dotToken.position);
+  throw new ParseError("Expected property name after '.'", dotToken.position).withCode(ErrorCode.MISSING_PROPERTY_NAME);
 }
 
 function parseStringLiteral(tokenValue: string): SExp {
@@ -359,6 +710,7 @@ function parseDotNotation(tokenValue: string): SExp {
  */
 function parseList(state: ParserState, listStartPos: SourcePosition): SList {
   const elements: SExp[] = [];
+  openCollection(state);
   
   // Check if this might be an enum declaration
   let isEnum = false;
@@ -385,14 +737,9 @@ function parseList(state: ParserState, listStartPos: SourcePosition): SList {
     importKeywordFound = true;
   }
 
-  const listStartLine = listStartPos.line;
-  let currentLine = listStartLine;
-
   // Process all tokens until we reach the closing parenthesis
-  while (
-    state.currentPos < state.tokens.length &&
-    state.tokens[state.currentPos].type !== TokenType.RightParen
-  ) {
+  let end: ReturnType<typeof collectionEnd>;
+  while ((end = collectionEnd(state)) === "open") {
     // Special handling for enum syntax with separate colon
     if (isEnum && elements.length === 2 && 
         state.tokens[state.currentPos].type === TokenType.Colon) {
@@ -419,7 +766,7 @@ function parseList(state: ParserState, listStartPos: SourcePosition): SList {
         throw new ParseError(
           "Expected type name after colon in enum declaration", 
           state.tokens[state.currentPos - 1].position
-        );
+        ).withCode(ErrorCode.MISSING_ENUM_TYPE);
       }
     }
     
@@ -447,13 +794,16 @@ function parseList(state: ParserState, listStartPos: SourcePosition): SList {
       state.currentPos++;
       
       // Parse the expression that follows the parameter name
-      if (state.currentPos < state.tokens.length) {
+      if (
+        state.currentPos < state.tokens.length &&
+        !CLOSING_TYPES.has(state.tokens[state.currentPos].type)
+      ) {
         elements.push(parseExpression(state));
       } else {
         throw new ParseError(
           `Expected value after parameter name '${state.tokens[state.currentPos-1].value}'`, 
           state.tokens[state.currentPos-1].position
-        );
+        ).withCode(ErrorCode.MISSING_NAMED_ARGUMENT_VALUE);
       }
     }
     
@@ -486,58 +836,8 @@ function parseList(state: ParserState, listStartPos: SourcePosition): SList {
     } else {
       elements.push(parseExpression(state));
     }
-    
-    // Update the current line tracking for better error messaging
-    if (state.currentPos < state.tokens.length) {
-      const currentToken = state.tokens[state.currentPos];
-      currentLine = currentToken.position.line;
-    }
-  }
-  
-  // Check for unclosed list
-  if (state.currentPos >= state.tokens.length) {
-    // Extract file information from the source if available
-    let errorMessage = "Unclosed list";
-    
-    if (state.input) {
-      // Get a more accurate column position
-      // First, determine the line where the unclosed list starts
-      const lines = state.input.split('\n');
-      const lineNumber = listStartPos.line;
-      
-      // Get the line of text where the error occurred
-      const errorLine = lines[lineNumber - 1] || "";
-      
-      // For better error reporting, identify the full expression that is unclosed
-      // Point to the end of the line where the closing parenthesis should be
-      const lastColumn = errorLine.length;
-      
-      // Add more context to the error message
-      errorMessage = `Unclosed list starting at line ${lineNumber}. Check for a missing closing parenthesis ')'`;
-      
-      // Create a precise error position that points to the end of the line
-      // where the closing parenthesis is likely missing
-      throw new ParseError(errorMessage, {
-        line: lineNumber,
-        column: lastColumn, // Point to the end of the line
-        offset: listStartPos.offset + errorLine.length,
-        filePath: state.filePath
-      });
-    } else {
-      // Fallback to less precise position if input source isn't available
-      const lastTokenPos = state.tokens.length > 0 
-        ? state.tokens[state.tokens.length - 1].position 
-        : listStartPos;
-        
-      throw new ParseError(errorMessage, lastTokenPos);
-    }
   }
-  
-  // Get the closing position for better error location
-  const closePos = state.tokens[state.currentPos].position;
-  
-  // Move past the closing parenthesis
-  state.currentPos++;
+  closeCollection(state, end);
   
   // Check if this is an import statement and handle it specially
   let result: SList;
@@ -558,89 +858,16 @@ function parseList(state: ParserState, listStartPos: SourcePosition): SList {
   return result;
 }
 
-/**
- * Match the next token from the input string with enhanced error context
- * Improves error messages and location tracking
- */
-function matchNextToken(input: string, line: number, column: number, offset: number, filePath: string): Token {
-  const position: SourcePosition = { line, column, offset, filePath };
-  
-  // Define patterns to match
-  let match;
-  
-  // First check for special tokens
-  match = input.match(TOKEN_PATTERNS.SPECIAL_TOKENS);
-  if (match) return { type: getTokenTypeForSpecial(match[0]), value: match[0], position };
-  
-  // Then check for strings
-  match = input.match(TOKEN_PATTERNS.STRING);
-  if (match) return { type: TokenType.String, value: match[0], position };
-  
-  // Then check for comments
-  match = input.match(TOKEN_PATTERNS.COMMENT);
-  if (match) return { type: TokenType.Comment, value: match[0], position };
-  
-  // Then check for whitespace
-  match = input.match(TOKEN_PATTERNS.WHITESPACE);
-  if (match) return { type: TokenType.Whitespace, value: match[0], position };
-  
-  // Finally check for symbols
-  match = input.match(TOKEN_PATTERNS.SYMBOL);
-  if (match) {
-    const value = match[0];
-    // If it's a number, return as number token
-    if (!isNaN(Number(value))) return { type: TokenType.Number, value, position };
-    // Otherwise return as symbol token
-    return { type: TokenType.Symbol, value, position };
-  }
-  
-  // If we get here, there's an unexpected character
-  // Provide enhanced error context
-  let unexpectedChar = input[0] || "end of file";
-  let errorContext = "";
-  
-  // Get some context for a better error message
-  try {
-    if (filePath) {
-      const content = Deno.readTextFileSync(filePath);
-      const lines = content.split('\n');
-      
-      if (line > 0 && line <= lines.length) {
-        const lineContent = lines[line - 1];
-        // Create a pointer to the unexpected character
-        const pointer = ' '.repeat(column - 1) + '^';
-        errorContext = `\n${lineContent}\n${pointer}`;
-      }
-    }
-  } catch (_e) {
-    // If we can't read the file, continue without extra context
-  }
-  
-  throw new ParseError(
-    `Unexpected character: '${unexpectedChar}' at line ${line}, column ${column}${errorContext}`, 
-    position, 
-    input
-  );
-}
-
 function parseVector(state: ParserState, startPos: SourcePosition): SList {
   const elements: SExp[] = [];
-  while (
-    state.currentPos < state.tokens.length &&
-    state.tokens[state.currentPos].type !== TokenType.RightBracket
-  ) {
+  openCollection(state);
+  let end: ReturnType<typeof collectionEnd>;
+  while ((end = collectionEnd(state)) === "open") {
     elements.push(parseExpression(state));
     if (state.currentPos < state.tokens.length && state.tokens[state.currentPos].type === TokenType.Comma)
       state.currentPos++;
   }
-  if (state.currentPos >= state.tokens.length)
-    throw new ParseError("Unclosed vector", startPos);
-  
-  // Get end position for better error location
-  const endPos = state.tokens[state.currentPos].position;
-  
-  // Move past the closing bracket
-  state.currentPos++;
+  closeCollection(state, end);
   
   let result: SList;
   if (elements.length === 0) {
@@ -662,34 +889,30 @@ function parseVector(state: ParserState, startPos: SourcePosition): SList {
 
 function parseMap(state: ParserState, startPos: SourcePosition): SList {
   const entries: SExp[] = [];
-  while (
-    state.currentPos < state.tokens.length &&
-    state.tokens[state.currentPos].type !== TokenType.RightBrace
-  ) {
-    const key = parseExpression(state);
-    if (
+  openCollection(state);
+  let end: ReturnType<typeof collectionEnd>;
+  while ((end = collectionEnd(state)) === "open") {
+    let key = parseExpression(state);
+    // {name: value} tokenizes the key as the symbol "name:"
+    if (isSymbol(key) && key.name.length > 1 && key.name.endsWith(":")) {
+      key = createSymbol(key.name.slice(0, -1));
+    } else if (
       state.currentPos >= state.tokens.length ||
       state.tokens[state.currentPos].type !== TokenType.Colon
     ) {
       const errorPos = state.currentPos < state.tokens.length
         ? state.tokens[state.currentPos].position
         : startPos;
-      throw new ParseError("Expected ':' in map literal", errorPos);
+      throw new ParseError("Expected ':' in map literal", errorPos).withCode(ErrorCode.INVALID_MAP_LITERAL);
+    } else {
+      state.currentPos++;
     }
-    state.currentPos++;
     const value = parseExpression(state);
     entries.push(key, value);
     if (state.currentPos < state.tokens.length && state.tokens[state.currentPos].type === TokenType.Comma)
       state.currentPos++;
   }
-  if (state.currentPos >= state.tokens.length)
-    throw new ParseError("Unclosed map", startPos);
-  
-  // Get end position
-  const endPos = state.tokens[state.currentPos].position;
-  
-  // Move past the closing brace
-  state.currentPos++;
+  closeCollection(state, end);
   
   let result: SList;
   if (entries.length === 0) {
@@ -711,22 +934,14 @@ function parseMap(state: ParserState, startPos: SourcePosition): SList {
 
 function parseSet(state: ParserState, startPos: SourcePosition): SList {
   const elements: SExp[] = [];
-  while (
-    state.currentPos < state.tokens.length &&
-    state.tokens[state.currentPos].type !== TokenType.RightBracket
-  ) {
+  openCollection(state);
+  let end: ReturnType<typeof collectionEnd>;
+  while ((end = collectionEnd(state)) === "open") {
     elements.push(parseExpression(state));
     if (state.currentPos < state.tokens.length && state.tokens[state.currentPos].type === TokenType.Comma)
       state.currentPos++;
   }
-  if (state.currentPos >= state.tokens.length)
-    throw new ParseError("Unclosed set", startPos);
-  
-  // Get end position
-  const endPos = state.tokens[state.currentPos].position;
-  
-  // Move past the closing bracket
-  state.currentPos++;
+  closeCollection(state, end);
   
   let result: SList;
   if (elements.length === 0) {
@@ -5,14 +5,18 @@ import {
   createLiteral,
   createList,
   createSymbol,
+  inheritSExpLocation,
   isList,
+  isReturnTypeList,
   isSymbol,
+  MACRO_DEFINITION_FORMS,
   SExp,
   SList,
   SSymbol,
 } from "../../s-exp/types.ts";
 import { Logger, globalLogger as logger } from "../../logger.ts";
 import { TransformError, perform } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 import { withSourceLocationOpts } from "../utils/source_location_utils.ts";
 import { ListNode, SymbolNode } from "../type/hql_ast.ts";
 import { globalSymbolTable } from "../symbol_table.ts";
@@ -48,18 +52,13 @@ export function transformSyntax(ast: SExp[]): SExp[] {
           if (isList(el) && el.elements.length > 1 && isSymbol(el.elements[0]) && (el.elements[0] as SSymbol).name === "case") {
             const caseName = (el.elements[1] as SSymbol)?.name;
             if (caseName) cases.push(caseName);
-            if (el.elements.length > 2 && isList(el.elements[2])) {
-              for (const field of (el.elements[2] as SList).elements) {
-                if (isSymbol(field)) {
-                  const fieldStr = (field as SSymbol).name;
-                  if (fieldStr.includes(":")) {
-                    const [fname, ftype] = fieldStr.split(":");
-                    associatedValues.push({ name: fname, type: ftype });
-                  }
-                }
-              }
-            }
-            globalSymbolTable.set({ name: `${enumName}.${caseName}`, kind: "enum-case", parent: enumName, scope: "global", associatedValues, definition: el });
+            const caseValues = parseAssociatedValues(
+              el.elements.length > 2 && isList(el.elements[2])
+                ? (el.elements[2] as SList).elements
+                : el.elements.slice(2)
+            );
+            associatedValues.push(...caseValues);
+            globalSymbolTable.set({ name: `${enumName}.${caseName}`, kind: "enum-case", parent: enumName, scope: "global", associatedValues: caseValues, definition: el });
           }
         }
         globalSymbolTable.set({ name: enumName, kind: "enum", cases, associatedValues, scope: "global", definition: list });
@@ -79,13 +78,15 @@ export function transformSyntax(ast: SExp[]): SExp[] {
           const fields: { name: string; type?: string }[] = [];
           const methods: { name: string; params?: { name: string; type?: string }[], returnType?: string }[] = [];
           for (let i = 2; i < list.elements.length; i++) {
-            const el = list.elements[i];
+            const el = isList(list.elements[i])
+              ? unwrapAsyncForm(list.elements[i] as SList)
+              : list.elements[i];
             if (isList(el) && el.elements.length > 0 && isSymbol(el.elements[0])) {
               const subHead = (el.elements[0] as SSymbol).name;
-              if (subHead === "field" && el.elements.length > 1 && isSymbol(el.elements[1])) {
+              if (["field", "var", "let"].includes(subHead) && el.elements.length > 1 && isSymbol(el.elements[1])) {
                 const fieldName = (el.elements[1] as SSymbol).name;
                 let fieldType = undefined;
-                if (el.elements.length > 2 && isSymbol(el.elements[2])) {
+                if (subHead === "field" && el.elements.length > 2 && isSymbol(el.elements[2])) {
                   fieldType = (el.elements[2] as SSymbol).name;
                 }
                 fields.push({ name: fieldName, type: fieldType });
@@ -109,7 +110,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                 }
                 if (el.elements.length > 3 && isList(el.elements[3])) {
                   const retList = el.elements[3] as SList;
-                  if (retList.elements.length > 1 && isSymbol(retList.elements[0]) && (retList.elements[0] as SSymbol).name === "->") {
+                  if (isReturnTypeList(retList)) {
                     if (isSymbol(retList.elements[1])) {
                       returnType = (retList.elements[1] as SSymbol).name;
                     }
@@ -130,12 +131,13 @@ export function transformSyntax(ast: SExp[]): SExp[] {
   // === Phase 3: Register functions, macros, fx ===
   for (const node of ast) {
     if (isList(node)) {
-      const list = node as SList;
+      const list = unwrapAsyncForm(node as SList);
       if (list.elements.length > 0 && isSymbol(list.elements[0])) {
         const head = (list.elements[0] as SSymbol).name;
-        if (["fn", "fx", "macro"].includes(head) && list.elements.length > 1 && isSymbol(list.elements[1])) {
+        const macro = MACRO_DEFINITION_FORMS.has(head);
+        if ((["fn", "fn*", "fx"].includes(head) || macro) && list.elements.length > 1 && isSymbol(list.elements[1])) {
           const name = (list.elements[1] as SSymbol).name;
-          const kind = head === "fn" ? "function" : (head === "fx" ? "fx" : "macro");
+          const kind = head === "fx" ? "fx" : (macro ? "macro" : "function");
           let params: { name: string; type?: string }[] | undefined = undefined;
           let returnType: string | undefined = undefined;
           if (list.elements.length > 2 && isList(list.elements[2])) {
@@ -153,7 +155,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
           }
           if (list.elements.length > 3 && isList(list.elements[3])) {
             const retList = list.elements[3] as SList;
-            if (retList.elements.length > 1 && isSymbol(retList.elements[0]) && (retList.elements[0] as SSymbol).name === "->") {
+            if (isReturnTypeList(retList)) {
               if (isSymbol(retList.elements[1])) {
                 returnType = (retList.elements[1] as SSymbol).name;
               }
@@ -193,6 +195,10 @@ export function transformSyntax(ast: SExp[]): SExp[] {
               
               logger.debug(`Registered let binding: ${varName} with type ${dataType}`);
             }
+            // Global destructuring form: (let [a b] value) or (let {name: n} value)
+            else if (list.elements.length === 3 && isBindingPattern(list.elements[1])) {
+              registerPatternBindings(list.elements[1] as SList, list.elements[2]);
+            }
             // Binding list form: (let (name1 value1 name2 value2...) body...)
             else if (list.elements.length > 1 && isList(list.elements[1])) {
               let bindings = list.elements[1] as SList;
@@ -215,7 +221,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                   "Let bindings require an even number of forms (pairs of name and value)",
                   "let bindings validation",
                   withSourceLocationOpts(errorLoc, list)
-                );
+                ).withCode(ErrorCode.ODD_BINDING_LIST);
               }
               
               // Process each binding pair
@@ -236,6 +242,8 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                   });
                   
                   logger.debug(`Registered let binding: ${varName} with type ${dataType}`);
+                } else if (i + 1 < bindings.elements.length && isBindingPattern(bindings.elements[i])) {
+                  registerPatternBindings(bindings.elements[i] as SList, bindings.elements[i + 1]);
                 } else if (i + 1 < bindings.elements.length) {
                   // Error: Binding name is not a symbol
                   const errorLoc = getLocationFromNode(bindings.elements[i]);
@@ -243,7 +251,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                     "Let binding name must be a symbol",
                     "let binding name validation",
                     withSourceLocationOpts(errorLoc, bindings.elements[i])
-                  );
+                  ).withCode(ErrorCode.INVALID_BINDING_NAME);
                 }
               }
             } else if (list.elements.length > 1) {
@@ -253,7 +261,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                 "Invalid let form: must be either (let name value) or (let (bindings...) body...)",
                 "let form validation",
                 withSourceLocationOpts(errorLoc, list)
-              );
+              ).withCode(ErrorCode.INVALID_BINDING_FORM);
             }
           } catch (error) {
             if (!(error instanceof TransformError)) {
@@ -262,7 +270,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
                 `Invalid let form: ${error instanceof Error ? error.message : String(error)}`,
                 "let form validation",
                 withSourceLocationOpts(errorLoc, list)
-              );
+              ).withCode(errorCodeOf(error, ErrorCode.INVALID_BINDING_FORM));
             }
             throw error;
           }
@@ -312,7 +320,7 @@ export function transformSyntax(ast: SExp[]): SExp[] {
           `Transformation error: ${error instanceof Error ? error.message : String(error)}`,
           "node transformation",
           withSourceLocationOpts(errorLoc, node)
-        );
+        ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
       }
     }
   }
@@ -335,6 +343,68 @@ function getLocationFromNode(node: any): {filePath?: string, line?: number, colu
   return {};
 }
 
+/**
+ * Parse enum case associated values written as `name: Type` or `name:Type`
+ */
+function parseAssociatedValues(fields: SExp[]): { name: string; type: string }[] {
+  const values: { name: string; type: string }[] = [];
+  for (let i = 0; i < fields.length; i++) {
+    if (!isSymbol(fields[i])) continue;
+    const fieldStr = (fields[i] as SSymbol).name;
+    if (fieldStr.endsWith(":")) {
+      const next = fields[i + 1];
+      values.push({ name: fieldStr.slice(0, -1), type: next && isSymbol(next) ? (next as SSymbol).name : "Any" });
+      i++;
+    } else if (fieldStr.includes(":")) {
+      const [fname, ftype] = fieldStr.split(":");
+      values.push({ name: fname, type: ftype });
+    }
+  }
+  return values;
+}
+
+/**
+ * Check if a binding target is a vector or map destructuring pattern
+ */
+function isBindingPattern(node: SExp): boolean {
+  return isList(node) &&
+    (node as SList).elements.length > 0 &&
+    isSymbol((node as SList).elements[0]) &&
+    ["vector", "hash-map"].includes(((node as SList).elements[0] as SSymbol).name);
+}
+
+/**
+ * Register every name bound by a destructuring pattern
+ */
+function registerPatternBindings(pattern: SList, valueNode: SExp): void {
+  const isMap = (pattern.elements[0] as SSymbol).name === "hash-map";
+  const items = pattern.elements.slice(1);
+
+  for (let i = isMap ? 1 : 0; i < items.length; i += isMap ? 2 : 1) {
+    let target = items[i];
+    // (name = default) in map patterns
+    if (isMap && isList(target) && !isBindingPattern(target) && (target as SList).elements.length > 0) {
+      target = (target as SList).elements[0];
+    }
+
+    if (isBindingPattern(target)) {
+      registerPatternBindings(target as SList, valueNode);
+    } else if (isSymbol(target) && !["&", "_", "="].includes((target as SSymbol).name)) {
+      const varName = (target as SSymbol).name;
+      globalSymbolTable.set({
+        name: varName,
+        kind: "variable",
+        type: "Unknown",
+        scope: "local",
+        definition: valueNode
+      });
+      logger.debug(`Registered destructured let binding: ${varName}`);
+    } else if (!isMap && isSymbol(target) && (target as SSymbol).name === "=") {
+      i++; // Skip the default value
+    }
+  }
+}
+
 /**
  * Helper function to infer data types for variables during binding
  */
@@ -374,7 +444,7 @@ function inferDataType(node: SExp): string {
       }
       
       // Function literals
-      if (op === "fn" || op === "fx" || op === "lambda") {
+      if (op === "fn" || op === "fx" || op === "lambda" || op === "fn*" || op === "lambda*") {
         return "Function";
       }
     }
@@ -395,8 +465,8 @@ export function transformNode(
     return createLiteral(null);
   }
 
-  return perform(
-    () => {
+  const transformed = perform(
+    (): SExp => {
       // Handle dot notation for enums (.caseName) in symbol form
       if (isSymbol(node) && (node as SSymbol).name.startsWith(".")) {
         return transformDotNotationSymbol(node as SSymbol, enumDefinitions, logger);
@@ -512,12 +582,28 @@ export function transformNode(
       // Get the operation name
       const op = (first as SSymbol).name;
 
+      // (fn ^async name ...) is shorthand for (async fn name ...)
+      if (isAsyncMetaForm(list)) {
+        return transformAsyncForm(
+          { ...list, elements: [createSymbol("async"), first, ...list.elements.slice(2)] },
+          enumDefinitions,
+          logger
+        );
+      }
+
       // Handle specific syntactic transformations
       switch (op) {
+        case "async":
+          return transformAsyncForm(list, enumDefinitions, logger);
         case "fx":
           return transformFxSyntax(list, enumDefinitions, logger);
         case "fn":
           return transformFnSyntax(list, enumDefinitions, logger);
+        case "fn*": {
+          // Generators are written like fn; only the head differs
+          const fn = transformFnSyntax(list, enumDefinitions, logger) as SList;
+          return { ...fn, elements: [first, ...fn.elements.slice(1)] };
+        }
         // Handle special forms that might contain enum comparisons
         case "if":
         case "cond":
@@ -539,6 +625,8 @@ export function transformNode(
     TransformError,
     withSourceLocationOpts({ phase: "syntax transformation" }, node),
   );
+  // Rewritten forms keep the location of the form they replace
+  return inheritSExpLocation(transformed, node);
 }
 
 /**
@@ -567,6 +655,18 @@ function transformLetExpr(
       };
     }
     
+    // Global destructuring form: (let [a b] value) or (let {name: n} value)
+    if (list.elements.length === 3 && isBindingPattern(list.elements[1])) {
+      return {
+        ...list,
+        elements: [
+          list.elements[0],
+          list.elements[1],
+          transformNode(list.elements[2], enumDefinitions, logger)
+        ]
+      };
+    }
+
     // Check for local binding form with binding vector
     if (list.elements.length >= 2 && isList(list.elements[1])) {
       let bindingList = list.elements[1] as SList;
@@ -589,7 +689,7 @@ function transformLetExpr(
           "Let binding list must contain an even number of forms (pairs of name and value)",
           "let binding list validation",
           withSourceLocationOpts(errorLoc, bindingList)
-        );
+        ).withCode(ErrorCode.ODD_BINDING_LIST);
       }
       
       // Transform the binding values and body expressions
@@ -614,7 +714,7 @@ function transformLetExpr(
       "Invalid let form. Expected either (let name value) or (let (bindings...) body...)",
       "let form validation",
       withSourceLocationOpts(errorLoc, list)
-    );
+    ).withCode(ErrorCode.INVALID_BINDING_FORM);
   } catch (error) {
     if (error instanceof TransformError) {
       throw error;
@@ -626,7 +726,7 @@ function transformLetExpr(
       `Invalid let form: ${error instanceof Error ? error.message : String(error)}`,
       "let form validation",
       withSourceLocationOpts(errorLoc, list)
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.INVALID_BINDING_FORM));
   }
 }
 
@@ -752,6 +852,57 @@ function transformEqualityExpression(
   };
 }
 
+/**
+ * Check for the ^async marker form: (fn ^async ...), (fx ^async ...), (lambda ^async ...)
+ * or, for generators, (fn* ^async ...) and (lambda* ^async ...)
+ */
+function isAsyncMetaForm(list: SList): boolean {
+  return list.elements.length > 1 &&
+    isSymbol(list.elements[0]) &&
+    ["fn", "fx", "lambda", "fn*", "lambda*"].includes((list.elements[0] as SSymbol).name) &&
+    isSymbol(list.elements[1]) &&
+    (list.elements[1] as SSymbol).name === "^async";
+}
+
+/**
+ * Strip async markers so (async fn name ...) and (fn ^async name ...)
+ * can be registered like (fn name ...)
+ */
+function unwrapAsyncForm(list: SList): SList {
+  if (isAsyncMetaForm(list)) {
+    return { ...list, elements: [list.elements[0], ...list.elements.slice(2)] };
+  }
+  if (
+    list.elements.length > 1 &&
+    isSymbol(list.elements[0]) &&
+    (list.elements[0] as SSymbol).name === "async" &&
+    isSymbol(list.elements[1])
+  ) {
+    return { ...list, elements: list.elements.slice(1) };
+  }
+  return list;
+}
+
+/**
+ * Transform (async fn ...) by applying the usual fn/fx/lambda syntax
+ * transformations to the wrapped form
+ */
+function transformAsyncForm(
+  list: SList,
+  enumDefinitions: Map<string, SList>,
+  logger: Logger
+): SExp {
+  const inner = transformNode(
+    { ...list, elements: list.elements.slice(1) },
+    enumDefinitions,
+    logger
+  );
+  return {
+    ...list,
+    elements: [list.elements[0], ...(isList(inner) ? (inner as SList).elements : [inner])]
+  };
+}
+
 /**
  * Transform special forms that might contain enum comparisons
  */
@@ -856,8 +1007,15 @@ function transformNamedArguments(
       // Check if the next element is a dot-prefixed symbol (enum shorthand)
       if (i + 1 < list.elements.length) {
         const nextElem = list.elements[i + 1];
-        // Continue with regular transformation (which handles dot notation)
-        transformedElements.push(transformNode(nextElem, enumDefinitions, logger));
+        const enumName = declaredEnumType(list.elements[0], (elem as SSymbol).name.slice(0, -1), enumDefinitions);
+        if (enumName && isSymbol(nextElem) && (nextElem as SSymbol).name.startsWith(".") &&
+            hasCaseNamed(enumDefinitions.get(enumName)!, (nextElem as SSymbol).name.substring(1))) {
+          // The parameter's declared enum decides, even when another enum has a case of the same name
+          transformedElements.push(inheritSExpLocation(createSymbol(`${enumName}${(nextElem as SSymbol).name}`), nextElem));
+        } else {
+          // Continue with regular transformation (which handles dot notation)
+          transformedElements.push(transformNode(nextElem, enumDefinitions, logger));
+        }
         i++; // Skip the argument value
       }
     } else {
@@ -869,6 +1027,31 @@ function transformNamedArguments(
   return createList(...transformedElements);
 }
 
+/**
+ * The enum type a function declares for one of its parameters, as in
+ * (fn check (code: StatusCode) ...), if the function and enum are known
+ */
+function declaredEnumType(
+  callee: SExp,
+  paramName: string,
+  enumDefinitions: Map<string, SList>,
+): string | undefined {
+  if (!isSymbol(callee)) return undefined;
+  const definition = globalSymbolTable.get((callee as SSymbol).name)?.definition as SList | undefined;
+  const params = definition?.elements?.[2];
+  if (!params || !isList(params)) return undefined;
+
+  const elements = (params as SList).elements;
+  const index = elements.findIndex((p) => isSymbol(p) && (p as SSymbol).name === `${paramName}:`);
+  const typeNode = index >= 0 ? elements[index + 1] : undefined;
+  if (!typeNode || !isSymbol(typeNode)) return undefined;
+  const typeName = (typeNode as SSymbol).name;
+  return enumDefinitions.has(typeName) ? typeName : undefined;
+}
+
+/* System macros that thread a value through steps, which may be .method calls */
+const THREADING_MACROS = new Set(["->", "->>", "as->", "some->", "cond->"]);
+
 /**
  * Check if a list appears to be in dot-chain form
  * The first element should not be a method (doesn't start with .)
@@ -879,6 +1062,11 @@ function isDotChainForm(list: SList): boolean {
     return false;
   }
 
+  // The threading macros take .method steps themselves: (-> s .trim)
+  if (isSymbol(list.elements[0]) && THREADING_MACROS.has((list.elements[0] as SSymbol).name)) {
+    return false;
+  }
+
   // First element shouldn't be a method
   const firstIsNotMethod = !isSymbol(list.elements[0]) || 
                           !(list.elements[0] as SSymbol).name.startsWith('.');
@@ -998,7 +1186,7 @@ function transformFxSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fx syntax: requires at least a name, parameter list, return type and body",
           "fx syntax transformation",
           withSourceLocationOpts({ phase: "valid fx form" }, list)
-        );
+        ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
       }
 
       // Extract components
@@ -1013,7 +1201,7 @@ function transformFxSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fx syntax: parameter list must be a list",
           "fx parameter list",
           withSourceLocationOpts({ phase: "list" }, paramsList)
-        );
+        ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
       }
 
       // Validate return type list
@@ -1022,7 +1210,7 @@ function transformFxSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fx syntax: return type must be a list starting with ->",
           "fx return type",
           withSourceLocationOpts({ phase: "list with ->" }, returnTypeList)
-        );
+        ).withCode(ErrorCode.INVALID_RETURN_TYPE);
       }
 
       if (
@@ -1034,7 +1222,7 @@ function transformFxSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fx syntax: return type must be a list starting with ->",
           "fx return type",
           withSourceLocationOpts({ phase: "(-> Type)" }, returnTypeList)
-        );
+        ).withCode(ErrorCode.INVALID_RETURN_TYPE);
       }
 
       // Create a processed version with the original 'fx' operation
@@ -1068,7 +1256,7 @@ function transformFnSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fn syntax: requires at least a name, parameter list, and body",
           "fn syntax transformation",
           withSourceLocationOpts({ phase: "valid fn form" }, list),
-        );
+        ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
       }
 
       // Extract basic components
@@ -1080,12 +1268,8 @@ function transformFnSyntax(list: SList, enumDefinitions: Map<string, SList>, log
       let hasReturnType = false;
       let returnTypeList = null;
       
-      // Check if the next element is a return type list starting with ->
-      if (list.elements.length > 3 && 
-          isList(list.elements[3]) && 
-          (list.elements[3] as SList).elements.length > 0 &&
-          isSymbol((list.elements[3] as SList).elements[0]) &&
-          ((list.elements[3] as SList).elements[0] as SSymbol).name === "->") {
+      // Check if the next element is a return type list (-> Type)
+      if (list.elements.length > 3 && isReturnTypeList(list.elements[3])) {
         
         returnTypeList = list.elements[3] as SList;
         bodyStartIndex = 4; // Body starts after the return type
@@ -1105,7 +1289,7 @@ function transformFnSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fn syntax: parameter list must be a list",
           "fn parameter list",
           withSourceLocationOpts({ phase: "list" }, paramsList)
-        );
+        ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
       }
 
       // Transform the parameter list elements
@@ -1119,7 +1303,7 @@ function transformFnSyntax(list: SList, enumDefinitions: Map<string, SList>, log
           "Invalid fn syntax: function name must be a symbol",
           "fn name",
           withSourceLocationOpts({ phase: "symbol" }, name)
-        );
+        ).withCode(ErrorCode.INVALID_FUNCTION_NAME);
       }
 
       // If there is a return type, handle it, including array type notation
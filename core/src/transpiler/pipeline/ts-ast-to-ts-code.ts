@@ -1,8 +1,9 @@
 // src/transpiler/ts-ast-to-ts-code.ts - Simplified version without perform utility or explicit error handling
 
 import * as ts from "npm:typescript@^5.0.0";
+import * as path from "jsr:@std/path@1";
 import * as IR from "../type/hql_ir.ts";
-import { convertIRNode } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertIRNode, setSourceMapSource, setTypeAnnotations } from "../pipeline/hql-ir-to-ts-ast.ts";
 import { globalLogger as logger } from "../../logger.ts";
 
 /**
@@ -10,23 +11,39 @@ import { globalLogger as logger } from "../../logger.ts";
  */
 export interface TypeScriptOutput {
   code: string;
+  /** Source map v3 JSON mapping the code back to the HQL file */
+  sourceMap?: string;
 }
 
 /**
  * Generate TypeScript code from HQL IR using the TypeScript Compiler API.
+ * A source map is produced when both the HQL file path and its text are given.
+ * With typeAnnotations, fx and typed fn signatures keep their types.
  * @param ir - The IR program to convert to TypeScript
  * @param options - Generation options including source file path
  */
 export async function generateTypeScript(
   ir: IR.IRProgram,
-  options: { sourceFilePath?: string; currentFilePath?: string } = {},
+  options: { sourceFilePath?: string; currentFilePath?: string; sourceText?: string; typeAnnotations?: boolean } = {},
 ): Promise<TypeScriptOutput> {
   logger.debug(`Starting TypeScript code generation from IR with ${ir.body.length} nodes`);
 
+  const hqlSource = options.currentFilePath && options.sourceText !== undefined
+    ? ts.createSourceMapSource(options.currentFilePath, options.sourceText)
+    : null;
+
   // Convert HQL IR directly to TypeScript AST
   logger.debug("Converting HQL IR to TypeScript AST");
   const startTime = performance.now();
-  const tsAST = await convertHqlIRToTypeScript(ir);
+  setSourceMapSource(hqlSource);
+  setTypeAnnotations(options.typeAnnotations ?? false);
+  let tsAST: ts.SourceFile;
+  try {
+    tsAST = await convertHqlIRToTypeScript(ir);
+  } finally {
+    setSourceMapSource(null);
+    setTypeAnnotations(false);
+  }
   const conversionTime = performance.now() - startTime;
   logger.debug(`IR to TS AST conversion completed in ${conversionTime.toFixed(2)}ms`);
 
@@ -48,16 +65,73 @@ export async function generateTypeScript(
     false,
   );
 
-  const code = printer.printNode(ts.EmitHint.Unspecified, tsAST, resultFile);
+  if (!hqlSource) {
+    const code = printer.printNode(ts.EmitHint.Unspecified, tsAST, resultFile);
+    const printTime = performance.now() - printStartTime;
+    logger.debug(`TS AST printing completed in ${printTime.toFixed(2)}ms with ${code.length} characters`);
+    return { code };
+  }
+
+  const { code, sourceMap } = printWithSourceMap(printer, tsAST, hqlSource);
   const printTime = performance.now() - printStartTime;
-  logger.debug(`TS AST printing completed in ${printTime.toFixed(2)}ms with ${code.length} characters`);
+  logger.debug(`TS AST printing completed in ${printTime.toFixed(2)}ms with ${code.length} characters and a source map`);
 
   // logger.log({
   //   text: "dump : " + JSON.stringify(globalSymbolTable.dump(), null, 2),
   //   namespace: "symbol-table",
   // });
 
-  return { code };
+  return { code, sourceMap };
+}
+
+/**
+ * Print a source file while recording the source map ranges set on its nodes.
+ * The printer's source map writer is not part of the public TypeScript API,
+ * so it is reached through the same internals `tsc` uses for emit.
+ */
+function printWithSourceMap(
+  printer: ts.Printer,
+  tsAST: ts.SourceFile,
+  hqlSource: ts.SourceMapSource,
+): { code: string; sourceMap: string } {
+  const internals = ts as unknown as {
+    createTextWriter(newLine: string): { getText(): string };
+    createSourceMapGenerator(
+      host: { getCurrentDirectory(): string; getCanonicalFileName(fileName: string): string },
+      file: string,
+      sourceRoot: string,
+      sourcesDirectoryPath: string,
+      options: Record<string, unknown>,
+    ): {
+      addSource(fileName: string): number;
+      setSourceContent(sourceIndex: number, content: string): void;
+      toJSON(): { sources: string[] };
+    };
+  };
+  const sourceDir = path.dirname(hqlSource.fileName);
+  const generator = internals.createSourceMapGenerator(
+    { getCurrentDirectory: () => sourceDir, getCanonicalFileName: (fileName) => fileName },
+    path.basename(hqlSource.fileName, path.extname(hqlSource.fileName)) + ".ts",
+    "",
+    sourceDir,
+    {},
+  );
+  // Name the printed file after the HQL source so generated code shares its entry
+  const printed = ts.factory.updateSourceFile(
+    ts.createSourceFile(hqlSource.fileName, "", ts.ScriptTarget.Latest, false),
+    tsAST.statements,
+  );
+  generator.setSourceContent(generator.addSource(hqlSource.fileName), hqlSource.text);
+
+  const writer = internals.createTextWriter("\n");
+  (printer as unknown as {
+    writeFile(file: ts.SourceFile, writer: unknown, generator: unknown): void;
+  }).writeFile(printed, writer, generator);
+
+  // Absolute paths survive the generated file being moved into a cache directory
+  const sourceMap = generator.toJSON();
+  sourceMap.sources = sourceMap.sources.map((source) => path.resolve(sourceDir, source));
+  return { code: writer.getText(), sourceMap: JSON.stringify(sourceMap) };
 }
 
 /**
@@ -0,0 +1,259 @@
+// src/transpiler/syntax/async.ts
+// Module for handling async functions and await expressions
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode } from "../type/hql_ast.ts";
+import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { convertIRExpr, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+
+/**
+ * Forms that can be prefixed with async: (async fn ...), (async fx ...), (async lambda ...)
+ * and the generator forms (async fn* ...) and (async lambda* ...)
+ */
+export const ASYNC_CAPABLE_FORMS = new Set(["fn", "fx", "lambda", "fn*", "lambda*"]);
+
+/**
+ * IR node types that introduce a new function scope
+ */
+export const FUNCTION_NODE_TYPES = new Set([
+  IR.IRNodeType.FunctionExpression,
+  IR.IRNodeType.FunctionDeclaration,
+  IR.IRNodeType.FnFunctionDeclaration,
+  IR.IRNodeType.FxFunctionDeclaration,
+  IR.IRNodeType.ClassDeclaration,
+]);
+
+type AsyncFunctionNode =
+  | IR.IRFunctionExpression
+  | IR.IRFunctionDeclaration
+  | IR.IRFnFunctionDeclaration
+  | IR.IRFxFunctionDeclaration
+  | IR.IRClassMethod;
+
+/**
+ * Check if an IR node is an immediately invoked function expression,
+ * the shape emitted for do, let, try, loop and other expression blocks
+ */
+export function isIIFE(node: IR.IRNode): node is IR.IRCallExpression {
+  return (
+    node.type === IR.IRNodeType.CallExpression &&
+    (node as IR.IRCallExpression).callee.type === IR.IRNodeType.FunctionExpression
+  );
+}
+
+export function isIRNode(value: unknown): value is IR.IRNode {
+  return typeof value === "object" && value !== null &&
+    typeof (value as IR.IRNode).type === "number";
+}
+
+/**
+ * Check whether a node contains an await that belongs to the current
+ * function scope. Nested functions are skipped, but the bodies of
+ * IIFEs are not, since they run as part of the enclosing function.
+ */
+export function containsAwait(node: IR.IRNode): boolean {
+  return findAwait(node) !== null;
+}
+
+/**
+ * The first await (or for await) of the current function scope, as
+ * containsAwait looks for it
+ */
+function findAwait(node: IR.IRNode): IR.IRNode | null {
+  if (node.type === IR.IRNodeType.AwaitExpression) return node;
+  if (node.type === IR.IRNodeType.ForOfStatement && (node as IR.IRForOfStatement).await) return node;
+  if (isIIFE(node)) {
+    for (const arg of node.arguments) {
+      const found = findAwait(arg);
+      if (found) return found;
+    }
+    return findAwait((node.callee as IR.IRFunctionExpression).body);
+  }
+  if (FUNCTION_NODE_TYPES.has(node.type)) return null;
+
+  for (const value of Object.values(node)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      const found = isIRNode(item) ? findAwait(item) : null;
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reject an await in a function that is not async, which JavaScript
+ * would only report when the module is loaded. Awaits at the top level
+ * of a module are allowed.
+ */
+export function checkAwaitPlacement(node: IR.IRNode): void {
+  const isFunction = FUNCTION_NODE_TYPES.has(node.type) && node.type !== IR.IRNodeType.ClassDeclaration;
+  if ((isFunction || node.type === IR.IRNodeType.ClassMethod || node.type === IR.IRNodeType.ClassConstructor) &&
+    !(node as AsyncFunctionNode).async) {
+    const awaitNode = findAwait((node as AsyncFunctionNode).body);
+    if (awaitNode) {
+      throw new ValidationError(
+        "await can only be used in an async function; declare it with (async fn ...) or (async lambda ...)",
+        "await expression",
+        {
+          expectedType: "async function",
+          actualType: "function that is not async",
+          filePath: awaitNode.position?.filePath,
+          line: awaitNode.position?.line,
+          column: awaitNode.position?.column,
+        },
+      ).withCode(ErrorCode.INVALID_ASYNC);
+    }
+  }
+
+  for (const value of Object.values(node)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (isIRNode(item)) checkAwaitPlacement(item);
+    }
+  }
+}
+
+/**
+ * Rewrite IIFEs that contain an await so they stay valid inside an async
+ * scope: the IIFE callee becomes async and the call itself is awaited.
+ * A generator IIFE is already delegated to with yield*, which accepts the
+ * async generator it becomes. Nested function scopes are left untouched.
+ */
+export function promoteAwaitingIIFEs(node: IR.IRNode): IR.IRNode {
+  if (isIIFE(node)) {
+    const callee = node.callee as IR.IRFunctionExpression;
+    node.arguments = node.arguments.map(promoteAwaitingIIFEs);
+    callee.body = promoteAwaitingIIFEs(callee.body) as IR.IRBlockStatement;
+    if (!callee.async && containsAwait(callee.body)) {
+      callee.async = true;
+      if (callee.generator) return node;
+      return {
+        type: IR.IRNodeType.AwaitExpression,
+        argument: node,
+      } as IR.IRAwaitExpression;
+    }
+    return node;
+  }
+  if (FUNCTION_NODE_TYPES.has(node.type)) return node;
+
+  const record = node as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(record)) {
+    if (Array.isArray(value)) {
+      record[key] = value.map(item => isIRNode(item) ? promoteAwaitingIIFEs(item) : item);
+    } else if (isIRNode(value)) {
+      record[key] = promoteAwaitingIIFEs(value);
+    }
+  }
+  return node;
+}
+
+/**
+ * Mark a function-like IR node as async and fix up the IIFEs in its body
+ */
+export function markAsync<T extends AsyncFunctionNode>(node: T): T {
+  node.async = true;
+  node.body = promoteAwaitingIIFEs(node.body) as IR.IRBlockStatement;
+  return node;
+}
+
+/**
+ * Transform (async fn ...), (async fx ...) or (async lambda ...) to IR
+ */
+export function transformAsync(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      const target = list.elements[1];
+      if (
+        !target ||
+        target.type !== "symbol" ||
+        !ASYNC_CAPABLE_FORMS.has((target as SymbolNode).name)
+      ) {
+        throw new ValidationError(
+          "async must be followed by fn, fx, lambda, fn* or lambda*",
+          "async form",
+          "fn, fx, lambda, fn* or lambda*",
+          target ? target.type : "nothing",
+        ).withCode(ErrorCode.INVALID_ASYNC);
+      }
+
+      const inner = transformNode(
+        { ...list, elements: list.elements.slice(1) } as ListNode,
+        currentDir,
+      );
+
+      if (!inner || !FUNCTION_NODE_TYPES.has(inner.type) || inner.type === IR.IRNodeType.ClassDeclaration) {
+        throw new ValidationError(
+          `async ${(target as SymbolNode).name} did not produce a function`,
+          "async form",
+          "function",
+          inner ? IR.IRNodeType[inner.type] : "null",
+        ).withCode(ErrorCode.NULL_TRANSFORM);
+      }
+
+      return markAsync(inner as AsyncFunctionNode);
+    },
+    "transformAsync",
+    TransformError,
+    [list],
+  );
+}
+
+/**
+ * Transform (await expr) to IR
+ */
+export function transformAwait(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      if (list.elements.length !== 2) {
+        throw new ValidationError(
+          "await requires exactly one argument",
+          "await expression",
+          "1 argument",
+          `${list.elements.length - 1} arguments`,
+        ).withCode(ErrorCode.INVALID_ASYNC);
+      }
+
+      const argument = transformNode(list.elements[1], currentDir);
+      if (!argument) {
+        throw new ValidationError(
+          "Awaited value transformed to null",
+          "await argument",
+          "valid expression",
+          "null",
+        ).withCode(ErrorCode.NULL_TRANSFORM);
+      }
+
+      return {
+        type: IR.IRNodeType.AwaitExpression,
+        argument,
+      } as IR.IRAwaitExpression;
+    },
+    "transformAwait",
+    TransformError,
+    [list],
+  );
+}
+
+/**
+ * Modifiers for a function-like node: [async] or undefined
+ */
+export function asyncModifiers(node: { async?: boolean }): ts.Modifier[] | undefined {
+  return node.async
+    ? [ts.factory.createModifier(ts.SyntaxKind.AsyncKeyword)]
+    : undefined;
+}
+
+export function convertAwaitExpression(node: IR.IRAwaitExpression): ts.AwaitExpression {
+  return execute(node, "await expression", () =>
+    ts.factory.createAwaitExpression(convertIRExpr(node.argument))
+  );
+}
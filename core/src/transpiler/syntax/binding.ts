@@ -4,19 +4,28 @@
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
 import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
+import { isPatternForm, transformPattern, createPatternDeclaration } from "./destructuring.ts";
+import { copyOnAssign } from "./struct.ts";
 
 /**
  * Transform a 'let' expression (immutable binding).
  * Handles both forms:
  * 1. (let name value) - Global immutable binding
  * 2. (let (name1 value1 name2 value2...) body...) - Local immutable binding block
+ * Names can be vector or map patterns: (let [a b & rest] xs) or (let ({name: n} person) ...)
  */
 export function transformLet(
   list: ListNode, 
   currentDir: string,
   transformNode: (node: ListNode | SymbolNode | LiteralNode, dir: string) => IR.IRNode | null
 ): IR.IRNode {
+  // Handle global destructuring form: (let [a b] value) or (let {name: n} value)
+  if (list.elements.length === 3 && isPatternForm(list.elements[1])) {
+    return transformPatternBinding(list, currentDir, transformNode, "const");
+  }
+
   // Handle global binding form: (let name value)
   if (list.elements.length === 3 && list.elements[1].type === "symbol") {
     const nameNode = list.elements[1] as SymbolNode;
@@ -34,7 +43,7 @@ export function transformLet(
         "let value",
         "valid expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
     return {
@@ -44,7 +53,7 @@ export function transformLet(
         {
           type: IR.IRNodeType.VariableDeclarator,
           id,
-          init,
+          init: copyOnAssign(init),
         },
       ],
     } as IR.IRVariableDeclaration;
@@ -54,7 +63,8 @@ export function transformLet(
   // This is a specific pattern in some files
   if (list.elements.length >= 2 &&
       list.elements[1].type === "list" &&
-      (list.elements[1] as ListNode).elements.length === 2) {
+      (list.elements[1] as ListNode).elements.length === 2 &&
+      !isPatternForm((list.elements[1] as ListNode).elements[0])) {
 
     const bindingList = list.elements[1] as ListNode;
     // Extract name and value
@@ -67,7 +77,7 @@ export function transformLet(
         "let binding name",
         "symbol",
         nameNode.type
-      );
+      ).withCode(ErrorCode.INVALID_BINDING_NAME);
     }
 
     const name = (nameNode as SymbolNode).name;
@@ -79,7 +89,7 @@ export function transformLet(
         "let binding value",
         "valid expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
     // Create a variable declaration
@@ -93,7 +103,7 @@ export function transformLet(
             type: IR.IRNodeType.Identifier,
             name: sanitizeIdentifier(name),
           } as IR.IRIdentifier,
-          init: valueExpr,
+          init: copyOnAssign(valueExpr),
         },
       ],
     };
@@ -141,7 +151,7 @@ export function transformLet(
     "let expression",
     "(let name value) or (let (bindings...) body...)",
     "invalid form",
-  );
+  ).withCode(ErrorCode.INVALID_BINDING_FORM);
 }
 
 /**
@@ -149,12 +159,18 @@ export function transformLet(
  * Handles both forms:
  * 1. (var name value) - Global mutable binding
  * 2. (var (name1 value1 name2 value2...) body...) - Local mutable binding block
+ * Names can be vector or map patterns, as with let.
  */
 export function transformVar(
   list: ListNode, 
   currentDir: string,
   transformNode: (node: ListNode | SymbolNode | LiteralNode, dir: string) => IR.IRNode | null
 ): IR.IRNode {
+  // Handle global destructuring form: (var [a b] value) or (var {name: n} value)
+  if (list.elements.length === 3 && isPatternForm(list.elements[1])) {
+    return transformPatternBinding(list, currentDir, transformNode, "let");
+  }
+
   // Handle global binding form: (var name value)
   if (list.elements.length === 3 && list.elements[1].type === "symbol") {
     const nameNode = list.elements[1] as SymbolNode;
@@ -171,7 +187,7 @@ export function transformVar(
         "var value",
         "valid expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
     return {
@@ -181,7 +197,7 @@ export function transformVar(
         {
           type: IR.IRNodeType.VariableDeclarator,
           id,
-          init,
+          init: copyOnAssign(init),
         },
       ],
     } as IR.IRVariableDeclaration;
@@ -201,7 +217,31 @@ export function transformVar(
     "var expression",
     "(var name value) or (var (bindings...) body...)",
     "invalid form",
-  );
+  ).withCode(ErrorCode.INVALID_BINDING_FORM);
+}
+
+/**
+ * Transform a global destructuring binding: (let pattern value) or (var pattern value)
+ */
+function transformPatternBinding(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: ListNode | SymbolNode | LiteralNode, dir: string) => IR.IRNode | null,
+  kind: "const" | "let"
+): IR.IRNode {
+  const pattern = transformPattern(list.elements[1], currentDir, transformNode);
+  const init = transformNode(list.elements[2], currentDir);
+
+  if (!init) {
+    throw new ValidationError(
+      `${kind === "const" ? "Let" : "Var"} value transformed to null`,
+      `${kind === "const" ? "let" : "var"} value`,
+      "valid expression",
+      "null",
+    ).withCode(ErrorCode.NULL_TRANSFORM);
+  }
+
+  return createPatternDeclaration(pattern, init, kind);
 }
 
 /**
@@ -215,7 +255,7 @@ function processBindings(
   kind: "const" | "let"
 ): IR.IRNode {
   // Process bindings as pairs
-  const bindings: Array<{ name: string; value: IR.IRNode }> = [];
+  const bindings: Array<{ target: IR.IRPattern; value: IR.IRNode }> = [];
 
   for (let i = 0; i < bindingsNode.elements.length; i += 2) {
     if (i + 1 >= bindingsNode.elements.length) {
@@ -224,20 +264,21 @@ function processBindings(
         `${kind === "const" ? "let" : "var"} binding`,
         "name-value pair",
         "incomplete pair",
-      );
+      ).withCode(ErrorCode.ODD_BINDING_LIST);
     }
 
     const nameNode = bindingsNode.elements[i];
-    if (nameNode.type !== "symbol") {
+    if (nameNode.type !== "symbol" && !isPatternForm(nameNode)) {
       throw new ValidationError(
-        "Binding name must be a symbol",
+        "Binding name must be a symbol or a destructuring pattern",
         `${kind === "const" ? "let" : "var"} binding name`,
-        "symbol",
+        "symbol or pattern",
         nameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_BINDING_NAME);
     }
 
-    const name = (nameNode as SymbolNode).name;
+    const target = transformPattern(nameNode, currentDir, transformNode);
+    const name = nameNode.type === "symbol" ? (nameNode as SymbolNode).name : "pattern";
     const valueExpr = transformNode(bindingsNode.elements[i + 1], currentDir);
 
     if (!valueExpr) {
@@ -246,27 +287,16 @@ function processBindings(
         `${kind === "const" ? "let" : "var"} binding value`,
         "valid expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
-    bindings.push({ name, value: valueExpr });
+    bindings.push({ target, value: copyOnAssign(valueExpr) });
   }
 
   // Create variable declarations for all bindings
-  const variableDeclarations: IR.IRNode[] = bindings.map((b) => ({
-    type: IR.IRNodeType.VariableDeclaration,
-    kind, // Use appropriate binding type
-    declarations: [
-      {
-        type: IR.IRNodeType.VariableDeclarator,
-        id: {
-          type: IR.IRNodeType.Identifier,
-          name: sanitizeIdentifier(b.name),
-        } as IR.IRIdentifier,
-        init: b.value,
-      },
-    ],
-  } as IR.IRVariableDeclaration));
+  const variableDeclarations: IR.IRNode[] = bindings.map((b) =>
+    createPatternDeclaration(b.target, b.value, kind)
+  );
 
   // Process body expressions
   const bodyStatements: IR.IRNode[] = [];
@@ -313,7 +343,7 @@ export function transformSet(
           "set! expression",
           "2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_ASSIGNMENT);
       }
 
       const targetNode = list.elements[1];
@@ -325,7 +355,7 @@ export function transformSet(
           "set! target",
           "symbol",
           targetNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_ASSIGNMENT);
       }
 
       const target = {
@@ -341,7 +371,7 @@ export function transformSet(
           "set! value",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Create an assignment expression
@@ -349,7 +379,7 @@ export function transformSet(
         type: IR.IRNodeType.AssignmentExpression,
         operator: "=",
         left: target,
-        right: value,
+        right: copyOnAssign(value),
       } as IR.IRAssignmentExpression;
     },
     "transformSet",
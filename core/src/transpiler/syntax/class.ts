@@ -4,11 +4,16 @@
 import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode } from "../type/hql_ast.ts";
-import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ValidationError, TransformError, isLocatedValidationError, perform } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { execute  } from "../pipeline/hql-ir-to-ts-ast.ts";
-import { convertIRNode, convertIRExpr } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertIRNode, convertIRExpr, emitsTypeAnnotations, typeAnnotation } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertReturnType, createFnParameters } from "../pipeline/hql-ir-to-dts.ts";
+import { asyncModifiers, markAsync } from "./async.ts";
+import { isReturnTypeNode, parseParametersWithTypes, parseReturnType, parseTypeAnnotation } from "./function.ts";
+import { withSourceLocationOpts } from "../utils/source_location_utils.ts";
 
 export function convertCallExpression(node: IR.IRCallExpression): ts.CallExpression {
   return execute(node, "call expression", () => {
@@ -186,7 +191,7 @@ export function transformClass(
         "class definition",
         "name and body",
         `${list.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_CLASS);
     }
 
     // Extract class name
@@ -197,64 +202,35 @@ export function transformClass(
         "class name",
         "symbol",
         nameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_CLASS);
     }
     const className = (nameNode as SymbolNode).name;
 
-    // Process class body elements
-    const bodyElements = list.elements.slice(2);
-
-    // Extract fields, constructor, and methods
-    const fields: IR.IRClassField[] = [];
-    let classConstructor: IR.IRClassConstructor | null = null;
-    const methods: IR.IRClassMethod[] = [];
-
-    // Process each class body element
-    for (const element of bodyElements) {
-      if (element.type !== "list") {
+    // Optional superclass: (class Dog extends Animal ...)
+    let superClass: IR.IRNode | null = null;
+    let bodyStart = 2;
+    const extendsNode = list.elements[2];
+    if (extendsNode?.type === "symbol" && (extendsNode as SymbolNode).name === "extends") {
+      if (list.elements.length < 4) {
         throw new ValidationError(
-          "Class body elements must be lists",
-          "class body",
-          "list",
-          element.type,
-        );
-      }
-
-      const elementList = element as ListNode;
-      if (elementList.elements.length === 0) continue;
-
-      const firstElement = elementList.elements[0];
-      if (firstElement.type !== "symbol") continue;
-
-      const elementType = (firstElement as SymbolNode).name;
-
-      // Process field declarations (var and let)
-      if (elementType === "var" || elementType === "let") {
-        const field = processClassField(elementList, currentDir, transformNode, elementType);
-        if (field) {
-          fields.push(field);
-        }
-      }
-      // Process constructor
-      else if (elementType === "constructor") {
-        classConstructor = processClassConstructor(elementList, currentDir, transformNode);
-      }
-      // Process fn method definitions
-      else if (elementType === "fn") {
-        const method = processClassMethodFn(elementList, currentDir, transformNode);
-        if (method) {
-          methods.push(method);
-        }
-      }
-      // Process fx method definitions
-      else if (elementType === "fx") {
-        const method = processClassMethodFx(elementList, currentDir, transformNode);
-        if (method) {
-          methods.push(method);
-        }
+          "extends requires a superclass",
+          "class extends",
+          "superclass expression",
+          "nothing",
+        ).withCode(ErrorCode.INVALID_CLASS);
       }
+      superClass = transformSuperClass(list.elements[3], currentDir, transformNode);
+      bodyStart = 4;
     }
 
+    // Extract fields, constructor, and methods
+    const { fields, constructor: classConstructor, methods } = transformClassBody(
+      list.elements.slice(bodyStart),
+      currentDir,
+      transformNode,
+      "constructor",
+    );
+
     // Create the ClassDeclaration IR node
     return {
       type: IR.IRNodeType.ClassDeclaration,
@@ -262,19 +238,199 @@ export function transformClass(
         type: IR.IRNodeType.Identifier,
         name: sanitizeIdentifier(className),
       },
+      superClass,
       fields,
       constructor: classConstructor,
       methods,
     } as IR.IRClassDeclaration;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform class declaration: ${
         error instanceof Error ? error.message : String(error)
       }`,
       "class declaration",
       withSourceLocationOpts({ phase: "transformation" }, list)
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
+  }
+}
+
+/**
+ * Member forms that can follow static
+ */
+const STATIC_MEMBER_HEADS = ["var", "let", "fn", "fx", "async", "get", "set"];
+
+/**
+ * Transform a superclass reference; dotted names like ui.Component become member access
+ */
+function transformSuperClass(
+  node: any,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  if (node.type === "symbol" && (node as SymbolNode).name.includes(".")) {
+    const [head, ...path] = (node as SymbolNode).name.split(".");
+    return path.reduce<IR.IRNode>((object, property) => ({
+      type: IR.IRNodeType.MemberExpression,
+      object,
+      property: { type: IR.IRNodeType.StringLiteral, value: property } as IR.IRStringLiteral,
+      computed: false,
+    } as IR.IRMemberExpression), {
+      type: IR.IRNodeType.Identifier,
+      name: sanitizeIdentifier(head),
+    } as IR.IRIdentifier);
+  }
+
+  const superClass = transformNode(node, currentDir);
+  if (!superClass) {
+    throw new ValidationError(
+      "Superclass transformed to null",
+      "class extends",
+      "class expression",
+      "null",
+    ).withCode(ErrorCode.NULL_TRANSFORM);
+  }
+  return superClass;
+}
+
+/**
+ * Transform the fields, constructor and methods of a class or struct body.
+ * constructorName is the head of the initializer form: constructor or init.
+ */
+export function transformClassBody(
+  bodyElements: any[],
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null,
+  constructorName: string
+): {
+  fields: IR.IRClassField[];
+  constructor: IR.IRClassConstructor | null;
+  methods: IR.IRClassMethod[];
+} {
+  // Extract fields, constructor, and methods
+  const fields: IR.IRClassField[] = [];
+  let classConstructor: IR.IRClassConstructor | null = null;
+  const methods: IR.IRClassMethod[] = [];
+
+  // Process each class body element
+  for (const element of bodyElements) {
+    if (element.type !== "list") {
+      throw new ValidationError(
+        "Class body elements must be lists",
+        "class body",
+        "list",
+        element.type,
+      ).withCode(ErrorCode.INVALID_CLASS);
+    }
+
+    let elementList = element as ListNode;
+    if (elementList.elements.length === 0) continue;
+
+    const firstElement = elementList.elements[0];
+    if (firstElement.type !== "symbol") continue;
+
+    let elementType = (firstElement as SymbolNode).name;
+
+    // (static fn ...), (static var ...) declare members on the class itself
+    const isStatic = elementType === "static";
+    if (isStatic) {
+      elementList = { ...elementList, elements: elementList.elements.slice(1) } as ListNode;
+      const target = elementList.elements[0];
+      elementType = target?.type === "symbol" ? (target as SymbolNode).name : "";
+      if (!STATIC_MEMBER_HEADS.includes(elementType)) {
+        throw new ValidationError(
+          "static must be followed by a field, method or accessor",
+          "static member",
+          STATIC_MEMBER_HEADS.join(", "),
+          elementType || target?.type || "nothing",
+        ).withCode(ErrorCode.INVALID_CLASS);
+      }
+    }
+    const fieldCount = fields.length;
+    const methodCount = methods.length;
+
+    // Process field declarations (var and let)
+    if (elementType === "var" || elementType === "let") {
+      const field = processClassField(elementList, currentDir, transformNode, elementType);
+      if (field) {
+        fields.push(field);
+      }
+    }
+    // Process constructor
+    else if (elementType === constructorName) {
+      classConstructor = processClassConstructor(elementList, currentDir, transformNode);
+    }
+    // Process fn method definitions
+    else if (elementType === "fn") {
+      const method = processClassMethodFn(elementList, currentDir, transformNode);
+      if (method) {
+        methods.push(method);
+      }
+    }
+    // Process fx method definitions
+    else if (elementType === "fx") {
+      const method = processClassMethodFx(elementList, currentDir, transformNode);
+      if (method) {
+        methods.push(method);
+      }
+    }
+    // Process async method definitions: (async fn name ...) or (async fx name ...)
+    else if (elementType === "async") {
+      const method = processClassMethodAsync(elementList, currentDir, transformNode);
+      if (method) {
+        methods.push(method);
+      }
+    }
+    // Process accessors: (get name () body...) and (set name (value) body...)
+    else if (elementType === "get" || elementType === "set") {
+      const method = processClassMethodFn(elementList, currentDir, transformNode);
+      if (method) {
+        methods.push({ ...method, kind: elementType });
+      }
+    }
+
+    if (isStatic) {
+      fields.slice(fieldCount).forEach(field => field.static = true);
+      methods.slice(methodCount).forEach(method => method.static = true);
+    }
   }
+
+  return { fields, constructor: classConstructor, methods };
+}
+
+/**
+ * Transform (super args...) to a superclass constructor call
+ */
+export function transformSuper(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      const args = list.elements.slice(1).map((arg) => {
+        const transformed = transformNode(arg, currentDir);
+        if (!transformed) {
+          throw new ValidationError(
+            "super argument transformed to null",
+            "super argument",
+            "valid expression",
+            "null",
+          ).withCode(ErrorCode.NULL_TRANSFORM);
+        }
+        return transformed;
+      });
+
+      return {
+        type: IR.IRNodeType.CallExpression,
+        callee: { type: IR.IRNodeType.Identifier, name: "super" } as IR.IRIdentifier,
+        arguments: args,
+      } as IR.IRCallExpression;
+    },
+    "transformSuper",
+    TransformError,
+    [list],
+  );
 }
 
 /**
@@ -293,7 +449,7 @@ export function transformMethodCall(
           "method-call",
           "at least 2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const object = transformNode(list.elements[1], currentDir);
@@ -303,7 +459,7 @@ export function transformMethodCall(
           "method-call",
           "valid object expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Extract method name
@@ -318,7 +474,7 @@ export function transformMethodCall(
           "method-call",
           "string literal or symbol",
           list.elements[2].type,
-        );
+        ).withCode(ErrorCode.INVALID_PROPERTY_NAME);
       }
 
       // Transform arguments (if any)
@@ -330,7 +486,7 @@ export function transformMethodCall(
             "method-call argument",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -377,11 +533,18 @@ export function convertClassDeclaration(node: IR.IRClassDeclaration): ts.ClassDe
       }
     });
     logger.debug(`Final class members count: ${members.length}`);
+    const heritageClauses = node.superClass
+      ? [
+          ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, [
+            ts.factory.createExpressionWithTypeArguments(convertIRExpr(node.superClass), undefined),
+          ]),
+        ]
+      : undefined;
     return ts.factory.createClassDeclaration(
       [],
       ts.factory.createIdentifier(node.id.name),
       undefined,
-      undefined,
+      heritageClauses,
       members
     );
   });
@@ -392,7 +555,7 @@ export function convertClassField(node: IR.IRClassField): ts.PropertyDeclaration
     const nameIdentifier = ts.factory.createIdentifier(node.name);
     const initializer = node.initialValue ? convertIRExpr(node.initialValue) : undefined;
     return ts.factory.createPropertyDeclaration(
-      [],
+      node.static ? [ts.factory.createModifier(ts.SyntaxKind.StaticKeyword)] : [],
       nameIdentifier,
       undefined,
       undefined,
@@ -403,17 +566,23 @@ export function convertClassField(node: IR.IRClassField): ts.PropertyDeclaration
 
 export function convertClassConstructor(node: IR.IRClassConstructor): ts.ConstructorDeclaration {
   return execute(node, "class constructor", () => {
-    const parameters = node.params.map(param =>
-      ts.factory.createParameterDeclaration(undefined, undefined, ts.factory.createIdentifier(param.name))
+    const parameters = createFnParameters(
+      node.params,
+      emitsTypeAnnotations() ? node.paramTypes : undefined,
+      typeAnnotation("Any"),
     );
     const bodyStatements: ts.Statement[] = [];
     if (node.body && node.body.type === IR.IRNodeType.BlockStatement) {
-      node.body.body.forEach(stmt => {
-        const transformedStmt = replaceSelfWithThis(stmt);
+      const transformedBody = node.body.body.map(replaceSelfWithThis);
+      // this is only usable after super(...) in a subclass constructor
+      const superIndex = transformedBody.findIndex(isSuperCall);
+      if (transformedBody.some(usesSelf) && superIndex === -1) bodyStatements.push(createSelfAlias());
+      transformedBody.forEach((transformedStmt, i) => {
         const tsStmt = convertIRNodeToStatement(transformedStmt);
         if (tsStmt) {
           Array.isArray(tsStmt) ? bodyStatements.push(...tsStmt) : bodyStatements.push(tsStmt);
         }
+        if (i === superIndex && transformedBody.some(usesSelf)) bodyStatements.push(createSelfAlias());
       });
     }
     if (!hasExplicitReturnThis(bodyStatements)) {
@@ -427,27 +596,28 @@ export function convertClassConstructor(node: IR.IRClassConstructor): ts.Constru
   });
 }
 
-function convertClassMethod(node: IR.IRClassMethod): ts.MethodDeclaration {
+function convertClassMethod(
+  node: IR.IRClassMethod
+): ts.MethodDeclaration | ts.GetAccessorDeclaration | ts.SetAccessorDeclaration {
   return execute(node, "class method", () => {
-    const parameters = node.params.map(param => {
-      const defaultValue = node.defaults?.find(d => d.name === param.name)
-        ? convertIRExpr(node.defaults.find(d => d.name === param.name)!.value)
-        : undefined;
-      return ts.factory.createParameterDeclaration(
-        undefined,
-        undefined,
-        ts.factory.createIdentifier(param.name),
-        undefined,
-        undefined,
-        defaultValue
-      );
-    });
+    const initializers = new Map(node.defaults?.map(d => [d.name, convertIRExpr(d.value)]));
+    const parameters = createFnParameters(
+      node.params,
+      emitsTypeAnnotations() ? node.paramTypes : undefined,
+      typeAnnotation("Any"),
+      initializers,
+    );
+    const returnType = emitsTypeAnnotations() && node.returnType
+      ? convertReturnType(node.returnType, node.async)
+      : undefined;
     const bodyStatements: ts.Statement[] = [];
     if (node.body && node.body.type === IR.IRNodeType.BlockStatement) {
-      node.body.body.forEach((stmt, i) => {
-        const transformedStmt = replaceSelfWithThis(stmt);
+      const transformedBody = node.body.body.map(replaceSelfWithThis);
+      if (transformedBody.some(usesSelf)) bodyStatements.push(createSelfAlias());
+      transformedBody.forEach((transformedStmt, i) => {
         const tsStmt = convertIRNodeToStatement(
-          i === node.body.body.length - 1 && transformedStmt.type !== IR.IRNodeType.ReturnStatement
+          i === node.body.body.length - 1 && node.kind !== "set" &&
+            transformedStmt.type !== IR.IRNodeType.ReturnStatement
             ? { type: IR.IRNodeType.ReturnStatement, argument: transformedStmt } as IR.IRReturnStatement
             : transformedStmt
         );
@@ -456,17 +626,38 @@ function convertClassMethod(node: IR.IRClassMethod): ts.MethodDeclaration {
         }
       });
     }
-    if (bodyStatements.length === 0) {
+    if (bodyStatements.length === 0 && node.kind !== "set") {
       bodyStatements.push(ts.factory.createReturnStatement(ts.factory.createNull()));
     }
+    const modifiers = [
+      ...(node.static ? [ts.factory.createModifier(ts.SyntaxKind.StaticKeyword)] : []),
+      ...(asyncModifiers(node) ?? []),
+    ];
+    if (node.kind === "get") {
+      return ts.factory.createGetAccessorDeclaration(
+        modifiers,
+        ts.factory.createIdentifier(node.name),
+        [],
+        returnType,
+        ts.factory.createBlock(bodyStatements, true)
+      );
+    }
+    if (node.kind === "set") {
+      return ts.factory.createSetAccessorDeclaration(
+        modifiers,
+        ts.factory.createIdentifier(node.name),
+        parameters,
+        ts.factory.createBlock(bodyStatements, true)
+      );
+    }
     return ts.factory.createMethodDeclaration(
-      undefined,
+      modifiers.length > 0 ? modifiers : undefined,
       undefined,
       ts.factory.createIdentifier(node.name),
       undefined,
       undefined,
       parameters,
-      undefined,
+      returnType,
       ts.factory.createBlock(bodyStatements, true)
     );
   });
@@ -488,9 +679,10 @@ function replaceSelfWithThis(node: IR.IRNode): IR.IRNode {
   switch (node.type) {
     case IR.IRNodeType.Identifier: {
       const identNode = node as IR.IRIdentifier;
-      return identNode.name === "self"
-        ? { ...node, type: IR.IRNodeType.Identifier, name: "this" } as IR.IRIdentifier
-        : node;
+      if (identNode.name === "self" || identNode.name.startsWith("self.")) {
+        return { ...node, type: IR.IRNodeType.Identifier, name: "this" + identNode.name.slice(4) } as IR.IRIdentifier;
+      }
+      return node;
     }
     case IR.IRNodeType.MemberExpression: {
       const memberExpr = node as IR.IRMemberExpression;
@@ -541,12 +733,64 @@ function replaceSelfWithThis(node: IR.IRNode): IR.IRNode {
         body: blockStmt.body.map((stmt: IR.IRNode) => replaceSelfWithThis(stmt)),
       } as IR.IRBlockStatement;
     }
-    default: {
+    case IR.IRNodeType.FunctionExpression:
+    case IR.IRNodeType.FunctionDeclaration:
+    case IR.IRNodeType.FnFunctionDeclaration:
+    case IR.IRNodeType.FxFunctionDeclaration:
+      // Nested functions have their own this; they see self through createSelfAlias
       return node;
+    default: {
+      // Rewrite self inside any other node: operators, conditionals, bindings...
+      const result: Record<string, unknown> = { ...node };
+      for (const [key, value] of Object.entries(node)) {
+        if (Array.isArray(value)) {
+          result[key] = value.map((item) => isIRNode(item) ? replaceSelfWithThis(item) : item);
+        } else if (isIRNode(value)) {
+          result[key] = replaceSelfWithThis(value);
+        }
+      }
+      return result as unknown as IR.IRNode;
     }
   }
 }
 
+function isIRNode(value: unknown): value is IR.IRNode {
+  return typeof value === "object" && value !== null &&
+    typeof (value as IR.IRNode).type === "number";
+}
+
+function isSuperCall(node: IR.IRNode): boolean {
+  return node.type === IR.IRNodeType.CallExpression &&
+    (node as IR.IRCallExpression).callee.type === IR.IRNodeType.Identifier &&
+    ((node as IR.IRCallExpression).callee as IR.IRIdentifier).name === "super";
+}
+
+/**
+ * Check if a node still refers to self, e.g. inside a nested function
+ */
+function usesSelf(node: IR.IRNode): boolean {
+  if (node.type === IR.IRNodeType.Identifier) {
+    const name = (node as IR.IRIdentifier).name;
+    return name === "self" || name.startsWith("self.");
+  }
+  return Object.values(node).some((value) =>
+    Array.isArray(value) ? value.some((item) => isIRNode(item) && usesSelf(item)) : isIRNode(value) && usesSelf(value)
+  );
+}
+
+/**
+ * const self = this;
+ */
+function createSelfAlias(): ts.VariableStatement {
+  return ts.factory.createVariableStatement(
+    undefined,
+    ts.factory.createVariableDeclarationList(
+      [ts.factory.createVariableDeclaration("self", undefined, undefined, ts.factory.createThis())],
+      ts.NodeFlags.Const
+    )
+  );
+}
+
 function hasExplicitReturnThis(statements: ts.Statement[]): boolean {
   return statements.some(
     stmt =>
@@ -572,7 +816,7 @@ function processClassMethodFn(
         "method definition",
         "name, params, body",
         `${elementList.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
     }
 
     // Get method name
@@ -583,7 +827,7 @@ function processClassMethodFn(
         "method name",
         "symbol",
         methodNameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_NAME);
     }
     const methodName = (methodNameNode as SymbolNode).name;
 
@@ -595,7 +839,24 @@ function processClassMethodFn(
         "method params",
         "list",
         paramsNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
+    }
+
+    // With a return type, the parameters are typed like those of a typed fn
+    if (isReturnTypeNode(elementList.elements[3])) {
+      const { params, types, defaults } = parseParametersWithTypes(paramsNode as ListNode, currentDir, transformNode);
+      const bodyNodes = elementList.elements.slice(4).map(node =>
+        transformNode(node, currentDir)
+      ).filter(node => node !== null) as IR.IRNode[];
+      return {
+        type: IR.IRNodeType.ClassMethod,
+        name: methodName,
+        params,
+        defaults: defaults.size > 0 ? Array.from(defaults, ([name, value]) => ({ name, value })) : undefined,
+        paramTypes: Array.from(types, ([name, type]) => ({ name, type })),
+        returnType: parseReturnType(elementList.elements[3] as ListNode),
+        body: { type: IR.IRNodeType.BlockStatement, body: bodyNodes },
+      };
     }
 
     // Extract parameter names
@@ -609,7 +870,7 @@ function processClassMethodFn(
           "method param",
           "symbol",
           param.type,
-        );
+        ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
       }
 
       params.push({
@@ -641,6 +902,29 @@ function processClassMethodFn(
   }
 }
 
+/**
+ * Process an async class method: (async fn name ...) or (async fx name ...)
+ */
+function processClassMethodAsync(
+  elementList: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRClassMethod | null {
+  const target = elementList.elements[1];
+  const methodList = { ...elementList, elements: elementList.elements.slice(1) } as ListNode;
+
+  let method: IR.IRClassMethod | null = null;
+  if (target?.type === "symbol" && (target as SymbolNode).name === "fn") {
+    method = processClassMethodFn(methodList, currentDir, transformNode);
+  } else if (target?.type === "symbol" && (target as SymbolNode).name === "fx") {
+    method = processClassMethodFx(methodList, currentDir, transformNode);
+  } else {
+    logger.error("Error processing class method (async): async must be followed by fn or fx");
+  }
+
+  return method ? markAsync(method) : null;
+}
+
 /**
  * Process a class method defined with fx syntax
  */
@@ -656,7 +940,7 @@ function processClassMethodFx(
         "fx method definition",
         "name, params, return type, body",
         `${elementList.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
     }
 
     // Get method name
@@ -667,7 +951,7 @@ function processClassMethodFx(
         "fx method name",
         "symbol",
         methodNameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_NAME);
     }
     const methodName = (methodNameNode as SymbolNode).name;
 
@@ -679,13 +963,14 @@ function processClassMethodFx(
         "fx method params",
         "list",
         paramsNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
     }
 
     // Parse parameters with type annotations - extract defaults as well
     const paramsList = paramsNode as ListNode;
     const params: IR.IRIdentifier[] = [];
     const defaults: { name: string; value: IR.IRNode }[] = [];
+    const paramTypes: { name: string; type: string }[] = [];
 
     // Process parameters to extract defaults
     let i = 0;
@@ -702,6 +987,7 @@ function processClassMethodFx(
             type: IR.IRNodeType.Identifier,
             name: sanitizeIdentifier(paramName)
           });
+          paramTypes.push({ name: paramName, type: parseTypeAnnotation(paramsList.elements[i + 1]) });
 
           // Skip type annotation
           i += 2;
@@ -755,6 +1041,10 @@ function processClassMethodFx(
       name: methodName,
       params,
       defaults: defaults.length > 0 ? defaults : undefined, // Include defaults
+      paramTypes,
+      returnType: isReturnTypeNode(elementList.elements[3])
+        ? parseReturnType(elementList.elements[3] as ListNode)
+        : undefined,
       body: bodyBlock,
     };
   } catch (error) {
@@ -781,7 +1071,7 @@ function processClassField(
         "field declaration",
         "name",
         `${elementList.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_CLASS);
     }
 
     const fieldNameNode = elementList.elements[1];
@@ -791,7 +1081,7 @@ function processClassField(
         "field name",
         "symbol",
         fieldNameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_CLASS);
     }
 
     const fieldName = (fieldNameNode as SymbolNode).name;
@@ -830,7 +1120,7 @@ function processClassConstructor(
         "constructor",
         "params and body",
         `${elementList.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
     }
 
     const paramsNode = elementList.elements[1];
@@ -840,26 +1130,33 @@ function processClassConstructor(
         "constructor params",
         "list",
         paramsNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
     }
 
-    // Extract parameter names
+    // Extract parameter names, and the types of those written (name: Type)
     const paramsList = paramsNode as ListNode;
     const params: IR.IRIdentifier[] = [];
+    const paramTypes: { name: string; type: string }[] = [];
 
-    for (const param of paramsList.elements) {
+    for (let i = 0; i < paramsList.elements.length; i++) {
+      const param = paramsList.elements[i];
       if (param.type !== "symbol") {
         throw new ValidationError(
           "Constructor parameter must be a symbol",
           "constructor param",
           "symbol",
           param.type,
-        );
+        ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
       }
 
+      let name = (param as SymbolNode).name;
+      if (name.endsWith(":") && i + 1 < paramsList.elements.length) {
+        name = name.slice(0, -1);
+        paramTypes.push({ name, type: parseTypeAnnotation(paramsList.elements[++i]) });
+      }
       params.push({
         type: IR.IRNodeType.Identifier,
-        name: sanitizeIdentifier((param as SymbolNode).name),
+        name: sanitizeIdentifier(name),
       });
     }
 
@@ -868,7 +1165,8 @@ function processClassConstructor(
     const bodyNode = elementList.elements[2];
 
     // Special handling for do blocks
-    if (bodyNode.type === "list" &&
+    if (elementList.elements.length === 3 &&
+        bodyNode.type === "list" &&
         bodyNode.elements.length > 0 &&
         bodyNode.elements[0].type === "symbol" &&
         (bodyNode.elements[0] as SymbolNode).name === "do") {
@@ -887,17 +1185,20 @@ function processClassConstructor(
         body: statements
       };
     } else {
-      // Handle single expression constructor body
-      const transformedBody = transformNode(bodyNode, currentDir);
+      // Handle constructor bodies written as one or more forms
+      const statements = elementList.elements.slice(2)
+        .map(node => transformNode(node, currentDir))
+        .filter(node => node !== null) as IR.IRNode[];
       bodyBlock = {
         type: IR.IRNodeType.BlockStatement,
-        body: transformedBody ? [transformedBody] : []
+        body: statements
       };
     }
 
     return {
       type: IR.IRNodeType.ClassConstructor,
       params,
+      paramTypes: paramTypes.length > 0 ? paramTypes : undefined,
       body: bodyBlock,
     };
   } catch (error) {
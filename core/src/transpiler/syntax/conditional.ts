@@ -3,8 +3,9 @@
 
 import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
-import { ListNode, SymbolNode } from "../type/hql_ast.ts";
-import { ValidationError, TransformError, perform } from "../../common/error.ts"
+import { HQLNode, ListNode, LiteralNode, SymbolNode } from "../type/hql_ast.ts";
+import { ValidationError, TransformError, isLocatedValidationError, perform } from "../../common/error.ts"
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts"
 import { convertIRExpr, execute, convertReturnStatement, convertBlockStatement } from "../pipeline/hql-ir-to-ts-ast.ts";
 import { withSourceLocationOpts } from "../utils/source_location_utils.ts";
 
@@ -48,8 +49,7 @@ export function convertConditionalExpression(node: IR.IRConditionalExpression):
 export function transformIf(
   list: ListNode, 
   currentDir: string, 
-  transformNode: (node: any, dir: string) => IR.IRNode | null,
-  isInLoopContext: () => boolean
+  transformNode: (node: any, dir: string) => IR.IRNode | null
 ): IR.IRNode {
   try {
     if (list.elements.length < 3 || list.elements.length > 4) {
@@ -58,7 +58,7 @@ export function transformIf(
         "if expression",
         "2 or 3 arguments",
         `${list.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_IF);
     }
 
     const test = transformNode(list.elements[1], currentDir);
@@ -68,7 +68,7 @@ export function transformIf(
         "if test",
         "valid test expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
     const consequent = transformNode(list.elements[2], currentDir);
@@ -78,7 +78,7 @@ export function transformIf(
         "if consequent",
         "valid consequent expression",
         "null",
-      );
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
     const alternate = list.elements.length > 3
@@ -91,21 +91,9 @@ export function transformIf(
         "if alternate",
         "valid alternate expression",
         "null",
-      );
-    }
-
-    // If we're in a loop context, we need to handle this differently
-    if (isInLoopContext()) {
-      // Create an if statement rather than a conditional expression
-      return {
-        type: IR.IRNodeType.IfStatement,
-        test,
-        consequent,
-        alternate,
-      } as IR.IRIfStatement;
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
 
-    // Regular case - create conditional expression
     return {
       type: IR.IRNodeType.ConditionalExpression,
       test,
@@ -113,14 +101,24 @@ export function transformIf(
       alternate,
     } as IR.IRConditionalExpression;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform if: ${error instanceof Error ? error.message : String(error)}`,
       "if transformation",
       withSourceLocationOpts({ phase: "valid if expression" }, list)
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
+/**
+ * Whether a cond test always passes: `else` or `true`. The clauses after it
+ * are never reached, and no nil is left for the case where none match.
+ */
+export function isCatchAllTest(test: HQLNode): boolean {
+  return (test.type === "symbol" && (test as SymbolNode).name === "else") ||
+    (test.type === "literal" && (test as LiteralNode).value === true);
+}
+
 /**
  * Transform a cond expression to nested conditional expressions
  */
@@ -150,14 +148,14 @@ export function transformCond(
             "cond clause",
             "list with test and result",
             clause.type
-          );
+          ).withCode(ErrorCode.INVALID_COND);
         }
 
         const clauseList = clause as ListNode;
         const testExpr = clauseList.elements[0];
 
         // Handle 'else' or 'true' as the test condition
-        if (testExpr.type === "symbol" && (testExpr as SymbolNode).name === "else") {
+        if (isCatchAllTest(testExpr)) {
           const consequent = transformNode(clauseList.elements[1], currentDir);
           return consequent || { type: IR.IRNodeType.NullLiteral };
         }
@@ -170,7 +168,7 @@ export function transformCond(
             "cond test",
             "valid test expression",
             "null"
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         
         const consequent = transformNode(clauseList.elements[1], currentDir);
@@ -180,7 +178,7 @@ export function transformCond(
             "cond consequent",
             "valid consequent expression",
             "null"
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
 
         // If this is the last clause, it becomes the alternate for all previous conditions
@@ -230,7 +228,7 @@ export function transformLambda(
           "lambda expression",
           "parameters and body",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
       }
 
       const paramsNode = list.elements[1];
@@ -240,7 +238,7 @@ export function transformLambda(
           "lambda parameters",
           "list",
           paramsNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
       }
 
       // Extract parameter names directly from the parameter list
@@ -267,7 +265,7 @@ export function transformLambda(
                 "rest parameter",
                 "single rest parameter",
                 "multiple rest parameters",
-              );
+              ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
             }
             restParam = {
               type: IR.IRNodeType.Identifier,
@@ -287,7 +285,7 @@ export function transformLambda(
       if (list.elements.length > 2 && list.elements[2].type === "list") {
         const possibleReturnType = list.elements[2] as ListNode;
         if (
-          possibleReturnType.elements.length > 0 &&
+          possibleReturnType.elements.length === 2 &&
           possibleReturnType.elements[0].type === "symbol" &&
           (possibleReturnType.elements[0] as SymbolNode).name === "->"
         ) {
@@ -329,7 +327,7 @@ export function transformReturn(
           "return statement",
           "expression to return",
           "no expression provided",
-        );
+        ).withCode(ErrorCode.INVALID_RETURN);
       }
 
       // Get the value to return
@@ -341,7 +339,7 @@ export function transformReturn(
           "return value",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Create a return statement
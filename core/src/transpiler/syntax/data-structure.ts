@@ -4,6 +4,7 @@
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
 import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { transformGet, createGetOperation } from "./get.ts";
 
@@ -53,7 +54,7 @@ export function transformVector(
             "vector element",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -143,7 +144,7 @@ export function transformHashMap(
               "hash-map key",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           keyExpr = transformed;
         }
@@ -155,7 +156,7 @@ export function transformHashMap(
             "hash-map value",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
 
         const objectProperty: IR.IRObjectProperty = {
@@ -211,7 +212,7 @@ export function transformHashSet(
             "hash-set element",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           return transformed;
         });
@@ -272,7 +273,7 @@ export function transformNew(
           "new constructor",
           "at least 1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_NEW);
       }
 
       const constructor = transformNode(list.elements[1], currentDir);
@@ -282,7 +283,7 @@ export function transformNew(
           "new constructor",
           "valid constructor expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       const args = list.elements.slice(2).map((arg) => {
@@ -293,7 +294,7 @@ export function transformNew(
             "new constructor argument",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -329,7 +330,7 @@ export function transformCollectionAccess(
           "collection access",
           "at least 2 elements (collection and index)",
           `${list.elements.length} elements`,
-        );
+        ).withCode(ErrorCode.INVALID_COLLECTION_ACCESS);
       }
 
       // Use the provided transformed collection if available, otherwise transform it
@@ -340,7 +341,7 @@ export function transformCollectionAccess(
           "collection access",
           "valid collection expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       const index = transformNode(list.elements[1], currentDir);
@@ -350,7 +351,7 @@ export function transformCollectionAccess(
           "collection access",
           "valid index expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Specific handling for different collection types
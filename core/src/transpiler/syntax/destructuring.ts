@@ -0,0 +1,298 @@
+// src/transpiler/syntax/destructuring.ts
+// Module for handling vector and map destructuring patterns
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
+import { ValidationError } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { sanitizeIdentifier } from "../../common/utils.ts";
+import { gensym } from "../../gensym.ts";
+import { convertIRExpr, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+
+/**
+ * Check if a node in binding position is a pattern: [a b & rest] or {name: n}
+ */
+export function isPatternForm(node: any): node is ListNode {
+  if (!node || node.type !== "list" || node.elements.length === 0) return false;
+  const head = node.elements[0];
+  return head.type === "symbol" &&
+    ((head as SymbolNode).name === "vector" || (head as SymbolNode).name === "hash-map");
+}
+
+function isSymbolNamed(node: any, name: string): boolean {
+  return node?.type === "symbol" && (node as SymbolNode).name === name;
+}
+
+/**
+ * Transform a binding target (a symbol or a nested pattern) to IR
+ */
+export function transformPattern(
+  node: any,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRPattern {
+  if (node.type === "symbol") {
+    return {
+      type: IR.IRNodeType.Identifier,
+      name: sanitizeIdentifier((node as SymbolNode).name),
+    } as IR.IRIdentifier;
+  }
+
+  if (isPatternForm(node)) {
+    return (node.elements[0] as SymbolNode).name === "vector"
+      ? transformArrayPattern(node, currentDir, transformNode)
+      : transformObjectPattern(node, currentDir, transformNode);
+  }
+
+  throw new ValidationError(
+    "Binding target must be a symbol, a vector pattern or a map pattern",
+    "destructuring pattern",
+    "symbol, [pattern ...] or {key: pattern}",
+    node.type,
+  ).withCode(ErrorCode.INVALID_PATTERN);
+}
+
+/**
+ * Transform [a b = 1 _ & rest] to an ArrayPattern
+ */
+function transformArrayPattern(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRArrayPattern {
+  const items = list.elements.slice(1);
+  const elements: IR.IRArrayPattern["elements"] = [];
+
+  for (let i = 0; i < items.length; i++) {
+    const item = items[i];
+
+    if (isSymbolNamed(item, "&")) {
+      if (i !== items.length - 2) {
+        throw new ValidationError(
+          "& must be followed by exactly one rest binding at the end of a vector pattern",
+          "vector pattern rest",
+          "& name",
+          `${items.length - i - 1} forms after &`,
+        ).withCode(ErrorCode.INVALID_PATTERN);
+      }
+      elements.push({
+        type: IR.IRNodeType.RestElement,
+        argument: transformPattern(items[i + 1], currentDir, transformNode),
+      } as IR.IRRestElement);
+      break;
+    }
+
+    if (isSymbolNamed(item, "_")) {
+      elements.push(null);
+      continue;
+    }
+
+    const target = transformPattern(item, currentDir, transformNode);
+    if (isSymbolNamed(items[i + 1], "=")) {
+      elements.push(withDefault(target, items[i + 2], currentDir, transformNode));
+      i += 2;
+    } else {
+      elements.push(target);
+    }
+  }
+
+  return { type: IR.IRNodeType.ArrayPattern, elements };
+}
+
+/**
+ * Transform {name: n, "age": (a = 0), address: {city: c}} to an ObjectPattern
+ */
+function transformObjectPattern(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRObjectPattern {
+  const entries = list.elements.slice(1);
+  const properties: IR.IRPatternProperty[] = [];
+
+  for (let i = 0; i < entries.length; i += 2) {
+    const keyNode = entries[i];
+    const valueNode = entries[i + 1];
+
+    let key: string;
+    if (keyNode.type === "symbol") {
+      key = (keyNode as SymbolNode).name;
+    } else if (keyNode.type === "literal") {
+      key = String((keyNode as LiteralNode).value);
+    } else {
+      throw new ValidationError(
+        "Map pattern keys must be symbols or strings",
+        "map pattern key",
+        "symbol or string",
+        keyNode.type,
+      ).withCode(ErrorCode.INVALID_PATTERN);
+    }
+
+    // (name = default) gives the binding a default value
+    let value: IR.IRPattern | IR.IRAssignmentPattern;
+    if (
+      valueNode.type === "list" &&
+      !isPatternForm(valueNode) &&
+      isSymbolNamed((valueNode as ListNode).elements[1], "=")
+    ) {
+      const [target, , defaultNode] = (valueNode as ListNode).elements;
+      value = withDefault(
+        transformPattern(target, currentDir, transformNode),
+        defaultNode,
+        currentDir,
+        transformNode,
+      );
+    } else {
+      value = transformPattern(valueNode, currentDir, transformNode);
+    }
+
+    properties.push({ type: IR.IRNodeType.PatternProperty, key, value });
+  }
+
+  return { type: IR.IRNodeType.ObjectPattern, properties };
+}
+
+function withDefault(
+  target: IR.IRPattern,
+  defaultNode: any,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRAssignmentPattern {
+  if (!defaultNode) {
+    throw new ValidationError(
+      "Missing default value after '=' in pattern",
+      "pattern default",
+      "default value",
+      "missing value",
+    ).withCode(ErrorCode.MISSING_DEFAULT_VALUE);
+  }
+  const right = transformNode(defaultNode, currentDir);
+  if (!right) {
+    throw new ValidationError(
+      "Pattern default value transformed to null",
+      "pattern default",
+      "valid expression",
+      "null",
+    ).withCode(ErrorCode.NULL_TRANSFORM);
+  }
+  return { type: IR.IRNodeType.AssignmentPattern, left: target, right };
+}
+
+/**
+ * Create a `const|let <pattern> = init` declaration
+ */
+export function createPatternDeclaration(
+  pattern: IR.IRPattern,
+  init: IR.IRNode,
+  kind: "const" | "let"
+): IR.IRVariableDeclaration {
+  return {
+    type: IR.IRNodeType.VariableDeclaration,
+    kind,
+    declarations: [
+      {
+        type: IR.IRNodeType.VariableDeclarator,
+        id: pattern,
+        init,
+      },
+    ],
+  };
+}
+
+/**
+ * Replace a pattern parameter with a generated name that is destructured
+ * at the start of the body. Call sites keep passing arguments positionally.
+ */
+export function createPatternParameter(
+  node: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): { param: IR.IRIdentifier; declaration: IR.IRVariableDeclaration } {
+  const param: IR.IRIdentifier = {
+    type: IR.IRNodeType.Identifier,
+    name: gensym("arg"),
+  };
+  return {
+    param,
+    declaration: createPatternDeclaration(
+      transformPattern(node, currentDir, transformNode),
+      param,
+      "const",
+    ),
+  };
+}
+
+function convertPatternKey(key: string): ts.PropertyName {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? ts.factory.createIdentifier(key)
+    : ts.factory.createStringLiteral(key);
+}
+
+function convertArrayPatternElement(
+  element: IR.IRArrayPattern["elements"][number]
+): ts.ArrayBindingElement {
+  if (element === null) return ts.factory.createOmittedExpression();
+
+  switch (element.type) {
+    case IR.IRNodeType.RestElement:
+      return ts.factory.createBindingElement(
+        ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
+        undefined,
+        convertBindingName((element as IR.IRRestElement).argument)
+      );
+    case IR.IRNodeType.AssignmentPattern:
+      return ts.factory.createBindingElement(
+        undefined,
+        undefined,
+        convertBindingName((element as IR.IRAssignmentPattern).left),
+        convertIRExpr((element as IR.IRAssignmentPattern).right)
+      );
+    default:
+      return ts.factory.createBindingElement(
+        undefined,
+        undefined,
+        convertBindingName(element as IR.IRPattern)
+      );
+  }
+}
+
+function convertPatternProperty(property: IR.IRPatternProperty): ts.BindingElement {
+  const target = property.value.type === IR.IRNodeType.AssignmentPattern
+    ? (property.value as IR.IRAssignmentPattern).left
+    : property.value as IR.IRPattern;
+  const initializer = property.value.type === IR.IRNodeType.AssignmentPattern
+    ? convertIRExpr((property.value as IR.IRAssignmentPattern).right)
+    : undefined;
+
+  // {name: name} prints as the shorthand {name}
+  const shorthand = target.type === IR.IRNodeType.Identifier &&
+    (target as IR.IRIdentifier).name === property.key;
+
+  return ts.factory.createBindingElement(
+    undefined,
+    shorthand ? undefined : convertPatternKey(property.key),
+    convertBindingName(target),
+    initializer
+  );
+}
+
+/**
+ * Convert an IR binding target to a TS binding name
+ */
+export function convertBindingName(node: IR.IRPattern): ts.BindingName {
+  return execute(node, "binding pattern", () => {
+    switch (node.type) {
+      case IR.IRNodeType.ArrayPattern:
+        return ts.factory.createArrayBindingPattern(
+          (node as IR.IRArrayPattern).elements.map(convertArrayPatternElement)
+        );
+      case IR.IRNodeType.ObjectPattern:
+        return ts.factory.createObjectBindingPattern(
+          (node as IR.IRObjectPattern).properties.map(convertPatternProperty)
+        );
+      default:
+        return ts.factory.createIdentifier((node as IR.IRIdentifier).name);
+    }
+  });
+}
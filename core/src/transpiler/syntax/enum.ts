@@ -5,9 +5,11 @@ import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode } from "../type/hql_ast.ts";
 import { TransformError, ValidationError } from "../../common/error.ts";
 import { perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { globalLogger as logger } from "../../logger.ts";
-import { execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { execute, typeAnnotation, emitsTypeAnnotations } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { createEnumCaseOptionsType } from "../pipeline/hql-ir-to-dts.ts";
 import { withSourceLocationOpts } from "../utils/source_location_utils.ts";
 import { HQLNode } from "../type/hql_ast.ts";
 
@@ -29,7 +31,7 @@ export function parseEnumCase(
           "Invalid enum case format. Expected (case CaseName ...)",
           "enum case format",
           withSourceLocationOpts({ phase: "case parse" }, caseList)
-        );
+        ).withCode(ErrorCode.INVALID_ENUM);
       }
 
       const caseNameNode = caseList.elements[1] as SymbolNode;
@@ -109,7 +111,7 @@ export function transformEnumDeclaration(
           "enum definition",
           "name and cases",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_ENUM);
       }
 
       // Extract enum name and raw type
@@ -135,7 +137,7 @@ export function transformEnumDeclaration(
           "enum name",
           "symbol",
           nameNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_ENUM);
       }
 
       // Determine where enum cases begin.
@@ -163,7 +165,7 @@ export function transformEnumDeclaration(
             "enum case",
             "list",
             element.type,
-          );
+          ).withCode(ErrorCode.INVALID_ENUM);
         }
 
         // Use the enum handler module to parse cases
@@ -177,7 +179,7 @@ export function transformEnumDeclaration(
           "enum definition",
           "at least one case",
           "no cases defined",
-        );
+        ).withCode(ErrorCode.INVALID_ENUM);
       }
 
       // Build the final enum declaration IR node.
@@ -231,7 +233,7 @@ export function createEnumObjectImplementation(enumDecl: IR.IREnumDeclaration):
             "enum case",
             "EnumCase",
             `${IR.IRNodeType[enumCase.type]}`
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         
         const caseName = enumCase.id.name;
@@ -323,14 +325,14 @@ export function createEnumClassImplementation(enumDecl: IR.IREnumDeclaration): t
             undefined,
             ts.factory.createIdentifier("type"),
             undefined,
-            undefined
+            typeAnnotation("String")
           ),
           ts.factory.createParameterDeclaration(
             undefined,
             undefined,
             ts.factory.createIdentifier("values"),
             undefined,
-            undefined
+            valuesType()
           )
         ],
         ts.factory.createBlock([
@@ -365,7 +367,7 @@ export function createEnumClassImplementation(enumDecl: IR.IREnumDeclaration): t
           undefined,
           ts.factory.createIdentifier("type"),
           undefined,
-          undefined,
+          typeAnnotation("String"),
           undefined
         )
       );
@@ -375,7 +377,7 @@ export function createEnumClassImplementation(enumDecl: IR.IREnumDeclaration): t
           undefined,
           ts.factory.createIdentifier("values"),
           undefined,
-          undefined,
+          valuesType(),
           undefined
         )
       );
@@ -403,6 +405,19 @@ export function createEnumClassImplementation(enumDecl: IR.IREnumDeclaration): t
   );
 }
 
+/**
+ * `Record<string, any>`, the type of an enum instance's associated values,
+ * when types are being emitted
+ */
+function valuesType(): ts.TypeNode | undefined {
+  return emitsTypeAnnotations()
+    ? ts.factory.createTypeReferenceNode("Record", [
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.StringKeyword),
+      ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword),
+    ])
+    : undefined;
+}
+
 /**
  * Create the 'is' method for enum classes
  */
@@ -419,10 +434,10 @@ function createIsMethod(): ts.MethodDeclaration {
         undefined,
         ts.factory.createIdentifier("type"),
         undefined,
-        undefined
+        typeAnnotation("String")
       )
     ],
-    undefined,
+    typeAnnotation("Bool"),
     ts.factory.createBlock([
       ts.factory.createReturnStatement(
         ts.factory.createBinaryExpression(
@@ -454,10 +469,10 @@ function createGetValueMethod(): ts.MethodDeclaration {
         undefined,
         ts.factory.createIdentifier("key"),
         undefined,
-        undefined
+        typeAnnotation("String")
       )
     ],
-    undefined,
+    typeAnnotation("Any"),
     ts.factory.createBlock([
       ts.factory.createReturnStatement(
         ts.factory.createElementAccessExpression(
@@ -495,7 +510,7 @@ function createCaseFactoryMethod(enumCase: IR.IREnumCase, enumName: string): ts.
           undefined,
           ts.factory.createIdentifier("options"),
           undefined,
-          undefined,
+          emitsTypeAnnotations() ? createEnumCaseOptionsType(enumCase) : undefined,
           ts.factory.createObjectLiteralExpression([], false)
         )
       ],
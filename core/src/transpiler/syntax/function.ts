@@ -3,14 +3,25 @@
 import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, HQLNode } from "../type/hql_ast.ts";
-import { TransformError, ValidationError, perform } from "../../common/error.ts";
+import { TransformError, ValidationError, isLocatedValidationError, perform } from "../../common/error.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { registerPureFunction, verifyFunctionPurity } from "../fx/purity.ts";
-import { isValidType } from "../fx/purity.ts";
-import { execute, convertIdentifier, convertBlockStatement, convertIRExpr } from "../pipeline/hql-ir-to-ts-ast.ts";
+import {
+  execute,
+  convertIdentifier,
+  convertBlockStatement,
+  convertIRExpr,
+  emitsTypeAnnotations,
+  typeAnnotation,
+} from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertReturnType, createFnParameters, createFxSignatures } from "../pipeline/hql-ir-to-dts.ts";
 import { transformNode } from "../pipeline/hql-ast-to-hql-ir.ts";
+import { asyncModifiers } from "./async.ts";
+import { generatorAsterisk, untypedGeneratorType } from "./generator.ts";
+import { isPatternForm, createPatternParameter } from "./destructuring.ts";
 import { SourceLocation } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 
 const fnFunctionRegistry = new Map<string, IR.IRFnFunctionDeclaration>();
 const fxFunctionRegistry = new Map<string, IR.IRFxFunctionDeclaration>();
@@ -73,6 +84,7 @@ export function transformNamedArgumentCall(
     // Default handling for functions without registry entries
     return transformGenericNamedArguments(list, functionName, currentDir);
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform named argument call: ${
         error instanceof Error ? error.message : String(error)
@@ -80,7 +92,7 @@ export function transformNamedArgumentCall(
       "named argument function call",
       "transformation",
       list,
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
@@ -119,7 +131,7 @@ export function handleFxFunctionCall(list: ListNode, op: string, fxDef: IR.IRFxF
           "function call",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       return transformed;
     }),
@@ -156,8 +168,11 @@ export function processFunctionBody(
       );
       
       if (lastExpr) {
-        // If it's already a return statement, use it as is
-        if (lastExpr.type === IR.IRNodeType.ReturnStatement) {
+        // If it's already a return or throw statement, use it as is
+        if (
+          lastExpr.type === IR.IRNodeType.ReturnStatement ||
+          lastExpr.type === IR.IRNodeType.ThrowStatement
+        ) {
           bodyNodes.push(lastExpr);
         } else {
           // Wrap in a return statement to ensure the value is returned
@@ -229,7 +244,7 @@ export function transformStandardFunctionCall(
               "function argument",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           return transformed;
         });
@@ -252,7 +267,7 @@ export function transformStandardFunctionCall(
           "function call",
           "valid function expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       const args = list.elements.slice(1).map((arg) => {
@@ -263,7 +278,7 @@ export function transformStandardFunctionCall(
             "function argument",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -294,24 +309,38 @@ export function getFxFunction(name: string): IR.IRFxFunctionDeclaration | undefi
   return fxFunctionRegistry.get(name);
 }
 
-export function convertFunctionExpression(node: IR.IRFunctionExpression): ts.FunctionExpression {
+export function convertFunctionExpression(node: IR.IRFunctionExpression): ts.FunctionExpression | ts.ArrowFunction {
   return execute(node, "function expression", () => {
+    const anyType = typeAnnotation("Any");
     const parameters = node.params.map(param =>
       param.name.startsWith("...")
         ? ts.factory.createParameterDeclaration(
             undefined,
             ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
-            ts.factory.createIdentifier(param.name.slice(3))
+            ts.factory.createIdentifier(param.name.slice(3)),
+            undefined,
+            anyType && ts.factory.createArrayTypeNode(anyType)
           )
-        : ts.factory.createParameterDeclaration(undefined, undefined, convertIdentifier(param))
+        : ts.factory.createParameterDeclaration(undefined, undefined, convertIdentifier(param), undefined, anyType)
     );
+    // Arrow functions cannot be generators
+    if (node.arrow && !node.generator) {
+      return ts.factory.createArrowFunction(
+        asyncModifiers(node),
+        undefined,
+        parameters,
+        undefined,
+        ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+        convertBlockStatement(node.body)
+      );
+    }
     return ts.factory.createFunctionExpression(
-      undefined,
-      undefined,
+      asyncModifiers(node),
+      generatorAsterisk(node),
       undefined,
       undefined,
       parameters,
-      undefined,
+      untypedGeneratorType(node),
       convertBlockStatement(node.body)
     );
   });
@@ -321,35 +350,16 @@ export function convertFnFunctionDeclaration(
   node: IR.IRFnFunctionDeclaration,
 ): ts.FunctionDeclaration {
   return execute(node, "fn function declaration", () => {
-    // Map parameter names, properly handling rest parameters
-    const parameters = node.params.map(param => {
-      const paramName = param.name;
-      
-      // Check if this is a rest parameter (starts with "...")
-      if (paramName.startsWith("...")) {
-        return ts.factory.createParameterDeclaration(
-          undefined,
-          ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
-          ts.factory.createIdentifier(paramName.slice(3)) // Remove "..." prefix
-        );
-      }
-      
-      // Regular parameter
-      return ts.factory.createParameterDeclaration(
-        undefined,
-        undefined,
-        ts.factory.createIdentifier(paramName)
-      );
-    });
-    
-    // Create the function declaration with body and parameters
+    const typed = emitsTypeAnnotations() && node.returnType !== undefined;
+    // Call sites in HQL fill in defaults, but callers from JS or TS leave them out
+    const initializers = new Map(node.defaults.map((d) => [d.name, convertIRExpr(d.value)]));
     return ts.factory.createFunctionDeclaration(
-      undefined,
-      undefined,
+      asyncModifiers(node),
+      generatorAsterisk(node),
       convertIdentifier(node.id),
       undefined,
-      parameters,
-      undefined,
+      createFnParameters(node.params, typed ? node.paramTypes : undefined, typeAnnotation("Any"), initializers),
+      typed ? convertReturnType(node.returnType!, node.async, node.generator) : untypedGeneratorType(node),
       convertBlockStatement(node.body)
     );
   });
@@ -357,24 +367,27 @@ export function convertFnFunctionDeclaration(
 
 export function convertFxFunctionDeclaration(
   node: IR.IRFxFunctionDeclaration
-): ts.FunctionDeclaration {
+): ts.FunctionDeclaration | ts.FunctionDeclaration[] {
   return execute(node, "fx function declaration", () => {
     const defaultValues = new Map(
       node.defaults.map(d => [d.name, convertIRExpr(d.value)])
     );
+    const typed = emitsTypeAnnotations();
     const parameters = [
       ts.factory.createParameterDeclaration(
         undefined,
         ts.factory.createToken(ts.SyntaxKind.DotDotDotToken),
-        ts.factory.createIdentifier("args")
+        ts.factory.createIdentifier("args"),
+        undefined,
+        typed ? ts.factory.createArrayTypeNode(ts.factory.createKeywordTypeNode(ts.SyntaxKind.AnyKeyword)) : undefined
       ),
     ];
     const bodyStatements: ts.Statement[] = [];
     for (const param of node.params) {
+      const paramType = node.paramTypes.find(pt => pt.name === param.name)?.type;
       const defaultExpr: ts.Expression =
         defaultValues.get(param.name) ||
         (() => {
-          const paramType = node.paramTypes.find(pt => pt.name === param.name)?.type;
           if (paramType === "Int" || paramType === "Double") return ts.factory.createNumericLiteral("0");
           if (paramType === "String") return ts.factory.createStringLiteral("");
           if (paramType === "Bool") return ts.factory.createFalse();
@@ -387,7 +400,7 @@ export function convertFxFunctionDeclaration(
             [ts.factory.createVariableDeclaration(
               convertIdentifier(param),
               undefined,
-              undefined,
+              typeAnnotation(paramType),
               defaultExpr
             )],
             ts.NodeFlags.Let
@@ -584,30 +597,33 @@ export function convertFxFunctionDeclaration(
     for (const statement of bodyBlock.statements) {
       bodyStatements.push(statement);
     }
-    return ts.factory.createFunctionDeclaration(
-      undefined,
+    const declaration = ts.factory.createFunctionDeclaration(
+      asyncModifiers(node),
       undefined,
       convertIdentifier(node.id),
       undefined,
       parameters,
-      undefined,
+      typed ? convertReturnType(node.returnType, node.async) : undefined,
       ts.factory.createBlock(bodyStatements, true)
     );
+    // The implementation takes ...args, so callers see the typed overloads instead
+    return typed ? [...createFxSignatures(node), declaration] : declaration;
   });
 }
 
 export function convertFunctionDeclaration(node: IR.IRFunctionDeclaration): ts.FunctionDeclaration {
   return execute(node, "function declaration", () => {
+    const anyType = typeAnnotation("Any");
     const params = node.params.map(param =>
-      ts.factory.createParameterDeclaration(undefined, undefined, convertIdentifier(param))
+      ts.factory.createParameterDeclaration(undefined, undefined, convertIdentifier(param), undefined, anyType)
     );
     return ts.factory.createFunctionDeclaration(
-      undefined,
-      undefined,
+      asyncModifiers(node),
+      generatorAsterisk(node),
       convertIdentifier(node.id),
       undefined,
       params,
-      undefined,
+      untypedGeneratorType(node),
       convertBlockStatement(node.body)
     );
   });
@@ -633,7 +649,7 @@ export function transformFn(
         "fn definition",
         "name, params, body",
         `${list.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
     }
 
     // Extract function name
@@ -644,7 +660,7 @@ export function transformFn(
         "fn name",
         "symbol",
         nameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_NAME);
     }
     const funcName = (nameNode as SymbolNode).name;
 
@@ -656,7 +672,7 @@ export function transformFn(
         "fn parameters",
         "list",
         paramListNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
     }
     let paramList = paramListNode as ListNode;
     
@@ -678,11 +694,7 @@ export function transformFn(
     let hasReturnType = false;
 
     // Check if the next element is a return type list starting with ->
-    if (list.elements.length > 3 && 
-        list.elements[3].type === "list" && 
-        (list.elements[3] as ListNode).elements.length > 0 &&
-        (list.elements[3] as ListNode).elements[0].type === "symbol" &&
-        ((list.elements[3] as ListNode).elements[0] as SymbolNode).name === "->") {
+    if (isReturnTypeNode(list.elements[3])) {
       hasReturnType = true;
       bodyStartIndex = 4;
     }
@@ -699,8 +711,11 @@ export function transformFn(
     const params = paramsInfo.params;
     const defaultValues = paramsInfo.defaults;
 
-    // Process the body expressions
-    const bodyNodes = processFunctionBody(bodyExpressions, currentDir);
+    // Process the body expressions, destructuring pattern parameters first
+    const bodyNodes = [
+      ...("patternDeclarations" in paramsInfo ? paramsInfo.patternDeclarations : []),
+      ...processFunctionBody(bodyExpressions, currentDir),
+    ];
 
     // Create the FnFunctionDeclaration node
     const fnFuncDecl = {
@@ -714,6 +729,10 @@ export function transformFn(
         name,
         value,
       })),
+      ...("types" in paramsInfo && {
+        paramTypes: Array.from(paramsInfo.types.entries()).map(([name, type]) => ({ name, type })),
+        returnType: parseReturnType(list.elements[3] as ListNode),
+      }),
       body: {
         type: IR.IRNodeType.BlockStatement,
         body: bodyNodes,
@@ -724,6 +743,7 @@ export function transformFn(
     registerFnFunction(funcName, fnFuncDecl);
     return fnFuncDecl;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform fn function: ${
         error instanceof Error ? error.message : String(error)
@@ -731,7 +751,7 @@ export function transformFn(
       "fn function",
       "transformation",
       list,
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
@@ -754,7 +774,7 @@ export function transformFx(
         "fx definition",
         "name, params, return type, body",
         `${list.elements.length - 1} arguments`,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_DEFINITION);
     }
 
     // Extract function name
@@ -765,7 +785,7 @@ export function transformFx(
         "fx name",
         "symbol",
         nameNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_FUNCTION_NAME);
     }
     const funcName = (nameNode as SymbolNode).name;
 
@@ -777,7 +797,7 @@ export function transformFx(
         "fx parameters",
         "list",
         paramListNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_PARAMETER_LIST);
     }
     let paramList = paramListNode as ListNode;
     
@@ -806,31 +826,11 @@ export function transformFx(
         "fx return type",
         "(-> Type)",
         returnTypeNode.type,
-      );
+      ).withCode(ErrorCode.INVALID_RETURN_TYPE);
     }
 
-    const returnTypeList = returnTypeNode as ListNode;
-    let returnType = "Any"; // Default if no type specified
+    const returnType = parseReturnType(returnTypeNode as ListNode);
 
-    // Process the return type, handling array types
-    if (returnTypeList.elements.length >= 2) {
-      const typeNode = returnTypeList.elements[1];
-      
-      // Handle array type notation: [ElementType]
-      if (typeNode.type === "list" && (typeNode as ListNode).elements.length === 1) {
-        const innerTypeNode = (typeNode as ListNode).elements[0];
-        if (innerTypeNode.type === "symbol") {
-          returnType = `Array<${(innerTypeNode as SymbolNode).name}>`;
-        } else {
-          returnType = "Array";
-        }
-      } 
-      // Regular type
-      else if (typeNode.type === "symbol") {
-        returnType = (typeNode as SymbolNode).name;
-      }
-    }
-    
     // Body expressions start from index 4
     const bodyOffset = 4;
     const bodyExpressions = list.elements.slice(bodyOffset);
@@ -843,13 +843,8 @@ export function transformFx(
     const paramTypes = paramsInfo.types;
     const defaultValues = paramsInfo.defaults;
 
-    // Check that all parameter types are supported
-    for (const [paramName, paramType] of paramTypes.entries()) {
-      // Accept all types now, including array types and enums
-      if (!isValidType(paramType)) {
-        logger.warn(`Parameter ${paramName} has unusual type: ${paramType}`);
-      }
-    }
+    // Parameter and return types are validated by the type checker (hql check),
+    // which can see the enums, classes and imports of the whole module
 
     // Extract raw parameter symbols for purity verification
     const rawParams = extractRawParams(paramList);
@@ -893,6 +888,7 @@ export function transformFx(
     registerFxFunction(funcName, fxFuncDecl);
     return fxFuncDecl;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform fx function: ${
         error instanceof Error ? error.message : String(error)
@@ -900,7 +896,7 @@ export function transformFx(
       "fx function",
       "transformation",
       list,
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
@@ -963,7 +959,7 @@ export function processFnFunctionCall(
               "parameter with default value",
               "parameter without default",
               extractSourceLocation(arg) // Extract source location from the argument
-            );
+            ).withCode(ErrorCode.PLACEHOLDER_WITHOUT_DEFAULT);
           }
         } else {
           // Normal argument, transform it
@@ -975,7 +971,7 @@ export function processFnFunctionCall(
               "valid expression",
               "null",
               extractSourceLocation(arg) // Extract source location from the argument
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           finalArgs.push(transformedArg);
         }
@@ -990,7 +986,7 @@ export function processFnFunctionCall(
           `required parameter '${paramName}'`,
           "missing argument",
           getCallLocation(args) // Get the call location from the arguments list
-        );
+        ).withCode(ErrorCode.MISSING_ARGUMENT);
       }
     }
 
@@ -1021,7 +1017,7 @@ export function processFnFunctionCall(
         `${paramNames.length} ${paramNames.length === 1 ? 'argument' : 'arguments'}`,
         `${args.length} arguments`,
         getExtraArgumentLocation(args, paramNames.length) // Get the location of the first extra argument
-      );
+      ).withCode(ErrorCode.TOO_MANY_ARGUMENTS);
     }
 
     // Create the final call expression
@@ -1035,10 +1031,7 @@ export function processFnFunctionCall(
     } as IR.IRCallExpression;
   } catch (error) {
     // If this is already a ValidationError with location info, don't wrap it
-    if (error instanceof ValidationError && error.sourceLocation && 
-        (error.sourceLocation.filePath || error.sourceLocation.line)) {
-      throw error;
-    }
+    if (isLocatedValidationError(error)) throw error;
     
     // Otherwise enhance the error with location info
     throw new TransformError(
@@ -1047,7 +1040,7 @@ export function processFnFunctionCall(
       }`,
       "function call processing",
       getCallLocation(args) // Get the call location
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
@@ -1136,7 +1129,10 @@ function processNamedArguments(
     const providedArgs = new Map<string, IR.IRNode>();
     
     // Process the arguments
-    for (let i = 0; i < args.length; i++) {
+    const positionalCount = bindLeadingPositionalArguments(
+      funcName, paramNames, args, providedArgs, currentDir, transformNode,
+    );
+    for (let i = positionalCount; i < args.length; i++) {
       const arg = args[i];
       
       // Check if this is a named argument
@@ -1151,8 +1147,9 @@ function processNamedArguments(
             "function call",
             "valid parameter name",
             paramName,
-          );
+          ).withCode(ErrorCode.UNKNOWN_NAMED_ARGUMENT);
         }
+        checkNotPassedByPosition(funcName, paramName, providedArgs);
         
         // Ensure we have a value
         if (i + 1 >= args.length) {
@@ -1161,7 +1158,7 @@ function processNamedArguments(
             "named argument",
             "value",
             "missing value",
-          );
+          ).withCode(ErrorCode.MISSING_NAMED_ARGUMENT_VALUE);
         }
         
         // Get and transform the value
@@ -1177,7 +1174,7 @@ function processNamedArguments(
               "function call with placeholder",
               "parameter with default value",
               "parameter without default",
-            );
+            ).withCode(ErrorCode.PLACEHOLDER_WITHOUT_DEFAULT);
           }
         } else {
           // Normal value
@@ -1188,17 +1185,17 @@ function processNamedArguments(
               "named argument value",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           providedArgs.set(paramName, transformedValue);
         }
       } else {
         throw new ValidationError(
-          "Mixed positional and named arguments are not allowed",
+          "Positional arguments must come before named arguments",
           "function call",
-          "all named or all positional arguments",
-          "mixed arguments",
-        );
+          "positional arguments, then named arguments",
+          "positional argument after a named one",
+        ).withCode(ErrorCode.MIXED_ARGUMENTS);
       }
     }
     
@@ -1222,7 +1219,7 @@ function processNamedArguments(
           "function call",
           "argument value",
           "missing argument",
-        );
+        ).withCode(ErrorCode.MISSING_ARGUMENT);
       }
     }
     
@@ -1236,6 +1233,7 @@ function processNamedArguments(
       arguments: finalArgs,
     } as IR.IRCallExpression;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to process named arguments: ${
         error instanceof Error ? error.message : String(error)
@@ -1243,7 +1241,7 @@ function processNamedArguments(
       "named arguments",
       "transformation",
       args,
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
@@ -1285,7 +1283,7 @@ function processFxFunctionCall(
             "function call with placeholder",
             "parameter with default value",
             "parameter without default",
-          );
+          ).withCode(ErrorCode.PLACEHOLDER_WITHOUT_DEFAULT);
         }
       } else {
         // Normal argument, transform it
@@ -1296,7 +1294,7 @@ function processFxFunctionCall(
             "function call",
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         finalArgs.push(transformedArg);
       }
@@ -1309,7 +1307,7 @@ function processFxFunctionCall(
         "function call",
         "argument value",
         "missing argument",
-      );
+      ).withCode(ErrorCode.MISSING_ARGUMENT);
     }
   }
 
@@ -1320,7 +1318,7 @@ function processFxFunctionCall(
       "function call",
       `${paramNames.length} arguments`,
       `${positionalArgs.length} arguments`,
-    );
+    ).withCode(ErrorCode.TOO_MANY_ARGUMENTS);
   }
 
   // Create the final call expression
@@ -1334,6 +1332,68 @@ function processFxFunctionCall(
   } as IR.IRCallExpression;
 }
 
+/**
+ * Bind the positional arguments that lead a named-argument call, as in
+ * (add 1 y: 2), to the first parameters in order. A placeholder leaves its
+ * parameter to its default. Returns the number of positional arguments.
+ */
+function bindLeadingPositionalArguments(
+  funcName: string,
+  paramNames: string[],
+  args: HQLNode[],
+  provided: Map<string, IR.IRNode>,
+  currentDir: string,
+  transformNode: (node: HQLNode, dir: string) => IR.IRNode | null,
+): number {
+  let count = 0;
+  while (
+    count < args.length &&
+    !(args[count].type === "symbol" && (args[count] as SymbolNode).name.endsWith(":"))
+  ) {
+    count++;
+  }
+
+  const positionalNames = paramNames.filter((name) => !name.startsWith("..."));
+  if (count > positionalNames.length) {
+    throw new ValidationError(
+      `Too many positional arguments in call to function '${funcName}'`,
+      "function call",
+      { expectedType: `${positionalNames.length} arguments`, actualType: `${count} arguments` },
+    ).withCode(ErrorCode.TOO_MANY_ARGUMENTS);
+  }
+
+  for (let i = 0; i < count; i++) {
+    if (isPlaceholder(args[i])) continue;
+    const value = transformNode(args[i], currentDir);
+    if (!value) {
+      throw new ValidationError(
+        `Argument for parameter '${positionalNames[i]}' transformed to null`,
+        "function call",
+        { expectedType: "valid expression", actualType: "null" },
+      ).withCode(ErrorCode.NULL_TRANSFORM);
+    }
+    provided.set(positionalNames[i], value);
+  }
+  return count;
+}
+
+/**
+ * Reject a named argument for a parameter a leading positional argument already gave
+ */
+function checkNotPassedByPosition(
+  funcName: string,
+  paramName: string,
+  provided: Map<string, IR.IRNode>,
+): void {
+  if (provided.has(paramName)) {
+    throw new ValidationError(
+      `Parameter '${paramName}' of '${funcName}' is passed both by position and by name`,
+      "function call",
+      { expectedType: "each parameter passed once", actualType: `${paramName} passed twice` },
+    ).withCode(ErrorCode.MIXED_ARGUMENTS);
+  }
+}
+
 /**
  * Check if a node is a placeholder (_) symbol
  */
@@ -1358,8 +1418,11 @@ function processNamedArgumentsForFx(
   // Create a map to track which parameters have been provided
   const providedParams = new Map<string, IR.IRNode>();
 
-  // Process named arguments
-  for (let i = 0; i < args.length; i++) {
+  // Process named arguments, after any leading positional ones
+  const positionalCount = bindLeadingPositionalArguments(
+    funcName, paramNames, args, providedParams, currentDir, transformNode,
+  );
+  for (let i = positionalCount; i < args.length; i++) {
     const arg = args[i];
 
     // Check if it's a named argument (param: value)
@@ -1374,8 +1437,9 @@ function processNamedArgumentsForFx(
           "function call",
           "valid parameter name",
           paramName,
-        );
+        ).withCode(ErrorCode.UNKNOWN_NAMED_ARGUMENT);
       }
+      checkNotPassedByPosition(funcName, paramName, providedParams);
 
       // Ensure a value follows
       if (i + 1 >= args.length) {
@@ -1384,7 +1448,7 @@ function processNamedArgumentsForFx(
           "named argument",
           "value",
           "missing value",
-        );
+        ).withCode(ErrorCode.MISSING_NAMED_ARGUMENT_VALUE);
       }
 
       // Transform the value
@@ -1395,7 +1459,7 @@ function processNamedArgumentsForFx(
           "named argument value",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Add to provided parameters
@@ -1405,11 +1469,11 @@ function processNamedArgumentsForFx(
       i++;
     } else {
       throw new ValidationError(
-        "Mixed positional and named arguments are not allowed",
+        "Positional arguments must come before named arguments",
         "function call",
-        "all named or all positional arguments",
-        "mixed arguments",
-      );
+        "positional arguments, then named arguments",
+        "positional argument after a named one",
+      ).withCode(ErrorCode.MIXED_ARGUMENTS);
     }
   }
 
@@ -1430,7 +1494,7 @@ function processNamedArgumentsForFx(
         "function call",
         "argument value",
         "missing argument",
-      );
+      ).withCode(ErrorCode.MISSING_ARGUMENT);
     }
   }
 
@@ -1462,8 +1526,11 @@ function processNamedArgumentsForFn(
   // Create a map to track which parameters have been provided
   const providedParams = new Map<string, IR.IRNode>();
 
-  // Process named arguments
-  for (let i = 0; i < args.length; i++) {
+  // Process named arguments, after any leading positional ones
+  const positionalCount = bindLeadingPositionalArguments(
+    funcName, paramNames, args, providedParams, currentDir, transformNode,
+  );
+  for (let i = positionalCount; i < args.length; i++) {
     const arg = args[i];
 
     // Check if it's a named argument (param: value)
@@ -1478,8 +1545,9 @@ function processNamedArgumentsForFn(
           "function call",
           "valid parameter name",
           paramName,
-        );
+        ).withCode(ErrorCode.UNKNOWN_NAMED_ARGUMENT);
       }
+      checkNotPassedByPosition(funcName, paramName, providedParams);
 
       // Ensure a value follows
       if (i + 1 >= args.length) {
@@ -1488,7 +1556,7 @@ function processNamedArgumentsForFn(
           "named argument",
           "value",
           "missing value",
-        );
+        ).withCode(ErrorCode.MISSING_NAMED_ARGUMENT_VALUE);
       }
 
       // Transform the value
@@ -1499,7 +1567,7 @@ function processNamedArgumentsForFn(
           "named argument value",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Add to provided parameters
@@ -1509,11 +1577,11 @@ function processNamedArgumentsForFn(
       i++;
     } else {
       throw new ValidationError(
-        "Mixed positional and named arguments are not allowed",
+        "Positional arguments must come before named arguments",
         "function call",
-        "all named or all positional arguments",
-        "mixed arguments",
-      );
+        "positional arguments, then named arguments",
+        "positional argument after a named one",
+      ).withCode(ErrorCode.MIXED_ARGUMENTS);
     }
   }
 
@@ -1534,7 +1602,7 @@ function processNamedArgumentsForFn(
         "function call",
         "argument value",
         "missing argument",
-      );
+      ).withCode(ErrorCode.MISSING_ARGUMENT);
     }
   }
 
@@ -1689,7 +1757,7 @@ function transformGenericNamedArguments(
           "named argument",
           "value",
           "missing value",
-        );
+        ).withCode(ErrorCode.MISSING_NAMED_ARGUMENT_VALUE);
       }
 
       // Transform the value
@@ -1700,7 +1768,7 @@ function transformGenericNamedArguments(
           "named argument value",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Add as a property to the argument object
@@ -1720,7 +1788,7 @@ function transformGenericNamedArguments(
         "function call",
         "all named or all positional arguments",
         "mixed arguments",
-      );
+      ).withCode(ErrorCode.MIXED_ARGUMENTS);
     }
   }
 
@@ -1823,10 +1891,12 @@ function parseParametersWithDefaults(
 ): {
   params: IR.IRIdentifier[];
   defaults: Map<string, IR.IRNode>;
+  patternDeclarations: IR.IRVariableDeclaration[];
 } {
   // Initialize result structures
   const params: IR.IRIdentifier[] = [];
   const defaults = new Map<string, IR.IRNode>();
+  const patternDeclarations: IR.IRVariableDeclaration[] = [];
 
   // Track if we're processing a rest parameter
   let restMode = false;
@@ -1835,6 +1905,26 @@ function parseParametersWithDefaults(
   for (let i = 0; i < paramList.elements.length; i++) {
     const elem = paramList.elements[i];
 
+    // Destructuring parameter: [a b] or {name: n}, optionally with = default
+    if (!restMode && isPatternForm(elem)) {
+      const { param, declaration } = createPatternParameter(elem, currentDir, transformNode);
+      params.push(param);
+      patternDeclarations.push(declaration);
+
+      if (
+        i + 2 < paramList.elements.length &&
+        paramList.elements[i + 1].type === "symbol" &&
+        (paramList.elements[i + 1] as SymbolNode).name === "="
+      ) {
+        const defaultValue = transformNode(paramList.elements[i + 2], currentDir);
+        if (defaultValue) {
+          defaults.set(param.name, defaultValue);
+        }
+        i += 2; // Skip = and default value
+      }
+      continue;
+    }
+
     if (elem.type === "symbol") {
       const symbolName = (elem as SymbolNode).name;
 
@@ -1885,19 +1975,53 @@ function parseParametersWithDefaults(
             "fn parameter default",
             "default value",
             "missing value",
-          );
+          ).withCode(ErrorCode.MISSING_DEFAULT_VALUE);
         }
       }
     }
   }
 
-  return { params, defaults };
+  return { params, defaults, patternDeclarations };
+}
+
+/**
+ * Whether a node is a (-> Type) return type list
+ */
+export function isReturnTypeNode(node: HQLNode | undefined): boolean {
+  return node?.type === "list" &&
+    (node as ListNode).elements.length === 2 &&
+    (node as ListNode).elements[0].type === "symbol" &&
+    ((node as ListNode).elements[0] as SymbolNode).name === "->";
+}
+
+/**
+ * Read the type of a (-> Type) or (-> [ElementType]) return type list
+ */
+export function parseReturnType(returnTypeList: ListNode): string {
+  return parseTypeAnnotation(returnTypeList.elements[1]);
+}
+
+/**
+ * Read a type annotation: a type name, or [ElementType] for an array,
+ * which is written Array<ElementType>
+ */
+export function parseTypeAnnotation(typeNode: HQLNode | undefined): string {
+  if (!typeNode) return "Any";
+  if (typeNode.type === "symbol") return (typeNode as SymbolNode).name;
+  if (typeNode.type !== "list") return "Any";
+
+  // [ElementType] is read as (vector ElementType)
+  let elements = (typeNode as ListNode).elements;
+  if (elements.length === 2 && elements[0].type === "symbol" && (elements[0] as SymbolNode).name === "vector") {
+    elements = elements.slice(1);
+  }
+  return elements.length === 1 ? `Array<${parseTypeAnnotation(elements[0])}>` : "Array";
 }
 
 /**
  * Parse parameters with type annotations and default values
  */
-function parseParametersWithTypes(
+export function parseParametersWithTypes(
   paramList: ListNode,
   currentDir: string,
   transformNode: (node: any, dir: string) => IR.IRNode | null,
@@ -1930,36 +2054,8 @@ function parseParametersWithTypes(
 
         // Look ahead for the type
         if (i + 1 < paramList.elements.length) {
-          let typeName: string;
-          const typeNode = paramList.elements[i + 1];
-          
-          // Handle array type notation: [ElementType]
-          if (typeNode.type === "list" && (typeNode as ListNode).elements.length === 1) {
-            const innerTypeNode = (typeNode as ListNode).elements[0];
-            if (innerTypeNode.type === "symbol") {
-              const innerTypeName = (innerTypeNode as SymbolNode).name;
-              typeName = `Array<${innerTypeName}>`;
-            } else {
-              typeName = "Array";
-            }
-          } 
-          // Handle normal type (symbol)
-          else if (typeNode.type === "symbol") {
-            typeName = (typeNode as SymbolNode).name;
-          }
-          // Use Any as default if we can't determine the type
-          else {
-            typeName = "Any";
-          }
-
-          // For array types
-          if (typeName.startsWith("Array<") && typeName.endsWith(">")) {
-            types.set(paramName, typeName);
-          } 
-          // Handle enum types or any custom type
-          else {
-            types.set(paramName, typeName);
-          }
+          // Array types ([ElementType]), enum types and any custom type
+          types.set(paramName, parseTypeAnnotation(paramList.elements[i + 1]));
 
           // Check for default value
           if (
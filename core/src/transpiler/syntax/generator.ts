@@ -0,0 +1,293 @@
+// src/transpiler/syntax/generator.ts
+// Module for handling generator functions, yield and for-of iteration
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode } from "../type/hql_ast.ts";
+import { ValidationError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { FUNCTION_NODE_TYPES, isIIFE, isIRNode } from "./async.ts";
+import { transformPattern, convertBindingName } from "./destructuring.ts";
+import { isExpressionNode } from "./expression.ts";
+import { convertIRExpr, convertBlockStatement, emitsTypeAnnotations, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertReturnType } from "../pipeline/hql-ir-to-dts.ts";
+
+/**
+ * Generator forms and the function forms they are written like:
+ * (fn* name (params) body...) and (lambda* (params) body...)
+ */
+export const GENERATOR_FORMS: Record<string, string> = {
+  "fn*": "fn",
+  "lambda*": "lambda",
+};
+
+type GeneratorFunctionNode =
+  | IR.IRFunctionExpression
+  | IR.IRFunctionDeclaration
+  | IR.IRFnFunctionDeclaration;
+
+/**
+ * Check whether a node contains a yield that belongs to the current
+ * function scope, looking into IIFEs but not into nested functions
+ */
+export function containsYield(node: IR.IRNode): boolean {
+  if (node.type === IR.IRNodeType.YieldExpression) return true;
+  if (isIIFE(node)) {
+    return node.arguments.some(containsYield) ||
+      containsYield((node.callee as IR.IRFunctionExpression).body);
+  }
+  if (FUNCTION_NODE_TYPES.has(node.type)) return false;
+
+  for (const value of Object.values(node)) {
+    if (Array.isArray(value)) {
+      if (value.some(item => isIRNode(item) && containsYield(item))) return true;
+    } else if (isIRNode(value) && containsYield(value)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Rewrite IIFEs that contain a yield so they stay valid inside a generator:
+ * the IIFE callee becomes a generator and the enclosing generator delegates
+ * to it with yield*, which also passes on the value the IIFE returns.
+ */
+export function promoteYieldingIIFEs(node: IR.IRNode): IR.IRNode {
+  if (isIIFE(node)) {
+    const callee = node.callee as IR.IRFunctionExpression;
+    node.arguments = node.arguments.map(promoteYieldingIIFEs);
+    callee.body = promoteYieldingIIFEs(callee.body) as IR.IRBlockStatement;
+    if (!callee.generator && containsYield(callee.body)) {
+      callee.generator = true;
+      return {
+        type: IR.IRNodeType.YieldExpression,
+        argument: node,
+        delegate: true,
+      } as IR.IRYieldExpression;
+    }
+    return node;
+  }
+  if (FUNCTION_NODE_TYPES.has(node.type)) return node;
+
+  const record = node as unknown as Record<string, unknown>;
+  for (const [key, value] of Object.entries(record)) {
+    if (Array.isArray(value)) {
+      record[key] = value.map(item => isIRNode(item) ? promoteYieldingIIFEs(item) : item);
+    } else if (isIRNode(value)) {
+      record[key] = promoteYieldingIIFEs(value);
+    }
+  }
+  return node;
+}
+
+/**
+ * Transform (fn* ...) or (lambda* ...) to IR: the function the plain form
+ * produces, marked as a generator
+ */
+export function transformGenerator(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(() => {
+    const head = list.elements[0] as SymbolNode;
+    const inner = transformNode(
+      {
+        ...list,
+        elements: [{ ...head, name: GENERATOR_FORMS[head.name] }, ...list.elements.slice(1)],
+      } as ListNode,
+      currentDir,
+    );
+
+    if (!inner || !FUNCTION_NODE_TYPES.has(inner.type) || inner.type === IR.IRNodeType.ClassDeclaration) {
+      throw new ValidationError(
+        `${head.name} did not produce a function`,
+        "generator form",
+        { expectedType: "function", actualType: inner ? IR.IRNodeType[inner.type] : "null" },
+      ).withCode(ErrorCode.NULL_TRANSFORM);
+    }
+
+    const generator = inner as GeneratorFunctionNode;
+    generator.generator = true;
+    generator.body = promoteYieldingIIFEs(generator.body) as IR.IRBlockStatement;
+    return generator;
+  });
+}
+
+/**
+ * Transform (yield), (yield expr) or (yield* iterable) to IR
+ */
+export function transformYield(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(() => {
+    const op = (list.elements[0] as SymbolNode).name;
+    const delegate = op === "yield*";
+    const argCount = list.elements.length - 1;
+    if (delegate ? argCount !== 1 : argCount > 1) {
+      throw new ValidationError(
+        delegate ? "yield* requires exactly one argument" : "yield takes at most one argument",
+        `${op} expression`,
+        {
+          expectedType: delegate ? "1 argument" : "0 or 1 arguments",
+          actualType: `${argCount} arguments`,
+        },
+      ).withCode(ErrorCode.INVALID_YIELD);
+    }
+
+    let argument: IR.IRNode | null = null;
+    if (list.elements.length === 2) {
+      argument = transformNode(list.elements[1], currentDir);
+      if (!argument) {
+        throw new ValidationError(
+          "Yielded value transformed to null",
+          `${op} argument`,
+          { expectedType: "valid expression", actualType: "null" },
+        ).withCode(ErrorCode.NULL_TRANSFORM);
+      }
+    }
+
+    return {
+      type: IR.IRNodeType.YieldExpression,
+      argument,
+      delegate,
+    } as IR.IRYieldExpression;
+  });
+}
+
+/**
+ * Transform (for-of (x iterable) body...) or (for-await (x iterable) body...)
+ * to IR. Like loop, the iteration is an expression, so it lowers to
+ *
+ *   (function () { for (const x of iterable) { ...body } return null; })()
+ *
+ * and the binding may be a destructuring pattern: (for-of ([k v] entries) ...)
+ */
+export function transformForOf(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(() => {
+    const op = (list.elements[0] as SymbolNode).name;
+    if (list.elements.length < 3) {
+      throw new ValidationError(
+        `${op} requires a binding and at least one body expression`,
+        `${op} loop`,
+        { expectedType: "binding and body", actualType: `${list.elements.length - 1} elements` },
+      ).withCode(ErrorCode.INVALID_LOOP);
+    }
+
+    let binding = list.elements[1];
+    // [x coll] is read as (vector x coll)
+    if (
+      binding.type === "list" &&
+      (binding as ListNode).elements[0]?.type === "symbol" &&
+      ((binding as ListNode).elements[0] as SymbolNode).name === "vector"
+    ) {
+      binding = { ...binding, elements: (binding as ListNode).elements.slice(1) } as ListNode;
+    }
+    if (binding.type !== "list" || (binding as ListNode).elements.length !== 2) {
+      throw new ValidationError(
+        `${op} binding must be a list of a name and an iterable: (${op} (x coll) ...)`,
+        `${op} binding`,
+        { expectedType: "(name iterable)", actualType: binding.type },
+      ).withCode(ErrorCode.INVALID_LOOP);
+    }
+
+    const [target, iterableNode] = (binding as ListNode).elements;
+    const right = transformNode(iterableNode, currentDir);
+    if (!right) {
+      throw new ValidationError(
+        `${op} iterable transformed to null`,
+        `${op} iterable`,
+        { expectedType: "valid expression", actualType: "null" },
+      ).withCode(ErrorCode.NULL_TRANSFORM);
+    }
+
+    // The body runs for its effects; a trailing expression must not become
+    // the return value of the block, which would end the iteration
+    const body: IR.IRNode[] = [];
+    for (const expr of list.elements.slice(2)) {
+      const node = transformNode(expr, currentDir);
+      if (!node) continue;
+      body.push(isExpressionNode(node)
+        ? { type: IR.IRNodeType.ExpressionStatement, expression: node } as IR.IRExpressionStatement
+        : node);
+    }
+
+    const forOf: IR.IRForOfStatement = {
+      type: IR.IRNodeType.ForOfStatement,
+      left: transformPattern(target, currentDir, transformNode),
+      right,
+      body: { type: IR.IRNodeType.BlockStatement, body },
+      ...(op === "for-await" && { await: true }),
+    };
+
+    return {
+      type: IR.IRNodeType.CallExpression,
+      callee: {
+        type: IR.IRNodeType.FunctionExpression,
+        id: null,
+        params: [],
+        body: {
+          type: IR.IRNodeType.BlockStatement,
+          body: [
+            forOf,
+            { type: IR.IRNodeType.ReturnStatement, argument: { type: IR.IRNodeType.NullLiteral } },
+          ],
+        },
+      } as IR.IRFunctionExpression,
+      arguments: [],
+    } as IR.IRCallExpression;
+  });
+}
+
+/**
+ * The * of function* for a generator node, or undefined
+ */
+export function generatorAsterisk(node: { generator?: boolean }): ts.AsteriskToken | undefined {
+  return node.generator
+    ? ts.factory.createToken(ts.SyntaxKind.AsteriskToken)
+    : undefined;
+}
+
+/**
+ * The return type of a generator that declares none, when types are written:
+ * Generator<any>, or AsyncGenerator<any>. TypeScript needs it to type what
+ * a yield evaluates to.
+ */
+export function untypedGeneratorType(node: { async?: boolean; generator?: boolean }): ts.TypeNode | undefined {
+  return emitsTypeAnnotations() && node.generator ? convertReturnType("Any", node.async, true) : undefined;
+}
+
+export function convertYieldExpression(node: IR.IRYieldExpression): ts.YieldExpression {
+  return execute(node, "yield expression", () =>
+    node.delegate
+      ? ts.factory.createYieldExpression(
+          ts.factory.createToken(ts.SyntaxKind.AsteriskToken),
+          convertIRExpr(node.argument!),
+        )
+      : ts.factory.createYieldExpression(
+          undefined,
+          node.argument ? convertIRExpr(node.argument) : undefined,
+        )
+  );
+}
+
+export function convertForOfStatement(node: IR.IRForOfStatement): ts.ForOfStatement {
+  return execute(node, "for-of statement", () =>
+    ts.factory.createForOfStatement(
+      node.await ? ts.factory.createToken(ts.SyntaxKind.AwaitKeyword) : undefined,
+      ts.factory.createVariableDeclarationList(
+        [ts.factory.createVariableDeclaration(convertBindingName(node.left))],
+        ts.NodeFlags.Const,
+      ),
+      convertIRExpr(node.right),
+      convertBlockStatement(node.body),
+    )
+  );
+}
@@ -5,6 +5,7 @@ import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode } from "../type/hql_ast.ts";
 import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { convertIRExpr, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
 import { globalLogger as logger } from "../../logger.ts";
 
@@ -25,7 +26,7 @@ export function transformGet(
           "get operation",
           "2 arguments (collection, index/key)",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_COLLECTION_ACCESS);
       }
 
       const collection = transformNode(list.elements[1], currentDir);
@@ -35,7 +36,7 @@ export function transformGet(
           "get operation",
           "valid collection expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       const index = transformNode(list.elements[2], currentDir);
@@ -45,7 +46,7 @@ export function transformGet(
           "get operation",
           "valid index expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Create the IR node for a get operation
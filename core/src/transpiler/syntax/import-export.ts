@@ -4,11 +4,23 @@ import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
 import { TransformError, ValidationError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
 import { globalLogger as logger } from "../../logger.ts";
 import { processVectorElements } from "./data-structure.ts";
 import { execute, convertVariableDeclaration } from "../pipeline/hql-ir-to-ts-ast.ts";
 
+/**
+ * The name a module imports or exports a binding under: an identifier, or a
+ * string literal for HQL names that are not valid identifiers, such as
+ * take-while, so that HQL modules import them by the name they were defined with
+ */
+export function moduleExportName(name: string): ts.ModuleExportName {
+  return sanitizeIdentifier(name) === name
+    ? ts.factory.createIdentifier(name)
+    : ts.factory.createStringLiteral(name);
+}
+
 export function convertImportDeclaration(node: IR.IRImportDeclaration): ts.ImportDeclaration {
   return execute(node, "import declaration", () => {
     if (!node.specifiers || node.specifiers.length === 0) {
@@ -26,7 +38,7 @@ export function convertImportDeclaration(node: IR.IRImportDeclaration): ts.Impor
     const namedImports = node.specifiers.map(spec =>
       ts.factory.createImportSpecifier(
         false,
-        spec.imported.name !== spec.local.name ? ts.factory.createIdentifier(spec.imported.name) : undefined,
+        spec.imported.name !== spec.local.name ? moduleExportName(spec.imported.name) : undefined,
         ts.factory.createIdentifier(spec.local.name)
       )
     );
@@ -162,7 +174,7 @@ export function convertExportNamedDeclaration(node: IR.IRExportNamedDeclaration)
       ts.factory.createExportSpecifier(
         false,
         spec.local.name !== spec.exported.name ? ts.factory.createIdentifier(spec.local.name) : undefined,
-        ts.factory.createIdentifier(spec.exported.name)
+        moduleExportName(spec.exported.name)
       )
     );
     return ts.factory.createExportDeclaration(
@@ -177,7 +189,7 @@ export function convertExportNamedDeclaration(node: IR.IRExportNamedDeclaration)
 export function convertExportVariableDeclaration(node: IR.IRExportVariableDeclaration): ts.Statement[] {
   return execute(node, "export variable declaration", () => {
     const varDecl = convertVariableDeclaration(node.declaration);
-    const varName = node.declaration.declarations[0].id.name;
+    const varName = (node.declaration.declarations[0].id as IR.IRIdentifier).name;
     const exportDecl = ts.factory.createExportDeclaration(
       undefined,
       false,
@@ -291,7 +303,7 @@ export function transformNamespaceImport(
           "namespace import",
           "symbol",
           nameNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_IMPORT_NAME);
       }
 
       if (pathNode.type !== "literal") {
@@ -300,7 +312,7 @@ export function transformNamespaceImport(
           "namespace import",
           "string literal",
           pathNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_IMPORT_PATH);
       }
 
       const name = (nameNode as SymbolNode).name;
@@ -334,7 +346,7 @@ export function transformVectorExport(
           "vector export",
           "vector (list)",
           vectorNode.type,
-        );
+        ).withCode(ErrorCode.INVALID_EXPORT);
       }
 
       const symbols = processVectorElements((vectorNode as ListNode).elements);
@@ -414,7 +426,7 @@ export function transformVectorImport(
           "Import path must be a string literal",
           "vector import",
           "string literal"
-        );
+        ).withCode(ErrorCode.INVALID_IMPORT_PATH);
       }
 
       const modulePath = (list.elements[3] as LiteralNode).value as string;
@@ -423,7 +435,7 @@ export function transformVectorImport(
           "Import path must be a string",
           "vector import",
           "string"
-        );
+        ).withCode(ErrorCode.INVALID_IMPORT_PATH);
       }
 
       const elements = processVectorElements(vectorNode.elements);
@@ -9,6 +9,11 @@ export * from "./js-interop.ts";
 export * from "./loop-recur.ts";
 export * from "./primitive.ts";
 export * from "./quote.ts";
+export * from "./try-catch.ts";
+export * from "./async.ts";
+export * from "./destructuring.ts";
+export * from "./match.ts";
+export * from "./struct.ts";
 export * from "./get.ts"; // Add export for the new get module
 
 // Define a consistent API for all syntax handlers
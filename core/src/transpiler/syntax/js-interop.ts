@@ -5,6 +5,7 @@ import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
 import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 import { convertIRExpr, execute, convertStringLiteral } from "../pipeline/hql-ir-to-ts-ast.ts";
 
 export function convertInteropIIFE(node: IR.IRInteropIIFE): ts.Expression {
@@ -86,7 +87,7 @@ export function extractStringLiteral(node: any): string {
         "string literal extraction",
         "string literal or quoted literal",
         node.type,
-      );
+      ).withCode(ErrorCode.INVALID_PROPERTY_NAME);
     },
     "extractStringLiteral",
     TransformError,
@@ -110,7 +111,7 @@ export function transformJsNew(
           "js-new",
           "at least 1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_NEW);
       }
 
       const constructor = transformNode(list.elements[1], currentDir);
@@ -120,7 +121,7 @@ export function transformJsNew(
           "js-new",
           "valid constructor expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       let args: IR.IRNode[] = [];
@@ -132,7 +133,7 @@ export function transformJsNew(
             "js-new",
             "list",
             argsNode.type,
-          );
+          ).withCode(ErrorCode.INVALID_NEW);
         }
         args = (argsNode as ListNode).elements.map((arg) => {
           const transformed = transformNode(arg, currentDir);
@@ -142,7 +143,7 @@ export function transformJsNew(
               "js-new argument",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           return transformed;
         });
@@ -178,7 +179,7 @@ export function transformJsGet(
           "js-get",
           "2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const object = transformNode(list.elements[1], currentDir);
@@ -188,7 +189,7 @@ export function transformJsGet(
           "js-get",
           "valid object expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       try {
@@ -228,7 +229,7 @@ export function transformJsGet(
             "js-get",
             "valid property expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return {
           type: IR.IRNodeType.MemberExpression,
@@ -262,7 +263,7 @@ export function transformJsCall(
           "js-call",
           "at least 2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const object = transformNode(list.elements[1], currentDir);
@@ -272,7 +273,7 @@ export function transformJsCall(
           "js-call",
           "valid object expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       try {
@@ -286,7 +287,7 @@ export function transformJsCall(
               "js-call argument",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           return transformed;
         });
@@ -311,7 +312,7 @@ export function transformJsCall(
             "js-call",
             "valid method expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
 
         const args = list.elements.slice(3).map((arg) => {
@@ -322,7 +323,7 @@ export function transformJsCall(
               "js-call argument",
               "valid expression",
               "null",
-            );
+            ).withCode(ErrorCode.NULL_TRANSFORM);
           }
           return transformed;
         });
@@ -371,7 +372,7 @@ export function transformJsSet(
           "js-set",
           "3 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const obj = transformNode(list.elements[1], currentDir);
@@ -384,7 +385,7 @@ export function transformJsSet(
           "js-set",
           "valid arguments",
           "null arguments",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Create a property assignment directly, not a function call
@@ -424,7 +425,7 @@ export function transformJsGetInvoke(
           "js-get-invoke",
           "2 arguments",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INTEROP_ARITY);
       }
 
       const object = transformNode(list.elements[1], currentDir);
@@ -434,7 +435,7 @@ export function transformJsGetInvoke(
           "js-get-invoke",
           "valid object expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
 
       // Get the property name
@@ -450,7 +451,7 @@ export function transformJsGetInvoke(
             "js-get-invoke",
             "string literal or symbol",
             list.elements[2].type,
-          );
+          ).withCode(ErrorCode.INVALID_PROPERTY_NAME);
         }
       } catch (err) {
         throw new ValidationError(
@@ -460,7 +461,7 @@ export function transformJsGetInvoke(
           "js-get-invoke",
           "string literal or symbol",
           "other expression type",
-        );
+        ).withCode(errorCodeOf(err, ErrorCode.INVALID_PROPERTY_NAME));
       }
 
       // Create the IR node for the js-get-invoke operation
@@ -502,7 +503,7 @@ export function transformJsGetInvokeSpecialCase(
             "js-get-invoke",
             "valid object expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
 
         const property = transformNode(list.elements[2], currentDir);
@@ -512,7 +513,7 @@ export function transformJsGetInvokeSpecialCase(
             "js-get-invoke",
             "valid property expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
 
         if (property.type === IR.IRNodeType.StringLiteral) {
@@ -569,7 +570,8 @@ export function transformDotNotation(
         name: objectName,
       } as IR.IRIdentifier;
 
-      if (list.elements.length === 1) {
+      // (super.method) always calls; super.field without parens reads a property
+      if (list.elements.length === 1 && objectName !== "super") {
         return {
           type: IR.IRNodeType.MemberExpression,
           object: objectExpr,
@@ -589,7 +591,7 @@ export function transformDotNotation(
             "method argument",
             "valid argument expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -1,13 +1,27 @@
 // src/transpiler/syntax/loop-recur.ts
 // Module for handling loop and recur special forms
 
+import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode } from "../type/hql_ast.ts";
-import { ValidationError, TransformError } from "../../common/error.ts";
+import { ValidationError, TransformError, isLocatedValidationError } from "../../common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../common/error-codes.ts";
 import { sanitizeIdentifier } from "../../common/utils.ts";
+import { gensym } from "../../gensym.ts";
+import { isPatternForm, createPatternParameter } from "./destructuring.ts";
+import { isCatchAllTest } from "./conditional.ts";
+import { convertIRExpr, convertBlockStatement, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+
+/**
+ * A loop being transformed: its id and the parameters recur reassigns
+ */
+interface LoopContext {
+  id: string;
+  params: IR.IRIdentifier[];
+}
 
 // Stack to track the current loop context for recur targeting
-const loopContextStack: string[] = [];
+const loopContextStack: LoopContext[] = [];
 
 // Counter for generating unique loop names
 let loopIdCounter = 0;
@@ -23,21 +37,21 @@ export function generateLoopId(): string {
  * Get the current loop context - used by recur to know which loop to target
  */
 export function getCurrentLoopContext(): string | undefined {
-  return loopContextStack.length > 0 ? loopContextStack[loopContextStack.length - 1] : undefined;
+  return loopContextStack.length > 0 ? loopContextStack[loopContextStack.length - 1].id : undefined;
 }
 
 /**
  * Push a new loop context to the stack
  */
-export function pushLoopContext(loopId: string): void {
-  loopContextStack.push(loopId);
+export function pushLoopContext(loopId: string, params: IR.IRIdentifier[] = []): void {
+  loopContextStack.push({ id: loopId, params });
 }
 
 /**
  * Pop the most recent loop context from the stack
  */
 export function popLoopContext(): string | undefined {
-  return loopContextStack.pop();
+  return loopContextStack.pop()?.id;
 }
 
 /**
@@ -49,9 +63,19 @@ export function hasLoopContext(): boolean {
 
 /**
  * Transform a loop special form to its IR representation.
+ *
+ * (loop (i 0 acc 1) body...) lowers to
+ *
+ *   (function (i_1, acc_2) { while (true) { let i = i_1; let acc = acc_2; ...body } })(0, 1)
+ *
+ * where tail-position recur reassigns the parameters and continues, and every
+ * other tail expression returns. The initial values are passed as arguments
+ * so they are evaluated in the enclosing scope, like the bindings of a call.
+ * Each iteration binds the names afresh, so a closure created in the body
+ * keeps the values of its own iteration.
  */
 export function transformLoop(
-  list: ListNode, 
+  list: ListNode,
   currentDir: string,
   transformNode: (node: any, dir: string) => IR.IRNode | null
 ): IR.IRNode {
@@ -63,7 +87,7 @@ export function transformLoop(
         "loop statement",
         "bindings and body",
         `${list.elements.length - 1} elements`
-      );
+      ).withCode(ErrorCode.INVALID_LOOP);
     }
 
     const bindingsNode = list.elements[1];
@@ -73,7 +97,7 @@ export function transformLoop(
         "loop bindings",
         "list",
         bindingsNode.type
-      );
+      ).withCode(ErrorCode.INVALID_LOOP);
     }
 
     const bindings = bindingsNode as ListNode;
@@ -83,407 +107,430 @@ export function transformLoop(
         "loop bindings",
         "even number",
         String(bindings.elements.length) // Convert to string to fix type error
-      );
+      ).withCode(ErrorCode.ODD_BINDING_LIST);
     }
 
-    // Create a unique ID for this loop context
-    const loopId = generateLoopId();
-    pushLoopContext(loopId); // Push this loop onto the context stack
-
-    try {
-      // Extract parameter names and initial values
-      const params: IR.IRIdentifier[] = [];
-      const initialValues: IR.IRNode[] = [];
-
-      for (let i = 0; i < bindings.elements.length; i += 2) {
-        const nameNode = bindings.elements[i];
-        if (nameNode.type !== "symbol") {
-          throw new ValidationError(
-            "loop binding names must be symbols",
-            "loop binding name",
-            "symbol",
-            nameNode.type
-          );
-        }
-
-        const paramName = (nameNode as SymbolNode).name;
-        params.push({
-          type: IR.IRNodeType.Identifier,
-          name: sanitizeIdentifier(paramName)
-        });
-
-        // Transform the initial value
-        const valueNode = transformNode(bindings.elements[i + 1], currentDir);
-        if (!valueNode) {
-          throw new ValidationError(
-            `Binding value for '${paramName}' transformed to null`,
-            "loop binding value",
-            "valid expression",
-            "null"
-          );
-        }
-        initialValues.push(valueNode);
+    // Extract parameter names and initial values
+    const params: IR.IRIdentifier[] = [];
+    const initialValues: IR.IRNode[] = [];
+    // Every iteration declares the bindings afresh from the parameters recur sets
+    const iterationDeclarations: IR.IRVariableDeclaration[] = [];
+
+    for (let i = 0; i < bindings.elements.length; i += 2) {
+      const nameNode = bindings.elements[i];
+      let paramName: string;
+
+      if (isPatternForm(nameNode)) {
+        const { param, declaration } = createPatternParameter(nameNode, currentDir, transformNode);
+        params.push(param);
+        iterationDeclarations.push(declaration);
+        paramName = param.name;
+      } else if (nameNode.type === "symbol") {
+        paramName = (nameNode as SymbolNode).name;
+        const name = sanitizeIdentifier(paramName);
+        const param: IR.IRIdentifier = { type: IR.IRNodeType.Identifier, name: gensym(name) };
+        params.push(param);
+        iterationDeclarations.push({
+          type: IR.IRNodeType.VariableDeclaration,
+          kind: "let",
+          declarations: [{
+            type: IR.IRNodeType.VariableDeclarator,
+            id: { type: IR.IRNodeType.Identifier, name } as IR.IRIdentifier,
+            init: param
+          }]
+        } as IR.IRVariableDeclaration);
+      } else {
+        throw new ValidationError(
+          "loop binding names must be symbols or destructuring patterns",
+          "loop binding name",
+          "symbol or pattern",
+          nameNode.type
+        ).withCode(ErrorCode.INVALID_BINDING_NAME);
       }
 
-      // Transform the body expressions
-      // For a loop, we'll wrap all body expressions in a single block statement
-      // This ensures the recur call is properly tail-recursive
-      let bodyBlock: IR.IRBlockStatement;
-
-      // Special case: If there's only one expression in the body and it's an if/when
-      // we'll transform it specially to ensure proper tail recursion
-      if (list.elements.length === 3 && list.elements[2].type === "list") {
-        const bodyExpr = list.elements[2] as ListNode;
-        if (bodyExpr.elements.length > 0 && bodyExpr.elements[0].type === "symbol") {
-          const op = (bodyExpr.elements[0] as SymbolNode).name;
-
-          if (op === "if" || op === "when") {
-            // Ensure we add a return statement for the if/when result
-            // This is a critical fix to ensure the result is returned
-            const transformed = transformIfForLoop(bodyExpr, currentDir, transformNode);
-            if (transformed) {
-              bodyBlock = {
-                type: IR.IRNodeType.BlockStatement,
-                body: [transformed]
-              };
-            } else {
-              bodyBlock = {
-                type: IR.IRNodeType.BlockStatement,
-                body: []
-              };
-            }
-          } else {
-            // Regular case: transform all body expressions
-            bodyBlock = transformLoopBody(list.elements.slice(2), currentDir, transformNode);
-          }
-        } else {
-          // Regular case: transform all body expressions
-          bodyBlock = transformLoopBody(list.elements.slice(2), currentDir, transformNode);
-        }
-      } else {
-        // Regular case: transform all body expressions
-        bodyBlock = transformLoopBody(list.elements.slice(2), currentDir, transformNode);
+      // Initial values belong to the enclosing scope, so transform them
+      // before this loop becomes the recur target
+      const valueNode = transformNode(bindings.elements[i + 1], currentDir);
+      if (!valueNode) {
+        throw new ValidationError(
+          `Binding value for '${paramName}' transformed to null`,
+          "loop binding value",
+          "valid expression",
+          "null"
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
+      initialValues.push(valueNode);
+    }
 
-      // Create the loop function declaration
-      const loopFunc: IR.IRFunctionDeclaration = {
-        type: IR.IRNodeType.FunctionDeclaration,
-        id: {
-          type: IR.IRNodeType.Identifier,
-          name: loopId
-        },
-        params,
-        body: bodyBlock
-      };
-
-      // Create initial function call with binding values
-      const initialCall: IR.IRCallExpression = {
-        type: IR.IRNodeType.CallExpression,
-        callee: {
-          type: IR.IRNodeType.Identifier,
-          name: loopId
-        },
-        arguments: initialValues
-      };
-
-      const iife: IR.IRCallExpression = {
-        type: IR.IRNodeType.CallExpression,
-        callee: {
-          type: IR.IRNodeType.FunctionExpression,
-          id: null,
-          params: [],
-          body: {
-            type: IR.IRNodeType.BlockStatement,
-            body: [
-              loopFunc,
-              {
-                type: IR.IRNodeType.ReturnStatement,
-                argument: initialCall
-              } as IR.IRReturnStatement
-            ]
-          } as IR.IRBlockStatement
-        },
-        arguments: []
-      };
-
-      return iife;
+    // Create a unique ID for this loop context
+    const loopId = generateLoopId();
+    pushLoopContext(loopId, params); // Push this loop onto the context stack
+
+    let loopBody: IR.IRBlockStatement;
+    try {
+      loopBody = transformLoopBody(list.elements.slice(2), currentDir, transformNode);
     } finally {
       // Always pop the loop context, even on error
       popLoopContext();
     }
+
+    const whileLoop: IR.IRWhileStatement = {
+      type: IR.IRNodeType.WhileStatement,
+      test: { type: IR.IRNodeType.BooleanLiteral, value: true } as IR.IRBooleanLiteral,
+      body: {
+        type: IR.IRNodeType.BlockStatement,
+        body: [...iterationDeclarations, ...loopBody.body]
+      }
+    };
+
+    return {
+      type: IR.IRNodeType.CallExpression,
+      callee: {
+        type: IR.IRNodeType.FunctionExpression,
+        id: null,
+        params,
+        body: {
+          type: IR.IRNodeType.BlockStatement,
+          body: [whileLoop]
+        } as IR.IRBlockStatement
+      } as IR.IRFunctionExpression,
+      arguments: initialValues
+    } as IR.IRCallExpression;
   } catch (error) {
+    if (isLocatedValidationError(error)) throw error;
     throw new TransformError(
       `Failed to transform loop: ${error instanceof Error ? error.message : String(error)}`,
       "loop transformation",
       "valid loop expression",
       list
-    );
+    ).withCode(errorCodeOf(error, ErrorCode.TRANSFORM_FAILED));
   }
 }
 
 /**
- * Transform if expression specifically for loop body
- * Ensures proper return statements for both branches
+ * Transform the body of a loop: all expressions but the last are plain
+ * statements, the last one is lowered in tail position
  */
-export function transformIfForLoop(
-  ifExpr: ListNode, 
+export function transformLoopBody(
+  bodyExprs: any[],
   currentDir: string,
   transformNode: (node: any, dir: string) => IR.IRNode | null
-): IR.IRNode {
-  try {
-    // Validate if syntax: (if test then else?)
-    if (ifExpr.elements.length < 3) {
-      throw new ValidationError(
-        "if requires test and then clause",
-        "if statement",
-        "test and then clause",
-        `${ifExpr.elements.length - 1} elements`
-      );
-    }
+): IR.IRBlockStatement {
+  const bodyNodes: IR.IRNode[] = [];
 
-    // Transform test expression
-    const test = transformNode(ifExpr.elements[1], currentDir);
-    if (!test) {
-      throw new ValidationError(
-        "Test expression transformed to null",
-        "if test",
-        "valid expression",
-        "null"
-      );
+  for (let i = 0; i < bodyExprs.length - 1; i++) {
+    const transformedExpr = transformNode(bodyExprs[i], currentDir);
+    if (transformedExpr) {
+      bodyNodes.push(transformedExpr);
     }
+  }
+
+  if (bodyExprs.length > 0) {
+    bodyNodes.push(...lowerTailPosition(bodyExprs[bodyExprs.length - 1], currentDir, transformNode));
+  } else {
+    bodyNodes.push(returnNull());
+  }
 
-    // Transform 'then' expression - wrap in return if not already a return or recur
-    const thenExpr = ifExpr.elements[2];
-    let consequent: IR.IRNode | null = null;
-    
-    if (isRecurExpression(thenExpr)) {
-      // If it's recur, transform directly - recur generates its own return
-      consequent = transformNode(thenExpr, currentDir);
-      if (consequent === null) {
+  return {
+    type: IR.IRNodeType.BlockStatement,
+    body: bodyNodes
+  };
+}
+
+/**
+ * Lower an expression in tail position of a loop into statements.
+ * recur becomes reassignment plus continue; if, do, cond and let/var
+ * bodies pass the tail position on to their last expression; anything
+ * else is returned as the loop's value.
+ */
+function lowerTailPosition(
+  expr: any,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode[] {
+  const op = getListOperator(expr);
+  const list = expr as ListNode;
+
+  switch (op) {
+    case "recur":
+      return lowerRecur(list, currentDir, transformNode);
+
+    case "if": {
+      if (list.elements.length < 3 || list.elements.length > 4) {
         throw new ValidationError(
-          "Then clause (recur) transformed to null",
-          "if consequent",
-          "valid recur expression",
-          "null"
-        );
+          `if requires 2 or 3 arguments, got ${list.elements.length - 1}`,
+          "if expression",
+          "2 or 3 arguments",
+          `${list.elements.length - 1} arguments`
+        ).withCode(ErrorCode.INVALID_IF);
       }
-    } else {
-      // Otherwise ensure it's returned
-      const transformed = transformNode(thenExpr, currentDir);
-      if (!transformed) {
+      const test = transformNode(list.elements[1], currentDir);
+      if (!test) {
         throw new ValidationError(
-          "Then clause transformed to null",
-          "if consequent",
-          "valid expression",
+          "Test condition transformed to null",
+          "if test",
+          "valid test expression",
           "null"
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
-      
-      // Wrap in return if not already a return statement
-      consequent = transformed.type === IR.IRNodeType.ReturnStatement
-        ? transformed
-        : {
-            type: IR.IRNodeType.ReturnStatement,
-            argument: transformed
-          } as IR.IRReturnStatement;
+      return [{
+        type: IR.IRNodeType.IfStatement,
+        test,
+        consequent: toBlock(lowerTailPosition(list.elements[2], currentDir, transformNode)),
+        alternate: list.elements.length > 3
+          ? toBlock(lowerTailPosition(list.elements[3], currentDir, transformNode))
+          : toBlock([returnNull()])
+      } as IR.IRIfStatement];
     }
 
-    // Transform 'else' expression if it exists
-    let alternate: IR.IRNode | null = null;
-    if (ifExpr.elements.length > 3) {
-      const elseExpr = ifExpr.elements[3];
-      
-      if (isRecurExpression(elseExpr)) {
-        // If it's recur, transform directly - recur generates its own return
-        alternate = transformNode(elseExpr, currentDir);
-      } else {
-        // Otherwise ensure it's returned
-        const transformed = transformNode(elseExpr, currentDir);
-        if (transformed) {
-          // Wrap in return if not already a return statement
-          alternate = transformed.type === IR.IRNodeType.ReturnStatement
-            ? transformed
-            : {
-                type: IR.IRNodeType.ReturnStatement,
-                argument: transformed
-              } as IR.IRReturnStatement;
-        }
-      }
+    case "do": {
+      const doBody = list.elements.slice(1);
+      if (doBody.length === 0) return [returnNull()];
+      return transformLoopBody(doBody, currentDir, transformNode).body;
     }
 
-    // Create the if statement with proper return statements
-    return {
-      type: IR.IRNodeType.IfStatement,
-      test,
-      consequent,
-      alternate
-    } as IR.IRIfStatement;
-  } catch (error) {
-    throw new TransformError(
-      `Failed to transform if for loop: ${error instanceof Error ? error.message : String(error)}`,
-      "if in loop transformation",
-      "valid if expression",
-      ifExpr
-    );
+    case "cond":
+      return lowerCondClauses(list.elements.slice(1), currentDir, transformNode);
+
+    case "let":
+    case "var":
+      if (list.elements.length >= 3 && list.elements[1].type === "list") {
+        return [lowerBindingBlock(list, op, currentDir, transformNode)];
+      }
+      break;
   }
-}
 
-/**
- * Check if a given expression is a recur expression
- */
-export function isRecurExpression(expr: any): boolean {
-  return expr.type === "list" &&
-    expr.elements.length > 0 &&
-    expr.elements[0].type === "symbol" &&
-    (expr.elements[0] as SymbolNode).name === "recur";
+  const transformed = transformNode(expr, currentDir);
+  if (!transformed) return [returnNull()];
+
+  if (
+    transformed.type === IR.IRNodeType.ReturnStatement ||
+    transformed.type === IR.IRNodeType.ThrowStatement
+  ) {
+    return [transformed];
+  }
+  if (transformed.type === IR.IRNodeType.VariableDeclaration) {
+    return [transformed, returnNull()];
+  }
+  return [{
+    type: IR.IRNodeType.ReturnStatement,
+    argument: transformed
+  } as IR.IRReturnStatement];
 }
 
 /**
- * Transform a recur special form to its IR representation.
+ * Lower a tail-position recur into reassignment of the loop bindings
+ * followed by continue
  */
-export function transformRecur(
-  list: ListNode, 
+function lowerRecur(
+  list: ListNode,
   currentDir: string,
   transformNode: (node: any, dir: string) => IR.IRNode | null
-): IR.IRNode {
-  try {
-    // Verify that we have at least the recur keyword
-    if (list.elements.length < 1) {
-      throw new ValidationError(
-        "Invalid recur form",
-        "recur statement",
-        "recur with arguments",
-        "incomplete recur form"
-      );
-    }
+): IR.IRNode[] {
+  if (!hasLoopContext()) {
+    throw new ValidationError(
+      "recur must be used inside a loop",
+      "recur statement",
+      "inside loop context",
+      "outside loop context"
+    ).withCode(ErrorCode.RECUR_OUTSIDE_LOOP);
+  }
 
-    // Get the current loop context (last item on the stack)
-    if (!hasLoopContext()) {
+  const { params } = loopContextStack[loopContextStack.length - 1];
+  const argNodes = list.elements.slice(1);
+
+  if (argNodes.length !== params.length) {
+    throw new ValidationError(
+      `recur expects ${params.length} argument(s) to match the loop bindings, got ${argNodes.length}`,
+      "recur arguments",
+      `${params.length} arguments`,
+      `${argNodes.length} arguments`
+    ).withCode(ErrorCode.RECUR_ARITY);
+  }
+
+  const args = argNodes.map((arg, i) => {
+    const transformedArg = transformNode(arg, currentDir);
+    if (!transformedArg) {
       throw new ValidationError(
-        "recur must be used inside a loop",
-        "recur statement",
-        "inside loop context",
-        "outside loop context"
-      );
+        `Argument ${i + 1} in recur transformed to null`,
+        "recur argument",
+        "valid expression",
+        "null"
+      ).withCode(ErrorCode.NULL_TRANSFORM);
     }
+    return transformedArg;
+  });
+
+  const statements: IR.IRNode[] = [];
+
+  if (params.length === 1) {
+    statements.push(assign(params[0], args[0]));
+  } else if (params.length > 1) {
+    // All new values are computed before any binding changes
+    const temps = params.map(param => ({
+      type: IR.IRNodeType.Identifier,
+      name: gensym(`${param.name}_next`)
+    } as IR.IRIdentifier));
+
+    temps.forEach((temp, i) => {
+      statements.push({
+        type: IR.IRNodeType.VariableDeclaration,
+        kind: "const",
+        declarations: [{
+          type: IR.IRNodeType.VariableDeclarator,
+          id: temp,
+          init: args[i]
+        }]
+      } as IR.IRVariableDeclaration);
+    });
+    params.forEach((param, i) => statements.push(assign(param, temps[i])));
+  }
 
-    const loopId = getCurrentLoopContext()!;
+  statements.push({ type: IR.IRNodeType.ContinueStatement } as IR.IRContinueStatement);
+  return statements;
+}
 
-    // Transform all the argument expressions
-    const args: IR.IRNode[] = [];
-    for (let i = 1; i < list.elements.length; i++) {
-      const transformedArg = transformNode(list.elements[i], currentDir);
-      if (!transformedArg) {
-        throw new ValidationError(
-          `Argument ${i} in recur transformed to null`,
-          "recur argument",
-          "valid expression",
-          "null"
-        );
-      }
-      args.push(transformedArg);
-    }
+/**
+ * Lower cond clauses in tail position into an if/else chain
+ */
+function lowerCondClauses(
+  clauses: any[],
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode[] {
+  if (clauses.length === 0) return [returnNull()];
+
+  const clause = clauses[0];
+  if (clause.type !== "list" || (clause as ListNode).elements.length < 2) {
+    throw new ValidationError(
+      "cond clause must be a list with test and result expressions",
+      "cond clause",
+      "list with test and result",
+      clause.type
+    ).withCode(ErrorCode.INVALID_COND);
+  }
 
-    // Create a direct function call to the loop function
-    const loopCall: IR.IRCallExpression = {
-      type: IR.IRNodeType.CallExpression,
-      callee: {
-        type: IR.IRNodeType.Identifier,
-        name: loopId
-      } as IR.IRIdentifier,
-      arguments: args
-    };
+  const [testExpr, resultExpr] = (clause as ListNode).elements;
+  if (isCatchAllTest(testExpr)) {
+    return lowerTailPosition(resultExpr, currentDir, transformNode);
+  }
 
-    // Return a return statement with the loop call
-    // This is essential for proper tail call optimization
-    return {
-      type: IR.IRNodeType.ReturnStatement,
-      argument: loopCall
-    } as IR.IRReturnStatement;
-  } catch (error) {
-    throw new TransformError(
-      `Failed to transform recur: ${error instanceof Error ? error.message : String(error)}`,
-      "recur transformation",
-      "valid recur expression",
-      list
-    );
+  const test = transformNode(testExpr, currentDir);
+  if (!test) {
+    throw new ValidationError(
+      "Test condition transformed to null",
+      "cond test",
+      "valid test expression",
+      "null"
+    ).withCode(ErrorCode.NULL_TRANSFORM);
   }
+
+  return [{
+    type: IR.IRNodeType.IfStatement,
+    test,
+    consequent: toBlock(lowerTailPosition(resultExpr, currentDir, transformNode)),
+    alternate: toBlock(lowerCondClauses(clauses.slice(1), currentDir, transformNode))
+  } as IR.IRIfStatement];
 }
 
 /**
- * Helper function to transform a list of body expressions for a loop
+ * Lower (let (name value ...) body...) in tail position into a block that
+ * declares the bindings and lowers the body
  */
-export function transformLoopBody(
-  bodyExprs: any[], 
+function lowerBindingBlock(
+  list: ListNode,
+  op: "let" | "var",
   currentDir: string,
   transformNode: (node: any, dir: string) => IR.IRNode | null
 ): IR.IRBlockStatement {
-  // If only one expression and it's not already a return, wrap it in return
-  if (bodyExprs.length === 1 && !isRecurExpression(bodyExprs[0])) {
-    const transformedExpr = transformNode(bodyExprs[0], currentDir);
-    if (transformedExpr) {
-      // If it's already a return or if statement, use it directly
-      if (transformedExpr.type === IR.IRNodeType.ReturnStatement || 
-          transformedExpr.type === IR.IRNodeType.IfStatement) {
-        return {
-          type: IR.IRNodeType.BlockStatement,
-          body: [transformedExpr]
-        };
-      }
-      
-      // Otherwise wrap in return
-      return {
-        type: IR.IRNodeType.BlockStatement,
-        body: [{
-          type: IR.IRNodeType.ReturnStatement,
-          argument: transformedExpr
-        } as IR.IRReturnStatement]
-      };
-    }
+  const bindings = (list.elements[1] as ListNode).elements;
+  if (bindings.length % 2 !== 0) {
+    throw new ValidationError(
+      `Incomplete binding pair in ${op}`,
+      `${op} binding`,
+      "name-value pair",
+      "incomplete pair"
+    ).withCode(ErrorCode.ODD_BINDING_LIST);
   }
 
-  // For multiple expressions, handle each one
-  const bodyNodes: IR.IRNode[] = [];
-
-  // Process all except the last one normally
-  for (let i = 0; i < bodyExprs.length - 1; i++) {
-    const transformedExpr = transformNode(bodyExprs[i], currentDir);
-    if (transformedExpr) {
-      bodyNodes.push(transformedExpr);
-    }
+  const statements: IR.IRNode[] = [];
+  for (let i = 0; i < bindings.length; i += 2) {
+    const declaration = transformNode({
+      type: "list",
+      elements: [{ type: "symbol", name: op }, bindings[i], bindings[i + 1]]
+    } as ListNode, currentDir);
+    if (declaration) statements.push(declaration);
   }
 
-  // Handle the last expression specially - wrap in return if needed
-  if (bodyExprs.length > 0) {
-    const lastExpr = bodyExprs[bodyExprs.length - 1];
-    
-    if (isRecurExpression(lastExpr)) {
-      // Recur already returns appropriately
-      const transformedExpr = transformNode(lastExpr, currentDir);
-      if (transformedExpr) {
-        bodyNodes.push(transformedExpr);
-      }
-    } else {
-      // Transform the last expression
-      const transformedExpr = transformNode(lastExpr, currentDir);
-      if (transformedExpr) {
-        // If it's already a return or if statement, use it directly
-        if (transformedExpr.type === IR.IRNodeType.ReturnStatement || 
-            transformedExpr.type === IR.IRNodeType.IfStatement) {
-          bodyNodes.push(transformedExpr);
-        } else {
-          // Otherwise wrap in return
-          bodyNodes.push({
-            type: IR.IRNodeType.ReturnStatement,
-            argument: transformedExpr
-          } as IR.IRReturnStatement);
-        }
-      }
-    }
+  statements.push(...transformLoopBody(list.elements.slice(2), currentDir, transformNode).body);
+  return toBlock(statements);
+}
+
+/**
+ * Transform a recur special form to its IR representation.
+ * Tail-position recur is lowered by transformLoop, so reaching this
+ * handler means recur is used in a non-tail position.
+ */
+export function transformRecur(
+  _list: ListNode,
+  _currentDir: string,
+  _transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  if (!hasLoopContext()) {
+    throw new ValidationError(
+      "recur must be used inside a loop",
+      "recur statement",
+      "inside loop context",
+      "outside loop context"
+    ).withCode(ErrorCode.RECUR_OUTSIDE_LOOP);
   }
+  throw new ValidationError(
+    "recur can only be used in tail position of a loop",
+    "recur statement",
+    "tail position",
+    "non-tail position"
+  ).withCode(ErrorCode.RECUR_NOT_IN_TAIL_POSITION);
+}
+
+function getListOperator(expr: any): string | null {
+  return expr && expr.type === "list" &&
+    expr.elements.length > 0 &&
+    expr.elements[0].type === "symbol"
+    ? (expr.elements[0] as SymbolNode).name
+    : null;
+}
 
+function toBlock(body: IR.IRNode[]): IR.IRBlockStatement {
+  return { type: IR.IRNodeType.BlockStatement, body };
+}
+
+function returnNull(): IR.IRReturnStatement {
   return {
-    type: IR.IRNodeType.BlockStatement,
-    body: bodyNodes
-  };
-}
\ No newline at end of file
+    type: IR.IRNodeType.ReturnStatement,
+    argument: { type: IR.IRNodeType.NullLiteral }
+  } as IR.IRReturnStatement;
+}
+
+function assign(target: IR.IRIdentifier, value: IR.IRNode): IR.IRAssignmentExpression {
+  return {
+    type: IR.IRNodeType.AssignmentExpression,
+    operator: "=",
+    left: target,
+    right: value
+  } as IR.IRAssignmentExpression;
+}
+
+export function convertWhileStatement(node: IR.IRWhileStatement): ts.WhileStatement {
+  return execute(node, "while statement", () =>
+    ts.factory.createWhileStatement(
+      convertIRExpr(node.test),
+      convertBlockStatement(node.body)
+    )
+  );
+}
+
+export function convertContinueStatement(node: IR.IRContinueStatement): ts.ContinueStatement {
+  return execute(node, "continue statement", () =>
+    ts.factory.createContinueStatement()
+  );
+}
@@ -0,0 +1,504 @@
+// src/transpiler/syntax/match.ts
+// Module for handling match expressions over enums, literals, vectors and maps
+
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
+import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { sanitizeIdentifier } from "../../common/utils.ts";
+import { gensym } from "../../gensym.ts";
+import { globalSymbolTable } from "../symbol_table.ts";
+import { transformValueBlock } from "./try-catch.ts";
+
+type TransformFn = (node: any, dir: string) => IR.IRNode | null;
+
+/**
+ * A (case Enum.name label: pattern ...) reference
+ */
+interface EnumCasePattern {
+  enumName: string;
+  caseName: string;
+  labels: { label: string; pattern: any }[];
+}
+
+/**
+ * Tests and bindings collected while compiling one pattern
+ */
+interface CompiledPattern {
+  tests: IR.IRNode[];
+  bindings: IR.IRVariableDeclaration[];
+}
+
+function isSymbolNamed(node: any, name: string): boolean {
+  return node?.type === "symbol" && (node as SymbolNode).name === name;
+}
+
+function isLabel(node: any): boolean {
+  return node?.type === "symbol" &&
+    (node as SymbolNode).name.length > 1 &&
+    (node as SymbolNode).name.endsWith(":");
+}
+
+function listHead(node: any): string | null {
+  return node?.type === "list" &&
+    node.elements.length > 0 &&
+    node.elements[0].type === "symbol"
+    ? (node.elements[0] as SymbolNode).name
+    : null;
+}
+
+/**
+ * A pattern that matches any value: _ or a plain binding name
+ */
+function isIrrefutable(pattern: any): boolean {
+  return pattern.type === "symbol" && !(pattern as SymbolNode).name.includes(".");
+}
+
+function identifier(name: string): IR.IRIdentifier {
+  return { type: IR.IRNodeType.Identifier, name };
+}
+
+function stringLiteral(value: string): IR.IRStringLiteral {
+  return { type: IR.IRNodeType.StringLiteral, value };
+}
+
+function member(object: IR.IRNode, property: string | number): IR.IRMemberExpression {
+  return typeof property === "number"
+    ? {
+        type: IR.IRNodeType.MemberExpression,
+        object,
+        property: { type: IR.IRNodeType.NumericLiteral, value: property } as IR.IRNumericLiteral,
+        computed: true,
+      }
+    : {
+        type: IR.IRNodeType.MemberExpression,
+        object,
+        property: stringLiteral(property),
+        computed: false,
+      };
+}
+
+function binary(operator: string, left: IR.IRNode, right: IR.IRNode): IR.IRBinaryExpression {
+  return { type: IR.IRNodeType.BinaryExpression, operator, left, right };
+}
+
+function methodCall(object: IR.IRNode, method: string, args: IR.IRNode[]): IR.IRCallMemberExpression {
+  return {
+    type: IR.IRNodeType.CallMemberExpression,
+    object,
+    property: stringLiteral(method),
+    arguments: args,
+  };
+}
+
+/**
+ * Resolve Enum.case to an enum case pattern when the symbol names a known
+ * enum, or when labels show it is used with associated values
+ */
+function parseEnumCasePattern(pattern: any, rest: any[]): EnumCasePattern | null {
+  if (pattern.type !== "symbol") return null;
+  const name = (pattern as SymbolNode).name;
+  const dot = name.lastIndexOf(".");
+  if (dot <= 0 || dot === name.length - 1) return null;
+
+  const enumName = name.slice(0, dot);
+  const caseName = name.slice(dot + 1);
+  if (globalSymbolTable.get(enumName)?.kind !== "enum" && !isLabel(rest[0])) return null;
+
+  const labels: EnumCasePattern["labels"] = [];
+  let i = 0;
+  while (i < rest.length && isLabel(rest[i]) && !isSymbolNamed(rest[i], "where:")) {
+    if (i + 1 >= rest.length) {
+      throw new ValidationError(
+        `Missing pattern after '${(rest[i] as SymbolNode).name}' in match case ${name}`,
+        "match case",
+        "label followed by pattern",
+        "missing pattern",
+      ).withCode(ErrorCode.INVALID_PATTERN);
+    }
+    labels.push({ label: (rest[i] as SymbolNode).name.slice(0, -1), pattern: rest[i + 1] });
+    i += 2;
+  }
+
+  return { enumName, caseName, labels };
+}
+
+/**
+ * Check labels against the associated values the symbol table recorded
+ * for the case, when the enum is declared in this module
+ */
+function validateEnumCase(enumCase: EnumCasePattern): void {
+  const enumInfo = globalSymbolTable.get(enumCase.enumName);
+  if (enumInfo?.kind !== "enum") return;
+
+  if (!enumInfo.cases?.includes(enumCase.caseName)) {
+    throw new ValidationError(
+      `${enumCase.enumName} has no case '${enumCase.caseName}'`,
+      "match case",
+      `one of ${(enumInfo.cases ?? []).join(", ")}`,
+      enumCase.caseName,
+    ).withCode(ErrorCode.UNKNOWN_ENUM_CASE);
+  }
+
+  const caseInfo = globalSymbolTable.get(`${enumCase.enumName}.${enumCase.caseName}`);
+  const known = (caseInfo?.associatedValues ?? []).map(v => v.name);
+  for (const { label } of enumCase.labels) {
+    if (!known.includes(label)) {
+      throw new ValidationError(
+        `${enumCase.enumName}.${enumCase.caseName} has no associated value '${label}'`,
+        "match case binding",
+        known.length > 0 ? `one of ${known.join(", ")}` : "no associated values",
+        label,
+      ).withCode(ErrorCode.UNKNOWN_ENUM_CASE);
+    }
+  }
+}
+
+/**
+ * Whether values of this enum are class instances with .is() and .values
+ */
+function hasAssociatedValues(enumCase: EnumCasePattern): boolean {
+  if (enumCase.labels.length > 0) return true;
+  const enumInfo = globalSymbolTable.get(enumCase.enumName);
+  return (enumInfo?.associatedValues ?? []).length > 0;
+}
+
+/**
+ * Compile a literal, symbol, vector or map pattern against the value at `access`
+ */
+function compilePattern(
+  pattern: any,
+  access: IR.IRNode,
+  result: CompiledPattern,
+  currentDir: string,
+  transformNode: TransformFn
+): void {
+  if (pattern.type === "literal") {
+    const literal = transformNode(pattern as LiteralNode, currentDir);
+    if (literal) result.tests.push(binary("===", access, literal));
+    return;
+  }
+
+  if (pattern.type === "symbol") {
+    const name = (pattern as SymbolNode).name;
+    if (name === "_") return;
+
+    // Qualified names such as Color.red compare by value
+    if (name.includes(".")) {
+      const value = transformNode(pattern, currentDir);
+      if (value) result.tests.push(binary("===", access, value));
+      return;
+    }
+
+    result.bindings.push({
+      type: IR.IRNodeType.VariableDeclaration,
+      kind: "const",
+      declarations: [{
+        type: IR.IRNodeType.VariableDeclarator,
+        id: identifier(sanitizeIdentifier(name)),
+        init: access,
+      }],
+    });
+    return;
+  }
+
+  const head = listHead(pattern);
+
+  if (head === "vector" || head === "empty-array") {
+    const items = (pattern as ListNode).elements.slice(1);
+    const restIndex = items.findIndex(item => isSymbolNamed(item, "&"));
+    const fixed = restIndex === -1 ? items : items.slice(0, restIndex);
+
+    if (restIndex !== -1 && restIndex !== items.length - 2) {
+      throw new ValidationError(
+        "& must be followed by exactly one pattern at the end of a vector pattern",
+        "match vector pattern",
+        "& name",
+        `${items.length - restIndex - 1} forms after &`,
+      ).withCode(ErrorCode.INVALID_PATTERN);
+    }
+
+    result.tests.push({
+      type: IR.IRNodeType.CallExpression,
+      callee: member(identifier("Array"), "isArray"),
+      arguments: [access],
+    } as IR.IRCallExpression);
+    result.tests.push(binary(
+      restIndex === -1 ? "===" : ">=",
+      member(access, "length"),
+      { type: IR.IRNodeType.NumericLiteral, value: fixed.length } as IR.IRNumericLiteral,
+    ));
+
+    fixed.forEach((item, i) =>
+      compilePattern(item, member(access, i), result, currentDir, transformNode)
+    );
+    if (restIndex !== -1) {
+      compilePattern(
+        items[restIndex + 1],
+        methodCall(access, "slice", [
+          { type: IR.IRNodeType.NumericLiteral, value: fixed.length } as IR.IRNumericLiteral,
+        ]),
+        result,
+        currentDir,
+        transformNode,
+      );
+    }
+    return;
+  }
+
+  if (head === "hash-map" || head === "empty-map") {
+    const entries = (pattern as ListNode).elements.slice(1);
+
+    // Object(x) === x holds for objects and arrays but not null or primitives
+    result.tests.push(binary(
+      "===",
+      {
+        type: IR.IRNodeType.CallExpression,
+        callee: identifier("Object"),
+        arguments: [access],
+      } as IR.IRCallExpression,
+      access,
+    ));
+
+    for (let i = 0; i < entries.length; i += 2) {
+      const keyNode = entries[i];
+      if (keyNode.type !== "symbol" && keyNode.type !== "literal") {
+        throw new ValidationError(
+          "Map pattern keys must be symbols or strings",
+          "match map pattern",
+          "symbol or string",
+          keyNode.type,
+        ).withCode(ErrorCode.INVALID_PATTERN);
+      }
+      const key = keyNode.type === "symbol"
+        ? (keyNode as SymbolNode).name
+        : String((keyNode as LiteralNode).value);
+      const valueAccess = member(access, key);
+
+      // A key bound to a name or _ must be present
+      if (isIrrefutable(entries[i + 1])) {
+        result.tests.push(binary("!==", valueAccess, identifier("undefined")));
+      }
+      compilePattern(entries[i + 1], valueAccess, result, currentDir, transformNode);
+    }
+    return;
+  }
+
+  throw new ValidationError(
+    "Invalid match pattern: expected a literal, name, _, Enum.case, vector or map",
+    "match pattern",
+    "literal, symbol, vector or map",
+    head ? `(${head} ...)` : pattern.type,
+  ).withCode(ErrorCode.INVALID_PATTERN);
+}
+
+function andAll(tests: IR.IRNode[]): IR.IRNode | null {
+  return tests.length === 0
+    ? null
+    : tests.reduce((left, right) => binary("&&", left, right));
+}
+
+/**
+ * Report enum cases not covered by any unguarded clause
+ */
+function checkExhaustive(
+  list: ListNode,
+  enumCases: { enumCase: EnumCasePattern; exhaustive: boolean }[]
+): void {
+  if (enumCases.length === 0) return;
+
+  const enumName = enumCases[0].enumCase.enumName;
+  const enumInfo = globalSymbolTable.get(enumName);
+  if (enumInfo?.kind !== "enum" || !enumInfo.cases) return;
+
+  const covered = new Set(
+    enumCases
+      .filter(c => c.exhaustive && c.enumCase.enumName === enumName)
+      .map(c => c.enumCase.caseName),
+  );
+  const missing = enumInfo.cases.filter(c => !covered.has(c));
+
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Non-exhaustive match on ${enumName}: missing ${missing.map(c => `${enumName}.${c}`).join(", ")}`,
+      "match expression",
+      {
+        expectedType: `all cases of ${enumName} or a default clause`,
+        actualType: `missing ${missing.join(", ")}`,
+        filePath: list._meta?.filePath,
+        line: list._meta?.line,
+        column: list._meta?.column,
+      },
+    ).withCode(ErrorCode.NON_EXHAUSTIVE_MATCH);
+  }
+}
+
+/**
+ * Transform (match expr (case pattern [where: guard] body...) ... (default body...)) to IR.
+ *
+ * Patterns are literals, names (bind the value), _, Enum.case with
+ * `label: pattern` bindings for associated values, vectors with & rest,
+ * and maps. The subject is evaluated once; the first matching clause
+ * whose guard holds produces the value. A match over a declared enum
+ * without a default must cover every case.
+ */
+export function transformMatch(
+  list: ListNode,
+  currentDir: string,
+  transformNode: TransformFn
+): IR.IRNode {
+  return perform(
+    () => {
+      if (list.elements.length < 3) {
+        throw new ValidationError(
+          "match requires a value and at least one clause",
+          "match expression",
+          "value and clauses",
+          `${list.elements.length - 1} arguments`,
+        ).withCode(ErrorCode.INVALID_MATCH);
+      }
+
+      const subjectValue = transformNode(list.elements[1], currentDir);
+      if (!subjectValue) {
+        throw new ValidationError(
+          "Match value transformed to null",
+          "match value",
+          "valid expression",
+          "null",
+        ).withCode(ErrorCode.NULL_TRANSFORM);
+      }
+
+      const subject = identifier(gensym("match"));
+      const body: IR.IRNode[] = [{
+        type: IR.IRNodeType.VariableDeclaration,
+        kind: "const",
+        declarations: [{
+          type: IR.IRNodeType.VariableDeclarator,
+          id: subject,
+          init: subjectValue,
+        }],
+      } as IR.IRVariableDeclaration];
+
+      const enumCases: { enumCase: EnumCasePattern; exhaustive: boolean }[] = [];
+      let hasCatchAll = false;
+      const clauses = list.elements.slice(2);
+
+      clauses.forEach((clause, index) => {
+        const clauseName = listHead(clause);
+
+        if (clauseName === "default") {
+          if (index !== clauses.length - 1) {
+            throw new ValidationError(
+              "default must be the last clause of match",
+              "match expression",
+              "default as last clause",
+              "clauses after default",
+            ).withCode(ErrorCode.INVALID_MATCH);
+          }
+          hasCatchAll = true;
+          body.push(transformValueBlock((clause as ListNode).elements.slice(1), currentDir, transformNode));
+          return;
+        }
+
+        if (clauseName !== "case" || (clause as ListNode).elements.length < 2) {
+          throw new ValidationError(
+            "match clauses must be (case pattern body...) or (default body...)",
+            "match clause",
+            "(case pattern body...)",
+            clauseName ? `(${clauseName} ...)` : clause.type,
+          ).withCode(ErrorCode.INVALID_MATCH);
+        }
+
+        const elements = (clause as ListNode).elements;
+        const pattern = elements[1];
+        let rest = elements.slice(2);
+        const compiled: CompiledPattern = { tests: [], bindings: [] };
+
+        const enumCase = parseEnumCasePattern(pattern, rest);
+        if (enumCase) {
+          validateEnumCase(enumCase);
+          rest = rest.slice(enumCase.labels.length * 2);
+
+          compiled.tests.push(
+            hasAssociatedValues(enumCase)
+              ? methodCall(subject, "is", [stringLiteral(enumCase.caseName)])
+              : binary("===", subject, transformNode(pattern, currentDir)!),
+          );
+          for (const { label, pattern: labelPattern } of enumCase.labels) {
+            compilePattern(labelPattern, member(member(subject, "values"), label), compiled, currentDir, transformNode);
+          }
+        } else {
+          compilePattern(pattern, subject, compiled, currentDir, transformNode);
+        }
+
+        let guard: IR.IRNode | null = null;
+        if (isSymbolNamed(rest[0], "where:")) {
+          guard = rest[1] ? transformNode(rest[1], currentDir) : null;
+          if (!guard) {
+            throw new ValidationError(
+              "where: requires a guard expression",
+              "match guard",
+              "guard expression",
+              "nothing",
+            ).withCode(ErrorCode.INVALID_MATCH);
+          }
+          rest = rest.slice(2);
+        }
+
+        if (enumCase) {
+          enumCases.push({
+            enumCase,
+            exhaustive: !guard && enumCase.labels.every(l => isIrrefutable(l.pattern)),
+          });
+        } else if (!guard && isIrrefutable(pattern)) {
+          hasCatchAll = true;
+        }
+
+        const valueBlock = transformValueBlock(rest, currentDir, transformNode);
+        const clauseBody: IR.IRBlockStatement = {
+          type: IR.IRNodeType.BlockStatement,
+          body: [
+            ...compiled.bindings,
+            ...(guard
+              ? [{ type: IR.IRNodeType.IfStatement, test: guard, consequent: valueBlock, alternate: null } as IR.IRIfStatement]
+              : valueBlock.body),
+          ],
+        };
+
+        const test = andAll(compiled.tests);
+        body.push(
+          test
+            ? { type: IR.IRNodeType.IfStatement, test, consequent: clauseBody, alternate: null } as IR.IRIfStatement
+            : clauseBody,
+        );
+      });
+
+      if (!hasCatchAll) {
+        checkExhaustive(list, enumCases);
+        body.push({
+          type: IR.IRNodeType.ThrowStatement,
+          argument: {
+            type: IR.IRNodeType.NewExpression,
+            callee: identifier("Error"),
+            arguments: [stringLiteral("No match clause matched the value")],
+          } as IR.IRNewExpression,
+        } as IR.IRThrowStatement);
+      }
+
+      return {
+        type: IR.IRNodeType.CallExpression,
+        callee: {
+          type: IR.IRNodeType.FunctionExpression,
+          id: null,
+          params: [],
+          body: { type: IR.IRNodeType.BlockStatement, body },
+          arrow: true,
+        } as IR.IRFunctionExpression,
+        arguments: [],
+      } as IR.IRCallExpression;
+    },
+    "transformMatch",
+    TransformError,
+    [list],
+  );
+}
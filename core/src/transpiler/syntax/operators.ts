@@ -2,6 +2,7 @@ import * as ts from "npm:typescript@^5.0.0";
 import * as IR from "../type/hql_ir.ts";
 import { convertIRExpr } from "../pipeline/hql-ir-to-ts-ast.ts";
 import { CodeGenError } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { execute } from "../pipeline/hql-ir-to-ts-ast.ts";
 
 export function convertAssignmentExpression(node: IR.IRAssignmentExpression): ts.Expression {
@@ -25,17 +26,26 @@ export function convertBinaryExpression(node: IR.IRBinaryExpression): ts.BinaryE
       const operator = node.operator ? getBinaryOperator(node.operator) : ts.SyntaxKind.PlusToken;
       return ts.factory.createBinaryExpression(left, operator, right);
     }
+    const left = convertIRExpr(node.left);
     return ts.factory.createBinaryExpression(
-      convertIRExpr(node.left),
+      node.operator === "**" && isUnary(left) ? ts.factory.createParenthesizedExpression(left) : left,
       getBinaryOperator(node.operator),
       convertIRExpr(node.right)
     );
   });
 }
 
+/* -2 ** 2 is a syntax error in JavaScript; the base must be (-2) */
+function isUnary(node: ts.Expression): boolean {
+  return ts.isPrefixUnaryExpression(node) || ts.isTypeOfExpression(node) || ts.isAwaitExpression(node) ||
+    ts.isVoidExpression(node) || ts.isDeleteExpression(node);
+}
+
 export function convertUnaryExpression(node: IR.IRUnaryExpression): ts.UnaryExpression {
   return execute(node, "unary expression", () =>
-    ts.factory.createPrefixUnaryExpression(getUnaryOperator(node.operator), convertIRExpr(node.argument))
+    node.operator === "typeof"
+      ? ts.factory.createTypeOfExpression(convertIRExpr(node.argument))
+      : ts.factory.createPrefixUnaryExpression(getUnaryOperator(node.operator), convertIRExpr(node.argument))
   );
 }
 
@@ -46,7 +56,7 @@ function getUnaryOperator(op: string): ts.PrefixUnaryOperator {
     case "!": return ts.SyntaxKind.ExclamationToken;
     case "~": return ts.SyntaxKind.TildeToken;
     default:
-      throw new CodeGenError(`Unknown unary operator: ${op}`, "unary expression operator", op);
+      throw new CodeGenError(`Unknown unary operator: ${op}`, "unary expression operator", op).withCode(ErrorCode.UNKNOWN_OPERATOR);
   }
 }
 
@@ -55,6 +65,7 @@ function getBinaryOperator(op: string): ts.BinaryOperatorToken {
     case "+": return ts.factory.createToken(ts.SyntaxKind.PlusToken);
     case "-": return ts.factory.createToken(ts.SyntaxKind.MinusToken);
     case "*": return ts.factory.createToken(ts.SyntaxKind.AsteriskToken);
+    case "**": return ts.factory.createToken(ts.SyntaxKind.AsteriskAsteriskToken);
     case "/": return ts.factory.createToken(ts.SyntaxKind.SlashToken);
     case "%": return ts.factory.createToken(ts.SyntaxKind.PercentToken);
     case "===":
@@ -67,7 +78,16 @@ function getBinaryOperator(op: string): ts.BinaryOperatorToken {
     case "<=": return ts.factory.createToken(ts.SyntaxKind.LessThanEqualsToken);
     case "&&": return ts.factory.createToken(ts.SyntaxKind.AmpersandAmpersandToken);
     case "||": return ts.factory.createToken(ts.SyntaxKind.BarBarToken);
+    case "??": return ts.factory.createToken(ts.SyntaxKind.QuestionQuestionToken);
+    case "&": return ts.factory.createToken(ts.SyntaxKind.AmpersandToken);
+    case "|": return ts.factory.createToken(ts.SyntaxKind.BarToken);
+    case "^": return ts.factory.createToken(ts.SyntaxKind.CaretToken);
+    case "<<": return ts.factory.createToken(ts.SyntaxKind.LessThanLessThanToken);
+    case ">>": return ts.factory.createToken(ts.SyntaxKind.GreaterThanGreaterThanToken);
+    case ">>>": return ts.factory.createToken(ts.SyntaxKind.GreaterThanGreaterThanGreaterThanToken);
+    case "instanceof": return ts.factory.createToken(ts.SyntaxKind.InstanceOfKeyword);
+    case "in": return ts.factory.createToken(ts.SyntaxKind.InKeyword);
     default:
-      throw new CodeGenError(`Unknown binary operator: ${op}`, "binary expression operator", op);
+      throw new CodeGenError(`Unknown binary operator: ${op}`, "binary expression operator", op).withCode(ErrorCode.UNKNOWN_OPERATOR);
   }
 }
\ No newline at end of file
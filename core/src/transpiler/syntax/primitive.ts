@@ -4,12 +4,47 @@
 import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode } from "../type/hql_ast.ts";
 import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 import { 
   KERNEL_PRIMITIVES,
   PRIMITIVE_CLASS,
   PRIMITIVE_DATA_STRUCTURE,
   PRIMITIVE_OPS 
 } from "../keyword/primitives.ts";
+import { createStructEquality } from "./struct.ts";
+import { gensym } from "../../gensym.ts";
+import { globalSymbolTable } from "../symbol_table.ts";
+
+/**
+ * Operators that take any number of operands, folded from the left:
+ * (bit-or a b c) is a | b | c
+ */
+const VARIADIC_OPERATORS = new Map([
+  ["and", "&&"],
+  ["or", "||"],
+  ["??", "??"],
+  ["nil-or", "??"],
+  ["bit-and", "&"],
+  ["bit-or", "|"],
+  ["bit-xor", "^"],
+]);
+
+/**
+ * Operators of exactly two operands
+ */
+const BINARY_OPERATORS = new Map([
+  ["**", "**"],
+  ["bit-shift-left", "<<"],
+  ["bit-shift-right", ">>"],
+  ["unsigned-bit-shift-right", ">>>"],
+  ["instanceof?", "instanceof"],
+  ["in?", "in"],
+]);
+
+const UNARY_OPERATORS = new Map([
+  ["bit-not", "~"],
+  ["typeof", "typeof"],
+]);
 
 /**
  * Transform primitive operations (+, -, *, /, etc.).
@@ -30,7 +65,7 @@ export function transformPrimitiveOp(
             `${op} argument`,
             "valid expression",
             "null",
-          );
+          ).withCode(ErrorCode.NULL_TRANSFORM);
         }
         return transformed;
       });
@@ -51,6 +86,24 @@ export function transformPrimitiveOp(
         return transformComparisonOp(op, args);
       }
 
+      if (VARIADIC_OPERATORS.has(op)) {
+        return transformVariadicOp(op, args);
+      }
+
+      if (BINARY_OPERATORS.has(op)) {
+        requireArgs(op, args, 2);
+        return binary(BINARY_OPERATORS.get(op)!, args[0], args[1]);
+      }
+
+      if (UNARY_OPERATORS.has(op)) {
+        requireArgs(op, args, 1);
+        return {
+          type: IR.IRNodeType.UnaryExpression,
+          operator: UNARY_OPERATORS.get(op)!,
+          argument: args[0],
+        } as IR.IRUnaryExpression;
+      }
+
       return {
         type: IR.IRNodeType.CallExpression,
         callee: { type: IR.IRNodeType.Identifier, name: op } as IR.IRIdentifier,
@@ -69,13 +122,18 @@ export function transformPrimitiveOp(
 export function transformArithmeticOp(op: string, args: IR.IRNode[]): IR.IRNode {
   return perform(
     () => {
+      // (+) is 0 and (*) is 1, as in reduce
+      if (args.length === 0 && (op === "+" || op === "*")) {
+        return { type: IR.IRNodeType.NumericLiteral, value: op === "+" ? 0 : 1 } as IR.IRNumericLiteral;
+      }
+
       if (args.length === 0) {
         throw new ValidationError(
           `${op} requires at least one argument`,
           `${op} operation`,
           "at least 1 argument",
           "0 arguments",
-        );
+        ).withCode(ErrorCode.OPERATOR_ARITY);
       }
 
       if (args.length === 1 && (op === "+" || op === "-")) {
@@ -117,18 +175,30 @@ export function transformArithmeticOp(op: string, args: IR.IRNode[]): IR.IRNode
 }
 
 /**
- * Transform comparison operations (=, !=, <, >, <=, >=)
+ * Transform comparison operations (=, !=, <, >, <=, >=). The ordering
+ * comparisons chain: (< a b c) holds when a < b and b < c.
  */
 export function transformComparisonOp(op: string, args: IR.IRNode[]): IR.IRNode {
   return perform(
     () => {
+      const chains = op === "<" || op === ">" || op === "<=" || op === ">=";
+      if (args.length > 2 && chains) {
+        return transformChainedComparison(op, args);
+      }
+
       if (args.length !== 2) {
+        const expected = chains ? "at least 2" : "exactly 2";
         throw new ValidationError(
-          `${op} requires exactly 2 arguments, got ${args.length}`,
+          `${op} requires ${expected} arguments, got ${args.length}`,
           `${op} operation`,
-          "2 arguments",
+          `${expected} arguments`,
           `${args.length} arguments`,
-        );
+        ).withCode(ErrorCode.OPERATOR_ARITY);
+      }
+
+      // = and != compare structs by value; eq? always compares identity
+      if ((op === "=" || op === "!=") && !args.some(isNeverStruct)) {
+        return createStructEquality(args[0], args[1], op === "!=");
       }
 
       let jsOp: string;
@@ -163,6 +233,110 @@ export function transformComparisonOp(op: string, args: IR.IRNode[]): IR.IRNode
   );
 }
 
+/**
+ * (< a b c) as a < b && b < c. Operands in the middle are compared twice, so
+ * unless each is a name or a literal, all of them are passed to a function
+ * and evaluated once, in order:
+ * (function (a, b, c) { return a < b && b < c; })(x, (f), z)
+ */
+function transformChainedComparison(op: string, args: IR.IRNode[]): IR.IRNode {
+  const inline = args.slice(1, -1).every((arg) => isLiteral(arg) || arg.type === IR.IRNodeType.Identifier);
+  const params = inline ? [] : args.map(() => identifier(gensym("operand")));
+  const operands = inline ? args : params;
+
+  let test: IR.IRNode = binary(op, operands[0], operands[1]);
+  for (let i = 2; i < operands.length; i++) {
+    test = binary("&&", test, binary(op, operands[i - 1], operands[i]));
+  }
+  if (inline) return test;
+
+  return {
+    type: IR.IRNodeType.CallExpression,
+    callee: {
+      type: IR.IRNodeType.FunctionExpression,
+      id: null,
+      params,
+      body: {
+        type: IR.IRNodeType.BlockStatement,
+        body: [{ type: IR.IRNodeType.ReturnStatement, argument: test } as IR.IRReturnStatement],
+      },
+    } as IR.IRFunctionExpression,
+    arguments: args,
+  } as IR.IRCallExpression;
+}
+
+/**
+ * Transform operators of any number of operands (and, or, ??, bit-and, ...).
+ * (and) is true and (or) is nil; the others need at least one operand.
+ */
+function transformVariadicOp(op: string, args: IR.IRNode[]): IR.IRNode {
+  if (args.length === 0 && op === "and") {
+    return { type: IR.IRNodeType.BooleanLiteral, value: true } as IR.IRBooleanLiteral;
+  }
+  if (args.length === 0 && op === "or") {
+    return { type: IR.IRNodeType.NullLiteral } as IR.IRNullLiteral;
+  }
+  if (args.length === 0) {
+    throw new ValidationError(`${op} requires at least one argument`, `${op} operation`, {
+      expectedType: "at least 1 argument",
+      actualType: "0 arguments",
+    }).withCode(ErrorCode.OPERATOR_ARITY);
+  }
+  const operator = VARIADIC_OPERATORS.get(op)!;
+  return args.reduce((left, right) => binary(operator, left, right));
+}
+
+function requireArgs(op: string, args: IR.IRNode[], count: number): void {
+  if (args.length === count) return;
+  const expected = `${count} argument${count === 1 ? "" : "s"}`;
+  throw new ValidationError(`${op} requires exactly ${expected}, got ${args.length}`, `${op} operation`, {
+    expectedType: expected,
+    actualType: `${args.length} arguments`,
+  }).withCode(ErrorCode.OPERATOR_ARITY);
+}
+
+function binary(operator: string, left: IR.IRNode, right: IR.IRNode): IR.IRBinaryExpression {
+  return { type: IR.IRNodeType.BinaryExpression, operator, left, right };
+}
+
+function identifier(name: string): IR.IRIdentifier {
+  return { type: IR.IRNodeType.Identifier, name };
+}
+
+function isLiteral(node: IR.IRNode): boolean {
+  return node.type === IR.IRNodeType.NumericLiteral ||
+    node.type === IR.IRNodeType.StringLiteral ||
+    node.type === IR.IRNodeType.BooleanLiteral ||
+    node.type === IR.IRNodeType.NullLiteral;
+}
+
+/**
+ * Whether a value can be seen not to be a struct: a literal, nil, the result
+ * of an operator that gives a primitive, or a case of an enum of this module
+ */
+function isNeverStruct(node: IR.IRNode): boolean {
+  switch (node.type) {
+    case IR.IRNodeType.Identifier: {
+      const name = (node as IR.IRIdentifier).name;
+      if (name === "null" || name === "undefined") return true;
+      // Enum.case
+      const dot = name.indexOf(".");
+      return dot > 0 && globalSymbolTable.get(name.slice(0, dot))?.kind === "enum";
+    }
+    case IR.IRNodeType.UnaryExpression:
+      return true;
+    case IR.IRNodeType.BinaryExpression:
+      return !["&&", "||", "??"].includes((node as IR.IRBinaryExpression).operator);
+    case IR.IRNodeType.MemberExpression: {
+      const object = (node as IR.IRMemberExpression).object;
+      return object.type === IR.IRNodeType.Identifier &&
+        globalSymbolTable.get((object as IR.IRIdentifier).name)?.kind === "enum";
+    }
+    default:
+      return isLiteral(node);
+  }
+}
+
 /**
  * Check if a primitive operation is supported
  */
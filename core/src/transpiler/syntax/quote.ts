@@ -5,6 +5,7 @@ import * as IR from "../type/hql_ir.ts";
 import { ListNode, SymbolNode, LiteralNode } from "../type/hql_ast.ts";
 import { TransformError, ValidationError } from "../../common/error.ts";
 import { perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
 
 /**
  * Transform a quoted expression.
@@ -22,7 +23,7 @@ export function transformQuote(
           "quote",
           "1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_QUOTE);
       }
 
       const quoted = list.elements[1];
@@ -82,7 +83,7 @@ export function transformQuote(
         "quote",
         "literal, symbol, or list",
         IR.IRNodeType[(quoted as IR.IRNode).type],
-      );
+      ).withCode(ErrorCode.INVALID_QUOTE);
     },
     "transformQuote",
     TransformError,
@@ -108,7 +109,7 @@ export function transformQuasiquote(
           "quasiquote",
           "1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_QUOTE);
       }
 
       const transformed = transformNode(list.elements[1], currentDir);
@@ -118,7 +119,7 @@ export function transformQuasiquote(
           "quasiquote",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       return transformed;
     },
@@ -146,7 +147,7 @@ export function transformUnquote(
           "unquote",
           "1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_QUOTE);
       }
 
       const transformed = transformNode(list.elements[1], currentDir);
@@ -156,7 +157,7 @@ export function transformUnquote(
           "unquote",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       return transformed;
     },
@@ -184,7 +185,7 @@ export function transformUnquoteSplicing(
           "unquote-splicing",
           "1 argument",
           `${list.elements.length - 1} arguments`,
-        );
+        ).withCode(ErrorCode.INVALID_QUOTE);
       }
 
       const transformed = transformNode(list.elements[1], currentDir);
@@ -194,7 +195,7 @@ export function transformUnquoteSplicing(
           "unquote-splicing",
           "valid expression",
           "null",
-        );
+        ).withCode(ErrorCode.NULL_TRANSFORM);
       }
       return transformed;
     },
@@ -0,0 +1,474 @@
+// src/transpiler/syntax/struct.ts
+// Module for handling struct declarations (value types built on the class pipeline)
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode } from "../type/hql_ast.ts";
+import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { sanitizeIdentifier } from "../../common/utils.ts";
+import { gensym } from "../../gensym.ts";
+import { execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+import { convertClassDeclaration, transformClassBody } from "./class.ts";
+
+/**
+ * Methods every struct gets; user code cannot redefine them
+ */
+const GENERATED_METHODS = ["copy", "with", "equals"];
+
+/**
+ * Symbol.for key of the getter that marks struct instances
+ */
+const STRUCT_MARKER = "hql.struct";
+
+export const COPY_HELPER = "__hql_struct_copy";
+export const EQUALS_HELPER = "__hql_struct_equals";
+
+function identifier(name: string): IR.IRIdentifier {
+  return { type: IR.IRNodeType.Identifier, name };
+}
+
+function stringLiteral(value: string): IR.IRStringLiteral {
+  return { type: IR.IRNodeType.StringLiteral, value };
+}
+
+function member(object: IR.IRNode, property: string): IR.IRMemberExpression {
+  return {
+    type: IR.IRNodeType.MemberExpression,
+    object,
+    property: stringLiteral(property),
+    computed: false,
+  };
+}
+
+function binary(operator: string, left: IR.IRNode, right: IR.IRNode): IR.IRBinaryExpression {
+  return { type: IR.IRNodeType.BinaryExpression, operator, left, right };
+}
+
+function call(callee: IR.IRNode, args: IR.IRNode[]): IR.IRCallExpression {
+  return {
+    type: IR.IRNodeType.CallExpression,
+    callee: callee as IR.IRMemberExpression,
+    arguments: args,
+  };
+}
+
+function methodCall(object: IR.IRNode, method: string, args: IR.IRNode[]): IR.IRCallMemberExpression {
+  return {
+    type: IR.IRNodeType.CallMemberExpression,
+    object,
+    property: stringLiteral(method),
+    arguments: args,
+  };
+}
+
+function returnStatement(argument: IR.IRNode): IR.IRReturnStatement {
+  return { type: IR.IRNodeType.ReturnStatement, argument };
+}
+
+/**
+ * Object(value) === value && value[Symbol.for("hql.struct")] === true
+ */
+function isStructValue(value: IR.IRNode): IR.IRNode {
+  const marker: IR.IRMemberExpression = {
+    type: IR.IRNodeType.MemberExpression,
+    object: value,
+    property: call(member(identifier("Symbol"), "for"), [stringLiteral(STRUCT_MARKER)]),
+    computed: true,
+  };
+  return binary(
+    "&&",
+    binary("===", call(identifier("Object"), [value]), value),
+    binary("===", marker, { type: IR.IRNodeType.BooleanLiteral, value: true } as IR.IRBooleanLiteral),
+  );
+}
+
+/**
+ * Helpers the module being compiled calls, declared at its top. Structs are
+ * recognised by their marker at runtime, so values of a struct declared in
+ * another module get the same semantics.
+ */
+const usedHelpers = new Set<string>();
+
+function helperCall(name: string, args: IR.IRNode[]): IR.IRCallExpression {
+  usedHelpers.add(name);
+  return call(identifier(name), args);
+}
+
+/**
+ * Copy a value if it is a struct instance, otherwise pass it through
+ */
+function copyIfStruct(value: IR.IRNode): IR.IRCallExpression {
+  return helperCall(COPY_HELPER, [value]);
+}
+
+/**
+ * Give assignments value semantics: when a binding or set! takes its value
+ * from another variable or field, a struct instance is copied instead of
+ * shared.
+ */
+export function copyOnAssign(value: IR.IRNode): IR.IRNode {
+  if (value.type !== IR.IRNodeType.Identifier && value.type !== IR.IRNodeType.MemberExpression) {
+    return value;
+  }
+  return copyIfStruct(value);
+}
+
+/**
+ * Structural equality for = and !=: structs compare by value, anything else
+ * by identity
+ */
+export function createStructEquality(
+  left: IR.IRNode,
+  right: IR.IRNode,
+  negate: boolean
+): IR.IRNode {
+  const equal = helperCall(EQUALS_HELPER, [left, right]);
+  return negate
+    ? { type: IR.IRNodeType.UnaryExpression, operator: "!", argument: equal } as IR.IRUnaryExpression
+    : equal;
+}
+
+/**
+ * Forget the helpers of the previous module
+ */
+export function resetStructHelpers(): void {
+  usedHelpers.clear();
+}
+
+/**
+ * Declarations of the helpers the module calls:
+ * function __hql_struct_copy(value) { return struct(value) ? value.copy() : value; }
+ * function __hql_struct_equals(left, right) { return struct(left) ? left.equals(right) : left === right; }
+ */
+export function structHelperDeclarations(): IR.IRFunctionDeclaration[] {
+  const declarations: IR.IRFunctionDeclaration[] = [];
+  if (usedHelpers.has(COPY_HELPER)) {
+    const value = identifier("value");
+    declarations.push(helperDeclaration(COPY_HELPER, [value], {
+      type: IR.IRNodeType.ConditionalExpression,
+      test: isStructValue(value),
+      consequent: methodCall(value, "copy", []),
+      alternate: value,
+    } as IR.IRConditionalExpression));
+  }
+  if (usedHelpers.has(EQUALS_HELPER)) {
+    const left = identifier("left");
+    const right = identifier("right");
+    declarations.push(helperDeclaration(EQUALS_HELPER, [left, right], {
+      type: IR.IRNodeType.ConditionalExpression,
+      test: isStructValue(left),
+      consequent: methodCall(left, "equals", [right]),
+      alternate: binary("===", left, right),
+    } as IR.IRConditionalExpression));
+  }
+  return declarations;
+}
+
+function helperDeclaration(name: string, params: IR.IRIdentifier[], result: IR.IRNode): IR.IRFunctionDeclaration {
+  return {
+    type: IR.IRNodeType.FunctionDeclaration,
+    id: identifier(name),
+    params,
+    body: { type: IR.IRNodeType.BlockStatement, body: [returnStatement(result)] },
+  };
+}
+
+/**
+ * Object.defineProperty(target, "name", { writable: false })
+ */
+function lockField(target: IR.IRNode, name: string): IR.IRCallExpression {
+  return call(member(identifier("Object"), "defineProperty"), [
+    target,
+    stringLiteral(name),
+    {
+      type: IR.IRNodeType.ObjectExpression,
+      properties: [
+        {
+          type: IR.IRNodeType.ObjectProperty,
+          key: stringLiteral("writable"),
+          value: { type: IR.IRNodeType.BooleanLiteral, value: false } as IR.IRBooleanLiteral,
+        },
+      ],
+    } as IR.IRObjectExpression,
+  ]);
+}
+
+/**
+ * Generate (init (a b) ...) assigning every field that has no default, in declaration order
+ */
+function createMemberwiseInit(fields: IR.IRClassField[]): IR.IRClassConstructor {
+  const required = fields.filter((field) => field.initialValue === null);
+  return {
+    type: IR.IRNodeType.ClassConstructor,
+    params: required.map((field) => identifier(sanitizeIdentifier(field.name))),
+    body: {
+      type: IR.IRNodeType.BlockStatement,
+      body: required.map((field) => ({
+        type: IR.IRNodeType.AssignmentExpression,
+        operator: "=",
+        left: member(identifier("this"), field.name),
+        right: copyIfStruct(identifier(sanitizeIdentifier(field.name))),
+      } as IR.IRAssignmentExpression)),
+    },
+  };
+}
+
+/**
+ * Make let fields read-only once init has run
+ */
+function lockImmutableFields(init: IR.IRClassConstructor, fields: IR.IRClassField[]): void {
+  const locks = fields
+    .filter((field) => !field.mutable)
+    .map((field) => lockField(identifier("this"), field.name));
+  if (locks.length === 0) return;
+
+  const body = init.body.body;
+  const last = body[body.length - 1];
+  if (last && last.type === IR.IRNodeType.ReturnStatement) {
+    body.splice(body.length - 1, 0, ...locks);
+  } else {
+    body.push(...locks);
+  }
+}
+
+/**
+ * (fn with (changes) ...) returning a copy with some fields replaced.
+ * Nested structs are copied; let fields stay read-only on the copy.
+ */
+function createWithMethod(structName: string, fields: IR.IRClassField[]): IR.IRClassMethod {
+  const changes = identifier("changes");
+  const next = identifier("next");
+  const body: IR.IRNode[] = [
+    {
+      type: IR.IRNodeType.VariableDeclaration,
+      kind: "const",
+      declarations: [
+        {
+          type: IR.IRNodeType.VariableDeclarator,
+          id: next,
+          init: call(member(identifier("Object"), "create"), [
+            member(identifier(structName), "prototype"),
+          ]),
+        },
+      ],
+    } as IR.IRVariableDeclaration,
+  ];
+
+  for (const field of fields) {
+    const changed = member(changes, field.name);
+    const value = identifier(gensym(sanitizeIdentifier(field.name)));
+    body.push({
+      type: IR.IRNodeType.VariableDeclaration,
+      kind: "const",
+      declarations: [
+        {
+          type: IR.IRNodeType.VariableDeclarator,
+          id: value,
+          init: {
+            type: IR.IRNodeType.ConditionalExpression,
+            test: binary("!==", changed, identifier("undefined")),
+            consequent: changed,
+            alternate: member(identifier("this"), field.name),
+          } as IR.IRConditionalExpression,
+        },
+      ],
+    } as IR.IRVariableDeclaration);
+    body.push({
+      type: IR.IRNodeType.AssignmentExpression,
+      operator: "=",
+      left: member(next, field.name),
+      right: copyIfStruct(value),
+    } as IR.IRAssignmentExpression);
+  }
+
+  for (const field of fields.filter((field) => !field.mutable)) {
+    body.push(lockField(next, field.name));
+  }
+  body.push(returnStatement(next));
+
+  return {
+    type: IR.IRNodeType.ClassMethod,
+    name: "with",
+    params: [changes],
+    body: { type: IR.IRNodeType.BlockStatement, body },
+  };
+}
+
+/**
+ * (fn copy () (self.with {}))
+ */
+function createCopyMethod(): IR.IRClassMethod {
+  return {
+    type: IR.IRNodeType.ClassMethod,
+    name: "copy",
+    params: [],
+    body: {
+      type: IR.IRNodeType.BlockStatement,
+      body: [
+        returnStatement(
+          methodCall(identifier("this"), "with", [
+            { type: IR.IRNodeType.ObjectExpression, properties: [] } as IR.IRObjectExpression,
+          ]),
+        ),
+      ],
+    },
+  };
+}
+
+/**
+ * (fn equals (other) ...) comparing every field, and nested structs by value
+ */
+function createEqualsMethod(structName: string, fields: IR.IRClassField[]): IR.IRClassMethod {
+  const other = identifier("other");
+  let test: IR.IRNode = binary(
+    "&&",
+    binary("===", call(identifier("Object"), [other]), other),
+    binary("===", member(other, "constructor"), identifier(structName)),
+  );
+
+  for (const field of fields) {
+    const mine = member(identifier("this"), field.name);
+    const theirs = member(other, field.name);
+    test = binary("&&", test, createStructEquality(mine, theirs, false));
+  }
+
+  return {
+    type: IR.IRNodeType.ClassMethod,
+    name: "equals",
+    params: [other],
+    body: { type: IR.IRNodeType.BlockStatement, body: [returnStatement(test)] },
+  };
+}
+
+/**
+ * Transform a struct declaration to IR:
+ * (struct Name (var field) (let field value) (init (params) body) (fn method (params) body) ...)
+ */
+export function transformStruct(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      if (list.elements.length < 2) {
+        throw new ValidationError(
+          "struct requires a name and body elements",
+          "struct definition",
+          "name and body",
+          `${list.elements.length - 1} arguments`,
+        ).withCode(ErrorCode.INVALID_STRUCT);
+      }
+
+      const nameNode = list.elements[1];
+      if (nameNode.type !== "symbol") {
+        throw new ValidationError(
+          "Struct name must be a symbol",
+          "struct name",
+          "symbol",
+          nameNode.type,
+        ).withCode(ErrorCode.INVALID_STRUCT);
+      }
+      const structName = sanitizeIdentifier((nameNode as SymbolNode).name);
+
+      const extendsNode = list.elements[2];
+      if (extendsNode?.type === "symbol" && (extendsNode as SymbolNode).name === "extends") {
+        throw new ValidationError(
+          `Struct ${structName} cannot extend another type; structs do not support inheritance`,
+          "struct definition",
+          "struct without extends",
+          "extends",
+        ).withCode(ErrorCode.INVALID_STRUCT);
+      }
+
+      const bodyElements = list.elements.slice(2);
+      for (const element of bodyElements) {
+        const head = element.type === "list" && (element as ListNode).elements[0]?.type === "symbol"
+          ? ((element as ListNode).elements[0] as SymbolNode).name
+          : null;
+        if (head === "constructor") {
+          throw new ValidationError(
+            `Struct ${structName} must use (init (params) body) instead of constructor`,
+            "struct initializer",
+            "init",
+            "constructor",
+          ).withCode(ErrorCode.INVALID_STRUCT);
+        }
+      }
+
+      const { fields, constructor, methods } = transformClassBody(
+        bodyElements,
+        currentDir,
+        transformNode,
+        "init",
+      );
+
+      for (const method of methods) {
+        if (GENERATED_METHODS.includes(method.name)) {
+          throw new ValidationError(
+            `Struct ${structName} cannot define '${method.name}'; it is generated for every struct`,
+            "struct method",
+            "a method name other than copy, with or equals",
+            method.name,
+          ).withCode(ErrorCode.INVALID_STRUCT);
+        }
+      }
+
+      // Static fields belong to the type, not to each value
+      const instanceFields = fields.filter((field) => !field.static);
+      const init = constructor ?? createMemberwiseInit(instanceFields);
+      lockImmutableFields(init, instanceFields);
+
+      return {
+        type: IR.IRNodeType.ClassDeclaration,
+        id: identifier(structName),
+        fields,
+        constructor: init,
+        methods: [
+          ...methods,
+          createWithMethod(structName, instanceFields),
+          createCopyMethod(),
+          createEqualsMethod(structName, instanceFields),
+        ],
+        struct: true,
+      } as IR.IRClassDeclaration;
+    },
+    "transformStruct",
+    TransformError,
+    [list],
+  );
+}
+
+/**
+ * Convert a struct to a class with a get [Symbol.for("hql.struct")]() marker
+ */
+export function convertStructDeclaration(node: IR.IRClassDeclaration): ts.ClassDeclaration {
+  return execute(node, "struct declaration", () => {
+    const classDecl = convertClassDeclaration(node);
+    const marker = ts.factory.createGetAccessorDeclaration(
+      undefined,
+      ts.factory.createComputedPropertyName(
+        ts.factory.createCallExpression(
+          ts.factory.createPropertyAccessExpression(
+            ts.factory.createIdentifier("Symbol"),
+            ts.factory.createIdentifier("for")
+          ),
+          undefined,
+          [ts.factory.createStringLiteral(STRUCT_MARKER)]
+        )
+      ),
+      [],
+      undefined,
+      ts.factory.createBlock([ts.factory.createReturnStatement(ts.factory.createTrue())], true)
+    );
+    return ts.factory.updateClassDeclaration(
+      classDecl,
+      classDecl.modifiers,
+      classDecl.name,
+      classDecl.typeParameters,
+      classDecl.heritageClauses,
+      [...classDecl.members, marker]
+    );
+  });
+}
@@ -0,0 +1,317 @@
+// src/transpiler/syntax/try-catch.ts
+// Module for handling try/catch/finally and runtime throw special forms
+
+import * as ts from "npm:typescript@^5.0.0";
+import * as IR from "../type/hql_ir.ts";
+import { ListNode, SymbolNode } from "../type/hql_ast.ts";
+import { ValidationError, TransformError, perform } from "../../common/error.ts";
+import { ErrorCode } from "../../common/error-codes.ts";
+import { sanitizeIdentifier } from "../../common/utils.ts";
+import { convertIRExpr, convertIRNode, execute } from "../pipeline/hql-ir-to-ts-ast.ts";
+
+/**
+ * Check if a node is a (catch ...) or (finally ...) clause
+ */
+function getClauseName(node: any): "catch" | "finally" | null {
+  if (
+    node.type === "list" &&
+    node.elements.length > 0 &&
+    node.elements[0].type === "symbol"
+  ) {
+    const name = (node.elements[0] as SymbolNode).name;
+    if (name === "catch" || name === "finally") return name;
+  }
+  return null;
+}
+
+/**
+ * Transform a sequence of expressions into a block whose last expression
+ * is returned, so the enclosing try or match produces a value like `do` does.
+ */
+export function transformValueBlock(
+  exprs: any[],
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRBlockStatement {
+  const body: IR.IRNode[] = [];
+
+  for (let i = 0; i < exprs.length; i++) {
+    const transformed = transformNode(exprs[i], currentDir);
+    if (!transformed) continue;
+
+    const isLast = i === exprs.length - 1;
+    if (
+      !isLast ||
+      transformed.type === IR.IRNodeType.ReturnStatement ||
+      transformed.type === IR.IRNodeType.ThrowStatement ||
+      transformed.type === IR.IRNodeType.IfStatement
+    ) {
+      body.push(transformed);
+    } else {
+      body.push({
+        type: IR.IRNodeType.ReturnStatement,
+        argument: transformed,
+      } as IR.IRReturnStatement);
+    }
+  }
+
+  if (body.length === 0) {
+    body.push({
+      type: IR.IRNodeType.ReturnStatement,
+      argument: { type: IR.IRNodeType.NullLiteral },
+    } as IR.IRReturnStatement);
+  }
+
+  return { type: IR.IRNodeType.BlockStatement, body };
+}
+
+/**
+ * Transform a (catch e body...) clause
+ */
+function transformCatchClause(
+  clause: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRCatchClause {
+  if (clause.elements.length < 2) {
+    throw new ValidationError(
+      "catch requires a binding symbol",
+      "catch clause",
+      "symbol",
+      "nothing",
+    ).withCode(ErrorCode.INVALID_TRY);
+  }
+
+  const paramNode = clause.elements[1];
+  if (paramNode.type !== "symbol") {
+    throw new ValidationError(
+      "catch binding must be a symbol",
+      "catch clause",
+      "symbol",
+      paramNode.type,
+    ).withCode(ErrorCode.INVALID_TRY);
+  }
+
+  return {
+    type: IR.IRNodeType.CatchClause,
+    param: {
+      type: IR.IRNodeType.Identifier,
+      name: sanitizeIdentifier((paramNode as SymbolNode).name),
+    },
+    body: transformValueBlock(clause.elements.slice(2), currentDir, transformNode),
+  };
+}
+
+/**
+ * Transform a (finally body...) clause. Its value is discarded.
+ */
+function transformFinallyClause(
+  clause: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRBlockStatement {
+  const body = clause.elements.slice(1)
+    .map(expr => transformNode(expr, currentDir))
+    .filter(node => node !== null) as IR.IRNode[];
+
+  return { type: IR.IRNodeType.BlockStatement, body };
+}
+
+/**
+ * Transform (try body... (catch e handler...) (finally cleanup...)) to IR.
+ * The result is an arrow IIFE so try can be used anywhere an expression can,
+ * with the `this` of the enclosing code.
+ */
+export function transformTry(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      const bodyExprs: any[] = [];
+      let catchClause: ListNode | null = null;
+      let finallyClause: ListNode | null = null;
+
+      for (const element of list.elements.slice(1)) {
+        const clauseName = getClauseName(element);
+
+        if (finallyClause) {
+          throw new ValidationError(
+            "finally must be the last clause of try",
+            "try expression",
+            "finally as last clause",
+            clauseName ?? "expression after finally",
+          ).withCode(ErrorCode.INVALID_TRY);
+        }
+
+        if (clauseName === "catch") {
+          if (catchClause) {
+            throw new ValidationError(
+              "try accepts only one catch clause",
+              "try expression",
+              "single catch clause",
+              "multiple catch clauses",
+            ).withCode(ErrorCode.INVALID_TRY);
+          }
+          catchClause = element as ListNode;
+        } else if (clauseName === "finally") {
+          finallyClause = element as ListNode;
+        } else if (catchClause) {
+          throw new ValidationError(
+            "try body expressions must come before catch",
+            "try expression",
+            "catch or finally clause",
+            "expression after catch",
+          ).withCode(ErrorCode.INVALID_TRY);
+        } else {
+          bodyExprs.push(element);
+        }
+      }
+
+      if (!catchClause && !finallyClause) {
+        throw new ValidationError(
+          "try requires a catch or finally clause",
+          "try expression",
+          "catch or finally clause",
+          "neither",
+        ).withCode(ErrorCode.INVALID_TRY);
+      }
+
+      const tryStatement: IR.IRTryStatement = {
+        type: IR.IRNodeType.TryStatement,
+        block: transformValueBlock(bodyExprs, currentDir, transformNode),
+        handler: catchClause
+          ? transformCatchClause(catchClause, currentDir, transformNode)
+          : null,
+        finalizer: finallyClause
+          ? transformFinallyClause(finallyClause, currentDir, transformNode)
+          : null,
+      };
+
+      return {
+        type: IR.IRNodeType.CallExpression,
+        callee: {
+          type: IR.IRNodeType.FunctionExpression,
+          id: null,
+          params: [],
+          body: {
+            type: IR.IRNodeType.BlockStatement,
+            body: [tryStatement],
+          },
+          arrow: true,
+        } as IR.IRFunctionExpression,
+        arguments: [],
+      } as IR.IRCallExpression;
+    },
+    "transformTry",
+    TransformError,
+    [list],
+  );
+}
+
+/**
+ * Transform a runtime (throw expr) to IR
+ */
+export function transformThrow(
+  list: ListNode,
+  currentDir: string,
+  transformNode: (node: any, dir: string) => IR.IRNode | null
+): IR.IRNode {
+  return perform(
+    () => {
+      if (list.elements.length !== 2) {
+        throw new ValidationError(
+          "throw requires exactly one argument",
+          "throw statement",
+          "1 argument",
+          `${list.elements.length - 1} arguments`,
+        ).withCode(ErrorCode.INVALID_THROW);
+      }
+
+      const argument = transformNode(list.elements[1], currentDir);
+      if (!argument) {
+        throw new ValidationError(
+          "Thrown value transformed to null",
+          "throw argument",
+          "valid expression",
+          "null",
+        ).withCode(ErrorCode.NULL_TRANSFORM);
+      }
+
+      return {
+        type: IR.IRNodeType.ThrowStatement,
+        argument,
+      } as IR.IRThrowStatement;
+    },
+    "transformThrow",
+    TransformError,
+    [list],
+  );
+}
+
+/**
+ * Convert a statement-level IR block to a TS block without adding implicit returns
+ */
+function convertStatementBlock(node: IR.IRBlockStatement): ts.Block {
+  const statements: ts.Statement[] = [];
+  for (const stmt of node.body) {
+    const converted = convertIRNode(stmt);
+    if (Array.isArray(converted)) {
+      statements.push(...converted);
+    } else if (converted) {
+      statements.push(converted);
+    }
+  }
+  return ts.factory.createBlock(statements, true);
+}
+
+export function convertTryStatement(node: IR.IRTryStatement): ts.TryStatement {
+  return execute(node, "try statement", () => {
+    const catchClause = node.handler
+      ? ts.factory.createCatchClause(
+          node.handler.param
+            ? ts.factory.createVariableDeclaration(
+                ts.factory.createIdentifier(node.handler.param.name)
+              )
+            : undefined,
+          convertStatementBlock(node.handler.body)
+        )
+      : undefined;
+
+    return ts.factory.createTryStatement(
+      convertStatementBlock(node.block),
+      catchClause,
+      node.finalizer ? convertStatementBlock(node.finalizer) : undefined
+    );
+  });
+}
+
+export function convertThrowStatement(node: IR.IRThrowStatement): ts.ThrowStatement {
+  return execute(node, "throw statement", () =>
+    ts.factory.createThrowStatement(convertIRExpr(node.argument))
+  );
+}
+
+/**
+ * Convert a throw used in expression position, e.g. (if ok x (throw err)),
+ * into an arrow IIFE since JS throw is a statement.
+ */
+export function convertThrowExpression(node: IR.IRThrowStatement): ts.Expression {
+  return execute(node, "throw expression", () =>
+    ts.factory.createCallExpression(
+      ts.factory.createParenthesizedExpression(
+        ts.factory.createArrowFunction(
+          undefined,
+          undefined,
+          [],
+          undefined,
+          ts.factory.createToken(ts.SyntaxKind.EqualsGreaterThanToken),
+          ts.factory.createBlock([convertThrowStatement(node)], false)
+        )
+      ),
+      undefined,
+      []
+    )
+  );
+}
@@ -0,0 +1,689 @@
+// core/src/transpiler/type-checker.ts - Static checking of fx/fn type annotations
+
+import * as IR from "./type/hql_ir.ts";
+import { globalSymbolTable } from "./symbol_table.ts";
+import { isValidType } from "./fx/purity.ts";
+import { TypeCheckError } from "../common/error.ts";
+import { sanitizeIdentifier } from "../common/utils.ts";
+import { COPY_HELPER, EQUALS_HELPER } from "./syntax/struct.ts";
+import type { SourcePosition } from "./type/hql_ast.ts";
+
+/* The type of anything the checker cannot follow; compatible with every type */
+const ANY = "Any";
+/* The type of nil, accepted by reference types (arrays, classes, Any) only */
+const NIL = "Nil";
+
+const VALUE_TYPES = new Set(["Int", "Double", "String", "Bool"]);
+const NUMERIC_TYPES = new Set(["Int", "Double"]);
+const COMPARISON_OPERATORS = new Set(["===", "!==", "==", "!=", "<", ">", "<=", ">=", "instanceof", "in"]);
+const ARITHMETIC_OPERATORS = new Set(["+", "-", "*", "%", "**"]);
+const BITWISE_OPERATORS = new Set(["&", "|", "^", "<<", ">>", ">>>"]);
+const TYPE_KINDS = new Set(["enum", "class", "struct", "interface", "type"]);
+
+/* Nodes that leave no value behind when they end a let or do body */
+const STATEMENT_TYPES = new Set([
+  IR.IRNodeType.VariableDeclaration,
+  IR.IRNodeType.FunctionDeclaration,
+  IR.IRNodeType.ReturnStatement,
+  IR.IRNodeType.BlockStatement,
+  IR.IRNodeType.ImportDeclaration,
+  IR.IRNodeType.ExportNamedDeclaration,
+  IR.IRNodeType.ExportVariableDeclaration,
+  IR.IRNodeType.CommentBlock,
+  IR.IRNodeType.ExpressionStatement,
+  IR.IRNodeType.FxFunctionDeclaration,
+  IR.IRNodeType.FnFunctionDeclaration,
+  IR.IRNodeType.IfStatement,
+  IR.IRNodeType.ClassDeclaration,
+  IR.IRNodeType.EnumDeclaration,
+  IR.IRNodeType.TryStatement,
+  IR.IRNodeType.ThrowStatement,
+  IR.IRNodeType.WhileStatement,
+  IR.IRNodeType.ContinueStatement,
+  IR.IRNodeType.ForOfStatement,
+]);
+
+export interface TypeCheckOptions {
+  /** File reported for nodes that carry no position */
+  filePath?: string;
+}
+
+interface Signature {
+  /** Function name as written in the source */
+  name: string;
+  params: { name: string; type: string; rest: boolean; defaultValue?: IR.IRNode }[];
+  returnType: string;
+  /** Declared by fn*, whose return type is the type it yields */
+  generator: boolean;
+}
+
+interface ClassType {
+  superClass?: string;
+  fields: Map<string, string>;
+  /** Parameters of the class's own constructor, checked at `new` */
+  constructorSignature?: Signature;
+}
+
+interface FunctionContext {
+  name: string;
+  /** Declared return type; null for untyped functions, whose returns are only collected */
+  returnType: string | null;
+  returns: string[];
+  /** The declared type of a generator is what it yields, so its returns are not checked */
+  generator: boolean;
+}
+
+/**
+ * Check the fx and typed fn definitions of a module, and every call to them,
+ * against their annotations. Local types are inferred from the values bound
+ * to them; anything the checker cannot follow is `Any` and never reported.
+ * Returns one error per problem; an empty array means the module type-checks.
+ */
+export function checkTypes(program: IR.IRProgram, options: TypeCheckOptions = {}): TypeCheckError[] {
+  return new TypeChecker(options).check(program);
+}
+
+class TypeChecker {
+  private errors: TypeCheckError[] = [];
+  private signatures = new Map<string, Signature>();
+  private enums = new Map<string, Set<string>>();
+  private classes = new Map<string, ClassType>();
+  private imports = new Set<string>();
+  /** Source spelling of function names, which the IR holds sanitized */
+  private writtenNames = new Map<string, string>();
+  private scopes: Map<string, string>[] = [new Map()];
+  private functions: FunctionContext[] = [];
+
+  constructor(private options: TypeCheckOptions) {}
+
+  check(program: IR.IRProgram): TypeCheckError[] {
+    this.collectDeclarations(program);
+    for (const node of program.body) this.typeOf(node);
+    return this.errors;
+  }
+
+  /**
+   * Find every signature, enum, class and import first, so that uses may
+   * come before definitions
+   */
+  private collectDeclarations(program: IR.IRProgram): void {
+    for (const symbol of globalSymbolTable.getAllSymbols()) {
+      if (symbol.kind === "fx" || symbol.kind === "function") {
+        this.writtenNames.set(sanitizeIdentifier(symbol.name), symbol.name);
+      } else if (symbol.kind === "enum") {
+        this.enums.set(symbol.name, new Set(symbol.cases ?? []));
+      }
+    }
+
+    const classNodes: IR.IRClassDeclaration[] = [];
+    const visit = (node: IR.IRNode) => {
+      switch (node.type) {
+        case IR.IRNodeType.FxFunctionDeclaration:
+        case IR.IRNodeType.FnFunctionDeclaration: {
+          const fn = node as IR.IRFxFunctionDeclaration | IR.IRFnFunctionDeclaration;
+          const signature = this.signatureOf(fn);
+          if (signature) this.signatures.set(fn.id.name, signature);
+          break;
+        }
+        case IR.IRNodeType.EnumDeclaration: {
+          const enumNode = node as IR.IREnumDeclaration;
+          this.enums.set(enumNode.id.name, new Set(enumNode.cases.map((c) => c.id.name)));
+          break;
+        }
+        case IR.IRNodeType.ClassDeclaration: {
+          const classNode = node as IR.IRClassDeclaration;
+          const superClass = classNode.superClass?.type === IR.IRNodeType.Identifier
+            ? (classNode.superClass as IR.IRIdentifier).name
+            : undefined;
+          this.classes.set(classNode.id.name, {
+            superClass,
+            fields: new Map(),
+            constructorSignature: this.constructorSignatureOf(classNode),
+          });
+          classNodes.push(classNode);
+          break;
+        }
+        case IR.IRNodeType.ImportDeclaration:
+          for (const specifier of (node as IR.IRImportDeclaration).specifiers) this.imports.add(specifier.local.name);
+          break;
+        case IR.IRNodeType.JsImportReference:
+          this.imports.add((node as IR.IRJsImportReference).name);
+          break;
+      }
+      for (const child of childNodes(node)) visit(child);
+    };
+    for (const node of program.body) visit(node);
+
+    // A field has its declared type, or the type of its initial value
+    for (const classNode of classNodes) {
+      const fields = this.classes.get(classNode.id.name)!.fields;
+      for (const field of classNode.fields) {
+        const declared = globalSymbolTable.get(`${classNode.id.name}.${field.name}`);
+        const type = declared?.kind === "field" && declared.type ? declared.type : this.typeOf(field.initialValue);
+        fields.set(field.name, type === NIL ? ANY : type);
+      }
+    }
+  }
+
+  private signatureOf(node: IR.IRFxFunctionDeclaration | IR.IRFnFunctionDeclaration): Signature | null {
+    if (node.paramTypes === undefined || node.returnType === undefined) return null;
+    const types = new Map(node.paramTypes.map((pt) => [sanitizeIdentifier(pt.name), pt]));
+    return {
+      name: this.writtenNames.get(node.id.name) ?? node.id.name,
+      params: node.params.map((param) => {
+        const typed = types.get(param.name);
+        return {
+          name: typed?.name ?? param.originalName ?? param.name,
+          type: typed?.type ?? ANY,
+          rest: param.name.startsWith("..."),
+          defaultValue: node.defaults.find((d) => sanitizeIdentifier(d.name) === param.name)?.value,
+        };
+      }),
+      returnType: node.returnType,
+      generator: node.type === IR.IRNodeType.FnFunctionDeclaration && node.generator === true,
+    };
+  }
+
+  private constructorSignatureOf(node: IR.IRClassDeclaration): Signature | undefined {
+    const constructor = node.constructor?.type === IR.IRNodeType.ClassConstructor ? node.constructor : null;
+    if (!constructor) return undefined;
+    const types = new Map((constructor.paramTypes ?? []).map((pt) => [sanitizeIdentifier(pt.name), pt]));
+    return {
+      name: `new ${node.id.name}`,
+      params: constructor.params.map((param) => {
+        const typed = types.get(param.name);
+        return { name: typed?.name ?? param.name, type: typed?.type ?? ANY, rest: param.name.startsWith("...") };
+      }),
+      returnType: node.id.name,
+      generator: false,
+    };
+  }
+
+  /**
+   * Infer the type of a node, checking everything inside it
+   */
+  private typeOf(node: IR.IRNode | null | undefined): string {
+    if (!node) return ANY;
+    switch (node.type) {
+      case IR.IRNodeType.StringLiteral:
+        return "String";
+      case IR.IRNodeType.NumericLiteral:
+        return Number.isInteger((node as IR.IRNumericLiteral).value) ? "Int" : "Double";
+      case IR.IRNodeType.BooleanLiteral:
+        return "Bool";
+      case IR.IRNodeType.NullLiteral:
+        return NIL;
+      case IR.IRNodeType.Identifier:
+        return this.identifierType((node as IR.IRIdentifier).name);
+      case IR.IRNodeType.CallExpression:
+        return this.callType(node as IR.IRCallExpression);
+      case IR.IRNodeType.NewExpression:
+        return this.newType(node as IR.IRNewExpression);
+      case IR.IRNodeType.BinaryExpression:
+        return this.binaryType(node as IR.IRBinaryExpression);
+      case IR.IRNodeType.UnaryExpression: {
+        const unary = node as IR.IRUnaryExpression;
+        const operand = this.typeOf(unary.argument);
+        if (unary.operator === "!") return "Bool";
+        if (unary.operator === "typeof") return "String";
+        if (unary.operator === "~") return NUMERIC_TYPES.has(operand) ? "Int" : ANY;
+        if (unary.operator === "-" || unary.operator === "+") return NUMERIC_TYPES.has(operand) ? operand : ANY;
+        return ANY;
+      }
+      case IR.IRNodeType.ConditionalExpression: {
+        const conditional = node as IR.IRConditionalExpression;
+        this.typeOf(conditional.test);
+        return join([this.typeOf(conditional.consequent), this.typeOf(conditional.alternate)]);
+      }
+      case IR.IRNodeType.ArrayExpression: {
+        const element = join((node as IR.IRArrayExpression).elements.map((e) => this.typeOf(e)));
+        return element === ANY || element === NIL ? "Array" : `Array<${element}>`;
+      }
+      case IR.IRNodeType.MemberExpression:
+        return this.memberType(node as IR.IRMemberExpression);
+      case IR.IRNodeType.AssignmentExpression:
+        return this.assignmentType(node as IR.IRAssignmentExpression);
+      case IR.IRNodeType.FunctionExpression:
+      case IR.IRNodeType.FunctionDeclaration:
+        this.checkFunction(node as IR.IRFunctionExpression, null, "lambda");
+        return ANY;
+      case IR.IRNodeType.FxFunctionDeclaration:
+      case IR.IRNodeType.FnFunctionDeclaration:
+        this.checkTypedFunction(node as IR.IRFxFunctionDeclaration | IR.IRFnFunctionDeclaration);
+        return ANY;
+      case IR.IRNodeType.VariableDeclaration: {
+        const declaration = node as IR.IRVariableDeclaration;
+        for (const declarator of declaration.declarations) {
+          const type = this.typeOf(declarator.init);
+          // Only immutable bindings keep the type of their value
+          this.bindPattern(declarator.id, declaration.kind === "const" ? type : ANY);
+        }
+        return ANY;
+      }
+      case IR.IRNodeType.ReturnStatement:
+        this.checkReturn(node as IR.IRReturnStatement);
+        return ANY;
+      case IR.IRNodeType.BlockStatement:
+        this.scopes.push(new Map());
+        for (const statement of (node as IR.IRBlockStatement).body) this.typeOf(statement);
+        this.scopes.pop();
+        return ANY;
+      case IR.IRNodeType.ForOfStatement: {
+        const forOf = node as IR.IRForOfStatement;
+        this.typeOf(forOf.right);
+        this.scopes.push(new Map());
+        this.bindPattern(forOf.left, ANY);
+        this.typeOf(forOf.body);
+        this.scopes.pop();
+        return ANY;
+      }
+      case IR.IRNodeType.CatchClause: {
+        const clause = node as IR.IRCatchClause;
+        this.scopes.push(new Map());
+        if (clause.param) this.bind(clause.param.name, ANY);
+        this.typeOf(clause.body);
+        this.scopes.pop();
+        return ANY;
+      }
+      case IR.IRNodeType.ClassDeclaration:
+        this.checkClass(node as IR.IRClassDeclaration);
+        return ANY;
+      default:
+        for (const child of childNodes(node)) this.typeOf(child);
+        return ANY;
+    }
+  }
+
+  private identifierType(name: string): string {
+    if (name === "undefined" || name === "null") return NIL;
+    const [head, ...path] = name.split(".");
+    const bound = this.lookup(head);
+    if (path.length === 0) return bound ?? ANY;
+    if (bound === undefined && path.length === 1 && this.enums.get(head)?.has(path[0])) return head;
+
+    let type = bound ?? ANY;
+    for (const field of path) type = this.fieldType(type, field);
+    return type;
+  }
+
+  private memberType(node: IR.IRMemberExpression): string {
+    const property = !node.computed && node.property.type === IR.IRNodeType.Identifier
+      ? (node.property as IR.IRIdentifier).name
+      : null;
+    if (property === null) {
+      this.typeOf(node.object);
+      this.typeOf(node.property);
+      return ANY;
+    }
+    if (node.object.type === IR.IRNodeType.Identifier) {
+      const name = (node.object as IR.IRIdentifier).name;
+      if (this.lookup(name) === undefined && this.enums.get(name)?.has(property)) return name;
+    }
+    return this.fieldType(this.typeOf(node.object), property);
+  }
+
+  private fieldType(ownerType: string, field: string): string {
+    if (field === "length" && (ownerType === "String" || elementType(ownerType) !== null)) return "Int";
+    for (let owner: string | undefined = ownerType; owner && this.classes.has(owner);) {
+      const classType: ClassType = this.classes.get(owner)!;
+      const type = classType.fields.get(field);
+      if (type !== undefined) return type;
+      owner = classType.superClass;
+    }
+    return ANY;
+  }
+
+  private callType(node: IR.IRCallExpression): string {
+    const argTypes = node.arguments.map((arg) => this.typeOf(arg));
+    const callee = node.callee;
+
+    if (callee.type === IR.IRNodeType.Identifier) {
+      const name = callee.name;
+      // Struct copies keep the type of the value; = and != still give a Bool
+      if (name === COPY_HELPER) return argTypes[0];
+      if (name === EQUALS_HELPER) return "Bool";
+      const signature = this.signatures.get(name);
+      if (signature && !this.isShadowed(name)) {
+        this.checkArguments(signature, node, argTypes);
+        return signature.generator ? ANY : signature.returnType;
+      }
+      // Enum cases with associated values are constructed by calling them
+      const [head, caseName, ...rest] = name.split(".");
+      if (rest.length === 0 && caseName !== undefined && this.enums.get(head)?.has(caseName)) return head;
+      return ANY;
+    }
+
+    // let and do bodies become an immediately called function
+    if (callee.type === IR.IRNodeType.FunctionExpression && callee.params.length === 0 && node.arguments.length === 0) {
+      return this.checkFunction(callee, null, "lambda");
+    }
+
+    this.typeOf(callee);
+    return ANY;
+  }
+
+  /* A class without a constructor of its own is built by the nearest one it inherits */
+  private newType(node: IR.IRNewExpression): string {
+    const argTypes = node.arguments.map((arg) => this.typeOf(arg));
+    const name = node.callee.type === IR.IRNodeType.Identifier ? (node.callee as IR.IRIdentifier).name : "";
+    if (!this.classes.has(name) || this.isShadowed(name)) return ANY;
+
+    for (let owner: string | undefined = name; owner && this.classes.has(owner);) {
+      const classType: ClassType = this.classes.get(owner)!;
+      if (classType.constructorSignature) {
+        this.checkArguments(classType.constructorSignature, node, argTypes);
+        break;
+      }
+      owner = classType.superClass;
+    }
+    return name;
+  }
+
+  private checkArguments(
+    signature: Signature,
+    node: IR.IRCallExpression | IR.IRNewExpression,
+    argTypes: string[],
+  ): void {
+    for (let i = 0; i < node.arguments.length && i < signature.params.length; i++) {
+      const param = signature.params[i];
+      if (param.rest) break;
+      const arg = node.arguments[i];
+      // Defaults filled in for omitted arguments are checked at the definition
+      if (arg === param.defaultValue) continue;
+      if (!this.isAssignable(argTypes[i], param.type)) {
+        this.report(
+          `Argument '${param.name}' of '${signature.name}' expects ${param.type}, got ${argTypes[i]}`,
+          arg.position ?? node.position,
+          param.type,
+          argTypes[i],
+        );
+      }
+    }
+  }
+
+  private binaryType(node: IR.IRBinaryExpression): string {
+    const left = this.typeOf(node.left);
+    const right = this.typeOf(node.right);
+    const operator = node.operator;
+
+    if (COMPARISON_OPERATORS.has(operator)) return "Bool";
+    if (operator === "&&" || operator === "||" || operator === "??") return join([left, right]);
+    if (operator === "+" && (left === "String" || right === "String")) return "String";
+
+    const numeric = NUMERIC_TYPES.has(left) && NUMERIC_TYPES.has(right);
+    if (ARITHMETIC_OPERATORS.has(operator)) return numeric ? (left === "Int" && right === "Int" ? "Int" : "Double") : ANY;
+    if (BITWISE_OPERATORS.has(operator)) return numeric ? "Int" : ANY;
+    if (operator === "/") return numeric ? "Double" : ANY;
+    return ANY;
+  }
+
+  private assignmentType(node: IR.IRAssignmentExpression): string {
+    const valueType = this.typeOf(node.right);
+
+    let owner: string | undefined;
+    let field: string | undefined;
+    if (node.left.type === IR.IRNodeType.Identifier) {
+      const path = (node.left as IR.IRIdentifier).name.split(".");
+      if (path.length > 1) {
+        field = path.pop()!;
+        owner = this.identifierType(path.join("."));
+      }
+    } else if (node.left.type === IR.IRNodeType.MemberExpression) {
+      const member = node.left as IR.IRMemberExpression;
+      owner = this.typeOf(member.object);
+      if (!member.computed && member.property.type === IR.IRNodeType.Identifier) {
+        field = (member.property as IR.IRIdentifier).name;
+      }
+    } else {
+      this.typeOf(node.left);
+    }
+
+    if (owner && field && this.classes.has(owner)) {
+      const fieldType = this.fieldType(owner, field);
+      if (!this.isAssignable(valueType, fieldType)) {
+        this.report(
+          `Field '${field}' of ${owner} holds ${fieldType}, got ${valueType}`,
+          node.right.position ?? node.position,
+          fieldType,
+          valueType,
+        );
+      }
+    }
+    return valueType;
+  }
+
+  private checkTypedFunction(node: IR.IRFxFunctionDeclaration | IR.IRFnFunctionDeclaration): void {
+    const signature = this.signatureOf(node);
+    if (!signature) {
+      this.checkFunction(node, null, this.writtenNames.get(node.id.name) ?? node.id.name);
+      return;
+    }
+
+    for (const param of signature.params) {
+      if (!isValidType(param.type, this.isKnownType)) {
+        this.report(`Unknown type '${param.type}' for parameter '${param.name}' of '${signature.name}'`, node.position);
+      }
+      if (param.defaultValue) {
+        const type = this.typeOf(param.defaultValue);
+        if (!this.isAssignable(type, param.type)) {
+          this.report(
+            `Default value of parameter '${param.name}' of '${signature.name}' is ${type}, expected ${param.type}`,
+            param.defaultValue.position ?? node.position,
+            param.type,
+            type,
+          );
+        }
+      }
+    }
+    if (!isValidType(signature.returnType, this.isKnownType)) {
+      this.report(`Unknown return type '${signature.returnType}' of '${signature.name}'`, node.position);
+    }
+
+    this.checkFunction(node, signature, signature.name);
+  }
+
+  /**
+   * Check a function body in a new scope. Returns the type of the values it
+   * returns, including the value of a trailing expression.
+   */
+  private checkFunction(
+    node: { params: IR.IRIdentifier[]; body: IR.IRBlockStatement; generator?: boolean },
+    signature: Signature | null,
+    name: string,
+  ): string {
+    const context: FunctionContext = {
+      name,
+      returnType: signature?.returnType ?? null,
+      returns: [],
+      generator: node.generator === true,
+    };
+    this.functions.push(context);
+    this.scopes.push(new Map());
+
+    node.params.forEach((param, i) => {
+      const rest = param.name.startsWith("...");
+      this.bind(rest ? param.name.slice(3) : param.name, rest ? "Array" : signature?.params[i]?.type ?? ANY);
+    });
+    let last = ANY;
+    for (const statement of node.body.body) last = this.typeOf(statement);
+
+    this.scopes.pop();
+    this.functions.pop();
+
+    const tail = node.body.body.at(-1);
+    const values = tail && !STATEMENT_TYPES.has(tail.type) ? [...context.returns, last] : context.returns;
+    return join(values);
+  }
+
+  private checkReturn(node: IR.IRReturnStatement): void {
+    const context = this.functions.at(-1);
+    if (!context || context.returnType === null || context.generator) {
+      const type = node.argument ? this.typeOf(node.argument) : NIL;
+      context?.returns.push(type);
+      return;
+    }
+    context.returns.push(this.checkReturnValue(node.argument, context, node.position));
+  }
+
+  /*
+   * Each branch of a conditional is checked on its own, so the error points
+   * at the branch. A branch left out (`when`) yields nil, which joins away.
+   */
+  private checkReturnValue(
+    node: IR.IRNode | null,
+    context: FunctionContext,
+    position?: SourcePosition,
+    branch = false,
+  ): string {
+    if (node?.type === IR.IRNodeType.ConditionalExpression) {
+      const conditional = node as IR.IRConditionalExpression;
+      this.typeOf(conditional.test);
+      return join([
+        this.checkReturnValue(conditional.consequent, context, conditional.position, true),
+        this.checkReturnValue(conditional.alternate, context, conditional.position, true),
+      ]);
+    }
+    const type = node ? this.typeOf(node) : NIL;
+    if (!(branch && type === NIL) && !this.isAssignable(type, context.returnType!)) {
+      this.report(
+        `'${context.name}' must return ${context.returnType}, got ${type}`,
+        node?.position ?? position,
+        context.returnType!,
+        type,
+      );
+    }
+    return type;
+  }
+
+  private checkClass(node: IR.IRClassDeclaration): void {
+    const name = node.id.name;
+    // Field initial values were typed with the other declarations
+    this.scopes.push(new Map([["this", name], ["self", name]]));
+    if (node.constructor?.type === IR.IRNodeType.ClassConstructor) {
+      this.checkFunction(node.constructor, null, `${name} constructor`);
+    }
+    for (const method of node.methods) {
+      for (const d of method.defaults ?? []) this.typeOf(d.value);
+      this.checkFunction(method, null, `${name}.${method.name}`);
+    }
+    this.scopes.pop();
+  }
+
+  private bindPattern(pattern: IR.IRNode | null, type: string): void {
+    if (!pattern) return;
+    switch (pattern.type) {
+      case IR.IRNodeType.Identifier:
+        this.bind((pattern as IR.IRIdentifier).name, type);
+        break;
+      case IR.IRNodeType.ArrayPattern:
+        for (const element of (pattern as IR.IRArrayPattern).elements) this.bindPattern(element, ANY);
+        break;
+      case IR.IRNodeType.ObjectPattern:
+        for (const property of (pattern as IR.IRObjectPattern).properties) this.bindPattern(property.value, ANY);
+        break;
+      case IR.IRNodeType.RestElement:
+        this.bindPattern((pattern as IR.IRRestElement).argument, ANY);
+        break;
+      case IR.IRNodeType.AssignmentPattern:
+        this.typeOf((pattern as IR.IRAssignmentPattern).right);
+        this.bindPattern((pattern as IR.IRAssignmentPattern).left, ANY);
+        break;
+    }
+  }
+
+  private bind(name: string, type: string): void {
+    this.scopes[this.scopes.length - 1].set(name, type);
+  }
+
+  private lookup(name: string): string | undefined {
+    for (let i = this.scopes.length - 1; i >= 0; i--) {
+      const type = this.scopes[i].get(name);
+      if (type !== undefined) return type;
+    }
+    return undefined;
+  }
+
+  /* A local binding hides a module-level function of the same name */
+  private isShadowed(name: string): boolean {
+    return this.scopes.some((scope, i) => i > 0 && scope.has(name));
+  }
+
+  private isKnownType = (name: string): boolean => {
+    if (this.enums.has(name) || this.classes.has(name) || this.imports.has(name)) return true;
+    const symbol = globalSymbolTable.get(name);
+    if (symbol && TYPE_KINDS.has(symbol.kind)) return true;
+    // JS built-ins such as Date or Map, whose values the checker does not look into
+    return typeof (globalThis as Record<string, unknown>)[name] === "function";
+  };
+
+  /* Types the checker can reason about; others are opaque and accept anything */
+  private isTransparent(type: string): boolean {
+    return VALUE_TYPES.has(type) || type === NIL || this.enums.has(type) || this.classes.has(type) ||
+      elementType(type) !== null;
+  }
+
+  private isAssignable(from: string, to: string): boolean {
+    if (from === to || from === ANY || to === ANY) return true;
+    if (from === NIL) return !VALUE_TYPES.has(to) && !this.enums.has(to);
+    if (from === "Int" && to === "Double") return true;
+
+    const fromElement = elementType(from);
+    const toElement = elementType(to);
+    if (fromElement !== null && toElement !== null) return this.isAssignable(fromElement, toElement);
+
+    for (let owner = this.classes.get(from)?.superClass; owner; owner = this.classes.get(owner)?.superClass) {
+      if (owner === to) return true;
+    }
+    return !(this.isTransparent(from) && this.isTransparent(to));
+  }
+
+  private report(message: string, position: SourcePosition | undefined, expectedType?: string, actualType?: string): void {
+    this.errors.push(
+      new TypeCheckError(message, {
+        expectedType,
+        actualType,
+        filePath: position?.filePath ?? this.options.filePath,
+        line: position?.line,
+        column: position?.column,
+      }),
+    );
+  }
+}
+
+/**
+ * Element type of `Array<T>` (`Any` for a bare `Array`), or null for other types
+ */
+function elementType(type: string): string | null {
+  const match = type.match(/^Array(?:<(.+)>)?$/);
+  return match ? match[1] ?? ANY : null;
+}
+
+/**
+ * The type of a value that is one of several: nil is dropped, Int widens to
+ * Double, and anything else that disagrees is Any
+ */
+function join(types: string[]): string {
+  const present = types.filter((type) => type !== NIL);
+  if (present.length === 0) return types.length > 0 ? NIL : ANY;
+  if (present.includes(ANY)) return ANY;
+  if (present.every((type) => type === present[0])) return present[0];
+  if (present.every((type) => NUMERIC_TYPES.has(type))) return "Double";
+  return ANY;
+}
+
+function isNode(value: unknown): value is IR.IRNode {
+  return typeof value === "object" && value !== null && typeof (value as IR.IRNode).type === "number";
+}
+
+/* Nodes directly inside a node, for forms the checker has no rule for */
+function childNodes(node: IR.IRNode): IR.IRNode[] {
+  const children: IR.IRNode[] = [];
+  const add = (value: unknown) => {
+    if (Array.isArray(value)) value.forEach(add);
+    else if (isNode(value)) children.push(value);
+  };
+  for (const [key, value] of Object.entries(node)) {
+    if (key !== "position") add(value);
+  }
+  return children;
+}
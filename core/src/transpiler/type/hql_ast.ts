@@ -1,19 +1,31 @@
 // src/transpiler/hql_ast.ts
 export type HQLNode = LiteralNode | SymbolNode | ListNode;
 
+/**
+ * Where a node starts in its HQL source file (1-based line and column)
+ */
+export interface SourcePosition {
+  filePath?: string;
+  line?: number;
+  column?: number;
+}
+
 export interface LiteralNode {
   type: "literal";
   value: string | number | boolean | null;
+  _meta?: SourcePosition;
 }
 
 export interface SymbolNode {
   type: "symbol";
   name: string;
+  _meta?: SourcePosition;
 }
 
 export interface ListNode {
   type: "list";
   elements: HQLNode[];
+  _meta?: SourcePosition;
 }
 
 /**
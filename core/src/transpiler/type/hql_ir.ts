@@ -1,5 +1,7 @@
 // src/transpiler/hql_ir.ts - Updated with explicit enum values
 
+import type { SourcePosition } from "./hql_ast.ts";
+
 export enum IRNodeType {
   Program = 0,
   StringLiteral = 1,
@@ -61,11 +63,36 @@ export enum IRNodeType {
   // Enum Types
   EnumDeclaration = 43,
   EnumCase = 44,
-  JsMethodAccess = 45
+  JsMethodAccess = 45,
+
+  // Exception handling
+  TryStatement = 46,
+  CatchClause = 47,
+  ThrowStatement = 48,
+
+  // Async
+  AwaitExpression = 49,
+
+  // Loops
+  WhileStatement = 50,
+  ContinueStatement = 51,
+
+  // Destructuring
+  ArrayPattern = 52,
+  ObjectPattern = 53,
+  PatternProperty = 54,
+  RestElement = 55,
+  AssignmentPattern = 56,
+
+  // Generators
+  YieldExpression = 57,
+  ForOfStatement = 58
 }
 
 export interface IRNode {
   type: IRNodeType;
+  /** Location of the HQL form this node was produced from */
+  position?: SourcePosition;
 }
 
 export interface IRProgram extends IRNode {
@@ -171,6 +198,10 @@ export interface IRFunctionExpression extends IRNode {
   id: IRIdentifier | null;
   params: IRIdentifier[];
   body: IRBlockStatement;
+  async?: boolean;
+  generator?: boolean;
+  /** Emit as an arrow function so `this` stays that of the enclosing code */
+  arrow?: boolean;
 }
 
 // Object literal support (for maps)
@@ -206,7 +237,7 @@ export interface IRVariableDeclaration extends IRNode {
 
 export interface IRVariableDeclarator extends IRNode {
   type: IRNodeType.VariableDeclarator;
-  id: IRIdentifier;
+  id: IRPattern;
   init: IRNode;
 }
 
@@ -215,6 +246,8 @@ export interface IRFunctionDeclaration extends IRNode {
   id: IRIdentifier;
   params: IRIdentifier[];
   body: IRBlockStatement;
+  async?: boolean;
+  generator?: boolean;
 }
 
 export interface IRReturnStatement extends IRNode {
@@ -300,17 +333,24 @@ export interface IRFxFunctionDeclaration extends IRNode {
   paramTypes: { name: string; type: string }[];
   returnType: string;
   body: IRBlockStatement;
+  async?: boolean;
 }
 
 /**
- * IR node for fn function declarations with default values (no types)
+ * IR node for fn function declarations with default values and optional types
  */
 export interface IRFnFunctionDeclaration extends IRNode {
   type: IRNodeType.FnFunctionDeclaration;
   id: IRIdentifier;
   params: IRIdentifier[];
   defaults: { name: string; value: IRNode }[];
+  /** Present when the fn declares a return type: (fn name (x: Int) (-> Int) ...) */
+  paramTypes?: { name: string; type: string }[];
+  returnType?: string;
   body: IRBlockStatement;
+  async?: boolean;
+  /** (fn* ...): the return type, if any, is the type of the values it yields */
+  generator?: boolean;
 }
 
 export interface IRIfStatement extends IRNode {
@@ -323,9 +363,11 @@ export interface IRIfStatement extends IRNode {
 export interface IRClassDeclaration extends IRNode {
   type: IRNodeType.ClassDeclaration;
   id: IRIdentifier;
+  superClass?: IRNode | null;
   fields: IRClassField[];
   constructor: IRClassConstructor | null;
   methods: IRClassMethod[];
+  struct?: boolean;
 }
 
 export interface IRClassField extends IRNode {
@@ -333,6 +375,7 @@ export interface IRClassField extends IRNode {
   name: string;
   mutable: boolean;
   initialValue: IRNode | null;
+  static?: boolean;
 }
 
 export interface IRClassMethod extends IRNode {
@@ -340,12 +383,20 @@ export interface IRClassMethod extends IRNode {
   name: string;
   params: IRIdentifier[];
   defaults?: { name: string, value: IRNode }[];
+  /** Declared by fx methods, and fn methods with a return type */
+  paramTypes?: { name: string; type: string }[];
+  returnType?: string;
   body: IRBlockStatement;
+  async?: boolean;
+  static?: boolean;
+  kind?: "method" | "get" | "set";
 }
 
 export interface IRClassConstructor extends IRNode {
   type: IRNodeType.ClassConstructor;
   params: IRIdentifier[];
+  /** Parameters written as (name: Type) */
+  paramTypes?: { name: string; type: string }[];
   body: IRBlockStatement;
 }
 
@@ -397,4 +448,124 @@ export interface IRJsMethodAccess extends IRNode {
   type: IRNodeType.JsMethodAccess;
   object: IRNode;
   method: string;
-}
\ No newline at end of file
+}
+
+// --- Exception Handling ---
+
+/**
+ * Represents (try body... (catch e handler...) (finally cleanup...))
+ */
+export interface IRTryStatement extends IRNode {
+  type: IRNodeType.TryStatement;
+  block: IRBlockStatement;
+  handler: IRCatchClause | null;
+  finalizer: IRBlockStatement | null;
+}
+
+/**
+ * Represents the (catch e ...) clause of a try expression
+ */
+export interface IRCatchClause extends IRNode {
+  type: IRNodeType.CatchClause;
+  param: IRIdentifier | null;
+  body: IRBlockStatement;
+}
+
+/**
+ * Represents a runtime (throw expr)
+ */
+export interface IRThrowStatement extends IRNode {
+  type: IRNodeType.ThrowStatement;
+  argument: IRNode;
+}
+
+// --- Async ---
+
+/**
+ * Represents (await expr)
+ */
+export interface IRAwaitExpression extends IRNode {
+  type: IRNodeType.AwaitExpression;
+  argument: IRNode;
+}
+
+// --- Loops ---
+
+/**
+ * Represents while (test) body. loop/recur lowers to while (true).
+ */
+export interface IRWhileStatement extends IRNode {
+  type: IRNodeType.WhileStatement;
+  test: IRNode;
+  body: IRBlockStatement;
+}
+
+export interface IRContinueStatement extends IRNode {
+  type: IRNodeType.ContinueStatement;
+}
+
+/**
+ * Represents for (const left of right) body, or for await when
+ * iterating with for-await
+ */
+export interface IRForOfStatement extends IRNode {
+  type: IRNodeType.ForOfStatement;
+  left: IRPattern;
+  right: IRNode;
+  body: IRBlockStatement;
+  await?: boolean;
+}
+
+// --- Generators ---
+
+/**
+ * Represents (yield expr) or, when delegating, (yield* expr)
+ */
+export interface IRYieldExpression extends IRNode {
+  type: IRNodeType.YieldExpression;
+  argument: IRNode | null;
+  delegate: boolean;
+}
+
+// --- Destructuring ---
+
+/**
+ * A binding target: a plain name or a nested destructuring pattern
+ */
+export type IRPattern = IRIdentifier | IRArrayPattern | IRObjectPattern;
+
+/**
+ * Represents [a b = 1 & rest]. A null element is a skipped position (_).
+ */
+export interface IRArrayPattern extends IRNode {
+  type: IRNodeType.ArrayPattern;
+  elements: (IRPattern | IRAssignmentPattern | IRRestElement | null)[];
+}
+
+/**
+ * Represents {name: n, age: (a = 0)}
+ */
+export interface IRObjectPattern extends IRNode {
+  type: IRNodeType.ObjectPattern;
+  properties: IRPatternProperty[];
+}
+
+export interface IRPatternProperty extends IRNode {
+  type: IRNodeType.PatternProperty;
+  key: string;
+  value: IRPattern | IRAssignmentPattern;
+}
+
+export interface IRRestElement extends IRNode {
+  type: IRNodeType.RestElement;
+  argument: IRPattern;
+}
+
+/**
+ * A pattern with a default used when the matched value is undefined
+ */
+export interface IRAssignmentPattern extends IRNode {
+  type: IRNodeType.AssignmentPattern;
+  left: IRPattern;
+  right: IRNode;
+}
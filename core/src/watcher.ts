@@ -0,0 +1,230 @@
+// core/src/watcher.ts - Rebuild an HQL program when its sources change
+
+import { dirname, extname, join, resolve } from "jsr:@std/path@1";
+import { extractHqlImports, resolveImportPath, transpileCLI } from "./bundler.ts";
+import { invalidateModules } from "./transpiler/hql-transpiler.ts";
+import { createTempDir } from "./common/hql-cache-tracker.ts";
+import { enrichErrorWithContext } from "./common/error-system.ts";
+import { reportError } from "./common/error.ts";
+import { globalLogger as logger } from "./logger.ts";
+
+/* File system events arrive in bursts while an editor saves; wait for quiet */
+const DEBOUNCE_MS = 50;
+
+/* Files whose changes can affect the bundle */
+const WATCHED_EXTENSIONS = new Set([".hql", ".js", ".ts", ".mjs"]);
+
+export interface WatchOptions {
+  /** Bundle path; defaults to the entry with a .js extension, or a temp file with `run` */
+  outputPath?: string;
+  /** Run the bundle after every successful build, stopping the previous run */
+  run?: boolean;
+  verbose?: boolean;
+  debug?: boolean;
+  /** Stop watching when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Import graph of the HQL modules reachable from an entry file. Edges cover
+ * every `(import ... from "x.hql")`, including imports of macros only, since
+ * the importing file's output depends on the macros it expands.
+ */
+export class ModuleGraph {
+  private dependencies = new Map<string, Set<string>>();
+  private dependents = new Map<string, Set<string>>();
+  private sources = new Map<string, string>();
+
+  constructor(private sourceDir: string) {}
+
+  has(filePath: string): boolean {
+    return this.dependencies.has(filePath);
+  }
+
+  files(): string[] {
+    return [...this.dependencies.keys()];
+  }
+
+  /**
+   * Read a module and, recursively, the modules it imports that are not in
+   * the graph yet. Returns false when the module's text has not changed
+   * since it was last read.
+   */
+  async update(filePath: string): Promise<boolean> {
+    let source: string;
+    try {
+      source = await Deno.readTextFile(filePath);
+    } catch {
+      // Deleted: keep the node so that dependents still get rebuilt and report the error
+      this.sources.delete(filePath);
+      return true;
+    }
+    if (this.has(filePath) && this.sources.get(filePath) === source) return false;
+    this.sources.set(filePath, source);
+
+    const imports = new Set<string>();
+    for (const { path } of extractHqlImports(source)) {
+      const resolved = await resolveImportPath(path, dirname(filePath), { sourceDir: this.sourceDir });
+      if (resolved) imports.add(resolved);
+    }
+
+    for (const previous of this.dependencies.get(filePath) ?? []) {
+      this.dependents.get(previous)?.delete(filePath);
+    }
+    this.dependencies.set(filePath, imports);
+    for (const dependency of imports) {
+      if (!this.dependents.has(dependency)) this.dependents.set(dependency, new Set());
+      this.dependents.get(dependency)!.add(filePath);
+      if (!this.has(dependency)) await this.update(dependency);
+    }
+    return true;
+  }
+
+  /**
+   * The given modules plus every module that imports them, directly or not
+   */
+  affectedBy(changed: Iterable<string>): Set<string> {
+    const affected = new Set<string>();
+    const visit = (filePath: string) => {
+      if (affected.has(filePath)) return;
+      affected.add(filePath);
+      for (const dependent of this.dependents.get(filePath) ?? []) visit(dependent);
+    };
+    for (const filePath of changed) visit(filePath);
+    return affected;
+  }
+}
+
+/**
+ * Build `entry`, then rebuild whenever one of its modules changes. Only the
+ * changed modules and their dependents are transpiled again; everything else
+ * comes from the cache before the bundle is rebuilt. Resolves when the
+ * signal aborts.
+ */
+export async function watch(entry: string, options: WatchOptions = {}): Promise<void> {
+  const entryPath = resolve(entry);
+  const graph = new ModuleGraph(dirname(entryPath));
+  const outputPath = options.outputPath
+    ? resolve(options.outputPath)
+    : options.run
+    ? join(await createTempDir("watch"), "main.js")
+    : entryPath.replace(/\.hql$/, ".js");
+  let child: Deno.ChildProcess | null = null;
+
+  const stopProgram = async () => {
+    if (!child) return;
+    try {
+      child.kill("SIGTERM");
+    } catch {
+      // Already exited
+    }
+    await child.status;
+    child = null;
+  };
+
+  const build = async (invalidate: Set<string>, force: boolean) => {
+    const start = performance.now();
+    try {
+      invalidateModules(invalidate);
+      await transpileCLI(entryPath, outputPath, { verbose: options.verbose, force, invalidate });
+    } catch (error) {
+      const enriched = await enrichErrorWithContext(error instanceof Error ? error : new Error(String(error)), entryPath);
+      await reportError(enriched, options.debug);
+      console.error("[watch] Build failed; waiting for changes");
+      return;
+    }
+
+    const ms = Math.round(performance.now() - start);
+    const scope = force ? `${graph.files().length} modules` : `${invalidate.size} changed`;
+    console.error(`[watch] Built ${outputPath} in ${ms}ms (${scope})`);
+
+    if (options.run) {
+      await stopProgram();
+      child = new Deno.Command(Deno.execPath(), { args: ["run", "-A", outputPath] }).spawn();
+    }
+  };
+
+  await graph.update(entryPath);
+  // The on-disk cache may predate changes to any module, so the first build is a full one
+  await build(new Set(graph.files()), true);
+
+  let watcher: Deno.FsWatcher | null = null;
+  options.signal?.addEventListener("abort", () => closeWatcher(watcher));
+  while (!options.signal?.aborted) {
+    const dirs = watchedDirs(graph);
+    watcher = Deno.watchFs(dirs, { recursive: false });
+    logger.debug(`[watch] Watching ${dirs.join(", ")}`);
+    const moved = await waitForChanges(watcher, outputPath, async (paths) => {
+      const changed = new Set<string>();
+      let other = false;
+      for (const filePath of paths) {
+        if (graph.has(filePath)) {
+          if (await graph.update(filePath)) changed.add(filePath);
+        } else if (extname(filePath) !== ".hql") {
+          // Plain JS and TS files are read by esbuild on every bundle
+          other = true;
+        }
+      }
+      if (changed.size > 0 || other) await build(graph.affectedBy(changed), false);
+      // Newly imported modules may live in directories that are not watched yet
+      return watchedDirs(graph).some((dir) => !dirs.includes(dir));
+    });
+    if (!moved) break;
+  }
+
+  await stopProgram();
+}
+
+function watchedDirs(graph: ModuleGraph): string[] {
+  return [...new Set(graph.files().map((file) => dirname(file)))];
+}
+
+function closeWatcher(watcher: Deno.FsWatcher | null): void {
+  try {
+    watcher?.close();
+  } catch {
+    // Already closed
+  }
+}
+
+/**
+ * Feed debounced batches of changed paths to `onChange` until the watcher
+ * closes, or until `onChange` asks for the watched directories to change.
+ * Returns true in the latter case.
+ */
+async function waitForChanges(
+  watcher: Deno.FsWatcher,
+  outputPath: string,
+  onChange: (paths: Set<string>) => Promise<boolean>,
+): Promise<boolean> {
+  let pending = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = Promise.resolve(false);
+  let moved = false;
+
+  for await (const event of watcher) {
+    if (event.kind === "access" || event.kind === "other") continue;
+    for (const filePath of event.paths) {
+      if (filePath === outputPath || !WATCHED_EXTENSIONS.has(extname(filePath))) continue;
+      pending.add(filePath);
+    }
+    if (pending.size === 0) continue;
+
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      const batch = pending;
+      pending = new Set();
+      running = running.then(() => onChange(batch)).then((result) => {
+        if (result) {
+          moved = true;
+          closeWatcher(watcher);
+        }
+        return result;
+      });
+    }, DEBOUNCE_MS);
+  }
+
+  clearTimeout(timer);
+  await running;
+  return moved;
+}
@@ -11,6 +11,7 @@ import { processImports, ImportProcessorOptions } from "@core/imports.ts";
 import { SList, isImport, isSymbol, SSymbol, isSExpNamespaceImport, isSExpVectorImport } from "@s-exp/types.ts";
 import { Logger } from "@core/logger.ts";
 import { formatErrorMessage } from "../../core/src/common/error.ts";
+import { ErrorCode, errorCodeOf } from "../../core/src/common/error-codes.ts";
 /**
  * Options for the module-aware evaluator
  */
@@ -416,7 +417,7 @@ export class ModuleAwareEvaluator extends REPLEvaluator {
               input, // Use the input as the "path" for context
               undefined,
               importError instanceof Error ? importError : undefined,
-            );
+            ).withCode(errorCodeOf(importError, ErrorCode.IMPORT_FAILED));
           }
         }
       }
@@ -375,6 +375,27 @@ export class SyntaxCompletionHandler extends CompletionHandler {
       "(->> initial-value (operation) ",
       "(->> initial-value (operation) (next-operation))"
     ],
+    // Named thread macro pattern
+    "as->": [
+      "(as-> ",
+      "(as-> initial-value name ",
+      "(as-> initial-value name (operation name) ",
+      "(as-> initial-value name (operation name) (next-operation name))"
+    ],
+    // Nil-safe thread macro pattern
+    "some->": [
+      "(some-> ",
+      "(some-> initial-value ",
+      "(some-> initial-value (operation) ",
+      "(some-> initial-value (operation) (next-operation))"
+    ],
+    // Conditional thread macro pattern
+    "cond->": [
+      "(cond-> ",
+      "(cond-> initial-value ",
+      "(cond-> initial-value test (operation) ",
+      "(cond-> initial-value test (operation) test (next-operation))"
+    ],
     // Map function pattern
     "map": [
       "(map ",
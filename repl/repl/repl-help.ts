@@ -153,10 +153,29 @@ export const builtinDocumentation: Record<string, string> = {
   "fn": "Defines a function.\nUsage: (fn name (params) body)",
   "let": "Creates a variable binding.\nUsage: (let name value)",
   
-  // Sequence functions
+  // Sequence functions (lib/stdlib/stdlib.hql), lazy on lazy sequences
   "map": "Applies function to items in collection.\nUsage: (map f coll)",
   "filter": "Filters collection by predicate.\nUsage: (filter pred coll)",
   "reduce": "Combines collection elements with a function.\nUsage: (reduce f init coll)",
+  "take": "Takes the first n items of a collection as an array.\nUsage: (take n coll)",
+  "remove": "Removes the items that match a predicate.\nUsage: (remove pred coll)",
+  "take-while": "Takes items while a predicate holds.\nUsage: (take-while pred coll)",
+  "drop": "Skips the first n items.\nUsage: (drop n coll)",
+  "drop-while": "Skips items while a predicate holds.\nUsage: (drop-while pred coll)",
+  "concat": "Joins collections end to end.\nUsage: (concat coll1 coll2 ...)",
+  "mapcat": "Maps a function returning collections and joins the results.\nUsage: (mapcat f coll)",
+  "partition": "Splits a collection into groups of n items.\nUsage: (partition n coll) or (partition n step coll)",
+  "partition-by": "Splits a collection into runs with the same (f item).\nUsage: (partition-by f coll)",
+  "interleave": "Takes one item of each collection in turn.\nUsage: (interleave coll1 coll2 ...)",
+  "zip": "Pairs up the items at the same position.\nUsage: (zip coll1 coll2 ...)",
+  "distinct": "Removes repeated items.\nUsage: (distinct coll)",
+  "dedupe": "Removes consecutive repeats.\nUsage: (dedupe coll)",
+  "iterate": "Infinite sequence of x, (f x), (f (f x)), ...\nUsage: (iterate f x)",
+  "repeat": "Repeats a value, n times or without end.\nUsage: (repeat x) or (repeat n x)",
+  "cycle": "Repeats the items of a collection without end.\nUsage: (cycle coll)",
+  "range": "Lazy sequence of numbers.\nUsage: (range), (range end), (range start end) or (range start end step)",
+  "frequencies": "Counts how often each item occurs.\nUsage: (frequencies coll)",
+  "into": "Adds the items of a collection to an array, Set, Map or object.\nUsage: (into to coll)",
   
   // Module system
   "import": "Imports symbols from modules.\nUsage: (import [symbol1, symbol2] from \"module\")",
@@ -240,6 +259,21 @@ export const specialFormsDocs: Record<string, string[]> = {
     "Syntax: (->> initial-value (op1 args...) (op2 args...))",
     "Threads initial-value as the last argument through each operation."
   ],
+  "as->": [
+    "Threading macro (named position).",
+    "Syntax: (as-> initial-value name (op1 ... name ...) (op2 ... name ...))",
+    "Binds name to the value in each operation, so it can appear in any position."
+  ],
+  "some->": [
+    "Nil-safe threading macro.",
+    "Syntax: (some-> initial-value (op1 args...) (op2 args...))",
+    "Threads like -> but returns nil as soon as the value is nil or undefined."
+  ],
+  "cond->": [
+    "Conditional threading macro.",
+    "Syntax: (cond-> initial-value test1 (op1 args...) test2 (op2 args...))",
+    "Threads like -> through each operation whose test is true, skipping the others."
+  ],
   "module": [
     "Module definition.",
     "Syntax: (module name body...)",